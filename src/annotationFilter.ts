@@ -0,0 +1,174 @@
+import { DocumentReader, InputFormat } from './documentReader.js';
+import { FilterExpression, TermNode, TextRequirement } from './filterExpression.js';
+import { IdList } from './idList.js';
+import { logger } from './logger.js';
+import { DocumentFilter, SourceEntry } from './pipeline.js';
+import { DocumentData } from './types.js';
+
+// Characters kept between chunks when scanning files for required annotations
+const SCAN_OVERLAP = 1024;
+
+// Values that are written the same way in raw XML, JSON and PubTator text
+const PLAIN_VALUE = /^[\x20-\x7e]*$/;
+const ESCAPED_CHARACTERS = /[&<>"\\]/;
+
+/**
+ * Keeps the documents matching a filter expression (see FilterExpression)
+ * and, when given, whose ID is on the ID list. Without either every
+ * document passes.
+ */
+export class AnnotationFilter implements DocumentFilter {
+  private filter: FilterExpression | null;
+
+  constructor(readonly expression = '', readonly ids: IdList | null = null) {
+    this.filter = expression.trim() !== '' ? FilterExpression.parse(expression) : null;
+  }
+
+  /**
+   * Cheap pre-check on the raw file content, so files that cannot contain a
+   * matching document are never parsed.
+   */
+  async matchesEntry(entry: SourceEntry): Promise<boolean> {
+    // If the filter does not require any annotation, process all files.
+    // Entries that can only be read once go straight to the document filter.
+    // With an ID list every entry is read, so requested IDs the expression
+    // rejects are reported as excluded rather than not found.
+    const requirement = this.filter?.textRequirement() ?? null;
+    const format = DocumentReader.formatFromName(entry.name);
+    if (!requirement || !entry.openRaw || !format || this.ids) {
+      return true;
+    }
+
+    // Terms whose raw form cannot be predicted count as found
+    const terms = [...new Set(this.terms(requirement))];
+    const patterns = new Map(terms.map(term => [term, this.textPatterns(term, format)]));
+    const found = new Set(terms.filter(term => patterns.get(term) === null));
+    if (this.satisfied(requirement, found)) {
+      return true;
+    }
+
+    // Scan the raw content in chunks so large files never have to fit in memory.
+    // The tail of each chunk is carried over so tags split across chunk
+    // boundaries are still matched.
+    const stream = entry.openRaw().setEncoding('utf-8');
+    try {
+      let carry = '';
+      for await (const chunk of stream) {
+        const text = carry + chunk;
+        for (const [term, termPatterns] of patterns) {
+          if (!found.has(term) && termPatterns!.some(pattern => pattern.test(text))) {
+            found.add(term);
+          }
+        }
+        if (this.satisfied(requirement, found)) {
+          return true;
+        }
+        carry = text.slice(-SCAN_OVERLAP);
+      }
+
+      return false;
+    } catch (error) {
+      logger.error(`Error reading file for text validation ${entry.path}: ${(error as Error).message}`);
+      // If we can't read the file for text validation, assume it might have annotations
+      return true;
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  matches(doc: DocumentData): boolean {
+    if (this.ids && !this.ids.includes(doc.id)) {
+      return false;
+    }
+    // If no filter specified, process all documents
+    if (this.filter && !this.filter.matches(doc)) {
+      this.ids?.markExcluded(doc.id!);
+      return false;
+    }
+
+    this.ids?.markFound(doc.id!);
+    return true;
+  }
+
+  /**
+   * Reports the requested IDs that no document matched, apart by why: the
+   * filter expression excluded them, an earlier run loaded them (looked up
+   * with `stored` when entries were passed over), or no input holds them.
+   */
+  async finish(stored?: (documentIds: string[]) => Promise<string[]>): Promise<void> {
+    if (!this.ids) {
+      return;
+    }
+
+    if (stored) {
+      const candidates = this.ids.missing().map(id => IdList.normalize(id)!);
+      (await stored(candidates)).forEach(id => this.ids!.markLoaded(id));
+    }
+
+    const excluded = this.ids.excluded();
+    const loaded = this.ids.loaded();
+    const missing = this.ids.missing();
+    if (excluded.length + loaded.length + missing.length === 0) {
+      logger.info(`All ${this.ids.size} requested IDs were found`);
+      return;
+    }
+    if (excluded.length > 0) {
+      logger.warn(`${excluded.length} of ${this.ids.size} requested IDs were excluded by the filter expression: ${excluded.join(', ')}`);
+    }
+    if (loaded.length > 0) {
+      logger.info(`${loaded.length} of ${this.ids.size} requested IDs were already loaded by an earlier run: ${loaded.join(', ')}`);
+    }
+    if (missing.length > 0) {
+      logger.warn(`${missing.length} of ${this.ids.size} requested IDs were not found in the inputs: ${missing.join(', ')}`);
+    }
+  }
+
+  /** Patterns finding a term in raw text, null when its value may be escaped there */
+  private textPatterns(term: TermNode, format: InputFormat): RegExp[] | null {
+    if (!PLAIN_VALUE.test(term.pattern) || ESCAPED_CHARACTERS.test(term.pattern)) {
+      return null;
+    }
+
+    const keys = term.field === 'any' ? ['type', 'identifier'] : [term.field];
+    return keys.map(key => {
+      if (format === 'xml') {
+        // <infon key="type">Gene</infon>
+        const value = this.valuePattern(term.pattern, key, '<');
+        return new RegExp(`<infon\\s+key=["']${key}["'][^>]*>${value}</infon>`, 'i');
+      }
+      if (format === 'json') {
+        // "type": "Gene", identifiers may also be bare numbers
+        return new RegExp(`"${key}"\\s*:\\s*"?${this.valuePattern(term.pattern, key, '"')}["},\\s]`, 'i');
+      }
+      // PubTator annotation columns: <TAB>Gene<TAB or end of line>
+      return new RegExp(`\\t${this.valuePattern(term.pattern, key, '\\t\\r\\n')}(\\t|\\r?$)`, 'im');
+    });
+  }
+
+  /** The raw form of a value, `stop` are the characters that end it */
+  private valuePattern(pattern: string, key: string, stop: string): string {
+    const value = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+      .join(`[^${stop}]*`);
+    // Identifiers also match on one of their separated parts
+    return key === 'identifier'
+      ? `\\s*(?:[^${stop}]*[;,]\\s*)?${value}\\s*(?:[;,][^${stop}]*)?`
+      : `\\s*${value}\\s*`;
+  }
+
+  private terms(requirement: TextRequirement): TermNode[] {
+    return requirement.kind === 'term' ? [requirement] : requirement.items.flatMap(item => this.terms(item));
+  }
+
+  private satisfied(requirement: TextRequirement, found: Set<TermNode>): boolean {
+    switch (requirement.kind) {
+      case 'term':
+        return found.has(requirement);
+      case 'all':
+        return requirement.items.every(item => this.satisfied(item, found));
+      case 'some':
+        return requirement.items.some(item => this.satisfied(item, found));
+    }
+  }
+}
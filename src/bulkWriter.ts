@@ -0,0 +1,151 @@
+import pg from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createPool } from './prisma.js';
+import { DocumentRows } from './documentRows.js';
+import { DocumentConflictError } from './errors.js';
+import { ConflictStrategy, WriteCounts } from './types.js';
+import { logger } from './logger.js';
+
+type RowKey = Exclude<keyof DocumentRows, 'document'>;
+
+/** Tables in insertion order, parents before children */
+const TABLES: { table: string; rows: RowKey | 'document'; columns: string[] }[] = [
+  { table: 'documents', rows: 'document', columns: ['id', 'documentId', 'collectionId', 'contentHash', 'updatedAt'] },
+  { table: 'document_infons', rows: 'documentInfons', columns: ['id', 'documentId', 'key', 'value'] },
+  { table: 'passages', rows: 'passages', columns: ['id', 'documentId', 'offset', 'text', 'sectionType', 'type', 'updatedAt'] },
+  { table: 'infons', rows: 'passageInfons', columns: ['id', 'passageId', 'key', 'value'] },
+  { table: 'sentences', rows: 'sentences', columns: ['id', 'passageId', 'offset', 'text'] },
+  { table: 'sentence_infons', rows: 'sentenceInfons', columns: ['id', 'sentenceId', 'key', 'value'] },
+  {
+    table: 'annotations',
+    rows: 'annotations',
+    columns: ['id', 'documentId', 'passageId', 'sentenceId', 'annotationId', 'identifier', 'type', 'offset', 'length', 'text'],
+  },
+  { table: 'annotation_infons', rows: 'annotationInfons', columns: ['id', 'annotationId', 'key', 'value'] },
+  { table: 'annotation_locations', rows: 'annotationLocations', columns: ['id', 'annotationId', 'offset', 'length', 'ordinal'] },
+  { table: 'relations', rows: 'relations', columns: ['id', 'documentId', 'passageId', 'relationId', 'type'] },
+  { table: 'relation_infons', rows: 'relationInfons', columns: ['id', 'relationId', 'key', 'value'] },
+  { table: 'relation_nodes', rows: 'relationNodes', columns: ['id', 'relationId', 'refid', 'role', 'annotationId'] },
+];
+
+/**
+ * High-throughput writer that streams the rows of many documents into
+ * PostgreSQL with `COPY FROM STDIN`, one transaction per batch.
+ */
+export class BulkWriter {
+  private pool: pg.Pool;
+
+  constructor(private onConflict: ConflictStrategy = 'skip') {
+    // Merging needs the stored annotations, which COPY cannot look at
+    if (onConflict === 'merge-annotations') {
+      throw new Error('The merge-annotations strategy is not supported in bulk mode');
+    }
+    this.pool = createPool();
+  }
+
+  /** Writes a batch of documents in a single transaction */
+  async write(batch: DocumentRows[]): Promise<WriteCounts> {
+    const counts: WriteCounts = { added: 0, changed: 0, unchanged: 0 };
+    if (batch.length === 0) {
+      return counts;
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // COPY cannot handle conflicts, so documents that already exist are resolved up front
+      const existing = await client.query<{ documentId: string; contentHash: string | null }>(
+        'SELECT "documentId", "contentHash" FROM "documents" WHERE "documentId" = ANY($1)',
+        [batch.map(rows => rows.document.documentId)]
+      );
+      const storedHashes = new Map(existing.rows.map(row => [row.documentId, row.contentHash]));
+
+      // Under replace and update the last copy of a document in the batch wins, otherwise the first one
+      const documents = new Map<string, DocumentRows>();
+      const replaced = new Set<string>();
+      for (const rows of batch) {
+        const docId = rows.document.documentId;
+        const isStored = storedHashes.has(docId);
+        if (isStored || documents.has(docId)) {
+          if (this.onConflict === 'fail') {
+            throw new DocumentConflictError(docId);
+          }
+          if (this.onConflict === 'skip') {
+            logger.warn(`Document ${docId} already exists`);
+            counts.unchanged++;
+            continue;
+          }
+          if (this.onConflict === 'update' && isStored && storedHashes.get(docId) === rows.document.contentHash) {
+            counts.unchanged++;
+            documents.delete(docId);
+            replaced.delete(docId);
+            continue;
+          }
+        }
+        if (isStored) {
+          replaced.add(docId);
+        }
+        documents.set(docId, rows);
+      }
+      const fresh = [...documents.values()];
+
+      if (replaced.size > 0) {
+        // Cascades to every row of the old documents, inside the same transaction as the COPY
+        await client.query('DELETE FROM "documents" WHERE "documentId" = ANY($1)', [[...replaced]]);
+      }
+
+      for (const { table, rows, columns } of TABLES) {
+        const tableRows = fresh.flatMap((documentRows): object | object[] => documentRows[rows]);
+        if (tableRows.length > 0) {
+          await this.copy(client, table, columns, tableRows);
+        }
+      }
+
+      await client.query('COMMIT');
+      counts.changed += replaced.size;
+      counts.added += fresh.length - replaced.size;
+      return counts;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async copy(client: pg.PoolClient, table: string, columns: string[], rows: object[]): Promise<void> {
+    const columnList = columns.map(column => `"${column}"`).join(', ');
+    const stream = client.query(copyFrom(`COPY "${table}" (${columnList}) FROM STDIN`));
+
+    const lines = function* () {
+      for (const row of rows) {
+        const values = row as Record<string, unknown>;
+        yield columns.map(column => BulkWriter.encode(values[column])).join('\t') + '\n';
+      }
+    };
+
+    await pipeline(Readable.from(lines()), stream);
+  }
+
+  /** Encodes a value in the COPY text format */
+  private static encode(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '\\N';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return String(value)
+      .replace(/\\/g, '\\\\')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+  }
+}
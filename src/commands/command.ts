@@ -0,0 +1,63 @@
+import { logger } from '../logger.js';
+
+/** Exit codes shared by every command */
+export const ExitCode = {
+  Success: 0,
+  /** The command could not run, e.g. the database is unreachable or an input cannot be read */
+  Error: 1,
+  /** Invalid arguments or configuration */
+  Usage: 2,
+  /** The command ran, but some inputs failed, were refused or did not verify */
+  Incomplete: 3,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/** Options every command accepts, as declared; handlers also see them camel-cased */
+export interface GlobalArguments {
+  'database-url': string | undefined;
+  'log-level': string;
+  'batch-size': number | undefined;
+}
+
+/**
+ * Wraps a command handler so all commands report errors and set the exit
+ * code the same way. Handlers return the exit code, success by default.
+ */
+export function handler<T>(run: (argv: T) => Promise<ExitCode | void>): (argv: T) => Promise<void> {
+  return async (argv) => {
+    try {
+      process.exitCode = (await run(argv)) ?? ExitCode.Success;
+    } catch (error) {
+      logger.error(`Fatal error: ${(error as Error).message}`);
+      if ((error as Error).stack) {
+        logger.debug((error as Error).stack as string);
+      }
+      process.exitCode = ExitCode.Error;
+    }
+  };
+}
+
+/**
+ * Coerces unset to unset and a number to a number. yargs types the option
+ * after the last signature, so options with a default stay plain numbers.
+ */
+type CountCoercion = {
+  (value: number | undefined): number | undefined;
+  (value: number): number;
+};
+
+/** Coerces a count option, rejecting values that are not whole numbers of at least 1 as a usage error; unset stays unset */
+export function positiveInteger(name: string): CountCoercion {
+  return ((value: number | undefined) => {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`--${name} must be a whole number of at least 1, got ${value}`);
+    }
+    return value;
+  }) as CountCoercion;
+}
+
+/** Splits a comma-separated option into its trimmed, non-empty items */
+export function list(value?: string): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()).filter(item => item !== '') : undefined;
+}
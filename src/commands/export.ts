@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import { Writable } from 'stream';
+import { Argv } from 'yargs';
+import { config } from '../config.js';
+import { DocumentExporter } from '../documentExporter.js';
+import { IdList } from '../idList.js';
+import { logger } from '../logger.js';
+import { prisma } from '../prisma.js';
+import { ExitCode, GlobalArguments, handler } from './command.js';
+
+function builder(yargs: Argv<GlobalArguments>) {
+  return yargs
+    .option('output', {
+      alias: 'o',
+      type: 'string',
+      description: 'File to write the documents to (default: stdout)',
+    })
+    .option('ids', {
+      type: 'string',
+      description: 'File listing the PMIDs or PMCIDs to export, one per line or comma-separated. IDs that are not stored are reported at the end.',
+    })
+    .example('$0 export -o documents.jsonl', 'Export every stored document as BioC JSON, one document per line')
+    .example('$0 export --ids pmids.txt > subset.jsonl', 'Export the listed documents only');
+}
+
+type ExportArguments = Awaited<ReturnType<typeof builder>['argv']>;
+
+async function exportDocuments(argv: ExportArguments): Promise<ExitCode> {
+  const ids = argv.ids ? IdList.fromFile(argv.ids) : null;
+  const output: Writable = argv.output ? fs.createWriteStream(argv.output) : process.stdout;
+
+  await prisma.$connect();
+  try {
+    const count = await new DocumentExporter(prisma).write(output, { ids, batchSize: argv.batchSize ?? config.export.batchSize });
+    logger.info(`Exported ${count} documents${argv.output ? ` to ${argv.output}` : ''}`);
+  } finally {
+    await prisma.$disconnect();
+    if (output !== process.stdout) {
+      await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => error ? reject(error) : resolve()));
+    }
+  }
+
+  const missing = ids?.missing() ?? [];
+  if (missing.length > 0) {
+    logger.warn(`${missing.length} of ${ids!.size} requested IDs are not stored: ${missing.join(', ')}`);
+    return ExitCode.Incomplete;
+  }
+  return ExitCode.Success;
+}
+
+export const exportCommand = {
+  command: 'export',
+  describe: 'Write stored documents as BioC JSON lines that load can read back',
+  builder,
+  handler: handler(exportDocuments),
+};
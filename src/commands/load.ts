@@ -0,0 +1,163 @@
+import { statSync } from 'fs';
+import cliProgress from 'cli-progress';
+import { Argv } from 'yargs';
+import { FileProcessor } from '../fileProcessor.js';
+import { FileSource } from '../fileSource.js';
+import { logger } from '../logger.js';
+import { Manifest, RefusedFile } from '../manifest.js';
+import { Pipeline, PipelineResult } from '../pipeline.js';
+import { ExitCode, GlobalArguments, handler } from './command.js';
+import { createFilter, createLoader, discoveryOptions, filterOptions, toDiscovery, toPipelineOptions, writeOptions } from './options.js';
+
+function builder(yargs: Argv<GlobalArguments>) {
+  const withOptions = writeOptions(filterOptions(discoveryOptions(yargs)))
+    .positional('path', {
+      describe: 'Path to a BioC XML/JSON or PubTator file, archive, or directory containing them',
+      type: 'string',
+    })
+    .option('manifest', {
+      type: 'string',
+      description: 'File listing the files to load, one per line, optionally with their expected SHA-256 and size. Files that do not match are refused.',
+    })
+    .option('stdin', {
+      type: 'boolean',
+      default: false,
+      description: 'Read the manifest from stdin',
+    })
+    .option('dry-run', {
+      type: 'boolean',
+      default: false,
+      description: 'List the files that would be processed with their sizes, without connecting to the database',
+    });
+
+  return withOptions
+    .check((args) => {
+      if ([args.path, args.manifest, args.stdin].filter(Boolean).length !== 1) {
+        throw new Error('Give exactly one of a path, --manifest or --stdin');
+      }
+      return true;
+    })
+    .example('$0 load data/10.BioC.XML', 'Load a single XML file')
+    .example('$0 load data/ -a "Gene,Disease"', 'Load documents containing Gene or Disease annotations')
+    .example('$0 load output/BioCXML --include "**/*.xml" --exclude "9/**" --dry-run', 'List the XML files below output/BioCXML except those in 9/')
+    .example('$0 load data/ --sections TITLE,ABSTRACT,RESULTS', 'Store only titles, abstracts and results')
+    .example('$0 load data/ --ids cohort.txt', 'Load only the articles listed in cohort.txt')
+    .example('$0 load data/ --filter "passage(Gene AND Disease)"', 'Load documents with a gene and a disease in the same passage')
+    .example('$0 load data/ --bulk --batch-size 5000', 'Load a large dump with COPY in batches of 5000 documents')
+    .example('$0 load release-2/ --on-conflict update', 'Rewrite only the documents that changed since an earlier release')
+    .example('$0 load data/ --workers 4', 'Parse four files at a time')
+    .example('$0 load --manifest release.sha256', 'Load the files listed in release.sha256 after verifying their checksums')
+    .example('find data -name "*.xml" | $0 load --stdin', 'Load the files listed on stdin');
+}
+
+type LoadArguments = Awaited<ReturnType<typeof builder>['argv']>;
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+async function load(argv: LoadArguments): Promise<ExitCode> {
+  const manifestPath = argv.stdin ? '-' : argv.manifest;
+
+  logger.info('='.repeat(60));
+  logger.info('PubTator BioC.XML Loader');
+  logger.info('='.repeat(60));
+
+  // Get list of files to process
+  const discovery = toDiscovery(argv);
+  let files: string[];
+  let manifest: Manifest | null = null;
+  let refused: RefusedFile[] = [];
+  if (manifestPath) {
+    // Every file is checked against the manifest before anything is loaded
+    manifest = await Manifest.read(manifestPath);
+    logger.info(`Read ${manifest.entries.length} entries from ${manifestPath === '-' ? 'stdin' : `manifest ${manifest.info.source}`} (SHA-256 ${manifest.info.sha256})`);
+    ({ files, refused } = await manifest.verify(discovery));
+    if (files.length === 0) {
+      throw new Error(`None of the files in manifest ${manifest.info.source} can be loaded`);
+    }
+  } else {
+    files = FileProcessor.getFilesToProcess(argv.path!, discovery);
+  }
+  logger.info(`Found ${files.length} file(s) to process`);
+
+  // The listing is the output of a dry run, so it goes to stdout like the output of stats and export
+  if (argv.dryRun) {
+    let totalBytes = 0;
+    for (const file of files) {
+      const size = statSync(file).size;
+      totalBytes += size;
+      console.log(`${formatBytes(size).padStart(10)}  ${file}`);
+    }
+    console.log(`Dry run: would process ${files.length} file(s), ${formatBytes(totalBytes)} (${totalBytes} bytes)`);
+    if (refused.length > 0) {
+      logger.warn(`${refused.length} file(s) refused by manifest verification`);
+      return ExitCode.Incomplete;
+    }
+    return ExitCode.Success;
+  }
+
+  // Files are parsed, filtered by annotation and written to the database as they stream in
+  const source = new FileSource(files);
+  const filter = createFilter(argv);
+  const loader = createLoader(argv, filter, manifest?.info);
+
+  // Connect to database
+  await loader.connect();
+
+  const progressBar = new cliProgress.SingleBar({
+    clearOnComplete: false,
+    hideCursor: true,
+    format: 'Files [{bar}] {percentage}% | {value}/{total} | {documents} docs written | {name}',
+    barCompleteChar: '\u2588',
+    barIncompleteChar: '\u2591',
+  }, cliProgress.Presets.shades_classic);
+  progressBar.start(files.length, 0, { name: 'Starting...', documents: 0 });
+
+  const pipeline = new Pipeline(source, filter, loader, {
+    ...toPipelineOptions(argv),
+    onProgress: (progress) => progressBar.update(progress.inputs, { name: progress.input, documents: progress.documents }),
+  });
+
+  let result: PipelineResult;
+  try {
+    result = await pipeline.run();
+  } finally {
+    progressBar.stop();
+    // Disconnect from database
+    await loader.disconnect();
+  }
+
+  if (result.documents === 0) {
+    logger.warn('No valid documents found in any files');
+  }
+
+  const { added, changed, unchanged } = result.counts;
+  logger.info('\n' + '='.repeat(60));
+  logger.info(`Processing complete! Inserted ${added + changed}/${result.documents} document(s) from ${files.length} file(s) ` +
+    `(${added} added, ${changed} changed, ${unchanged} unchanged)`);
+  if (result.failed.length > 0) {
+    logger.warn(`${result.failed.length} input(s) could not be loaded completely: ${result.failed.join(', ')}`);
+  }
+  if (refused.length > 0) {
+    logger.warn(`${refused.length} file(s) were refused by manifest verification: ${refused.map(file => file.path).join(', ')}`);
+  }
+  logger.info('='.repeat(60));
+
+  return result.failed.length > 0 || refused.length > 0 ? ExitCode.Incomplete : ExitCode.Success;
+}
+
+export const loadCommand = {
+  // Also the default command, so `pubtator-loader data/` keeps working
+  command: ['load [path]', '$0 [path]'],
+  describe: 'Load BioC XML/JSON or PubTator files into the database',
+  builder,
+  handler: handler(load),
+};
@@ -0,0 +1,51 @@
+import { Argv } from 'yargs';
+import { config } from '../config.js';
+import { DiseaseLoader } from '../diseaseLoader.js';
+import { FileProcessor } from '../fileProcessor.js';
+import { logger } from '../logger.js';
+import { prisma } from '../prisma.js';
+import { ExitCode, GlobalArguments, handler, positiveInteger } from './command.js';
+
+function builder(yargs: Argv<GlobalArguments>) {
+  return yargs
+    .positional('file', {
+      describe: 'The disease2pubtator3 file of PubTator3 (tab-separated PMID, type, MeSH ID, mention)',
+      type: 'string',
+      demandOption: true,
+    })
+    .option('concurrency', {
+      type: 'number',
+      default: config.entities.concurrency,
+      coerce: positiveInteger('concurrency'),
+      description: 'Inserts running at the same time',
+    })
+    .example('$0 load-entities /data/disease2pubtator3', 'Replace the diseases table with the mentions in disease2pubtator3');
+}
+
+type LoadEntitiesArguments = Awaited<ReturnType<typeof builder>['argv']>;
+
+async function loadEntities(argv: LoadEntitiesArguments): Promise<ExitCode> {
+  if (!FileProcessor.isFile(argv.file)) {
+    throw new Error(`Path does not exist or is not a file: ${argv.file}`);
+  }
+
+  await prisma.$connect();
+  logger.info('Connected to database');
+  try {
+    const failedBatches = await new DiseaseLoader({
+      batchSize: argv.batchSize ?? config.entities.batchSize,
+      concurrency: argv.concurrency,
+    }).loadDiseaseFile(argv.file);
+    return failedBatches > 0 ? ExitCode.Incomplete : ExitCode.Success;
+  } finally {
+    await prisma.$disconnect();
+    logger.info('Disconnected from database');
+  }
+}
+
+export const loadEntitiesCommand = {
+  command: 'load-entities <file>',
+  describe: 'Load PubTator3 disease mentions and their MeSH IDs into the diseases table',
+  builder,
+  handler: handler(loadEntities),
+};
@@ -0,0 +1,211 @@
+import { Argv } from 'yargs';
+import { AnnotationFilter } from '../annotationFilter.js';
+import { config } from '../config.js';
+import { DatabaseLoader } from '../databaseLoader.js';
+import { DiscoveryOptions } from '../fileProcessor.js';
+import { FilterExpression } from '../filterExpression.js';
+import { IdList } from '../idList.js';
+import { logger } from '../logger.js';
+import { ManifestInfo } from '../manifest.js';
+import { PassagePruner, PassageSelection } from '../passagePruner.js';
+import { PipelineOptions } from '../pipeline.js';
+import { ConflictStrategy } from '../types.js';
+import { list, positiveInteger } from './command.js';
+
+/** Which files of a directory are loaded */
+export function discoveryOptions<T>(yargs: Argv<T>) {
+  return yargs
+    .option('recursive', {
+      type: 'boolean',
+      default: true,
+      description: 'Search subdirectories of a directory path. Use --no-recursive for the top level only.',
+    })
+    .option('include', {
+      type: 'string',
+      array: true,
+      description: 'Glob pattern of the files to load from a directory (e.g., "**/*.BioC.XML.gz"); repeat for several. Replaces the default of all supported extensions.',
+    })
+    .option('exclude', {
+      type: 'string',
+      array: true,
+      description: 'Glob pattern of files or directories to leave out (e.g., "*.tmp" or "old/**"); repeat for several',
+    })
+    .option('follow-symlinks', {
+      type: 'boolean',
+      default: true,
+      description: 'Follow symlinks to files and directories. Links back into an already visited directory are skipped.',
+    });
+}
+
+/** Which documents, and which of their passages, are loaded; the defaults come from the filters of the config file */
+export function filterOptions<T>(yargs: Argv<T>) {
+  const { filters } = config;
+  return yargs
+    .option('annotations', {
+      alias: 'a',
+      type: 'string',
+      default: filters.annotations?.join(','),
+      description: 'Comma-separated list of required annotation types (e.g., "Gene,Disease"). Only documents with at least one of these annotations will be loaded.',
+    })
+    .option('filter', {
+      type: 'string',
+      default: filters.filter,
+      description: 'Annotation filter expression, e.g. "Gene AND NOT id:MESH:D0*", "Disease>=3", "passage(Gene AND Disease)" or "section(abstract, Chemical)". Combined with --annotations when both are given.',
+    })
+    .option('ids', {
+      type: 'string',
+      default: filters.ids,
+      description: 'File listing the PMIDs or PMCIDs to load, one per line or comma-separated. PMCIDs and PMIDs only match documents with that same ID; requested IDs that were never found are reported at the end.',
+    })
+    .option('sections', {
+      type: 'string',
+      default: filters.sections?.join(','),
+      description: 'Comma-separated passage section types to keep (e.g., "TITLE,ABSTRACT,RESULTS"). Other passages and their annotations are not stored.',
+    })
+    .option('exclude-sections', {
+      type: 'string',
+      default: filters.excludeSections?.join(','),
+      description: 'Comma-separated passage section types to drop (e.g., "REF,ACK_FUND")',
+    })
+    .option('types', {
+      type: 'string',
+      default: filters.types?.join(','),
+      description: 'Comma-separated passage types to keep (e.g., "title,abstract,paragraph")',
+    })
+    .option('exclude-types', {
+      type: 'string',
+      default: filters.excludeTypes?.join(','),
+      description: 'Comma-separated passage types to drop (e.g., "ref,table_footnote")',
+    })
+    // A malformed expression is a usage error, reported before anything is read
+    .check((args) => {
+      if (args.filter) {
+        try {
+          FilterExpression.parse(args.filter);
+        } catch (error) {
+          throw new Error(`Invalid --filter: ${(error as Error).message}`);
+        }
+      }
+      return true;
+    });
+}
+
+/** How documents are written to the database */
+export function writeOptions<T>(yargs: Argv<T>) {
+  return yargs
+    .option('bulk', {
+      type: 'boolean',
+      default: false,
+      description: 'Stream rows into PostgreSQL with COPY instead of per-document inserts. Much faster for large loads.',
+    })
+    .option('resume', {
+      type: 'boolean',
+      default: true,
+      description: 'Skip files loaded by earlier runs and continue interrupted ones from their checkpoint. Use --no-resume to reload everything.',
+    })
+    .option('on-conflict', {
+      choices: ['skip', 'replace', 'update', 'merge-annotations', 'fail'] as const,
+      default: 'skip' as const,
+      description: 'What to do with documents that are already in the database: keep them, replace them, replace them only when their content changed, add their missing annotations, or stop the load',
+    })
+    .option('workers', {
+      type: 'number',
+      default: config.load.workers,
+      coerce: positiveInteger('workers'),
+      description: 'Number of worker threads parsing files in parallel',
+    })
+    .option('writers', {
+      type: 'number',
+      default: config.load.writers,
+      coerce: positiveInteger('writers'),
+      description: 'Number of batches written to the database at the same time (default: the number of workers)',
+    })
+    .check((args) => {
+      // Merging reads the stored annotations, which COPY cannot do
+      if (args.bulk && args.onConflict === 'merge-annotations') {
+        throw new Error('--on-conflict merge-annotations cannot be combined with --bulk');
+      }
+      return true;
+    });
+}
+
+type DiscoveryArguments = Awaited<ReturnType<typeof discoveryOptions>['argv']>;
+type FilterArguments = Awaited<ReturnType<typeof filterOptions>['argv']>;
+type WriteArguments = Awaited<ReturnType<typeof writeOptions>['argv']>;
+
+export function toDiscovery(argv: DiscoveryArguments): DiscoveryOptions {
+  return {
+    recursive: argv.recursive,
+    include: argv.include,
+    exclude: argv.exclude,
+    followSymlinks: argv.followSymlinks,
+  };
+}
+
+/** The document filter combining --annotations, --filter and --ids */
+export function createFilter(argv: FilterArguments): AnnotationFilter {
+  const requiredAnnotations = list(argv.annotations) ?? [];
+  if (requiredAnnotations.length > 0) {
+    logger.info(`Filtering by annotations: ${requiredAnnotations.join(', ')}`);
+  }
+  if (argv.filter) {
+    logger.info(`Filtering by expression: ${argv.filter}`);
+  }
+
+  const ids = argv.ids ? IdList.fromFile(argv.ids) : null;
+  if (ids) {
+    logger.info(`Filtering by ${ids.size} IDs from ${argv.ids}`);
+  }
+  return new AnnotationFilter(FilterExpression.allOf([
+    FilterExpression.anyOf(requiredAnnotations),
+    argv.filter ?? '',
+  ]), ids);
+}
+
+export function toPipelineOptions(argv: FilterArguments & WriteArguments & { batchSize?: number }): PipelineOptions {
+  return {
+    batchSize: argv.batchSize ?? config.load.batchSize,
+    workers: argv.workers,
+    writers: argv.writers,
+    passages: toPassageSelection(argv),
+  };
+}
+
+function toPassageSelection(argv: FilterArguments): PassageSelection {
+  return {
+    sections: list(argv.sections),
+    excludeSections: list(argv.excludeSections),
+    types: list(argv.types),
+    excludeTypes: list(argv.excludeTypes),
+  };
+}
+
+/**
+ * The filter and passage selection of a load as one string, so that a rerun
+ * selecting differently can tell. Null when every document and passage is kept.
+ */
+function describeSelection(filter: AnnotationFilter, passages: PassageSelection): string | null {
+  const values = (items?: string[]) => items?.length ? [...new Set(items.map(item => item.toLowerCase()))].sort() : undefined;
+  const selection = {
+    filter: filter.expression.trim() || undefined,
+    ids: filter.ids?.digest(),
+    passages: PassagePruner.isEmpty(passages) ? undefined : {
+      sections: values(passages.sections),
+      excludeSections: values(passages.excludeSections),
+      types: values(passages.types),
+      excludeTypes: values(passages.excludeTypes),
+    },
+  };
+  return Object.values(selection).some(value => value !== undefined) ? JSON.stringify(selection) : null;
+}
+
+/** The database sink, recording the selection of `filter` and the passage options with every file */
+export function createLoader(argv: FilterArguments & WriteArguments, filter: AnnotationFilter, manifest?: ManifestInfo): DatabaseLoader {
+  return new DatabaseLoader({
+    bulk: argv.bulk,
+    resume: argv.resume,
+    onConflict: argv.onConflict as ConflictStrategy,
+    manifest,
+    selection: describeSelection(filter, toPassageSelection(argv)),
+  });
+}
@@ -0,0 +1,137 @@
+import { resolve } from 'path';
+import { Argv } from 'yargs';
+import { Prisma } from '../generated/prisma/client.js';
+import { IdList } from '../idList.js';
+import { logger } from '../logger.js';
+import { prisma } from '../prisma.js';
+import { ExitCode, GlobalArguments, handler } from './command.js';
+
+// Values per `IN (...)` list, well below the bind parameter limit of PostgreSQL
+const CHUNK_SIZE = 10000;
+
+function builder(yargs: Argv<GlobalArguments>) {
+  return yargs
+    .option('ids', {
+      type: 'string',
+      description: 'File listing the PMIDs or PMCIDs of documents to delete, one per line or comma-separated',
+    })
+    .option('source', {
+      type: 'string',
+      array: true,
+      description: 'Delete the documents loaded from this file, archive or directory, and forget it was loaded so it can be loaded again; repeat for several',
+    })
+    .option('runs', {
+      type: 'boolean',
+      default: false,
+      description: 'Delete the history of ingestion runs. Files are loaded again by the next load.',
+    })
+    .option('entities', {
+      type: 'boolean',
+      default: false,
+      description: 'Empty the diseases table',
+    })
+    .option('all', {
+      type: 'boolean',
+      default: false,
+      description: 'Delete all documents, ingestion runs and diseases',
+    })
+    .option('yes', {
+      alias: 'y',
+      type: 'boolean',
+      default: false,
+      description: 'Delete without asking; otherwise only the rows that would be deleted are counted',
+    })
+    .check((args) => {
+      if (!args.ids && !args.source && !args.runs && !args.entities && !args.all) {
+        throw new Error('Give at least one of --ids, --source, --runs, --entities or --all');
+      }
+      return true;
+    })
+    .example('$0 purge --ids retracted.txt', 'Count the listed documents that would be deleted')
+    .example('$0 purge --ids retracted.txt --yes', 'Delete the listed documents')
+    .example('$0 purge --source data/2024-01/ --yes', 'Delete everything loaded from data/2024-01/ so it can be loaded again');
+}
+
+type PurgeArguments = Awaited<ReturnType<typeof builder>['argv']>;
+
+/** Paths as loaded are given relative or absolute, so both forms are matched */
+function pathConditions(sources: string[]): { path: string; prefix: string }[] {
+  return sources.flatMap(source => [...new Set([source, resolve(source)])])
+    .map(path => path.replace(/\/+$/, ''))
+    .map(path => ({ path, prefix: `${path}/` }));
+}
+
+async function purge(argv: PurgeArguments): Promise<ExitCode> {
+  const ids = argv.ids ? IdList.fromFile(argv.ids) : null;
+  const sources = pathConditions(argv.source ?? []);
+  const mode = argv.yes ? 'Deleted' : 'Would delete';
+
+  // Documents cascade to their passages, sentences, annotations and relations
+  const documentWheres: Prisma.DocumentWhereInput[] = [];
+  if (argv.all) {
+    documentWheres.push({});
+  } else {
+    const storedForms = ids?.storedForms() ?? [];
+    for (let start = 0; start < storedForms.length; start += CHUNK_SIZE) {
+      documentWheres.push({ documentId: { in: storedForms.slice(start, start + CHUNK_SIZE) } });
+    }
+    if (sources.length > 0) {
+      documentWheres.push({
+        collection: {
+          OR: sources.flatMap(({ path, prefix }) => [{ sourcePath: path }, { sourcePath: { startsWith: prefix } }]),
+        },
+      });
+    }
+  }
+  const fileWhere: Prisma.IngestedFileWhereInput = {
+    OR: sources.flatMap(({ path, prefix }) => [{ path }, { path: { startsWith: prefix } }]),
+  };
+
+  await prisma.$connect();
+  try {
+    let documents = 0;
+    for (const where of documentWheres) {
+      documents += argv.yes
+        ? (await prisma.document.deleteMany({ where })).count
+        : await prisma.document.count({ where });
+    }
+    if (documentWheres.length > 0) {
+      logger.info(`${mode} ${documents} document(s)`);
+    }
+
+    if (argv.yes && documentWheres.length > 0) {
+      const collections = await prisma.collection.deleteMany({ where: { documents: { none: {} } } });
+      logger.info(`Deleted ${collections.count} empty collection(s)`);
+    }
+
+    if (argv.runs || argv.all) {
+      // Files cascade with their runs
+      const runs = argv.yes ? (await prisma.ingestionRun.deleteMany()).count : await prisma.ingestionRun.count();
+      logger.info(`${mode} ${runs} ingestion run(s)`);
+    } else if (sources.length > 0) {
+      const files = argv.yes
+        ? (await prisma.ingestedFile.deleteMany({ where: fileWhere })).count
+        : await prisma.ingestedFile.count({ where: fileWhere });
+      logger.info(`${mode} ${files} ingested file record(s)`);
+    }
+
+    if (argv.entities || argv.all) {
+      const diseases = argv.yes ? (await prisma.disease.deleteMany()).count : await prisma.disease.count();
+      logger.info(`${mode} ${diseases} disease(s)`);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+
+  if (!argv.yes) {
+    logger.warn('Nothing was deleted, run again with --yes to delete');
+  }
+  return ExitCode.Success;
+}
+
+export const purgeCommand = {
+  command: 'purge',
+  describe: 'Delete documents by ID or source, ingestion history or diseases',
+  builder,
+  handler: handler(purge),
+};
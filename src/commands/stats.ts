@@ -0,0 +1,99 @@
+import { Argv } from 'yargs';
+import { prisma } from '../prisma.js';
+import { GlobalArguments, handler, positiveInteger } from './command.js';
+
+function builder(yargs: Argv<GlobalArguments>) {
+  return yargs
+    .option('json', {
+      type: 'boolean',
+      default: false,
+      description: 'Print the statistics as JSON',
+    })
+    .option('runs', {
+      type: 'number',
+      default: 5,
+      coerce: positiveInteger('runs'),
+      description: 'Number of recent ingestion runs to show',
+    })
+    .option('top', {
+      type: 'number',
+      default: 10,
+      coerce: positiveInteger('top'),
+      description: 'Number of annotation types to show',
+    });
+}
+
+type StatsArguments = Awaited<ReturnType<typeof builder>['argv']>;
+
+async function stats(argv: StatsArguments): Promise<void> {
+  await prisma.$connect();
+  try {
+    const [collections, documents, passages, sentences, annotations, relations, diseases] = await Promise.all([
+      prisma.collection.count(),
+      prisma.document.count(),
+      prisma.passage.count(),
+      prisma.sentence.count(),
+      prisma.annotation.count(),
+      prisma.relation.count(),
+      prisma.disease.count(),
+    ]);
+    const annotationTypes = await prisma.annotation.groupBy({
+      by: ['type'],
+      _count: { _all: true },
+      orderBy: { _count: { type: 'desc' } },
+      take: argv.top,
+    });
+    const runs = await prisma.ingestionRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: argv.runs,
+      include: { _count: { select: { files: true } } },
+    });
+
+    const result = {
+      counts: { collections, documents, passages, sentences, annotations, relations, diseases },
+      annotationTypes: annotationTypes.map(group => ({ type: group.type, count: group._count._all })),
+      runs: runs.map(run => ({
+        id: run.id,
+        status: run.status,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        files: run._count.files,
+        documentsFound: run.documentsFound,
+        documentsInserted: run.documentsInserted,
+        manifestPath: run.manifestPath,
+      })),
+    };
+
+    if (argv.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    console.log('Stored rows:');
+    for (const [table, count] of Object.entries(result.counts)) {
+      console.log(`  ${table.padEnd(12)} ${count.toLocaleString()}`);
+    }
+    if (result.annotationTypes.length > 0) {
+      console.log('\nAnnotation types:');
+      for (const { type, count } of result.annotationTypes) {
+        console.log(`  ${(type ?? '(none)').padEnd(12)} ${count.toLocaleString()}`);
+      }
+    }
+    if (result.runs.length > 0) {
+      console.log('\nRecent ingestion runs:');
+      for (const run of result.runs) {
+        const manifest = run.manifestPath ? `, manifest ${run.manifestPath}` : '';
+        console.log(`  ${run.startedAt.toISOString()}  ${run.status.padEnd(9)} ${run.files} files, ${run.documentsInserted}/${run.documentsFound} documents inserted${manifest}`);
+      }
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+export const statsCommand = {
+  command: 'stats',
+  describe: 'Show row counts, the most frequent annotation types and recent ingestion runs',
+  builder,
+  handler: handler(stats),
+};
@@ -0,0 +1,127 @@
+import { statSync } from 'fs';
+import { Argv } from 'yargs';
+import { FileProcessor } from '../fileProcessor.js';
+import { logger } from '../logger.js';
+import { Manifest } from '../manifest.js';
+import { prisma } from '../prisma.js';
+import { ExitCode, GlobalArguments, handler } from './command.js';
+import { discoveryOptions, toDiscovery } from './options.js';
+
+function builder(yargs: Argv<GlobalArguments>) {
+  return discoveryOptions(yargs)
+    .positional('path', {
+      describe: 'File, archive or directory that should have been loaded',
+      type: 'string',
+    })
+    .option('manifest', {
+      type: 'string',
+      description: 'Manifest listing the files that should have been loaded; their checksums are verified first',
+    })
+    .option('stdin', {
+      type: 'boolean',
+      default: false,
+      description: 'Read the manifest from stdin',
+    })
+    .check((args) => {
+      if ([args.path, args.manifest, args.stdin].filter(Boolean).length !== 1) {
+        throw new Error('Give exactly one of a path, --manifest or --stdin');
+      }
+      return true;
+    })
+    .example('$0 verify data/', 'Check that every file below data/ was loaded completely and has not changed since')
+    .example('$0 verify --manifest release.sha256', 'Check the files of release.sha256 against their checksums and the database');
+}
+
+type VerifyArguments = Awaited<ReturnType<typeof builder>['argv']>;
+
+/** Why the file does not match what the database holds, null when it was loaded completely */
+async function check(file: string): Promise<string | null> {
+  const records = await prisma.ingestedFile.findMany({
+    where: { OR: [{ path: file }, { path: { startsWith: `${file}/` } }] },
+    orderBy: { updatedAt: 'desc' },
+  });
+  if (records.length === 0) {
+    return 'never loaded';
+  }
+
+  // Only the latest record of each path (tarball members have one each) counts
+  const latest = new Map<string, (typeof records)[number]>();
+  for (const record of records) {
+    if (!latest.has(record.path)) {
+      latest.set(record.path, record);
+    }
+  }
+
+  const incomplete = [...latest.values()].filter(record => record.status !== 'completed');
+  if (incomplete.length > 0) {
+    const record = incomplete[0];
+    return `${record.path === file ? 'last load' : `member ${record.path.slice(file.length + 1)}`} ${record.status}${record.error ? ` (${record.error})` : ''}`;
+  }
+
+  const own = latest.get(file);
+  if (own) {
+    const size = statSync(file).size;
+    if (own.size !== null && own.size !== BigInt(size)) {
+      return `size is ${size} bytes, ${own.size} when loaded`;
+    }
+    if (!own.hash) {
+      return 'cannot be checked, no checksum was recorded when it was loaded';
+    }
+    return own.hash !== await FileProcessor.sha256(file) ? 'content changed since it was loaded' : null;
+  }
+
+  // Tarballs are recorded through their members, which carry the hash of the
+  // archive they were read from; the most recently loaded member tells which
+  // version of the archive the database holds.
+  const archiveHash = records[0].archiveHash;
+  if (!archiveHash) {
+    return 'cannot be checked, no checksum of the archive was recorded when its members were loaded';
+  }
+  return archiveHash !== await FileProcessor.sha256(file) ? 'content changed since it was loaded' : null;
+}
+
+async function verify(argv: VerifyArguments): Promise<ExitCode> {
+  const manifestPath = argv.stdin ? '-' : argv.manifest;
+  const discovery = toDiscovery(argv);
+
+  let files: string[];
+  let problems = 0;
+  if (manifestPath) {
+    const manifest = await Manifest.read(manifestPath);
+    const verified = await manifest.verify(discovery);
+    files = verified.files;
+    problems += verified.refused.length;
+  } else {
+    files = FileProcessor.getFilesToProcess(argv.path!, discovery);
+  }
+  logger.info(`Verifying ${files.length} file(s) against the database`);
+
+  await prisma.$connect();
+  try {
+    for (const file of files) {
+      const reason = await check(file);
+      if (reason) {
+        logger.error(`${file}: ${reason}`);
+        problems++;
+      } else {
+        logger.debug(`${file}: loaded`);
+      }
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+
+  if (problems > 0) {
+    logger.warn(`${problems} file(s) did not verify`);
+    return ExitCode.Incomplete;
+  }
+  logger.info(`All ${files.length} file(s) were loaded completely`);
+  return ExitCode.Success;
+}
+
+export const verifyCommand = {
+  command: 'verify [path]',
+  describe: 'Check that files were loaded completely and have not changed since',
+  builder,
+  handler: handler(verify),
+};
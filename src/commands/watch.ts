@@ -0,0 +1,82 @@
+import { Argv } from 'yargs';
+import { FileProcessor } from '../fileProcessor.js';
+import { FolderWatcher } from '../folderWatcher.js';
+import { logger } from '../logger.js';
+import { ExitCode, GlobalArguments, handler, positiveInteger } from './command.js';
+import { createFilter, createLoader, discoveryOptions, filterOptions, toDiscovery, toPipelineOptions, writeOptions } from './options.js';
+
+function builder(yargs: Argv<GlobalArguments>) {
+  return writeOptions(filterOptions(discoveryOptions(yargs)))
+    .positional('directory', {
+      describe: 'Directory to watch; loaded files are moved to its processed/ or failed/ subfolder',
+      type: 'string',
+      demandOption: true,
+    })
+    .option('interval', {
+      type: 'number',
+      default: 5,
+      coerce: positiveInteger('interval'),
+      description: 'Seconds between scans of the directory',
+    })
+    .option('settle', {
+      type: 'number',
+      default: 30,
+      coerce: positiveInteger('settle'),
+      description: 'Seconds a file has to keep the same size before it is loaded',
+    })
+    .option('markers', {
+      type: 'boolean',
+      default: false,
+      description: 'Load a file only once a <file>.done marker exists, instead of waiting for it to settle',
+    })
+    .example('$0 watch /shared/incoming --markers', 'Load files from /shared/incoming once their .done marker appears');
+}
+
+type WatchArguments = Awaited<ReturnType<typeof builder>['argv']>;
+
+/** Runs a folder watcher until SIGINT or SIGTERM; a second signal exits without finishing the current file */
+async function watch(argv: WatchArguments): Promise<ExitCode> {
+  if (!FileProcessor.isDirectory(argv.directory)) {
+    throw new Error(`Not a directory: ${argv.directory}`);
+  }
+
+  const filter = createFilter(argv);
+  const loader = createLoader(argv, filter);
+  const watcher = new FolderWatcher(argv.directory, filter, loader, {
+    interval: argv.interval * 1000,
+    settle: argv.settle * 1000,
+    markers: argv.markers,
+    discovery: toDiscovery(argv),
+    pipeline: toPipelineOptions(argv),
+  });
+
+  let signalled = false;
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (signalled) {
+      logger.warn(`Received ${signal} again, exiting without finishing the current file`);
+      process.exit(ExitCode.Error);
+    }
+    signalled = true;
+    logger.info(`Received ${signal}, stopping after the current file`);
+    watcher.stop();
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  await loader.connect();
+  try {
+    await watcher.run();
+  } finally {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+    await loader.disconnect();
+  }
+  return ExitCode.Success;
+}
+
+export const watchCommand = {
+  command: 'watch <directory>',
+  describe: 'Load files as they are dropped into a directory, until interrupted',
+  builder,
+  handler: handler(watch),
+};
@@ -0,0 +1,279 @@
+import 'dotenv/config';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import YAML from 'yaml';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+export interface SslConfig {
+  /** Connect with TLS; the connection string's sslmode applies when false */
+  enabled: boolean;
+  /** Refuse servers whose certificate does not verify */
+  rejectUnauthorized: boolean;
+  /** PEM file of the CA certificates the server is checked against */
+  ca?: string;
+}
+
+export interface DatabaseConfig {
+  /** PostgreSQL connection string */
+  url?: string;
+  ssl: SslConfig;
+}
+
+export interface LogConfig {
+  level: LogLevel;
+  /** File the log is written to as well, without colors */
+  file?: string;
+}
+
+export interface LoaderConfig {
+  database: DatabaseConfig;
+  load: {
+    /** Documents per transaction, default 1000 with bulk loading and 1 otherwise */
+    batchSize?: number;
+    workers: number;
+    /** Batches written at the same time, default the number of workers */
+    writers?: number;
+  };
+  entities: {
+    /** Rows per insert */
+    batchSize: number;
+    /** Inserts running at the same time */
+    concurrency: number;
+  };
+  export: {
+    /** Documents per query */
+    batchSize: number;
+  };
+  /** Defaults of the document and passage filters of load and watch */
+  filters: {
+    annotations?: string[];
+    filter?: string;
+    ids?: string;
+    sections?: string[];
+    excludeSections?: string[];
+    types?: string[];
+    excludeTypes?: string[];
+  };
+  log: LogConfig;
+}
+
+/** Names looked up in the working directory when no config file is given */
+export const CONFIG_FILES = ['pubtator-loader.config.json', 'pubtator-loader.config.yaml', 'pubtator-loader.config.yml'];
+
+export const DEFAULT_CONFIG: LoaderConfig = {
+  database: { ssl: { enabled: true, rejectUnauthorized: false } },
+  load: { workers: 1 },
+  entities: { batchSize: 1000, concurrency: 10 },
+  export: { batchSize: 100 },
+  filters: {},
+  log: { level: 'info' },
+};
+
+/**
+ * A setting of the config file. `path` and `file` values are resolved
+ * against the directory of the config file, `file` must exist. `env` names
+ * the environment variable overriding the setting.
+ */
+type Setting =
+  | { type: 'string' | 'path' | 'file' | 'boolean' | 'list'; env?: string }
+  | { type: 'integer'; min: number; env?: string }
+  | { type: 'choice'; values: readonly string[]; env?: string };
+
+interface Section {
+  [key: string]: Setting | Section;
+}
+
+const SCHEMA: Section = {
+  database: {
+    url: { type: 'string', env: 'DATABASE_URL' },
+    ssl: {
+      enabled: { type: 'boolean', env: 'PUBTATOR_SSL' },
+      rejectUnauthorized: { type: 'boolean', env: 'PUBTATOR_SSL_REJECT_UNAUTHORIZED' },
+      ca: { type: 'file', env: 'PUBTATOR_SSL_CA' },
+    },
+  },
+  load: {
+    batchSize: { type: 'integer', min: 1, env: 'PUBTATOR_BATCH_SIZE' },
+    workers: { type: 'integer', min: 1, env: 'PUBTATOR_WORKERS' },
+    writers: { type: 'integer', min: 1, env: 'PUBTATOR_WRITERS' },
+  },
+  entities: {
+    batchSize: { type: 'integer', min: 1, env: 'PUBTATOR_ENTITY_BATCH_SIZE' },
+    concurrency: { type: 'integer', min: 1, env: 'PUBTATOR_ENTITY_CONCURRENCY' },
+  },
+  export: {
+    batchSize: { type: 'integer', min: 1, env: 'PUBTATOR_EXPORT_BATCH_SIZE' },
+  },
+  filters: {
+    annotations: { type: 'list', env: 'PUBTATOR_ANNOTATIONS' },
+    filter: { type: 'string', env: 'PUBTATOR_FILTER' },
+    ids: { type: 'file', env: 'PUBTATOR_IDS' },
+    sections: { type: 'list', env: 'PUBTATOR_SECTIONS' },
+    excludeSections: { type: 'list', env: 'PUBTATOR_EXCLUDE_SECTIONS' },
+    types: { type: 'list', env: 'PUBTATOR_TYPES' },
+    excludeTypes: { type: 'list', env: 'PUBTATOR_EXCLUDE_TYPES' },
+  },
+  log: {
+    level: { type: 'choice', values: LOG_LEVELS, env: 'PUBTATOR_LOG_LEVEL' },
+    file: { type: 'path', env: 'PUBTATOR_LOG_FILE' },
+  },
+};
+
+/** The configuration in effect, set by loadConfig */
+export let config: LoaderConfig = DEFAULT_CONFIG;
+
+/**
+ * Reads the configuration. Settings are taken, from lowest to highest
+ * precedence, from the defaults, the config file, and the environment
+ * (including `.env`); command line options override all of them.
+ *
+ * The config file is the given path, else the one named by
+ * `PUBTATOR_LOADER_CONFIG`, else the first of CONFIG_FILES found in the
+ * working directory. Invalid settings are reported all at once.
+ */
+export function loadConfig(path?: string, env: NodeJS.ProcessEnv = process.env): LoaderConfig {
+  const fileErrors: string[] = [];
+  const envErrors: string[] = [];
+  const file = findConfigFile(path ?? env.PUBTATOR_LOADER_CONFIG);
+
+  let fromFile: Record<string, unknown> = {};
+  if (file) {
+    const text = readFileSync(file, 'utf-8');
+    let content: unknown;
+    try {
+      content = extname(file).toLowerCase() === '.json' ? JSON.parse(text) : YAML.parse(text);
+    } catch (error) {
+      throw new Error(`Cannot parse config file ${file}: ${(error as Error).message}`);
+    }
+    // An empty YAML file holds no settings
+    fromFile = content === null || content === undefined ? {} : readSection(content, SCHEMA, '', dirname(file), fileErrors);
+  }
+  const fromEnv = readEnvironment(SCHEMA, env, envErrors);
+
+  const errors = [...fileErrors.map(error => `${file}: ${error}`), ...envErrors];
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+  }
+  const defaults = structuredClone(DEFAULT_CONFIG) as unknown as Record<string, unknown>;
+  config = merge(merge(defaults, fromFile), fromEnv) as unknown as LoaderConfig;
+  return config;
+}
+
+function findConfigFile(path?: string): string | null {
+  if (path) {
+    if (!existsSync(path)) {
+      throw new Error(`Config file does not exist: ${path}`);
+    }
+    return resolve(path);
+  }
+  const found = CONFIG_FILES.map(name => resolve(name)).find(candidate => existsSync(candidate));
+  return found ?? null;
+}
+
+function isSetting(node: Setting | Section): node is Setting {
+  return typeof node.type === 'string';
+}
+
+function readSection(value: unknown, schema: Section, at: string, baseDir: string, errors: string[]): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${at || 'the config file'}: expected an object`);
+    return {};
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    const name = at ? `${at}.${key}` : key;
+    const node = schema[key];
+    if (!node) {
+      errors.push(`${name}: unknown setting, expected one of ${Object.keys(schema).join(', ')}`);
+    } else if (isSetting(node)) {
+      const parsed = readSetting(node, raw, name, baseDir, errors);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    } else {
+      result[key] = readSection(raw, node, name, baseDir, errors);
+    }
+  }
+  return result;
+}
+
+/** The setting's value, undefined after reporting an invalid one */
+function readSetting(setting: Setting, raw: unknown, name: string, baseDir: string, errors: string[]): unknown {
+  const invalid = (expected: string) => {
+    errors.push(`${name}: expected ${expected}, got ${JSON.stringify(raw)}`);
+    return undefined;
+  };
+
+  switch (setting.type) {
+    case 'string':
+      return typeof raw === 'string' ? raw : invalid('a string');
+    case 'path':
+    case 'file': {
+      if (typeof raw !== 'string' || raw === '') {
+        return invalid('a path');
+      }
+      const path = resolve(baseDir, raw);
+      if (setting.type === 'file' && !(existsSync(path) && statSync(path).isFile())) {
+        errors.push(`${name}: file does not exist: ${path}`);
+        return undefined;
+      }
+      return path;
+    }
+    case 'boolean':
+      return typeof raw === 'boolean' ? raw : invalid('true or false');
+    case 'integer':
+      return Number.isInteger(raw) && (raw as number) >= setting.min ? raw : invalid(`an integer of at least ${setting.min}`);
+    case 'choice':
+      return setting.values.includes(raw as string) ? raw : invalid(`one of ${setting.values.join(', ')}`);
+    case 'list':
+      // A comma-separated string works like it does on the command line
+      if (typeof raw === 'string') {
+        return raw.split(',').map(item => item.trim()).filter(item => item !== '');
+      }
+      return Array.isArray(raw) && raw.every(item => typeof item === 'string') ? raw : invalid('a list of strings');
+  }
+}
+
+/** Settings whose environment variable is set; values are parsed from text, paths against the working directory */
+function readEnvironment(schema: Section, env: NodeJS.ProcessEnv, errors: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, node] of Object.entries(schema)) {
+    if (!isSetting(node)) {
+      const section = readEnvironment(node, env, errors);
+      if (Object.keys(section).length > 0) {
+        result[key] = section;
+      }
+      continue;
+    }
+
+    const text = node.env ? env[node.env] : undefined;
+    if (text === undefined || text === '') {
+      continue;
+    }
+    let raw: unknown = text;
+    if (node.type === 'boolean') {
+      raw = /^(true|1|yes)$/i.test(text) ? true : /^(false|0|no)$/i.test(text) ? false : text;
+    } else if (node.type === 'integer') {
+      raw = /^\d+$/.test(text) ? Number(text) : text;
+    }
+    const parsed = readSetting(node, raw, node.env!, process.cwd(), errors);
+    if (parsed !== undefined) {
+      result[key] = parsed;
+    }
+  }
+  return result;
+}
+
+function merge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    target[key] = typeof value === 'object' && !Array.isArray(value) && typeof current === 'object' && current !== null && !Array.isArray(current)
+      ? merge(current as Record<string, unknown>, value as Record<string, unknown>)
+      : value;
+  }
+  return target;
+}
@@ -1,21 +1,75 @@
 import { prisma, PrismaClient } from './prisma';
-import pg from 'pg';
-import { BiocXmlData, DocumentData, PassageData, AnnotationData, InfonData } from './types';
+import { DocumentData, ConflictStrategy, WriteCounts, CollectionHeader } from './types';
+import { DocumentBatch } from './documentReader';
+import { DocumentRowBuilder, DocumentRows } from './documentRows';
+import { BulkWriter } from './bulkWriter';
+import { IngestionTracker } from './ingestionTracker';
+import { ManifestInfo } from './manifest';
+import { DocumentSink, EntryInfo, EntrySummary, EntryWriter } from './pipeline';
+import { DocumentConflictError } from './errors';
 import { logger } from './logger';
-import ProgressBar from 'progress';
-import * as fs from 'fs';
 import 'dotenv/config';
-import { log } from 'console';
-import { Passage } from './generated/prisma/client';
-import { PassageCreateInput, PassageCreateManyInput, PassageCreateNestedManyWithoutDocumentInput, PassageCreateWithoutDocumentInput } from './generated/prisma/models';
+import { Prisma } from './generated/prisma/client';
+
+interface CollectionInput {
+    source: string | null;
+    date: string | null;
+    key: string | null;
+    sourcePath: string;
+    sourceSize: bigint | null;
+    infons: { key: string; value: string }[];
+}
+
+// Upper bound for one transaction, large batches take longer than Prisma's 5s default
+const TRANSACTION_TIMEOUT = 120_000;
+
+// Document IDs per `IN (...)` list when looking up stored documents
+const ID_CHUNK_SIZE = 10000;
+
+export interface DatabaseLoaderOptions {
+    /** Stream rows with PostgreSQL COPY instead of inserting documents one by one */
+    bulk?: boolean;
+    /** Skip files completed by earlier runs and continue interrupted ones from their checkpoint */
+    resume?: boolean;
+    /** What to do with documents that are already in the database, `skip` by default */
+    onConflict?: ConflictStrategy;
+    /** Manifest the inputs were listed in, recorded on the ingestion run */
+    manifest?: ManifestInfo;
+    /** What the load keeps of its inputs, recorded with every file; files loaded with another selection are not skipped */
+    selection?: string | null;
+}
 
-export class DatabaseLoader {
+/** An input entry being loaded */
+interface EntryLoad {
+    entry: EntryInfo;
+    collection: CollectionInput | null;
+    // The collection is created with the first valid document
+    collectionId: string | null;
+    counts: WriteCounts;
+    // Documents rolled back on their own; the checkpoint stays before the batch holding the first of them
+    failedDocuments: string[];
+}
+
+/**
+ * Pipeline sink writing documents to PostgreSQL. Every load is recorded as
+ * an ingestion run, which is what lets a rerun skip or resume its entries.
+ */
+export class DatabaseLoader implements DocumentSink {
+    /** Documents written per transaction unless the pipeline sets its own batch size */
+    readonly batchSize: number;
     private prisma: PrismaClient;
-    private requiredAnnotations: string[];
+    private bulkWriter: BulkWriter | null;
+    private tracker: IngestionTracker;
+    private onConflict: ConflictStrategy;
+    private manifest?: ManifestInfo;
 
-    constructor(requiredAnnotations: string[] = []) {
+    constructor(options: DatabaseLoaderOptions = {}) {
         this.prisma = prisma;
-        this.requiredAnnotations = requiredAnnotations;
+        this.onConflict = options.onConflict ?? 'skip';
+        this.bulkWriter = options.bulk ? new BulkWriter(this.onConflict) : null;
+        this.batchSize = options.bulk ? 1000 : 1;
+        this.tracker = new IngestionTracker(prisma, options.resume ?? true, options.selection ?? null);
+        this.manifest = options.manifest;
     }
 
     async connect(): Promise<void> {
@@ -24,291 +78,394 @@ export class DatabaseLoader {
     }
 
     async disconnect(): Promise<void> {
+        await this.bulkWriter?.close();
         await this.prisma.$disconnect();
         logger.info('Disconnected from database');
     }
 
-    private async hasRequiredAnnotationsInText(filePath: string): Promise<boolean> {
-        // If no required annotations specified, process all files
-        if (this.requiredAnnotations.length === 0) {
-            return true;
-        }
-
-        try {
-            const fileContent = await fs.promises.readFile(filePath, 'utf-8');
-
-            // Look for annotation infon elements with required types
-            for (const requiredType of this.requiredAnnotations) {
-                // Check for type infons: <infon key="type">requiredType</infon>
-                const typePattern = new RegExp(`<infon\\s+key=["']type["'][^>]*>\\s*${requiredType}\\s*</infon>`, 'i');
-                // Check for identifier infons: <infon key="identifier">requiredType</infon>
-                const idPattern = new RegExp(`<infon\\s+key=["']identifier["'][^>]*>\\s*${requiredType}\\s*</infon>`, 'i');
+    async startRun(): Promise<void> {
+        await this.tracker.startRun(this.manifest);
+    }
 
-                if (typePattern.test(fileContent) || idPattern.test(fileContent)) {
-                    return true;
-                }
-            }
+    async finishRun(status: 'completed' | 'failed'): Promise<void> {
+        await this.tracker.finishRun(status);
+    }
 
-            return false;
-        } catch (error) {
-            logger.error(`Error reading file for text validation ${filePath}: ${(error as Error).message}`);
-            // If we can't read the file for text validation, assume it might have annotations
-            return true;
+    /** The given document IDs that are stored, in any collection */
+    async storedIds(documentIds: string[]): Promise<string[]> {
+        const stored: string[] = [];
+        for (let start = 0; start < documentIds.length; start += ID_CHUNK_SIZE) {
+            const documents = await this.prisma.document.findMany({
+                where: { documentId: { in: documentIds.slice(start, start + ID_CHUNK_SIZE) } },
+                select: { documentId: true },
+            });
+            stored.push(...documents.map(doc => doc.documentId));
         }
+        return stored;
     }
 
-    async extractValidDocuments(files: string[], parser: any): Promise<void> {
-        logger.info('Processing files and inserting valid documents to database...');
-
-        const fileProgressBar = new ProgressBar('Processing [:bar] :current/:total :percent :file', {
-            complete: '█',
-            incomplete: '░',
-            width: 40,
-            total: files.length
-        });
-
-        let totalDocumentsProcessed = 0;
-        let totalDocumentsInserted = 0;
-
-        for (let i = 0; i < files.length; i++) {
-            const file = files[i];
-            const fileName = file.split('/').pop() || file;
-
-            fileProgressBar.tick({ file: fileName });
-
-            try {
-                const hasRequiredAnnotations = await this.hasRequiredAnnotationsInText(file);
-
-                if (!hasRequiredAnnotations) {
-                    logger.info(`${fileName}: Skipped (no required annotations)`);
-                    continue;
-                }
-
-                const data = parser.parseFile(file);
-
-                if (!data.collection) {
-                    logger.warn(`No collection found in file: ${fileName}`);
-                    continue;
-                }
-
-                const collection = data.collection;
-                const documents = this.ensureArray(collection.document);
-
-                if (documents.length === 0) {
-                    logger.warn(`No documents found in file: ${fileName}`);
-                    continue;
-                }
-
-                const collectionData = {
-                    source: collection.source || null,
-                    date: collection.date || null,
-                    key: fileName,
-                };
-
-                const validDocuments = documents.filter(doc => this.shouldProcessDocument(doc));
-                logger.info(`${fileName}: ${validDocuments.length}/${documents.length} valid documents found`);
-
-                let documentsInserted = 0;
-
-                for (const doc of validDocuments) {
-                    const wasInserted = await this.insertDocument(false, doc, collectionData);
-                    if (wasInserted) documentsInserted++;
-                }
+    /** Registers the entry with the ingestion run, returns null when an earlier run loaded it completely */
+    async startEntry(entry: EntryInfo): Promise<EntryWriter | null> {
+        const checkpoint = await this.tracker.startFile(entry);
+        if (!checkpoint) {
+            return null;
+        }
 
-                totalDocumentsProcessed += validDocuments.length;
-                totalDocumentsInserted += documentsInserted;
+        const load: EntryLoad = { entry, collection: null, collectionId: null, counts: this.emptyCounts(), failedDocuments: [] };
+        return {
+            position: checkpoint.position,
+            setCollection: (collection) => load.collection = this.toCollectionInput(collection, entry),
+            write: (batch) => this.writeDocuments(load, batch),
+            finish: (summary) => this.finishEntry(load, summary),
+            fail: (error) => this.tracker.failFile(entry.path, error),
+        };
+    }
 
-                logger.info(`${fileName}: ${documentsInserted}/${validDocuments.length} docs inserted (${validDocuments.length}/${documents.length} valid)`);
+    private toCollectionInput(collection: CollectionHeader, entry: EntryInfo): CollectionInput {
+        return {
+            source: collection.source || null,
+            date: collection.date || null,
+            key: collection.key || null,
+            sourcePath: entry.path,
+            sourceSize: entry.size !== undefined ? BigInt(entry.size) : null,
+            infons: (collection.infon ?? []).map((infon) => ({
+                key: infon.attributes.key || '',
+                value: (infon._text || '').toString(),
+            })),
+        };
+    }
 
-            } catch (error) {
-                logger.error(`Error processing ${fileName}: ${(error as Error).message}`);
-            }
+    /** Writes a batch of an entry and moves its checkpoint past it */
+    private async writeDocuments(load: EntryLoad, batch: DocumentBatch): Promise<WriteCounts> {
+        if (!load.collection) {
+            throw new Error(`No collection header for ${load.entry.path}`);
         }
-
-        logger.info(`Processing complete: Inserted ${totalDocumentsInserted}/${totalDocumentsProcessed} documents`);
+        load.collectionId ??= await this.findOrCreateCollection(load.collection);
+
+        const docs = batch.documents;
+        const counts = await this.insertBatch(docs, load.collectionId, load.failedDocuments);
+        this.addCounts(load.counts, counts);
+        if (load.failedDocuments.length > 0) {
+            // A resumed load has to read the failed documents again
+            return counts;
+        }
+        await this.tracker.checkpoint(
+            load.entry.path,
+            batch.position,
+            docs[docs.length - 1].id!.toString(),
+            load.counts.added + load.counts.changed
+        );
+        return counts;
     }
 
-    private async insertDocument(
-        deleteExisting = false,
-        doc: DocumentData, collectionData: { source: string | null; date: string | null; key: string }): Promise<boolean> {
-        const docId = doc.id!.toString();
-
-        // Check if document already exists
-        const existingDoc = await this.prisma.document.findFirst({
-            where: { documentId: docId }
-        });
+    private async finishEntry(load: EntryLoad, summary: EntrySummary): Promise<void> {
+        // The pipeline fails the entry, so the next run resumes it from the checkpoint
+        if (load.failedDocuments.length > 0) {
+            throw new Error(`${load.failedDocuments.length} document(s) could not be written: ${load.failedDocuments.join(', ')}`);
+        }
 
-        if (existingDoc) {
-            logger.warn(`Document ${docId} already exists`);
-            if (deleteExisting) {
-                // Document exists, skip it
-                await this.prisma.document.delete({ where: { id: existingDoc.id } });
-            }
-            else {
-                return false; // Document already exists, not inserted
-            }
+        // The hash is only known once the whole input has been read
+        if (summary.digest) {
+            await this.prisma.collection.updateMany({
+                where: { sourcePath: load.entry.path },
+                data: { sourceHash: summary.digest },
+            });
         }
 
-        // Create or get collection
+        await this.tracker.completeFile(load.entry.path, summary.digest, summary.found, load.counts);
+    }
+
+    private async findOrCreateCollection(collectionData: CollectionInput): Promise<string> {
         let dbCollection = await this.prisma.collection.findFirst({
-            where: { key: collectionData.key }
+            where: { sourcePath: collectionData.sourcePath }
         });
 
         if (!dbCollection) {
+            const { infons, ...collectionFields } = collectionData;
             dbCollection = await this.prisma.collection.create({
-                data: collectionData,
+                data: {
+                    ...collectionFields,
+                    infons: infons.length > 0 ? {
+                        createMany: {
+                            data: infons
+                        }
+                    } : undefined,
+                },
             });
             logger.info(`Created collection: ${dbCollection.id}`);
         }
 
-        // Create document
+        return dbCollection.id;
+    }
 
+    /**
+     * Inserts a batch of documents in one transaction. If anything fails the
+     * batch is rolled back and retried one document at a time, so a single
+     * bad document never leaves partial rows behind. The IDs of documents
+     * that fail on their own are added to `failed`.
+     */
+    private async insertBatch(docs: DocumentData[], collectionId: string, failed: string[]): Promise<WriteCounts> {
+        try {
+            return this.bulkWriter
+                ? await this.bulkWriter.write(docs.map(doc => DocumentRowBuilder.build(doc, collectionId)))
+                : await this.insertDocuments(docs, collectionId);
+        } catch (error) {
+            if (error instanceof DocumentConflictError) {
+                throw error;
+            }
+            if (docs.length === 1) {
+                logger.error(`Document ${docs[0].id} rolled back: ${(error as Error).message}`);
+                failed.push(docs[0].id!.toString());
+                return this.emptyCounts();
+            }
 
-        // Process passages
-        const passages = this.ensureArray(doc.passage);
-        if (passages.length > 0) {
-            await this.processPassagesWithoutProgress(passages, {
-                documentId: docId,
-                collectionId: dbCollection.id,
-            });
+            logger.warn(`Batch of ${docs.length} documents rolled back (${(error as Error).message}), retrying one by one`);
+            const counts = this.emptyCounts();
+            for (const doc of docs) {
+                this.addCounts(counts, await this.insertBatch([doc], collectionId, failed));
+            }
+            return counts;
         }
-
-        return true; // Document was inserted
     }
 
-    private async processPassagesWithoutProgress(passages: PassageData[], documentData: { documentId: string; collectionId: string }): Promise<void> {
-        // Prepare all passage data with nested infons and annotations
+    private async insertDocuments(docs: DocumentData[], collectionId: string): Promise<WriteCounts> {
+        const rows = docs.map(doc => DocumentRowBuilder.build(doc, collectionId));
 
-        const doc = await this.prisma.document.create({
-            data: {
-                documentId: documentData.documentId,
-                collectionId: documentData.collectionId,
+        return this.prisma.$transaction(async (tx) => {
+            // Check if documents already exist
+            const existing = await tx.document.findMany({
+                where: { documentId: { in: rows.map(documentRows => documentRows.document.documentId) } },
+                select: { id: true, documentId: true, contentHash: true },
+            });
+            const stored = new Map(existing.map(doc => [doc.documentId, doc]));
 
-            }
-        });
+            let pending: DocumentRows[] = [];
+            const counts = this.emptyCounts();
 
-        const passageDataArray = passages.map(passage => {
-            const passageInfons = this.ensureArray(passage.infon).map((infon) => ({
-                key: infon.attributes.key || '',
-                value: infon._text || '',
-            }));
+            for (const documentRows of rows) {
+                const docId = documentRows.document.documentId;
 
-            // Extract section_type and type from infons
-            let sectionType: string | null = null;
-            let type: string | null = null;
+                // A document repeated within the batch conflicts with its earlier copy, so that one is written first
+                if (pending.some(pendingRows => pendingRows.document.documentId === docId)) {
+                    await this.writeRows(tx, pending);
+                    pending.forEach(pendingRows => stored.set(pendingRows.document.documentId, pendingRows.document));
+                    pending = [];
+                }
 
-            for (const infon of passageInfons) {
-                const key = infon.key;
-                const value = infon.value || '';
+                const existingDoc = stored.get(docId);
+                if (!existingDoc) {
+                    pending.push(documentRows);
+                    counts.added++;
+                    continue;
+                }
 
-                if (key === 'section_type') {
-                    sectionType = value;
-                } else if (key === 'type') {
-                    type = value;
+                switch (this.onConflict) {
+                    case 'skip':
+                        logger.warn(`Document ${docId} already exists`);
+                        counts.unchanged++;
+                        break;
+                    case 'fail':
+                        throw new DocumentConflictError(docId);
+                    case 'update':
+                    case 'replace':
+                        // Under update only documents whose content changed are replaced
+                        if (this.onConflict === 'update' && existingDoc.contentHash === documentRows.document.contentHash) {
+                            counts.unchanged++;
+                            break;
+                        }
+                        // The old rows go in the same transaction that writes the new ones
+                        await tx.document.delete({ where: { id: existingDoc.id } });
+                        stored.delete(docId);
+                        pending.push(documentRows);
+                        counts.changed++;
+                        break;
+                    case 'merge-annotations':
+                        if (await this.mergeAnnotations(tx, existingDoc.id, documentRows)) {
+                            counts.changed++;
+                        } else {
+                            counts.unchanged++;
+                        }
+                        break;
                 }
             }
 
-            // Prepare annotations
-            const annotations = this.ensureArray(passage.annotation).map(annotation => {
-                const annotationInfons = this.ensureArray(annotation.infon).map((infon) => ({
-                    key: infon.attributes.key || '',
-                    value: infon._text || '',
-                }));
-
-                // Extract identifier and type from infons
-                let identifier: string | null = null;
-                let annotationType: string | null = null;
-
-                for (const infon of annotationInfons) {
-                    const key = infon.key;
-                    const value = (infon.value || '').toString();
-
-                    if (key === 'identifier') {
-                        identifier = value;
-                    } else if (key === 'type') {
-                        annotationType = value;
-                    }
-                }
+            // Passages, sentences, annotations and relations all reference client-generated ids
+            await this.writeRows(tx, pending);
+            return counts;
+        }, { timeout: TRANSACTION_TIMEOUT });
+    }
 
-                // Get location data
-                const offset = annotation.location?.[0].attributes.offset || 0;
-                const length = annotation.location?.[0].attributes.length || 0;
-
-                return {
-                    annotationId: (annotation.attributes.id || '').toString(),
-                    identifier: identifier?.toString() || null,
-                    type: annotationType,
-                    offset,
-                    length,
-                    text: (annotation.text || '').toString(),
-                };
-            });
+    /**
+     * Adds the annotations and relations of a new copy of a document that the
+     * stored copy is missing, matched by their BioC ids. They are attached to
+     * the stored passages and sentences at the same offsets, and the content
+     * hash is recomputed from the merged document. Returns whether anything
+     * was added.
+     */
+    private async mergeAnnotations(tx: Prisma.TransactionClient, documentId: string, rows: DocumentRows): Promise<boolean> {
+        const known = await tx.annotation.findMany({ where: { documentId }, select: { id: true, annotationId: true } });
+        const knownIds = new Set(known.map(annotation => annotation.annotationId));
+        const knownRelations = await tx.relation.findMany({ where: { documentId }, select: { relationId: true } });
+        const knownRelationIds = new Set(knownRelations.map(relation => relation.relationId));
+
+        const added = rows.annotations.filter(annotation => !knownIds.has(annotation.annotationId));
+        const addedRelations = rows.relations.filter(relation => !knownRelationIds.has(relation.relationId));
+        if (added.length === 0 && addedRelations.length === 0) {
+            logger.warn(`Document ${rows.document.documentId} already exists, no new annotations or relations`);
+            return false;
+        }
 
-            const passageData = {
-
-                offset: passage.offset || 0,
-                text: passage.text || '',
-                documentId: doc.id,
-                sectionType,
-                type,
-                infons: passageInfons.length > 0 ? {
-                    createMany: {
-                        data: passageInfons.map((infon) => ({
-                            key: infon.key || '',
-                            value: (infon.value || '').toString(),
-                        }))
-                    }
-                } : undefined,
-                annotations: annotations.length > 0 ? {
-                    createMany: {
-                        data: annotations
-                    }
-                } : undefined,
-            };
-
-            return passageData;
+        const passages = await tx.passage.findMany({ where: { documentId }, select: { id: true, offset: true } });
+        const sentences = await tx.sentence.findMany({
+            where: { passage: { documentId } },
+            select: { id: true, passageId: true, offset: true },
         });
-        for (const passageData of passageDataArray) {
-            const p = await this.prisma.passage.create({
-                data: passageData
+        const passageIds = new Map(passages.map(passage => [passage.offset, passage.id]));
+        const sentenceIds = new Map(sentences.map(sentence => [`${sentence.passageId}:${sentence.offset}`, sentence.id]));
+
+        const newPassages = new Map(rows.passages.map(passage => [passage.id, passageIds.get(passage.offset) ?? null]));
+        const newSentences = new Map(rows.sentences.map(sentence => {
+            const passageId = newPassages.get(sentence.passageId);
+            return [sentence.id, passageId ? sentenceIds.get(`${passageId}:${sentence.offset}`) ?? null : null];
+        }));
+
+        const addedIds = new Set(added.map(annotation => annotation.id));
+        if (added.length > 0) {
+            await tx.annotation.createMany({
+                data: added.map(annotation => ({
+                    ...annotation,
+                    documentId,
+                    passageId: annotation.passageId ? newPassages.get(annotation.passageId) ?? null : null,
+                    sentenceId: annotation.sentenceId ? newSentences.get(annotation.sentenceId) ?? null : null,
+                })),
+            });
+        }
+        const infons = rows.annotationInfons.filter(infon => addedIds.has(infon.annotationId));
+        if (infons.length > 0) {
+            await tx.annotationInfon.createMany({ data: infons });
+        }
+        const locations = rows.annotationLocations.filter(location => addedIds.has(location.annotationId));
+        if (locations.length > 0) {
+            await tx.annotationLocation.createMany({ data: locations });
+        }
+
+        // Nodes resolve their refid against the stored annotations and the ones just added
+        const annotationRows = new Map(known.map(annotation => [annotation.annotationId, annotation.id]));
+        added.forEach(annotation => annotationRows.set(annotation.annotationId, annotation.id));
+        const addedRelationIds = new Set(addedRelations.map(relation => relation.id));
+        if (addedRelations.length > 0) {
+            await tx.relation.createMany({
+                data: addedRelations.map(relation => ({
+                    ...relation,
+                    documentId,
+                    passageId: relation.passageId ? newPassages.get(relation.passageId) ?? null : null,
+                })),
+            });
+        }
+        const relationInfons = rows.relationInfons.filter(infon => addedRelationIds.has(infon.relationId));
+        if (relationInfons.length > 0) {
+            await tx.relationInfon.createMany({ data: relationInfons });
+        }
+        const nodes = rows.relationNodes.filter(node => addedRelationIds.has(node.relationId));
+        if (nodes.length > 0) {
+            await tx.relationNode.createMany({
+                data: nodes.map(node => ({ ...node, annotationId: annotationRows.get(node.refid) ?? null })),
             });
         }
 
-        // Count total infons and annotations
+        // The hash has to describe the merged document, so a later update compares against what is stored
+        await tx.document.update({ where: { id: documentId }, data: { contentHash: await this.storedContentHash(tx, documentId) } });
 
+        logger.info(`Document ${rows.document.documentId}: merged ${added.length} new annotations and ${addedRelations.length} new relations`);
+        return true;
+    }
 
+    /** Content hash of a stored document, the same as that of the rows it was written from */
+    private async storedContentHash(tx: Prisma.TransactionClient, documentId: string): Promise<string> {
+        const stored = await tx.document.findUniqueOrThrow({
+            where: { id: documentId },
+            include: {
+                infons: true,
+                passages: { include: { infons: true, sentences: { include: { infons: true } } } },
+                annotations: { include: { infons: true, locations: true } },
+                relations: { include: { infons: true, nodes: true } },
+            },
+        });
+        const sentences = stored.passages.flatMap(passage => passage.sentences);
+        return DocumentRowBuilder.contentHash({
+            documentInfons: stored.infons,
+            passages: stored.passages,
+            passageInfons: stored.passages.flatMap(passage => passage.infons),
+            sentences,
+            sentenceInfons: sentences.flatMap(sentence => sentence.infons),
+            annotations: stored.annotations,
+            annotationInfons: stored.annotations.flatMap(annotation => annotation.infons),
+            annotationLocations: stored.annotations.flatMap(annotation => annotation.locations),
+            relations: stored.relations,
+            relationInfons: stored.relations.flatMap(relation => relation.infons),
+            relationNodes: stored.relations.flatMap(relation => relation.nodes),
+        });
     }
 
-    private shouldProcessDocument(doc: DocumentData): boolean {
-        // If no required annotations specified, process all documents
-        if (this.requiredAnnotations.length === 0) {
-            return true;
+    private async writeRows(tx: Prisma.TransactionClient, rows: DocumentRows[]): Promise<void> {
+        // Parents are written before their children
+        const documents = rows.map(documentRows => documentRows.document);
+        if (documents.length > 0) {
+            await tx.document.createMany({ data: documents });
         }
-
-        // Check all passages in the document for required annotations
-        const passages = this.ensureArray(doc.passage);
-        for (const passage of passages) {
-            const annotations = this.ensureArray(passage.annotation);
-            for (const annotation of annotations) {
-                const annotationInfons = this.ensureArray(annotation.infon);
-                for (const infon of annotationInfons) {
-                    if (infon.attributes.key === 'type' || infon.attributes.key === 'identifier') {
-                        const annotationType = infon._text || '';
-                        if (this.requiredAnnotations.includes(annotationType)) {
-                            return true;
-                        }
-                    }
-                }
-            }
+        const documentInfons = rows.flatMap(documentRows => documentRows.documentInfons);
+        if (documentInfons.length > 0) {
+            await tx.documentInfon.createMany({ data: documentInfons });
         }
+        const passages = rows.flatMap(documentRows => documentRows.passages);
+        if (passages.length > 0) {
+            await tx.passage.createMany({ data: passages });
+        }
+        const passageInfons = rows.flatMap(documentRows => documentRows.passageInfons);
+        if (passageInfons.length > 0) {
+            await tx.passageInfon.createMany({ data: passageInfons });
+        }
+        const sentences = rows.flatMap(documentRows => documentRows.sentences);
+        if (sentences.length > 0) {
+            await tx.sentence.createMany({ data: sentences });
+        }
+        const sentenceInfons = rows.flatMap(documentRows => documentRows.sentenceInfons);
+        if (sentenceInfons.length > 0) {
+            await tx.sentenceInfon.createMany({ data: sentenceInfons });
+        }
+        const annotations = rows.flatMap(documentRows => documentRows.annotations);
+        if (annotations.length > 0) {
+            await tx.annotation.createMany({ data: annotations });
+        }
+        const annotationInfons = rows.flatMap(documentRows => documentRows.annotationInfons);
+        if (annotationInfons.length > 0) {
+            await tx.annotationInfon.createMany({ data: annotationInfons });
+        }
+        const annotationLocations = rows.flatMap(documentRows => documentRows.annotationLocations);
+        if (annotationLocations.length > 0) {
+            await tx.annotationLocation.createMany({ data: annotationLocations });
+        }
+        const relations = rows.flatMap(documentRows => documentRows.relations);
+        if (relations.length > 0) {
+            await tx.relation.createMany({ data: relations });
+        }
+        const relationInfons = rows.flatMap(documentRows => documentRows.relationInfons);
+        if (relationInfons.length > 0) {
+            await tx.relationInfon.createMany({ data: relationInfons });
+        }
+        const relationNodes = rows.flatMap(documentRows => documentRows.relationNodes);
+        if (relationNodes.length > 0) {
+            await tx.relationNode.createMany({ data: relationNodes });
+        }
+    }
 
-        return false;
+    private emptyCounts(): WriteCounts {
+        return { added: 0, changed: 0, unchanged: 0 };
     }
 
-    private ensureArray<T>(value: T | T[] | undefined): T[] {
-        if (value === undefined || value === null) {
-            return [];
-        }
-        return Array.isArray(value) ? value : [value];
+    private addCounts(total: WriteCounts, counts: WriteCounts): void {
+        total.added += counts.added;
+        total.changed += counts.changed;
+        total.unchanged += counts.unchanged;
     }
 }
@@ -1,5 +1,3 @@
-#!/usr/bin/env node
-
 import fs from 'fs';
 import readline from 'readline';
 import { prisma } from './prisma.js';
@@ -12,15 +10,31 @@ interface DiseaseRecord {
   text: string;
 }
 
+export interface DiseaseLoaderOptions {
+  /** Records per insert, default 1000 */
+  batchSize?: number;
+  /** Inserts running at the same time, default 10 */
+  concurrency?: number;
+}
+
+/** Loads the disease2pubtator3 file of PubTator3 into the diseases table, replacing its content */
 export class DiseaseLoader {
-  private batchSize = 1000;
-  private concurrency = 10;
+  private batchSize: number;
+  private concurrency: number;
+  private failedBatches = 0;
 
-  async loadDiseaseFile(filePath: string): Promise<void> {
+  constructor(options: DiseaseLoaderOptions = {}) {
+    this.batchSize = options.batchSize ?? 1000;
+    this.concurrency = options.concurrency ?? 10;
+  }
+
+  /** Returns the number of batches that could not be inserted */
+  async loadDiseaseFile(filePath: string): Promise<number> {
     logger.info('='.repeat(60));
     logger.info('Disease Data Loader');
     logger.info('='.repeat(60));
     logger.info(`Loading disease data from: ${filePath}`);
+    this.failedBatches = 0;
 
     try {
       // First count total lines for progress tracking
@@ -63,7 +77,11 @@ export class DiseaseLoader {
       logger.info('\n' + '='.repeat(60));
       logger.info(`Processing complete!`);
       logger.info(`Total disease records loaded: ${finalCount.toLocaleString()}`);
+      if (this.failedBatches > 0) {
+        logger.warn(`${this.failedBatches} batch(es) could not be inserted`);
+      }
       logger.info('='.repeat(60));
+      return this.failedBatches;
 
     } catch (error) {
       logger.error(`Error loading disease data: ${(error as Error).message}`);
@@ -223,44 +241,10 @@ export class DiseaseLoader {
 
         } catch (error) {
           logger.error(`Error processing batch ${batchIndex}: ${(error as Error).message}`);
+          this.failedBatches++;
           // Continue processing other batches
         }
       })
     );
   }
 }
-
-// CLI functionality
-async function main() {
-  const filePath = process.argv[2] || '/data/disease2pubtator3';
-  
-  const loader = new DiseaseLoader();
-  
-  try {
-    // Connect to database
-    await prisma.$connect();
-    logger.info('Connected to database');
-
-    // Load the disease file
-    await loader.loadDiseaseFile(filePath);
-
-  } catch (error) {
-    logger.error(`Fatal error: ${(error as Error).message}`);
-    if ((error as Error).stack) {
-      logger.error((error as Error).stack as string);
-    }
-    process.exit(1);
-  } finally {
-    // Disconnect from database
-    await prisma.$disconnect();
-    logger.info('Disconnected from database');
-  }
-}
-
-// Run if this file is executed directly
-if (import.meta.url === `file://${process.argv[1]}`) {
-  main().catch((error) => {
-    logger.error(`Unhandled error: ${error.message}`);
-    process.exit(1);
-  });
-}
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { Prisma, PrismaClient } from './generated/prisma/client.js';
+import { IdList } from './idList.js';
+import { BiocJsonAnnotation, BiocJsonDocument, BiocJsonPassage, BiocJsonRelation, BiocJsonSentence } from './jsonParser.js';
+
+const DOCUMENT_INCLUDE = {
+  infons: true,
+  passages: {
+    orderBy: { offset: 'asc' },
+    include: { infons: true, sentences: { orderBy: { offset: 'asc' }, include: { infons: true } } },
+  },
+  annotations: {
+    orderBy: [{ offset: 'asc' }, { annotationId: 'asc' }],
+    include: { infons: true, locations: { orderBy: { ordinal: 'asc' } } },
+  },
+  relations: {
+    orderBy: { relationId: 'asc' },
+    include: { infons: true, nodes: { orderBy: [{ role: 'asc' }, { refid: 'asc' }] } },
+  },
+} satisfies Prisma.DocumentInclude;
+
+type StoredDocument = Prisma.DocumentGetPayload<{ include: typeof DOCUMENT_INCLUDE }>;
+
+export interface ExportOptions {
+  /** Only the listed documents; the IDs found are marked on the list */
+  ids?: IdList | null;
+  /** Documents read per query, default 100 */
+  batchSize?: number;
+}
+
+/**
+ * Reads stored documents back as BioC JSON in the layout JsonParser reads,
+ * so an export can be loaded again. Infons come out sorted by key, their
+ * original order is not stored.
+ */
+export class DocumentExporter {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Documents ordered by their ID */
+  async *documents(options: ExportOptions = {}): AsyncGenerator<BiocJsonDocument> {
+    const batchSize = Math.max(1, options.batchSize ?? 100);
+
+    if (options.ids) {
+      const candidates = options.ids.storedForms();
+      for (let start = 0; start < candidates.length; start += batchSize) {
+        const documents = await this.prisma.document.findMany({
+          where: { documentId: { in: candidates.slice(start, start + batchSize) } },
+          orderBy: { documentId: 'asc' },
+          include: DOCUMENT_INCLUDE,
+        });
+        for (const doc of documents) {
+          options.ids.markFound(doc.documentId);
+          yield this.toJson(doc);
+        }
+      }
+      return;
+    }
+
+    let after: string | null = null;
+    for (;;) {
+      const documents: StoredDocument[] = await this.prisma.document.findMany({
+        where: after !== null ? { documentId: { gt: after } } : undefined,
+        orderBy: { documentId: 'asc' },
+        take: batchSize,
+        include: DOCUMENT_INCLUDE,
+      });
+      for (const doc of documents) {
+        yield this.toJson(doc);
+      }
+      if (documents.length < batchSize) {
+        return;
+      }
+      after = documents[documents.length - 1].documentId;
+    }
+  }
+
+  /** Writes the documents as JSON lines, one document per line, and returns how many were written */
+  async write(output: Writable, options: ExportOptions = {}): Promise<number> {
+    let count = 0;
+    for await (const doc of this.documents(options)) {
+      if (!output.write(JSON.stringify(doc) + '\n')) {
+        await once(output, 'drain');
+      }
+      count++;
+    }
+    return count;
+  }
+
+  private toJson(doc: StoredDocument): BiocJsonDocument {
+    const json = { id: doc.documentId, infons: this.infons(doc.infons), passages: [] as BiocJsonPassage[], annotations: [] as BiocJsonAnnotation[], relations: [] as BiocJsonRelation[] };
+    const passages = new Map<string, Required<Pick<BiocJsonPassage, 'annotations' | 'relations'>>>();
+    const sentences = new Map<string, Required<Pick<BiocJsonSentence, 'annotations'>>>();
+
+    for (const passage of doc.passages) {
+      const passageJson = {
+        offset: passage.offset,
+        infons: this.infons(passage.infons),
+        text: passage.text,
+        sentences: [] as BiocJsonSentence[],
+        annotations: [] as BiocJsonAnnotation[],
+        relations: [] as BiocJsonRelation[],
+      };
+      for (const sentence of passage.sentences) {
+        const sentenceJson = { offset: sentence.offset, infons: this.infons(sentence.infons), text: sentence.text, annotations: [] };
+        passageJson.sentences.push(sentenceJson);
+        sentences.set(sentence.id, sentenceJson);
+      }
+      json.passages.push(passageJson);
+      passages.set(passage.id, passageJson);
+    }
+
+    // Annotations go back where they were declared: in a sentence, a passage or the document
+    for (const annotation of doc.annotations) {
+      const locations = annotation.locations.length > 0
+        ? annotation.locations.map(location => ({ offset: location.offset, length: location.length }))
+        : [{ offset: annotation.offset, length: annotation.length }];
+      const owner = (annotation.sentenceId ? sentences.get(annotation.sentenceId) : undefined)
+        ?? (annotation.passageId ? passages.get(annotation.passageId) : undefined)
+        ?? json;
+      owner.annotations.push({ id: annotation.annotationId, infons: this.infons(annotation.infons), text: annotation.text, locations });
+    }
+
+    for (const relation of doc.relations) {
+      const owner = (relation.passageId ? passages.get(relation.passageId) : undefined) ?? json;
+      owner.relations.push({
+        id: relation.relationId,
+        infons: this.infons(relation.infons),
+        nodes: relation.nodes.map(node => ({ refid: node.refid, role: node.role ?? '' })),
+      });
+    }
+
+    return json;
+  }
+
+  private infons(rows: { key: string; value: string }[]): Record<string, string> {
+    return Object.fromEntries([...rows].sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0).map(row => [row.key, row.value]));
+  }
+}
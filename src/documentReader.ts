@@ -0,0 +1,137 @@
+import { Readable } from 'stream';
+import { BiocStream, DocumentData, DocumentParser } from './types.js';
+import { XmlParser } from './xmlParser.js';
+import { JsonParser } from './jsonParser.js';
+import { PubtatorParser } from './pubtatorParser.js';
+import { InputEntry } from './fileProcessor.js';
+
+export type InputFormat = 'xml' | 'json' | 'pubtator';
+
+export interface DocumentBatch {
+  documents: DocumentData[];
+  /** Documents read from the input once this batch is complete, which is what a checkpoint records */
+  position: number;
+}
+
+export interface BatchOptions {
+  /** Documents at the start of the input to pass over, already loaded by an earlier run */
+  skip: number;
+  batchSize: number;
+  /** Applied to every document before it is filtered */
+  transform?: (doc: DocumentData) => DocumentData;
+  filter: (doc: DocumentData) => boolean;
+}
+
+/**
+ * Picks the parser for an input, by file extension when it is conclusive
+ * and by sniffing the first characters of the content otherwise.
+ */
+export class DocumentReader {
+  private parsers: Record<InputFormat, DocumentParser> = {
+    xml: new XmlParser(),
+    json: new JsonParser(),
+    pubtator: new PubtatorParser(),
+  };
+
+  static formatFromName(fileName: string): InputFormat | null {
+    const name = fileName.toLowerCase().replace(/\.gz$/, '');
+    if (name.endsWith('.xml')) {
+      return 'xml';
+    }
+    if (name.endsWith('.json') || name.endsWith('.jsonl') || name.endsWith('.biocjson')) {
+      return 'json';
+    }
+    if (name.endsWith('.pubtator') || name.endsWith('.pubtator.txt')) {
+      return 'pubtator';
+    }
+    return null;
+  }
+
+  static formatFromContent(head: string): InputFormat | null {
+    const firstChar = head.replace(/^\uFEFF/, '').trimStart().charAt(0);
+    if (firstChar === '<') {
+      return 'xml';
+    }
+    if (firstChar === '{' || firstChar === '[') {
+      return 'json';
+    }
+    if (PubtatorParser.looksLikePubtator(head)) {
+      return 'pubtator';
+    }
+    return null;
+  }
+
+  async read(entry: InputEntry): Promise<BiocStream> {
+    const format = DocumentReader.formatFromName(entry.name);
+    if (format) {
+      return this.parsers[format].parseStream(entry.open());
+    }
+
+    const { head, stream } = await this.peek(entry.open());
+    const sniffed = DocumentReader.formatFromContent(head);
+    if (!sniffed) {
+      stream.destroy();
+      throw new Error(`Unable to detect the format of ${entry.path}`);
+    }
+    return this.parsers[sniffed].parseStream(stream);
+  }
+
+  /**
+   * Groups the documents that pass the filter into batches. `stats` counts
+   * every document read and every document that passed the filter.
+   */
+  static async *batches(
+    documents: AsyncIterable<DocumentData>,
+    options: BatchOptions,
+    stats: { found: number; valid: number }
+  ): AsyncGenerator<DocumentBatch> {
+    let batch: DocumentData[] = [];
+
+    for await (const parsed of documents) {
+      stats.found++;
+      if (stats.found <= options.skip) {
+        continue;
+      }
+      const doc = options.transform ? options.transform(parsed) : parsed;
+      if (!options.filter(doc)) {
+        continue;
+      }
+      stats.valid++;
+
+      batch.push(doc);
+      if (batch.length >= options.batchSize) {
+        yield { documents: batch, position: stats.found };
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      yield { documents: batch, position: stats.found };
+    }
+  }
+
+  /**
+   * Reads the first chunk of a stream and returns a replacement stream that
+   * still yields the full content.
+   */
+  private async peek(input: Readable): Promise<{ head: string; stream: Readable }> {
+    const chunks = input[Symbol.asyncIterator]();
+    const first = await chunks.next();
+    const head = first.done ? '' : first.value.toString();
+
+    async function* replay() {
+      try {
+        if (!first.done) {
+          yield first.value;
+        }
+        for (let chunk = await chunks.next(); !chunk.done; chunk = await chunks.next()) {
+          yield chunk.value;
+        }
+      } finally {
+        input.destroy();
+      }
+    }
+
+    return { head, stream: Readable.from(replay(), { objectMode: false }) };
+  }
+}
@@ -0,0 +1,330 @@
+import { createHash, randomUUID } from 'crypto';
+import { AnnotationData, DocumentData, InfonData, RelationData } from './types.js';
+
+export interface InfonRow {
+  id: string;
+  key: string;
+  value: string;
+}
+
+export interface DocumentRow {
+  id: string;
+  documentId: string;
+  collectionId: string;
+  contentHash: string;
+  updatedAt: Date;
+}
+
+export interface PassageRow {
+  id: string;
+  documentId: string;
+  offset: number;
+  text: string;
+  sectionType: string | null;
+  type: string | null;
+  updatedAt: Date;
+}
+
+export interface SentenceRow {
+  id: string;
+  passageId: string;
+  offset: number;
+  text: string;
+}
+
+export interface AnnotationRow {
+  id: string;
+  documentId: string;
+  passageId: string | null;
+  sentenceId: string | null;
+  annotationId: string;
+  identifier: string | null;
+  type: string | null;
+  offset: number;
+  length: number;
+  text: string;
+}
+
+export interface AnnotationLocationRow {
+  id: string;
+  annotationId: string;
+  offset: number;
+  length: number;
+  ordinal: number;
+}
+
+export interface RelationRow {
+  id: string;
+  documentId: string;
+  passageId: string | null;
+  relationId: string;
+  type: string | null;
+}
+
+export interface RelationNodeRow {
+  id: string;
+  relationId: string;
+  refid: string;
+  role: string | null;
+  annotationId: string | null;
+}
+
+/**
+ * All rows of a single document, keyed by parent. IDs are generated on the
+ * client, so rows can be written in bulk without reading back parent IDs.
+ */
+export interface DocumentRows {
+  document: DocumentRow;
+  documentInfons: (InfonRow & { documentId: string })[];
+  passages: PassageRow[];
+  passageInfons: (InfonRow & { passageId: string })[];
+  sentences: SentenceRow[];
+  sentenceInfons: (InfonRow & { sentenceId: string })[];
+  annotations: AnnotationRow[];
+  annotationInfons: (InfonRow & { annotationId: string })[];
+  annotationLocations: AnnotationLocationRow[];
+  relations: RelationRow[];
+  relationInfons: (InfonRow & { relationId: string })[];
+  relationNodes: RelationNodeRow[];
+}
+
+type HashedInfon = Pick<InfonRow, 'key' | 'value'>;
+
+/** The rows a content hash covers, which the rows of a stored document provide as well */
+export interface HashedRows {
+  documentInfons: HashedInfon[];
+  passages: Pick<PassageRow, 'id' | 'offset' | 'text'>[];
+  passageInfons: (HashedInfon & { passageId: string })[];
+  sentences: Pick<SentenceRow, 'id' | 'passageId' | 'offset' | 'text'>[];
+  sentenceInfons: (HashedInfon & { sentenceId: string })[];
+  annotations: Pick<AnnotationRow, 'id' | 'passageId' | 'sentenceId' | 'annotationId' | 'text'>[];
+  annotationInfons: (HashedInfon & { annotationId: string })[];
+  annotationLocations: Pick<AnnotationLocationRow, 'annotationId' | 'offset' | 'length' | 'ordinal'>[];
+  relations: Pick<RelationRow, 'id' | 'passageId' | 'relationId'>[];
+  relationInfons: (HashedInfon & { relationId: string })[];
+  relationNodes: Pick<RelationNodeRow, 'relationId' | 'refid' | 'role'>[];
+}
+
+export class DocumentRowBuilder {
+  static build(doc: DocumentData, collectionId: string): DocumentRows {
+    const now = new Date();
+    const documentId = randomUUID();
+    const rows: DocumentRows = {
+      document: {
+        id: documentId,
+        documentId: doc.id!.toString(),
+        collectionId,
+        // Set once every row is built
+        contentHash: '',
+        updatedAt: now,
+      },
+      documentInfons: this.infons(doc.infon).map(infon => ({ ...infon, documentId })),
+      passages: [],
+      passageInfons: [],
+      sentences: [],
+      sentenceInfons: [],
+      annotations: [],
+      annotationInfons: [],
+      annotationLocations: [],
+      relations: [],
+      relationInfons: [],
+      relationNodes: [],
+    };
+
+    // Annotations placed directly under <document> have no passage
+    for (const annotation of doc.annotation ?? []) {
+      this.addAnnotation(rows, annotation, null, null);
+    }
+
+    const relations: { relation: RelationData; passageId: string | null }[] =
+      (doc.relation ?? []).map(relation => ({ relation, passageId: null }));
+
+    for (const passage of doc.passage ?? []) {
+      const passageId = randomUUID();
+      const infons = this.infons(passage.infon);
+
+      rows.passages.push({
+        id: passageId,
+        documentId,
+        offset: passage.offset || 0,
+        text: (passage.text || '').toString(),
+        sectionType: this.infonValue(infons, 'section_type'),
+        type: this.infonValue(infons, 'type'),
+        updatedAt: now,
+      });
+      rows.passageInfons.push(...infons.map(infon => ({ ...infon, passageId })));
+
+      for (const annotation of passage.annotation ?? []) {
+        this.addAnnotation(rows, annotation, passageId, null);
+      }
+
+      for (const sentence of passage.sentence ?? []) {
+        const sentenceId = randomUUID();
+        rows.sentences.push({
+          id: sentenceId,
+          passageId,
+          offset: sentence.offset || 0,
+          text: (sentence.text || '').toString(),
+        });
+        rows.sentenceInfons.push(...this.infons(sentence.infon).map(infon => ({ ...infon, sentenceId })));
+
+        for (const annotation of sentence.annotation ?? []) {
+          this.addAnnotation(rows, annotation, passageId, sentenceId);
+        }
+      }
+
+      relations.push(...(passage.relation ?? []).map(relation => ({ relation, passageId })));
+    }
+
+    // BioC refids point at annotation ids, which are only unique within a document
+    const annotationIds = new Map(rows.annotations.map(annotation => [annotation.annotationId, annotation.id]));
+
+    for (const { relation, passageId } of relations) {
+      const relationId = randomUUID();
+      const infons = this.infons(relation.infon);
+
+      rows.relations.push({
+        id: relationId,
+        documentId,
+        passageId,
+        relationId: (relation.attributes.id || '').toString(),
+        type: this.infonValue(infons, 'type'),
+      });
+      rows.relationInfons.push(...infons.map(infon => ({ ...infon, relationId })));
+      rows.relationNodes.push(...(relation.node ?? []).map(node => {
+        const refid = (node.attributes.refid || '').toString();
+        return {
+          id: randomUUID(),
+          relationId,
+          refid,
+          role: node.attributes.role || null,
+          annotationId: annotationIds.get(refid) ?? null,
+        };
+      }));
+    }
+
+    rows.document.contentHash = this.contentHash(rows);
+    return rows;
+  }
+
+  /**
+   * SHA-256 of everything a release can change about a document: passage and
+   * sentence text, annotations, relations and all infons. It is computed
+   * from the rows, so the rows of a stored document read back from the
+   * database hash the same as those built from its source. Nothing depends
+   * on order except the locations of an annotation: infons, annotations,
+   * relations and nodes are sorted, passages and sentences by offset.
+   */
+  static contentHash(rows: HashedRows): string {
+    const infons = (infons: Pick<InfonRow, 'key' | 'value'>[]) =>
+      this.sorted(infons.map(infon => [infon.key, infon.value]));
+    const children = <T>(items: T[], parentId: (item: T) => string | null) => {
+      const byParent = new Map<string | null, T[]>();
+      for (const item of items) {
+        byParent.set(parentId(item), [...(byParent.get(parentId(item)) ?? []), item]);
+      }
+      return (parent: string | null) => byParent.get(parent) ?? [];
+    };
+
+    const documentInfons = infons(rows.documentInfons);
+    const passageInfons = children(rows.passageInfons, infon => infon.passageId);
+    const sentenceInfons = children(rows.sentenceInfons, infon => infon.sentenceId);
+    const annotationInfons = children(rows.annotationInfons, infon => infon.annotationId);
+    const relationInfons = children(rows.relationInfons, infon => infon.relationId);
+    const locations = children(rows.annotationLocations, location => location.annotationId);
+    const nodes = children(rows.relationNodes, node => node.relationId);
+    const sentences = children(rows.sentences, sentence => sentence.passageId);
+    // Annotations of a sentence also carry the passage, they only count under the sentence
+    const sentenceAnnotations = children(rows.annotations, annotation => annotation.sentenceId);
+    const passageAnnotations = children(rows.annotations.filter(annotation => !annotation.sentenceId), annotation => annotation.passageId);
+    const relations = children(rows.relations, relation => relation.passageId);
+
+    const annotationContent = (annotations: HashedRows['annotations']) => this.sorted(annotations.map(annotation => ({
+      id: annotation.annotationId,
+      infons: infons(annotationInfons(annotation.id)),
+      locations: [...locations(annotation.id)].sort((a, b) => a.ordinal - b.ordinal).map(location => [location.offset, location.length]),
+      text: annotation.text,
+    })));
+    const relationContent = (parent: string | null) => this.sorted(relations(parent).map(relation => ({
+      id: relation.relationId,
+      infons: infons(relationInfons(relation.id)),
+      nodes: this.sorted(nodes(relation.id).map(node => [node.refid, node.role ?? ''])),
+    })));
+
+    const content = {
+      infons: documentInfons,
+      passages: this.sorted(rows.passages.map(passage => ({
+        offset: passage.offset,
+        text: passage.text,
+        infons: infons(passageInfons(passage.id)),
+        sentences: this.sorted(sentences(passage.id).map(sentence => ({
+          offset: sentence.offset,
+          text: sentence.text,
+          infons: infons(sentenceInfons(sentence.id)),
+          annotations: annotationContent(sentenceAnnotations(sentence.id)),
+        }))),
+        annotations: annotationContent(passageAnnotations(passage.id)),
+        relations: relationContent(passage.id),
+      }))),
+      annotations: annotationContent(passageAnnotations(null)),
+      relations: relationContent(null),
+    };
+
+    return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+  }
+
+  private static addAnnotation(rows: DocumentRows, annotation: AnnotationData, passageId: string | null, sentenceId: string | null): void {
+    const id = randomUUID();
+    const infons = this.infons(annotation.infon);
+
+    // Discontinuous mentions have several locations, the first one is kept on the annotation
+    const locations = (annotation.location ?? []).map((location, ordinal) => ({
+      id: randomUUID(),
+      annotationId: id,
+      offset: Number(location.attributes.offset) || 0,
+      length: Number(location.attributes.length) || 0,
+      ordinal,
+    }));
+
+    rows.annotations.push({
+      id,
+      documentId: rows.document.id,
+      passageId,
+      sentenceId,
+      annotationId: (annotation.attributes.id || '').toString(),
+      identifier: this.infonValue(infons, 'identifier'),
+      type: this.infonValue(infons, 'type'),
+      offset: locations[0]?.offset || 0,
+      length: locations[0]?.length || 0,
+      text: (annotation.text || '').toString(),
+    });
+    // Every infon is kept, including type and identifier
+    rows.annotationInfons.push(...infons.map(infon => ({ ...infon, annotationId: id })));
+    rows.annotationLocations.push(...locations);
+  }
+
+  private static infons(infons: InfonData[] | undefined): InfonRow[] {
+    return (infons ?? []).map(infon => ({
+      id: randomUUID(),
+      key: infon.attributes.key || '',
+      value: (infon._text || '').toString(),
+    }));
+  }
+
+  /** Items in the order of their JSON form, which starts with the offset for passages and sentences */
+  private static sorted<T>(items: T[]): T[] {
+    return items
+      .map(item => ({ item, key: JSON.stringify(item) }))
+      // Plain code unit order, localeCompare would make the hash depend on the machine's locale
+      .sort((a, b) => this.compare(a.key, b.key))
+      .map(({ item }) => item);
+  }
+
+  private static compare(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  private static infonValue(infons: InfonRow[], key: string): string | null {
+    return infons.find(infon => infon.key === key)?.value ?? null;
+  }
+}
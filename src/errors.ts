@@ -0,0 +1,18 @@
+/** Stops the whole load, where other errors only fail the entry they happened in */
+export class FatalLoadError extends Error {}
+
+/** Raised by the `fail` conflict strategy; it stops the load instead of skipping the file */
+export class DocumentConflictError extends FatalLoadError {
+  constructor(public documentId: string) {
+    super(`Document ${documentId} already exists`);
+    this.name = 'DocumentConflictError';
+  }
+}
+
+/** A filter expression that cannot be parsed, `position` is the offset of the offending character */
+export class FilterSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'FilterSyntaxError';
+  }
+}
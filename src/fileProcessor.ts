@@ -1,10 +1,62 @@
-import { readdirSync, statSync } from 'fs';
-import { join, extname } from 'path';
+import { createReadStream, readdirSync, realpathSync, statSync } from 'fs';
+import { join, basename } from 'path';
+import { Readable, Transform, pipeline } from 'stream';
+import { createHash } from 'crypto';
+import { createGunzip } from 'zlib';
+import tar from 'tar-stream';
+import { DocumentReader } from './documentReader.js';
+import { GlobPattern } from './globPattern.js';
+import { logger } from './logger.js';
+
+/**
+ * A single BioC input. Plain and gzipped files map to one entry, while
+ * tarballs yield one virtual entry per BioC member.
+ */
+export interface InputEntry {
+  /** Path on disk, or `<archive>/<member>` for members of a tarball */
+  path: string;
+  name: string;
+  /** The tarball a member was read from */
+  archive?: string;
+  /** Opens a stream with the decompressed content */
+  open(): Readable;
+  /** False for tarball members, whose content can only be read once */
+  reopenable: boolean;
+  /** Size in bytes as stored on disk or in the archive */
+  size?: number;
+  /** SHA-256 of the stored bytes, available once open() has been read to the end */
+  digest(): string | undefined;
+}
+
+/** How directories are searched for input files */
+export interface DiscoveryOptions {
+  /** Search subdirectories too, default true */
+  recursive?: boolean;
+  /** Glob patterns (see GlobPattern) selecting the files to list instead of the supported extensions */
+  include?: string[];
+  /** Glob patterns for files and directories to leave out */
+  exclude?: string[];
+  /** Follow symlinks to files and directories, default true */
+  followSymlinks?: boolean;
+}
 
 export class FileProcessor {
-  static isXmlFile(filePath: string): boolean {
-    const ext = extname(filePath).toLowerCase();
-    return ext === '.xml';
+  static isGzipFile(filePath: string): boolean {
+    return filePath.toLowerCase().endsWith('.gz') && !this.isTarFile(filePath);
+  }
+
+  /** BioC XML, BioC JSON or PubTator documents, optionally gzipped. `.bioc` files are sniffed for their format. */
+  static isDocumentFile(filePath: string): boolean {
+    return DocumentReader.formatFromName(filePath) !== null || /\.bioc(\.gz)?$/i.test(filePath);
+  }
+
+  static isTarFile(filePath: string): boolean {
+    const lower = filePath.toLowerCase();
+    return lower.endsWith('.tar') || lower.endsWith('.tar.gz') || lower.endsWith('.tgz');
+  }
+
+  static isSupportedFile(filePath: string): boolean {
+    return this.isDocumentFile(filePath) || this.isTarFile(filePath);
   }
 
   static isDirectory(path: string): boolean {
@@ -23,40 +75,205 @@ export class FileProcessor {
     }
   }
 
-  static getXmlFilesFromDirectory(dirPath: string): string[] {
-    const files: string[] = [];
-    
-    try {
-      const entries = readdirSync(dirPath);
-      
-      for (const entry of entries) {
-        const fullPath = join(dirPath, entry);
-        
-        if (this.isFile(fullPath) && this.isXmlFile(fullPath)) {
-          files.push(fullPath);
+  /**
+   * Lists the files below a directory, sorted by path. Without include
+   * patterns every supported file is listed; with them, the files matching
+   * one of the patterns are, whatever their extension. Excluded directories
+   * are not entered. Symlinks are followed unless disabled, and a directory
+   * or file reachable through several links is only listed once.
+   */
+  static getInputFilesFromDirectory(dirPath: string, options: DiscoveryOptions = {}): string[] {
+    const include = (options.include ?? []).map(pattern => new GlobPattern(pattern));
+    const exclude = (options.exclude ?? []).map(pattern => new GlobPattern(pattern));
+    const recursive = options.recursive ?? true;
+    const followSymlinks = options.followSymlinks ?? true;
+
+    const found: { path: string; relative: string; realPath: string; linked: boolean }[] = [];
+    const visited = new Set<string>();
+    // Linked directories are entered once the real tree has been walked, so
+    // files are listed under their own path rather than through a link
+    const links: { path: string; relative: string }[] = [];
+
+    const walk = (dir: string, relativeDir: string, linked: boolean) => {
+      // Symlinks pointing back up the tree would otherwise loop forever
+      const realDir = realpathSync(dir);
+      if (visited.has(realDir)) {
+        logger.debug(`Skipping ${dir}, already visited as ${realDir}`);
+        return;
+      }
+      visited.add(realDir);
+
+      for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = join(dir, entry.name);
+        const relative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (exclude.some(pattern => pattern.matches(relative))) {
+          continue;
+        }
+
+        let isDirectory = entry.isDirectory();
+        let isFile = entry.isFile();
+        if (entry.isSymbolicLink()) {
+          if (!followSymlinks) {
+            continue;
+          }
+          try {
+            const target = statSync(fullPath);
+            isDirectory = target.isDirectory();
+            isFile = target.isFile();
+          } catch (error) {
+            logger.warn(`Skipping broken symlink ${fullPath}: ${(error as Error).message}`);
+            continue;
+          }
         }
+
+        if (isDirectory && recursive) {
+          if (entry.isSymbolicLink() || linked) {
+            links.push({ path: fullPath, relative });
+          } else {
+            visit(fullPath, relative, false);
+          }
+        } else if (isFile && (include.length > 0
+          ? include.some(pattern => pattern.matches(relative))
+          : this.isSupportedFile(entry.name))) {
+          found.push({ path: fullPath, relative, realPath: realpathSync(fullPath), linked: linked || entry.isSymbolicLink() });
+        }
+      }
+    };
+    const visit = (dir: string, relative: string, linked: boolean) => {
+      try {
+        walk(dir, relative, linked);
+      } catch (error) {
+        logger.warn(`Skipping directory ${dir}: ${(error as Error).message}`);
       }
+    };
+
+    try {
+      walk(dirPath, '', false);
     } catch (error) {
       throw new Error(`Error reading directory ${dirPath}: ${(error as Error).message}`);
     }
+    for (let i = 0; i < links.length; i++) {
+      visit(links[i].path, links[i].relative, true);
+    }
 
-    return files;
+    // Code unit order, so the same tree is always listed the same way whatever the locale
+    found.sort((a, b) => a.relative < b.relative ? -1 : a.relative > b.relative ? 1 : 0);
+    const listed = new Map<string, (typeof found)[number]>();
+    for (const file of found) {
+      const previous = listed.get(file.realPath);
+      if (!previous || (previous.linked && !file.linked)) {
+        listed.set(file.realPath, file);
+      }
+    }
+    return found.filter(file => listed.get(file.realPath) === file).map(file => file.path);
   }
 
-  static getFilesToProcess(path: string): string[] {
+  static getFilesToProcess(path: string, options: DiscoveryOptions = {}): string[] {
     if (this.isFile(path)) {
-      if (!this.isXmlFile(path)) {
-        throw new Error(`File is not an XML file: ${path}`);
+      if (!this.isSupportedFile(path)) {
+        throw new Error(`File is not a BioC XML/JSON file or tar archive: ${path}`);
       }
       return [path];
     } else if (this.isDirectory(path)) {
-      const files = this.getXmlFilesFromDirectory(path);
+      const files = this.getInputFilesFromDirectory(path, options);
       if (files.length === 0) {
-        throw new Error(`No XML files found in directory: ${path}`);
+        throw new Error(`No BioC files found in directory: ${path}`);
       }
       return files;
     } else {
       throw new Error(`Path does not exist or is not accessible: ${path}`);
     }
   }
+
+  /** SHA-256 of the file as stored on disk */
+  static async sha256(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Enumerates the BioC inputs contained in a file. Tarball members are
+   * streamed straight from the archive and never written to disk; each
+   * member must be fully consumed before the next one is requested.
+   */
+  static async *openEntries(filePath: string): AsyncGenerator<InputEntry> {
+    if (!this.isTarFile(filePath)) {
+      let digest: string | undefined;
+      yield {
+        path: filePath,
+        name: basename(filePath),
+        open: () => this.openFile(filePath, this.isGzipFile(filePath), (value) => digest = value),
+        reopenable: true,
+        size: statSync(filePath).size,
+        digest: () => digest,
+      };
+      return;
+    }
+
+    const extract = tar.extract();
+    const source = this.openFile(filePath, /\.(tar\.gz|tgz)$/i.test(filePath));
+    pipeline(source, extract, () => undefined);
+
+    for await (const member of extract) {
+      const memberName = member.header.name;
+
+      if (member.header.type !== 'file' || !this.isDocumentFile(memberName)) {
+        member.resume();
+        continue;
+      }
+
+      let opened = false;
+      let digest: string | undefined;
+      yield {
+        path: join(filePath, memberName),
+        name: basename(memberName),
+        archive: filePath,
+        open: () => {
+          if (opened) {
+            throw new Error(`Archive member can only be read once: ${memberName}`);
+          }
+          opened = true;
+          // tar-stream hands out streamx readables, wrap them as regular Node streams
+          const stream = this.hashing(Readable.from(member), (value) => digest = value);
+          return this.isGzipFile(memberName) ? this.gunzip(stream) : stream;
+        },
+        reopenable: false,
+        size: member.header.size,
+        digest: () => digest,
+      };
+
+      // Skip whatever the consumer left unread so the archive can advance
+      member.resume();
+    }
+  }
+
+  private static openFile(filePath: string, gzipped: boolean, onDigest?: (digest: string) => void): Readable {
+    const file = createReadStream(filePath);
+    const stream = onDigest ? this.hashing(file, onDigest) : file;
+    return gzipped ? this.gunzip(stream) : stream;
+  }
+
+  /** Passes the content through unchanged, reporting its SHA-256 when the end is reached */
+  private static hashing(stream: Readable, onDigest: (digest: string) => void): Readable {
+    const hash = createHash('sha256');
+    const tap = new Transform({
+      transform(chunk, _encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+      flush(callback) {
+        onDigest(hash.digest('hex'));
+        callback();
+      },
+    });
+    return pipeline(stream, tap, () => undefined);
+  }
+
+  private static gunzip(stream: Readable): Readable {
+    // Errors on either side destroy the returned stream, which surfaces them to the reader
+    return pipeline(stream, createGunzip(), () => undefined);
+  }
 }
@@ -0,0 +1,46 @@
+import { DocumentReader } from './documentReader.js';
+import { FileProcessor, InputEntry } from './fileProcessor.js';
+import { DocumentSource, SourceEntry, SourceInput } from './pipeline.js';
+
+/**
+ * Pipeline source reading BioC XML/JSON and PubTator files. Each file is an
+ * input; tarballs have one entry per BioC member, other files a single entry.
+ */
+export class FileSource implements DocumentSource {
+  constructor(readonly files: string[], private reader = new DocumentReader()) {}
+
+  get size(): number {
+    return this.files.length;
+  }
+
+  inputs(): SourceInput[] {
+    return this.files.map(path => this.input(path));
+  }
+
+  input(path: string): SourceInput {
+    return {
+      path,
+      name: path.split('/').pop() || path,
+      entries: () => this.entries(path),
+    };
+  }
+
+  private async *entries(path: string): AsyncGenerator<SourceEntry> {
+    for await (const entry of FileProcessor.openEntries(path)) {
+      yield this.toSourceEntry(entry);
+    }
+  }
+
+  private toSourceEntry(entry: InputEntry): SourceEntry {
+    return {
+      path: entry.path,
+      name: entry.name,
+      size: entry.size,
+      archive: entry.archive,
+      // Archive members can only be read once, so they are never pre-checked
+      openRaw: entry.reopenable ? () => entry.open() : undefined,
+      read: () => this.reader.read(entry),
+      digest: () => entry.digest(),
+    };
+  }
+}
@@ -0,0 +1,374 @@
+import { FilterSyntaxError } from './errors.js';
+import { AnnotationData, DocumentData, InfonData, PassageData } from './types.js';
+
+/** Which infon of an annotation a term is compared with */
+export type TermField = 'any' | 'type' | 'identifier';
+
+export interface TermNode {
+  kind: 'term';
+  field: TermField;
+  /** Value to match, `*` matches any run of characters */
+  pattern: string;
+  /** Annotations that have to match, 1 unless the term has a `>=` count */
+  min: number;
+  matcher: RegExp;
+}
+
+export type FilterNode =
+  | TermNode
+  | { kind: 'and' | 'or'; nodes: FilterNode[] }
+  | { kind: 'not'; node: FilterNode }
+  // Holds when a single passage satisfies the inner expression
+  | { kind: 'passage'; node: FilterNode }
+  // The inner expression only sees passages of the given sections
+  | { kind: 'section'; sections: RegExp[]; node: FilterNode };
+
+/**
+ * Terms that must appear in the raw text of an input for any of its
+ * documents to match: every item of `all`, at least one item of `some`.
+ */
+export type TextRequirement = TermNode | { kind: 'all' | 'some'; items: TextRequirement[] };
+
+interface AnnotationView {
+  type: string;
+  identifier: string;
+}
+
+interface PassageView {
+  sections: string[];
+  annotations: AnnotationView[];
+}
+
+/** Annotations an expression is evaluated against */
+interface Scope {
+  passages: PassageView[];
+  annotations: AnnotationView[];
+}
+
+interface Token {
+  kind: 'word' | 'string' | '(' | ')' | ',' | '>=';
+  value: string;
+  position: number;
+}
+
+const FIELDS: Record<string, TermField> = { type: 'type', id: 'identifier', identifier: 'identifier' };
+const KEYWORDS = ['and', 'or', 'not'];
+
+/**
+ * Annotation filter language:
+ *
+ *   Gene AND (Disease OR Chemical)      type or identifier, combined with AND, OR, NOT and parentheses
+ *   type:Gene, id:MESH:D0*              only the type or only the identifier, `*` is a wildcard
+ *   "Cell Line"                         quotes for values with spaces, parentheses or keywords
+ *   Disease>=3                          at least three matching annotations
+ *   passage(Gene AND Disease)           both in the same passage
+ *   section(abstract|title, Gene)       only annotations of abstract or title passages
+ *
+ * Values are compared case-insensitively. Identifiers also match on any one
+ * of their `;` or `,` separated parts.
+ */
+export class FilterExpression {
+  private constructor(readonly source: string, readonly root: FilterNode) {}
+
+  static parse(source: string): FilterExpression {
+    return new FilterExpression(source, new Parser(source).parse());
+  }
+
+  /** Expression matching any of the given types or identifiers */
+  static anyOf(values: string[]): string {
+    return values.map(value => `"${value.replace(/"/g, '\\"')}"`).join(' OR ');
+  }
+
+  /** Expression matching when every one of the given expressions does */
+  static allOf(expressions: string[]): string {
+    const parts = expressions.filter(expression => expression.trim() !== '');
+    return parts.length === 1 ? parts[0] : parts.map(expression => `(${expression})`).join(' AND ');
+  }
+
+  matches(doc: DocumentData): boolean {
+    return this.evaluate(this.root, FilterExpression.scope(doc));
+  }
+
+  /**
+   * What the raw text has to contain for the expression to possibly match,
+   * null when any text could match. Negations never require anything, so
+   * the requirement only rules out inputs the document filter would reject.
+   */
+  textRequirement(node: FilterNode = this.root): TextRequirement | null {
+    switch (node.kind) {
+      case 'term':
+        return node.min > 0 ? node : null;
+      case 'and': {
+        const items = node.nodes.map(child => this.textRequirement(child)).filter(item => item !== null);
+        return items.length === 0 ? null : items.length === 1 ? items[0] : { kind: 'all', items };
+      }
+      case 'or': {
+        const items = node.nodes.map(child => this.textRequirement(child));
+        return items.some(item => item === null) ? null : { kind: 'some', items: items as TextRequirement[] };
+      }
+      case 'not':
+        return null;
+      case 'passage':
+      case 'section':
+        return this.textRequirement(node.node);
+    }
+  }
+
+  private evaluate(node: FilterNode, scope: Scope): boolean {
+    switch (node.kind) {
+      case 'term': {
+        let count = 0;
+        for (const annotation of scope.annotations) {
+          if (this.termMatches(node, annotation) && ++count >= node.min) {
+            return true;
+          }
+        }
+        return count >= node.min;
+      }
+      case 'and':
+        return node.nodes.every(child => this.evaluate(child, scope));
+      case 'or':
+        return node.nodes.some(child => this.evaluate(child, scope));
+      case 'not':
+        return !this.evaluate(node.node, scope);
+      case 'passage':
+        return scope.passages.some(passage =>
+          this.evaluate(node.node, { passages: [passage], annotations: passage.annotations })
+        );
+      case 'section': {
+        const passages = scope.passages.filter(passage =>
+          passage.sections.some(section => node.sections.some(pattern => pattern.test(section)))
+        );
+        return this.evaluate(node.node, { passages, annotations: passages.flatMap(passage => passage.annotations) });
+      }
+    }
+  }
+
+  private termMatches(term: TermNode, annotation: AnnotationView): boolean {
+    if (term.field !== 'identifier' && term.matcher.test(annotation.type)) {
+      return true;
+    }
+    if (term.field !== 'type' && annotation.identifier !== '') {
+      const identifier = annotation.identifier;
+      return term.matcher.test(identifier) || identifier.split(/[;,]/).some(part => term.matcher.test(part.trim()));
+    }
+    return false;
+  }
+
+  private static scope(doc: DocumentData): Scope {
+    const passages = (doc.passage ?? []).map(passage => this.passageView(passage));
+    return {
+      passages,
+      annotations: [
+        ...(doc.annotation ?? []).map(annotation => this.annotationView(annotation)),
+        ...passages.flatMap(passage => passage.annotations),
+      ],
+    };
+  }
+
+  private static passageView(passage: PassageData): PassageView {
+    const infons = passage.infon ?? [];
+    const annotations = [
+      ...(passage.annotation ?? []),
+      ...(passage.sentence ?? []).flatMap(sentence => sentence.annotation ?? []),
+    ];
+    return {
+      sections: [this.infonValue(infons, 'section_type'), this.infonValue(infons, 'type')].filter(value => value !== ''),
+      annotations: annotations.map(annotation => this.annotationView(annotation)),
+    };
+  }
+
+  private static annotationView(annotation: AnnotationData): AnnotationView {
+    const infons = annotation.infon ?? [];
+    return { type: this.infonValue(infons, 'type'), identifier: this.infonValue(infons, 'identifier') };
+  }
+
+  private static infonValue(infons: InfonData[], key: string): string {
+    return (infons.find(infon => infon.attributes.key === key)?._text ?? '').toString().trim();
+  }
+}
+
+/** Recursive descent parser, NOT binds tighter than AND, which binds tighter than OR */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): FilterNode {
+    if (this.tokens.length === 0) {
+      throw new FilterSyntaxError('Filter is empty', 0);
+    }
+
+    const node = this.parseOr();
+    const rest = this.peek();
+    if (rest) {
+      throw new FilterSyntaxError(`Unexpected "${rest.value}"`, rest.position);
+    }
+    return node;
+  }
+
+  private parseOr(): FilterNode {
+    const nodes = [this.parseAnd()];
+    while (this.acceptKeyword('or')) {
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'or', nodes };
+  }
+
+  private parseAnd(): FilterNode {
+    const nodes = [this.parseNot()];
+    while (this.acceptKeyword('and')) {
+      nodes.push(this.parseNot());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'and', nodes };
+  }
+
+  private parseNot(): FilterNode {
+    if (this.acceptKeyword('not')) {
+      return { kind: 'not', node: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.peek();
+    if (!token) {
+      throw new FilterSyntaxError('Expected an annotation type or identifier', this.source.length);
+    }
+
+    if (token.kind === '(') {
+      this.index++;
+      const node = this.parseOr();
+      this.expect(')');
+      return node;
+    }
+
+    const next = this.tokens[this.index + 1];
+    if (token.kind === 'word' && next?.kind === '(') {
+      const name = token.value.toLowerCase();
+      if (name === 'passage') {
+        this.index += 2;
+        const node = this.parseOr();
+        this.expect(')');
+        return { kind: 'passage', node };
+      }
+      if (name === 'section') {
+        this.index += 2;
+        const sections = this.expectValue('Expected a section name');
+        this.expect(',');
+        const node = this.parseOr();
+        this.expect(')');
+        return { kind: 'section', sections: sections.value.split('|').map(section => this.matcher(section.trim())), node };
+      }
+      throw new FilterSyntaxError(`Unknown function "${token.value}"`, token.position);
+    }
+
+    return this.parseTerm();
+  }
+
+  private parseTerm(): TermNode {
+    const token = this.expectValue('Expected an annotation type or identifier');
+
+    let field: TermField = 'any';
+    let pattern = token.value;
+    const prefix = token.kind === 'word' ? /^([a-z]+):(.*)$/i.exec(token.value) : null;
+    if (prefix && FIELDS[prefix[1].toLowerCase()]) {
+      field = FIELDS[prefix[1].toLowerCase()];
+      pattern = prefix[2] !== '' ? prefix[2] : this.expectValue(`Expected a value after "${token.value}"`).value;
+    }
+
+    let min = 1;
+    if (this.peek()?.kind === '>=') {
+      this.index++;
+      const count = this.expectValue('Expected a number after ">="');
+      if (!/^\d+$/.test(count.value)) {
+        throw new FilterSyntaxError(`Expected a number after ">=" but found "${count.value}"`, count.position);
+      }
+      min = Number(count.value);
+    }
+
+    return { kind: 'term', field, pattern, min, matcher: this.matcher(pattern) };
+  }
+
+  private matcher(pattern: string): RegExp {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i');
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.kind === 'word' && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(kind: Token['kind']): Token {
+    const token = this.peek();
+    if (token?.kind !== kind) {
+      throw new FilterSyntaxError(
+        token ? `Expected "${kind}" but found "${token.value}"` : `Expected "${kind}"`,
+        token?.position ?? this.source.length
+      );
+    }
+    this.index++;
+    return token;
+  }
+
+  /** A word or quoted string; keywords have to be quoted to be used as values */
+  private expectValue(message: string): Token {
+    const token = this.peek();
+    if (!token || (token.kind !== 'word' && token.kind !== 'string') ||
+      (token.kind === 'word' && KEYWORDS.includes(token.value.toLowerCase()))) {
+      throw new FilterSyntaxError(token ? `${message} but found "${token.value}"` : message, token?.position ?? this.source.length);
+    }
+    this.index++;
+    return token;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.source;
+    let i = 0;
+
+    while (i < source.length) {
+      const char = source[i];
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '(' || char === ')' || char === ',') {
+        tokens.push({ kind: char, value: char, position: i });
+        i++;
+      } else if (source.startsWith('>=', i)) {
+        tokens.push({ kind: '>=', value: '>=', position: i });
+        i += 2;
+      } else if (char === '"') {
+        const start = i;
+        let value = '';
+        for (i++; i < source.length && source[i] !== '"'; i++) {
+          value += source[i] === '\\' && i + 1 < source.length ? source[++i] : source[i];
+        }
+        if (i >= source.length) {
+          throw new FilterSyntaxError('Unterminated quote', start);
+        }
+        tokens.push({ kind: 'string', value, position: start });
+        i++;
+      } else {
+        const start = i;
+        while (i < source.length && !/[\s(),"]/.test(source[i]) && !source.startsWith('>=', i)) {
+          i++;
+        }
+        tokens.push({ kind: 'word', value: source.slice(start, i), position: start });
+      }
+    }
+
+    return tokens;
+  }
+}
@@ -0,0 +1,181 @@
+import { copyFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync, unlinkSync } from 'fs';
+import { basename, dirname, join, relative } from 'path';
+import { FatalLoadError } from './errors.js';
+import { DiscoveryOptions, FileProcessor } from './fileProcessor.js';
+import { FileSource } from './fileSource.js';
+import { logger } from './logger.js';
+import { DocumentFilter, DocumentSink, Pipeline, PipelineOptions } from './pipeline.js';
+
+export interface WatchOptions {
+  /** Milliseconds between scans of the directory, default 5000 */
+  interval?: number;
+  /** Milliseconds a file's size and modification time have to stay unchanged before it is loaded, default 30000 */
+  settle?: number;
+  /** Only load files once a `<file>.done` marker exists next to them, instead of waiting for them to settle */
+  markers?: boolean;
+  /** Which files below the directory are picked up */
+  discovery?: DiscoveryOptions;
+  /** Options of the pipeline each file is loaded with */
+  pipeline?: PipelineOptions;
+}
+
+const MARKER_SUFFIX = '.done';
+
+/** Size and modification time of a file when it was first seen with them */
+interface Observation {
+  size: number;
+  mtimeMs: number;
+  since: number;
+}
+
+/**
+ * Loads the files dropped into a directory as they arrive. Each file is
+ * loaded in its own ingestion run once it is complete, then moved to the
+ * `processed/` or `failed/` subfolder, keeping its path below the watched
+ * directory. Errors that are not the file's fault, like a lost database
+ * connection, leave it in place to be retried on the next scan.
+ */
+export class FolderWatcher {
+  readonly processedDir: string;
+  readonly failedDir: string;
+  private seen = new Map<string, Observation>();
+  private stopping = false;
+  private wake: (() => void) | null = null;
+
+  constructor(
+    readonly directory: string,
+    private filter: DocumentFilter,
+    private sink: DocumentSink,
+    private options: WatchOptions = {}) {
+    this.processedDir = join(directory, 'processed');
+    this.failedDir = join(directory, 'failed');
+  }
+
+  /** Scans until stop() is called, finishing the file being loaded */
+  async run(): Promise<void> {
+    mkdirSync(this.processedDir, { recursive: true });
+    mkdirSync(this.failedDir, { recursive: true });
+    logger.info(`Watching ${this.directory} for new files` +
+      (this.options.markers ? ` with ${MARKER_SUFFIX} markers` : ''));
+
+    while (!this.stopping) {
+      for (const file of this.readyFiles()) {
+        if (this.stopping) {
+          break;
+        }
+        await this.ingest(file);
+      }
+      await this.sleep(this.options.interval ?? 5000);
+    }
+
+    logger.info(`Stopped watching ${this.directory}`);
+  }
+
+  stop(): void {
+    this.stopping = true;
+    this.wake?.();
+  }
+
+  private readyFiles(): string[] {
+    const discovery = this.options.discovery ?? {};
+    let files: string[];
+    try {
+      files = FileProcessor.getInputFilesFromDirectory(this.directory, {
+        ...discovery,
+        exclude: [...discovery.exclude ?? [], 'processed/**', 'failed/**'],
+      }).filter(file => !file.endsWith(MARKER_SUFFIX));
+    } catch (error) {
+      logger.error(`Error scanning ${this.directory}: ${(error as Error).message}`);
+      return [];
+    }
+
+    // Forget files that disappeared before they were loaded
+    const present = new Set(files);
+    for (const file of this.seen.keys()) {
+      if (!present.has(file)) {
+        this.seen.delete(file);
+      }
+    }
+
+    const now = Date.now();
+    return files.filter(file => this.isReady(file, now));
+  }
+
+  /** Whether the file has been written completely */
+  private isReady(file: string, now: number): boolean {
+    if (this.options.markers) {
+      return existsSync(file + MARKER_SUFFIX);
+    }
+
+    let size: number;
+    let mtimeMs: number;
+    try {
+      ({ size, mtimeMs } = statSync(file));
+    } catch (error) {
+      return false;
+    }
+
+    const previous = this.seen.get(file);
+    if (!previous || previous.size !== size || previous.mtimeMs !== mtimeMs) {
+      this.seen.set(file, { size, mtimeMs, since: now });
+      return false;
+    }
+    return now - previous.since >= (this.options.settle ?? 30_000);
+  }
+
+  private async ingest(file: string): Promise<void> {
+    let failed: boolean;
+    try {
+      const result = await new Pipeline(new FileSource([file]), this.filter, this.sink, this.options.pipeline).run();
+      failed = result.failed.length > 0;
+    } catch (error) {
+      if (!(error instanceof FatalLoadError)) {
+        logger.error(`Error loading ${file}, retrying on the next scan: ${(error as Error).message}`);
+        return;
+      }
+      logger.error(`Error loading ${file}: ${error.message}`);
+      failed = true;
+    }
+
+    this.seen.delete(file);
+    try {
+      this.move(file, failed ? this.failedDir : this.processedDir);
+    } catch (error) {
+      // Without moving the file it would be loaded again, which is better than stopping the watch
+      logger.error(`Error moving ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  private move(file: string, targetDir: string): void {
+    let destination = join(targetDir, relative(this.directory, file));
+    if (existsSync(destination)) {
+      destination = join(dirname(destination), `${Date.now()}-${basename(destination)}`);
+    }
+    mkdirSync(dirname(destination), { recursive: true });
+
+    try {
+      renameSync(file, destination);
+    } catch (error) {
+      // The target is on another file system when part of the tree is a symlink
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      copyFileSync(file, destination);
+      unlinkSync(file);
+    }
+    rmSync(file + MARKER_SUFFIX, { force: true });
+    logger.info(`Moved ${file} to ${destination}`);
+  }
+
+  /** Waits for the interval, or until stop() is called */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.wake?.(), ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+}
@@ -44,11 +44,21 @@ export { Prisma }
  * 
  */
 export type Collection = Prisma.CollectionModel
+/**
+ * Model CollectionInfon
+ * 
+ */
+export type CollectionInfon = Prisma.CollectionInfonModel
 /**
  * Model Document
  * 
  */
 export type Document = Prisma.DocumentModel
+/**
+ * Model DocumentInfon
+ * 
+ */
+export type DocumentInfon = Prisma.DocumentInfonModel
 /**
  * Model Passage
  * 
@@ -59,11 +69,56 @@ export type Passage = Prisma.PassageModel
  * 
  */
 export type PassageInfon = Prisma.PassageInfonModel
+/**
+ * Model Sentence
+ * 
+ */
+export type Sentence = Prisma.SentenceModel
+/**
+ * Model SentenceInfon
+ * 
+ */
+export type SentenceInfon = Prisma.SentenceInfonModel
 /**
  * Model Annotation
  * 
  */
 export type Annotation = Prisma.AnnotationModel
+/**
+ * Model AnnotationInfon
+ * 
+ */
+export type AnnotationInfon = Prisma.AnnotationInfonModel
+/**
+ * Model AnnotationLocation
+ * 
+ */
+export type AnnotationLocation = Prisma.AnnotationLocationModel
+/**
+ * Model Relation
+ * 
+ */
+export type Relation = Prisma.RelationModel
+/**
+ * Model RelationInfon
+ * 
+ */
+export type RelationInfon = Prisma.RelationInfonModel
+/**
+ * Model RelationNode
+ * 
+ */
+export type RelationNode = Prisma.RelationNodeModel
+/**
+ * Model IngestionRun
+ * 
+ */
+export type IngestionRun = Prisma.IngestionRunModel
+/**
+ * Model IngestedFile
+ * 
+ */
+export type IngestedFile = Prisma.IngestedFileModel
 /**
  * Model Disease
  * 
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.3.0",
   "engineVersion": "9d6ad21cbbceab97458517b147a6a09ff43aa735",
   "activeProvider": "postgresql",
-  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Collection {\n  id        String     @id @default(cuid())\n  source    String?\n  date      String?\n  key       String?\n  documents Document[]\n  createdAt DateTime   @default(now())\n  updatedAt DateTime   @updatedAt\n\n  @@map(\"collections\")\n}\n\nmodel Document {\n  id           String     @id @default(cuid())\n  documentId   String     @unique\n  // The PMC ID from the XML\n  collectionId String\n  collection   Collection @relation(fields: [collectionId], references: [id], onDelete: Cascade)\n  passages     Passage[]\n  createdAt    DateTime   @default(now())\n  updatedAt    DateTime   @updatedAt\n\n  @@index([documentId])\n  @@index([collectionId])\n  @@map(\"documents\")\n}\n\nmodel Passage {\n  id          String         @id @default(cuid())\n  documentId  String\n  document    Document       @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  offset      Int\n  text        String         @db.Text\n  sectionType String?\n  type        String?\n  infons      PassageInfon[]\n  annotations Annotation[]\n  createdAt   DateTime       @default(now())\n  updatedAt   DateTime       @updatedAt\n\n  @@index([documentId])\n  @@index([sectionType])\n  @@index([type])\n  @@map(\"passages\")\n}\n\nmodel PassageInfon {\n  id        String  @id @default(cuid())\n  passageId String\n  passage   Passage @relation(fields: [passageId], references: [id], onDelete: Cascade)\n\n  key       String\n  value     String   @db.Text\n  createdAt DateTime @default(now())\n\n  @@index([passageId])\n  @@map(\"infons\")\n}\n\nmodel Annotation {\n  id           String   @id @default(cuid())\n  passageId    String\n  passage      Passage  @relation(fields: [passageId], references: [id], onDelete: Cascade)\n  annotationId String // The id attribute from XML\n  identifier   String?\n  type         String?\n  offset       Int\n  length       Int\n  text         String   @db.Text\n  createdAt    DateTime @default(now())\n\n  @@index([passageId])\n  @@index([type])\n  @@index([identifier])\n  @@map(\"annotations\")\n}\n\nmodel Disease {\n  id     Int    @id @default(autoincrement())\n  meshId String\n  text   String @db.Text\n\n  // @@unique([meshId, text])\n  @@index([meshId])\n  @@index([text])\n  @@map(\"diseases\")\n}\n",
+  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Collection {\n  id         String            @id @default(cuid())\n  source     String?\n  date       String?\n  key        String? // The BioC <key>, usually the key file name like BioC.key\n  sourcePath String? // Input file, or <archive>/<member> for tarball members\n  sourceSize BigInt?\n  sourceHash String? // SHA-256 of the input as stored on disk\n  infons     CollectionInfon[]\n  documents  Document[]\n  createdAt  DateTime          @default(now())\n  updatedAt  DateTime          @updatedAt\n\n  @@index([sourcePath])\n  @@map(\"collections\")\n}\n\nmodel CollectionInfon {\n  id           String     @id @default(cuid())\n  collectionId String\n  collection   Collection @relation(fields: [collectionId], references: [id], onDelete: Cascade)\n\n  key       String\n  value     String   @db.Text\n  createdAt DateTime @default(now())\n\n  @@index([collectionId])\n  @@map(\"collection_infons\")\n}\n\nmodel Document {\n  id           String          @id @default(cuid())\n  documentId   String          @unique\n  // The PMC ID from the XML\n  collectionId String\n  collection   Collection      @relation(fields: [collectionId], references: [id], onDelete: Cascade)\n  contentHash  String? // SHA-256 of the passages, annotations, relations and infons\n  infons       DocumentInfon[]\n  passages     Passage[]\n  annotations  Annotation[]\n  relations    Relation[]\n  createdAt    DateTime        @default(now())\n  updatedAt    DateTime        @updatedAt\n\n  @@index([documentId])\n  @@index([collectionId])\n  @@map(\"documents\")\n}\n\nmodel DocumentInfon {\n  id         String   @id @default(cuid())\n  documentId String\n  document   Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n\n  key       String\n  value     String   @db.Text\n  createdAt DateTime @default(now())\n\n  @@index([documentId])\n  @@index([key, value])\n  @@map(\"document_infons\")\n}\n\nmodel Passage {\n  id          String         @id @default(cuid())\n  documentId  String\n  document    Document       @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  offset      Int\n  text        String         @db.Text\n  sectionType String?\n  type        String?\n  infons      PassageInfon[]\n  sentences   Sentence[]\n  annotations Annotation[]\n  relations   Relation[]\n  createdAt   DateTime       @default(now())\n  updatedAt   DateTime       @updatedAt\n\n  @@index([documentId])\n  @@index([sectionType])\n  @@index([type])\n  @@map(\"passages\")\n}\n\nmodel PassageInfon {\n  id        String  @id @default(cuid())\n  passageId String\n  passage   Passage @relation(fields: [passageId], references: [id], onDelete: Cascade)\n\n  key       String\n  value     String   @db.Text\n  createdAt DateTime @default(now())\n\n  @@index([passageId])\n  @@map(\"infons\")\n}\n\nmodel Sentence {\n  id          String          @id @default(cuid())\n  passageId   String\n  passage     Passage         @relation(fields: [passageId], references: [id], onDelete: Cascade)\n  offset      Int\n  text        String          @db.Text\n  infons      SentenceInfon[]\n  annotations Annotation[]\n  createdAt   DateTime        @default(now())\n\n  @@index([passageId])\n  @@map(\"sentences\")\n}\n\nmodel SentenceInfon {\n  id         String   @id @default(cuid())\n  sentenceId String\n  sentence   Sentence @relation(fields: [sentenceId], references: [id], onDelete: Cascade)\n\n  key       String\n  value     String   @db.Text\n  createdAt DateTime @default(now())\n\n  @@index([sentenceId])\n  @@map(\"sentence_infons\")\n}\n\nmodel Annotation {\n  id            String               @id @default(cuid())\n  documentId    String?\n  document      Document?            @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  passageId     String? // Not set for annotations placed directly under <document>\n  passage       Passage?             @relation(fields: [passageId], references: [id], onDelete: Cascade)\n  sentenceId    String? // Set for annotations inside a <sentence>\n  sentence      Sentence?            @relation(fields: [sentenceId], references: [id], onDelete: Cascade)\n  annotationId  String // The id attribute from XML\n  identifier    String?\n  type          String?\n  offset        Int // First location, see locations for discontinuous spans\n  length        Int\n  text          String               @db.Text\n  infons        AnnotationInfon[]\n  locations     AnnotationLocation[]\n  relationNodes RelationNode[]\n  createdAt     DateTime             @default(now())\n\n  @@index([documentId])\n  @@index([passageId])\n  @@index([sentenceId])\n  @@index([type])\n  @@index([identifier])\n  @@map(\"annotations\")\n}\n\nmodel AnnotationInfon {\n  id           String     @id @default(cuid())\n  annotationId String\n  annotation   Annotation @relation(fields: [annotationId], references: [id], onDelete: Cascade)\n\n  key       String\n  value     String   @db.Text\n  createdAt DateTime @default(now())\n\n  @@index([annotationId])\n  @@index([key, value])\n  @@map(\"annotation_infons\")\n}\n\nmodel AnnotationLocation {\n  id           String     @id @default(cuid())\n  annotationId String\n  annotation   Annotation @relation(fields: [annotationId], references: [id], onDelete: Cascade)\n  offset       Int\n  length       Int\n  ordinal      Int // Position of the <location> within the annotation\n  createdAt    DateTime   @default(now())\n\n  @@index([annotationId])\n  @@map(\"annotation_locations\")\n}\n\nmodel Relation {\n  id         String          @id @default(cuid())\n  documentId String\n  document   Document        @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  passageId  String? // Set for relations declared inside a passage\n  passage    Passage?        @relation(fields: [passageId], references: [id], onDelete: Cascade)\n  relationId String // The id attribute from XML\n  type       String?\n  infons     RelationInfon[]\n  nodes      RelationNode[]\n  createdAt  DateTime        @default(now())\n\n  @@index([documentId])\n  @@index([passageId])\n  @@index([type])\n  @@map(\"relations\")\n}\n\nmodel RelationInfon {\n  id         String   @id @default(cuid())\n  relationId String\n  relation   Relation @relation(fields: [relationId], references: [id], onDelete: Cascade)\n\n  key       String\n  value     String   @db.Text\n  createdAt DateTime @default(now())\n\n  @@index([relationId])\n  @@map(\"relation_infons\")\n}\n\nmodel RelationNode {\n  id           String      @id @default(cuid())\n  relationId   String\n  relation     Relation    @relation(fields: [relationId], references: [id], onDelete: Cascade)\n  refid        String // The refid attribute from XML\n  role         String?\n  annotationId String? // The annotation the refid resolves to within the document\n  annotation   Annotation? @relation(fields: [annotationId], references: [id], onDelete: SetNull)\n  createdAt    DateTime    @default(now())\n\n  @@index([relationId])\n  @@index([annotationId])\n  @@map(\"relation_nodes\")\n}\n\nmodel IngestionRun {\n  id                 String         @id @default(cuid())\n  status             String // running, completed or failed\n  documentsFound     Int            @default(0)\n  documentsInserted  Int            @default(0)\n  documentsAdded     Int            @default(0)\n  documentsChanged   Int            @default(0)\n  documentsUnchanged Int            @default(0)\n  manifestPath       String? // Manifest the files were listed in, `-` for stdin\n  manifestHash       String? // SHA-256 of the manifest content\n  files              IngestedFile[]\n  startedAt          DateTime       @default(now())\n  finishedAt         DateTime?\n\n  @@map(\"ingestion_runs\")\n}\n\nmodel IngestedFile {\n  id                String       @id @default(cuid())\n  runId             String\n  run               IngestionRun @relation(fields: [runId], references: [id], onDelete: Cascade)\n  path              String // Input file, or <archive>/<member> for tarball members\n  size              BigInt?\n  hash              String? // SHA-256 of the input as stored; for tarball members known once the member has been read completely\n  archiveHash       String? // SHA-256 of the tarball a member was read from\n  selection         String?      @db.Text // Filters and passage selection the file was loaded with, null when everything was kept\n  status            String // running, completed or failed\n  documentsFound    Int          @default(0)\n  documentsInserted Int          @default(0)\n  lastDocumentId    String? // The last document committed to the database\n  lastPosition      Int          @default(0) // Documents read from the file up to and including lastDocumentId\n  error             String?      @db.Text\n  startedAt         DateTime     @default(now())\n  updatedAt         DateTime     @updatedAt\n  finishedAt        DateTime?\n\n  @@unique([runId, path])\n  @@index([path])\n  @@map(\"ingested_files\")\n}\n\nmodel Disease {\n  id     Int    @id @default(autoincrement())\n  meshId String\n  text   String @db.Text\n\n  // @@unique([meshId, text])\n  @@index([meshId])\n  @@index([text])\n  @@map(\"diseases\")\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Collection\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documents\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"CollectionToDocument\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"collections\"},\"Document\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToDocument\"},{\"name\":\"passages\",\"kind\":\"object\",\"type\":\"Passage\",\"relationName\":\"DocumentToPassage\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"documents\"},\"Passage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToPassage\"},{\"name\":\"offset\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sectionType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"infons\",\"kind\":\"object\",\"type\":\"PassageInfon\",\"relationName\":\"PassageToPassageInfon\"},{\"name\":\"annotations\",\"kind\":\"object\",\"type\":\"Annotation\",\"relationName\":\"AnnotationToPassage\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"passages\"},\"PassageInfon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passage\",\"kind\":\"object\",\"type\":\"Passage\",\"relationName\":\"PassageToPassageInfon\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"infons\"},\"Annotation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passage\",\"kind\":\"object\",\"type\":\"Passage\",\"relationName\":\"AnnotationToPassage\"},{\"name\":\"annotationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"offset\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"length\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"annotations\"},\"Disease\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"meshId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":\"diseases\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Collection\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourcePath\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceSize\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"sourceHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"infons\",\"kind\":\"object\",\"type\":\"CollectionInfon\",\"relationName\":\"CollectionToCollectionInfon\"},{\"name\":\"documents\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"CollectionToDocument\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"collections\"},\"CollectionInfon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToCollectionInfon\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"collection_infons\"},\"Document\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToDocument\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"infons\",\"kind\":\"object\",\"type\":\"DocumentInfon\",\"relationName\":\"DocumentToDocumentInfon\"},{\"name\":\"passages\",\"kind\":\"object\",\"type\":\"Passage\",\"relationName\":\"DocumentToPassage\"},{\"name\":\"annotations\",\"kind\":\"object\",\"type\":\"Annotation\",\"relationName\":\"AnnotationToDocument\"},{\"name\":\"relations\",\"kind\":\"object\",\"type\":\"Relation\",\"relationName\":\"DocumentToRelation\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"documents\"},\"DocumentInfon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentInfon\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"document_infons\"},\"Passage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToPassage\"},{\"name\":\"offset\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sectionType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"infons\",\"kind\":\"object\",\"type\":\"PassageInfon\",\"relationName\":\"PassageToPassageInfon\"},{\"name\":\"sentences\",\"kind\":\"object\",\"type\":\"Sentence\",\"relationName\":\"PassageToSentence\"},{\"name\":\"annotations\",\"kind\":\"object\",\"type\":\"Annotation\",\"relationName\":\"AnnotationToPassage\"},{\"name\":\"relations\",\"kind\":\"object\",\"type\":\"Relation\",\"relationName\":\"PassageToRelation\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"passages\"},\"PassageInfon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passage\",\"kind\":\"object\",\"type\":\"Passage\",\"relationName\":\"PassageToPassageInfon\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"infons\"},\"Sentence\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passage\",\"kind\":\"object\",\"type\":\"Passage\",\"relationName\":\"PassageToSentence\"},{\"name\":\"offset\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"infons\",\"kind\":\"object\",\"type\":\"SentenceInfon\",\"relationName\":\"SentenceToSentenceInfon\"},{\"name\":\"annotations\",\"kind\":\"object\",\"type\":\"Annotation\",\"relationName\":\"AnnotationToSentence\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"sentences\"},\"SentenceInfon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sentenceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sentence\",\"kind\":\"object\",\"type\":\"Sentence\",\"relationName\":\"SentenceToSentenceInfon\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"sentence_infons\"},\"Annotation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"AnnotationToDocument\"},{\"name\":\"passageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passage\",\"kind\":\"object\",\"type\":\"Passage\",\"relationName\":\"AnnotationToPassage\"},{\"name\":\"sentenceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sentence\",\"kind\":\"object\",\"type\":\"Sentence\",\"relationName\":\"AnnotationToSentence\"},{\"name\":\"annotationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"offset\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"length\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"infons\",\"kind\":\"object\",\"type\":\"AnnotationInfon\",\"relationName\":\"AnnotationToAnnotationInfon\"},{\"name\":\"locations\",\"kind\":\"object\",\"type\":\"AnnotationLocation\",\"relationName\":\"AnnotationToAnnotationLocation\"},{\"name\":\"relationNodes\",\"kind\":\"object\",\"type\":\"RelationNode\",\"relationName\":\"AnnotationToRelationNode\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"annotations\"},\"AnnotationInfon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"annotationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"annotation\",\"kind\":\"object\",\"type\":\"Annotation\",\"relationName\":\"AnnotationToAnnotationInfon\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"annotation_infons\"},\"AnnotationLocation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"annotationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"annotation\",\"kind\":\"object\",\"type\":\"Annotation\",\"relationName\":\"AnnotationToAnnotationLocation\"},{\"name\":\"offset\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"length\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ordinal\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"annotation_locations\"},\"Relation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToRelation\"},{\"name\":\"passageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passage\",\"kind\":\"object\",\"type\":\"Passage\",\"relationName\":\"PassageToRelation\"},{\"name\":\"relationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"infons\",\"kind\":\"object\",\"type\":\"RelationInfon\",\"relationName\":\"RelationToRelationInfon\"},{\"name\":\"nodes\",\"kind\":\"object\",\"type\":\"RelationNode\",\"relationName\":\"RelationToRelationNode\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"relations\"},\"RelationInfon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"relationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"relation\",\"kind\":\"object\",\"type\":\"Relation\",\"relationName\":\"RelationToRelationInfon\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"relation_infons\"},\"RelationNode\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"relationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"relation\",\"kind\":\"object\",\"type\":\"Relation\",\"relationName\":\"RelationToRelationNode\"},{\"name\":\"refid\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"annotationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"annotation\",\"kind\":\"object\",\"type\":\"Annotation\",\"relationName\":\"AnnotationToRelationNode\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"relation_nodes\"},\"IngestionRun\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentsFound\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"documentsInserted\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"documentsAdded\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"documentsChanged\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"documentsUnchanged\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"manifestPath\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"manifestHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"files\",\"kind\":\"object\",\"type\":\"IngestedFile\",\"relationName\":\"IngestedFileToIngestionRun\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"ingestion_runs\"},\"IngestedFile\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"runId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"run\",\"kind\":\"object\",\"type\":\"IngestionRun\",\"relationName\":\"IngestedFileToIngestionRun\"},{\"name\":\"path\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"archiveHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"selection\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentsFound\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"documentsInserted\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastDocumentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastPosition\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"ingested_files\"},\"Disease\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"meshId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"text\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":\"diseases\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -186,6 +186,16 @@ export interface PrismaClient<
     */
   get collection(): Prisma.CollectionDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.collectionInfon`: Exposes CRUD operations for the **CollectionInfon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CollectionInfons
+    * const collectionInfons = await prisma.collectionInfon.findMany()
+    * ```
+    */
+  get collectionInfon(): Prisma.CollectionInfonDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.document`: Exposes CRUD operations for the **Document** model.
     * Example usage:
@@ -196,6 +206,16 @@ export interface PrismaClient<
     */
   get document(): Prisma.DocumentDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.documentInfon`: Exposes CRUD operations for the **DocumentInfon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more DocumentInfons
+    * const documentInfons = await prisma.documentInfon.findMany()
+    * ```
+    */
+  get documentInfon(): Prisma.DocumentInfonDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.passage`: Exposes CRUD operations for the **Passage** model.
     * Example usage:
@@ -216,6 +236,26 @@ export interface PrismaClient<
     */
   get passageInfon(): Prisma.PassageInfonDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.sentence`: Exposes CRUD operations for the **Sentence** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Sentences
+    * const sentences = await prisma.sentence.findMany()
+    * ```
+    */
+  get sentence(): Prisma.SentenceDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.sentenceInfon`: Exposes CRUD operations for the **SentenceInfon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SentenceInfons
+    * const sentenceInfons = await prisma.sentenceInfon.findMany()
+    * ```
+    */
+  get sentenceInfon(): Prisma.SentenceInfonDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.annotation`: Exposes CRUD operations for the **Annotation** model.
     * Example usage:
@@ -226,6 +266,76 @@ export interface PrismaClient<
     */
   get annotation(): Prisma.AnnotationDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.annotationInfon`: Exposes CRUD operations for the **AnnotationInfon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AnnotationInfons
+    * const annotationInfons = await prisma.annotationInfon.findMany()
+    * ```
+    */
+  get annotationInfon(): Prisma.AnnotationInfonDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.annotationLocation`: Exposes CRUD operations for the **AnnotationLocation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AnnotationLocations
+    * const annotationLocations = await prisma.annotationLocation.findMany()
+    * ```
+    */
+  get annotationLocation(): Prisma.AnnotationLocationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.relation`: Exposes CRUD operations for the **Relation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Relations
+    * const relations = await prisma.relation.findMany()
+    * ```
+    */
+  get relation(): Prisma.RelationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.relationInfon`: Exposes CRUD operations for the **RelationInfon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RelationInfons
+    * const relationInfons = await prisma.relationInfon.findMany()
+    * ```
+    */
+  get relationInfon(): Prisma.RelationInfonDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.relationNode`: Exposes CRUD operations for the **RelationNode** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RelationNodes
+    * const relationNodes = await prisma.relationNode.findMany()
+    * ```
+    */
+  get relationNode(): Prisma.RelationNodeDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.ingestionRun`: Exposes CRUD operations for the **IngestionRun** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more IngestionRuns
+    * const ingestionRuns = await prisma.ingestionRun.findMany()
+    * ```
+    */
+  get ingestionRun(): Prisma.IngestionRunDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.ingestedFile`: Exposes CRUD operations for the **IngestedFile** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more IngestedFiles
+    * const ingestedFiles = await prisma.ingestedFile.findMany()
+    * ```
+    */
+  get ingestedFile(): Prisma.IngestedFileDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.disease`: Exposes CRUD operations for the **Disease** model.
     * Example usage:
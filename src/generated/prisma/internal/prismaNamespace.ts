@@ -385,10 +385,21 @@ type FieldRefInputType<Model, FieldType> = Model extends never ? never : FieldRe
 
 export const ModelName = {
   Collection: 'Collection',
+  CollectionInfon: 'CollectionInfon',
   Document: 'Document',
+  DocumentInfon: 'DocumentInfon',
   Passage: 'Passage',
   PassageInfon: 'PassageInfon',
+  Sentence: 'Sentence',
+  SentenceInfon: 'SentenceInfon',
   Annotation: 'Annotation',
+  AnnotationInfon: 'AnnotationInfon',
+  AnnotationLocation: 'AnnotationLocation',
+  Relation: 'Relation',
+  RelationInfon: 'RelationInfon',
+  RelationNode: 'RelationNode',
+  IngestionRun: 'IngestionRun',
+  IngestedFile: 'IngestedFile',
   Disease: 'Disease'
 } as const
 
@@ -405,7 +416,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "collection" | "document" | "passage" | "passageInfon" | "annotation" | "disease"
+    modelProps: "collection" | "collectionInfon" | "document" | "documentInfon" | "passage" | "passageInfon" | "sentence" | "sentenceInfon" | "annotation" | "annotationInfon" | "annotationLocation" | "relation" | "relationInfon" | "relationNode" | "ingestionRun" | "ingestedFile" | "disease"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -483,299 +494,1113 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    CollectionInfon: {
+      payload: Prisma.$CollectionInfonPayload<ExtArgs>
+      fields: Prisma.CollectionInfonFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CollectionInfonFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CollectionInfonFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>
+        }
+        findFirst: {
+          args: Prisma.CollectionInfonFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CollectionInfonFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>
+        }
+        findMany: {
+          args: Prisma.CollectionInfonFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>[]
+        }
+        create: {
+          args: Prisma.CollectionInfonCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>
+        }
+        createMany: {
+          args: Prisma.CollectionInfonCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CollectionInfonCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>[]
+        }
+        delete: {
+          args: Prisma.CollectionInfonDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>
+        }
+        update: {
+          args: Prisma.CollectionInfonUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>
+        }
+        deleteMany: {
+          args: Prisma.CollectionInfonDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CollectionInfonUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CollectionInfonUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>[]
+        }
+        upsert: {
+          args: Prisma.CollectionInfonUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CollectionInfonPayload>
+        }
+        aggregate: {
+          args: Prisma.CollectionInfonAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCollectionInfon>
+        }
+        groupBy: {
+          args: Prisma.CollectionInfonGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CollectionInfonGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CollectionInfonCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CollectionInfonCountAggregateOutputType> | number
+        }
+      }
+    }
     Document: {
       payload: Prisma.$DocumentPayload<ExtArgs>
       fields: Prisma.DocumentFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.DocumentFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload> | null
+          args: Prisma.DocumentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DocumentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+        }
+        findFirst: {
+          args: Prisma.DocumentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DocumentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+        }
+        findMany: {
+          args: Prisma.DocumentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>[]
+        }
+        create: {
+          args: Prisma.DocumentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+        }
+        createMany: {
+          args: Prisma.DocumentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DocumentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>[]
+        }
+        delete: {
+          args: Prisma.DocumentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+        }
+        update: {
+          args: Prisma.DocumentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+        }
+        deleteMany: {
+          args: Prisma.DocumentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DocumentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DocumentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>[]
+        }
+        upsert: {
+          args: Prisma.DocumentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+        }
+        aggregate: {
+          args: Prisma.DocumentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDocument>
+        }
+        groupBy: {
+          args: Prisma.DocumentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DocumentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentCountAggregateOutputType> | number
+        }
+      }
+    }
+    DocumentInfon: {
+      payload: Prisma.$DocumentInfonPayload<ExtArgs>
+      fields: Prisma.DocumentInfonFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.DocumentInfonFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DocumentInfonFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>
+        }
+        findFirst: {
+          args: Prisma.DocumentInfonFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DocumentInfonFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>
+        }
+        findMany: {
+          args: Prisma.DocumentInfonFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>[]
+        }
+        create: {
+          args: Prisma.DocumentInfonCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>
+        }
+        createMany: {
+          args: Prisma.DocumentInfonCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DocumentInfonCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>[]
+        }
+        delete: {
+          args: Prisma.DocumentInfonDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>
+        }
+        update: {
+          args: Prisma.DocumentInfonUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>
+        }
+        deleteMany: {
+          args: Prisma.DocumentInfonDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DocumentInfonUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DocumentInfonUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>[]
+        }
+        upsert: {
+          args: Prisma.DocumentInfonUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentInfonPayload>
+        }
+        aggregate: {
+          args: Prisma.DocumentInfonAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDocumentInfon>
+        }
+        groupBy: {
+          args: Prisma.DocumentInfonGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentInfonGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DocumentInfonCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentInfonCountAggregateOutputType> | number
+        }
+      }
+    }
+    Passage: {
+      payload: Prisma.$PassagePayload<ExtArgs>
+      fields: Prisma.PassageFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PassageFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PassageFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+        }
+        findFirst: {
+          args: Prisma.PassageFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PassageFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+        }
+        findMany: {
+          args: Prisma.PassageFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>[]
+        }
+        create: {
+          args: Prisma.PassageCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+        }
+        createMany: {
+          args: Prisma.PassageCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PassageCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>[]
+        }
+        delete: {
+          args: Prisma.PassageDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+        }
+        update: {
+          args: Prisma.PassageUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+        }
+        deleteMany: {
+          args: Prisma.PassageDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PassageUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PassageUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>[]
+        }
+        upsert: {
+          args: Prisma.PassageUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+        }
+        aggregate: {
+          args: Prisma.PassageAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePassage>
+        }
+        groupBy: {
+          args: Prisma.PassageGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PassageGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PassageCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PassageCountAggregateOutputType> | number
+        }
+      }
+    }
+    PassageInfon: {
+      payload: Prisma.$PassageInfonPayload<ExtArgs>
+      fields: Prisma.PassageInfonFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PassageInfonFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PassageInfonFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+        }
+        findFirst: {
+          args: Prisma.PassageInfonFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PassageInfonFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+        }
+        findMany: {
+          args: Prisma.PassageInfonFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>[]
+        }
+        create: {
+          args: Prisma.PassageInfonCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+        }
+        createMany: {
+          args: Prisma.PassageInfonCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PassageInfonCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>[]
+        }
+        delete: {
+          args: Prisma.PassageInfonDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+        }
+        update: {
+          args: Prisma.PassageInfonUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+        }
+        deleteMany: {
+          args: Prisma.PassageInfonDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PassageInfonUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PassageInfonUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>[]
+        }
+        upsert: {
+          args: Prisma.PassageInfonUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+        }
+        aggregate: {
+          args: Prisma.PassageInfonAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePassageInfon>
+        }
+        groupBy: {
+          args: Prisma.PassageInfonGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PassageInfonGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PassageInfonCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PassageInfonCountAggregateOutputType> | number
+        }
+      }
+    }
+    Sentence: {
+      payload: Prisma.$SentencePayload<ExtArgs>
+      fields: Prisma.SentenceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SentenceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SentenceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>
+        }
+        findFirst: {
+          args: Prisma.SentenceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SentenceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>
+        }
+        findMany: {
+          args: Prisma.SentenceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>[]
+        }
+        create: {
+          args: Prisma.SentenceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>
+        }
+        createMany: {
+          args: Prisma.SentenceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SentenceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>[]
+        }
+        delete: {
+          args: Prisma.SentenceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>
+        }
+        update: {
+          args: Prisma.SentenceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>
+        }
+        deleteMany: {
+          args: Prisma.SentenceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SentenceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SentenceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>[]
+        }
+        upsert: {
+          args: Prisma.SentenceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentencePayload>
+        }
+        aggregate: {
+          args: Prisma.SentenceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSentence>
+        }
+        groupBy: {
+          args: Prisma.SentenceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SentenceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SentenceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SentenceCountAggregateOutputType> | number
+        }
+      }
+    }
+    SentenceInfon: {
+      payload: Prisma.$SentenceInfonPayload<ExtArgs>
+      fields: Prisma.SentenceInfonFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SentenceInfonFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SentenceInfonFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>
+        }
+        findFirst: {
+          args: Prisma.SentenceInfonFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SentenceInfonFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>
+        }
+        findMany: {
+          args: Prisma.SentenceInfonFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>[]
+        }
+        create: {
+          args: Prisma.SentenceInfonCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>
+        }
+        createMany: {
+          args: Prisma.SentenceInfonCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SentenceInfonCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>[]
+        }
+        delete: {
+          args: Prisma.SentenceInfonDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>
+        }
+        update: {
+          args: Prisma.SentenceInfonUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>
+        }
+        deleteMany: {
+          args: Prisma.SentenceInfonDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SentenceInfonUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SentenceInfonUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>[]
+        }
+        upsert: {
+          args: Prisma.SentenceInfonUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SentenceInfonPayload>
+        }
+        aggregate: {
+          args: Prisma.SentenceInfonAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSentenceInfon>
+        }
+        groupBy: {
+          args: Prisma.SentenceInfonGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SentenceInfonGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SentenceInfonCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SentenceInfonCountAggregateOutputType> | number
+        }
+      }
+    }
+    Annotation: {
+      payload: Prisma.$AnnotationPayload<ExtArgs>
+      fields: Prisma.AnnotationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AnnotationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AnnotationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+        }
+        findFirst: {
+          args: Prisma.AnnotationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AnnotationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+        }
+        findMany: {
+          args: Prisma.AnnotationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>[]
+        }
+        create: {
+          args: Prisma.AnnotationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+        }
+        createMany: {
+          args: Prisma.AnnotationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AnnotationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>[]
+        }
+        delete: {
+          args: Prisma.AnnotationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+        }
+        update: {
+          args: Prisma.AnnotationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+        }
+        deleteMany: {
+          args: Prisma.AnnotationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AnnotationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AnnotationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>[]
+        }
+        upsert: {
+          args: Prisma.AnnotationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+        }
+        aggregate: {
+          args: Prisma.AnnotationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAnnotation>
+        }
+        groupBy: {
+          args: Prisma.AnnotationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AnnotationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AnnotationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AnnotationCountAggregateOutputType> | number
+        }
+      }
+    }
+    AnnotationInfon: {
+      payload: Prisma.$AnnotationInfonPayload<ExtArgs>
+      fields: Prisma.AnnotationInfonFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AnnotationInfonFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AnnotationInfonFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>
+        }
+        findFirst: {
+          args: Prisma.AnnotationInfonFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AnnotationInfonFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>
+        }
+        findMany: {
+          args: Prisma.AnnotationInfonFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>[]
+        }
+        create: {
+          args: Prisma.AnnotationInfonCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>
+        }
+        createMany: {
+          args: Prisma.AnnotationInfonCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AnnotationInfonCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>[]
+        }
+        delete: {
+          args: Prisma.AnnotationInfonDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>
+        }
+        update: {
+          args: Prisma.AnnotationInfonUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>
+        }
+        deleteMany: {
+          args: Prisma.AnnotationInfonDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AnnotationInfonUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AnnotationInfonUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>[]
+        }
+        upsert: {
+          args: Prisma.AnnotationInfonUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationInfonPayload>
+        }
+        aggregate: {
+          args: Prisma.AnnotationInfonAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAnnotationInfon>
+        }
+        groupBy: {
+          args: Prisma.AnnotationInfonGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AnnotationInfonGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AnnotationInfonCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AnnotationInfonCountAggregateOutputType> | number
+        }
+      }
+    }
+    AnnotationLocation: {
+      payload: Prisma.$AnnotationLocationPayload<ExtArgs>
+      fields: Prisma.AnnotationLocationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AnnotationLocationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AnnotationLocationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>
+        }
+        findFirst: {
+          args: Prisma.AnnotationLocationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AnnotationLocationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>
+        }
+        findMany: {
+          args: Prisma.AnnotationLocationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>[]
+        }
+        create: {
+          args: Prisma.AnnotationLocationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>
+        }
+        createMany: {
+          args: Prisma.AnnotationLocationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AnnotationLocationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>[]
+        }
+        delete: {
+          args: Prisma.AnnotationLocationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>
+        }
+        update: {
+          args: Prisma.AnnotationLocationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>
+        }
+        deleteMany: {
+          args: Prisma.AnnotationLocationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AnnotationLocationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AnnotationLocationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>[]
+        }
+        upsert: {
+          args: Prisma.AnnotationLocationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationLocationPayload>
+        }
+        aggregate: {
+          args: Prisma.AnnotationLocationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAnnotationLocation>
+        }
+        groupBy: {
+          args: Prisma.AnnotationLocationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AnnotationLocationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AnnotationLocationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AnnotationLocationCountAggregateOutputType> | number
+        }
+      }
+    }
+    Relation: {
+      payload: Prisma.$RelationPayload<ExtArgs>
+      fields: Prisma.RelationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.RelationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.RelationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>
+        }
+        findFirst: {
+          args: Prisma.RelationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.RelationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>
+        }
+        findMany: {
+          args: Prisma.RelationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>[]
+        }
+        create: {
+          args: Prisma.RelationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>
+        }
+        createMany: {
+          args: Prisma.RelationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.RelationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>[]
+        }
+        delete: {
+          args: Prisma.RelationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>
+        }
+        update: {
+          args: Prisma.RelationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>
+        }
+        deleteMany: {
+          args: Prisma.RelationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.RelationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.RelationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>[]
+        }
+        upsert: {
+          args: Prisma.RelationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationPayload>
+        }
+        aggregate: {
+          args: Prisma.RelationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRelation>
+        }
+        groupBy: {
+          args: Prisma.RelationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RelationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.RelationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RelationCountAggregateOutputType> | number
+        }
+      }
+    }
+    RelationInfon: {
+      payload: Prisma.$RelationInfonPayload<ExtArgs>
+      fields: Prisma.RelationInfonFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.RelationInfonFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.DocumentFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+          args: Prisma.RelationInfonFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>
         }
         findFirst: {
-          args: Prisma.DocumentFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload> | null
+          args: Prisma.RelationInfonFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.DocumentFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+          args: Prisma.RelationInfonFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>
         }
         findMany: {
-          args: Prisma.DocumentFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>[]
+          args: Prisma.RelationInfonFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>[]
         }
         create: {
-          args: Prisma.DocumentCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+          args: Prisma.RelationInfonCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>
         }
         createMany: {
-          args: Prisma.DocumentCreateManyArgs<ExtArgs>
+          args: Prisma.RelationInfonCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.DocumentCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>[]
+          args: Prisma.RelationInfonCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>[]
         }
         delete: {
-          args: Prisma.DocumentDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+          args: Prisma.RelationInfonDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>
         }
         update: {
-          args: Prisma.DocumentUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+          args: Prisma.RelationInfonUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>
         }
         deleteMany: {
-          args: Prisma.DocumentDeleteManyArgs<ExtArgs>
+          args: Prisma.RelationInfonDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.DocumentUpdateManyArgs<ExtArgs>
+          args: Prisma.RelationInfonUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.DocumentUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>[]
+          args: Prisma.RelationInfonUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>[]
         }
         upsert: {
-          args: Prisma.DocumentUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentPayload>
+          args: Prisma.RelationInfonUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationInfonPayload>
         }
         aggregate: {
-          args: Prisma.DocumentAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateDocument>
+          args: Prisma.RelationInfonAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRelationInfon>
         }
         groupBy: {
-          args: Prisma.DocumentGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.DocumentGroupByOutputType>[]
+          args: Prisma.RelationInfonGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RelationInfonGroupByOutputType>[]
         }
         count: {
-          args: Prisma.DocumentCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.DocumentCountAggregateOutputType> | number
+          args: Prisma.RelationInfonCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RelationInfonCountAggregateOutputType> | number
         }
       }
     }
-    Passage: {
-      payload: Prisma.$PassagePayload<ExtArgs>
-      fields: Prisma.PassageFieldRefs
+    RelationNode: {
+      payload: Prisma.$RelationNodePayload<ExtArgs>
+      fields: Prisma.RelationNodeFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.PassageFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload> | null
+          args: Prisma.RelationNodeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.PassageFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+          args: Prisma.RelationNodeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>
         }
         findFirst: {
-          args: Prisma.PassageFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload> | null
+          args: Prisma.RelationNodeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.PassageFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+          args: Prisma.RelationNodeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>
         }
         findMany: {
-          args: Prisma.PassageFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>[]
+          args: Prisma.RelationNodeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>[]
         }
         create: {
-          args: Prisma.PassageCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+          args: Prisma.RelationNodeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>
         }
         createMany: {
-          args: Prisma.PassageCreateManyArgs<ExtArgs>
+          args: Prisma.RelationNodeCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.PassageCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>[]
+          args: Prisma.RelationNodeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>[]
         }
         delete: {
-          args: Prisma.PassageDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+          args: Prisma.RelationNodeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>
         }
         update: {
-          args: Prisma.PassageUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+          args: Prisma.RelationNodeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>
         }
         deleteMany: {
-          args: Prisma.PassageDeleteManyArgs<ExtArgs>
+          args: Prisma.RelationNodeDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.PassageUpdateManyArgs<ExtArgs>
+          args: Prisma.RelationNodeUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.PassageUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>[]
+          args: Prisma.RelationNodeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>[]
         }
         upsert: {
-          args: Prisma.PassageUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassagePayload>
+          args: Prisma.RelationNodeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RelationNodePayload>
         }
         aggregate: {
-          args: Prisma.PassageAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregatePassage>
+          args: Prisma.RelationNodeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRelationNode>
         }
         groupBy: {
-          args: Prisma.PassageGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.PassageGroupByOutputType>[]
+          args: Prisma.RelationNodeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RelationNodeGroupByOutputType>[]
         }
         count: {
-          args: Prisma.PassageCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.PassageCountAggregateOutputType> | number
+          args: Prisma.RelationNodeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RelationNodeCountAggregateOutputType> | number
         }
       }
     }
-    PassageInfon: {
-      payload: Prisma.$PassageInfonPayload<ExtArgs>
-      fields: Prisma.PassageInfonFieldRefs
+    IngestionRun: {
+      payload: Prisma.$IngestionRunPayload<ExtArgs>
+      fields: Prisma.IngestionRunFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.PassageInfonFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload> | null
+          args: Prisma.IngestionRunFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.PassageInfonFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+          args: Prisma.IngestionRunFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>
         }
         findFirst: {
-          args: Prisma.PassageInfonFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload> | null
+          args: Prisma.IngestionRunFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.PassageInfonFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+          args: Prisma.IngestionRunFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>
         }
         findMany: {
-          args: Prisma.PassageInfonFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>[]
+          args: Prisma.IngestionRunFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>[]
         }
         create: {
-          args: Prisma.PassageInfonCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+          args: Prisma.IngestionRunCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>
         }
         createMany: {
-          args: Prisma.PassageInfonCreateManyArgs<ExtArgs>
+          args: Prisma.IngestionRunCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.PassageInfonCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>[]
+          args: Prisma.IngestionRunCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>[]
         }
         delete: {
-          args: Prisma.PassageInfonDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+          args: Prisma.IngestionRunDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>
         }
         update: {
-          args: Prisma.PassageInfonUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+          args: Prisma.IngestionRunUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>
         }
         deleteMany: {
-          args: Prisma.PassageInfonDeleteManyArgs<ExtArgs>
+          args: Prisma.IngestionRunDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.PassageInfonUpdateManyArgs<ExtArgs>
+          args: Prisma.IngestionRunUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.PassageInfonUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>[]
+          args: Prisma.IngestionRunUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>[]
         }
         upsert: {
-          args: Prisma.PassageInfonUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PassageInfonPayload>
+          args: Prisma.IngestionRunUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestionRunPayload>
         }
         aggregate: {
-          args: Prisma.PassageInfonAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregatePassageInfon>
+          args: Prisma.IngestionRunAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateIngestionRun>
         }
         groupBy: {
-          args: Prisma.PassageInfonGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.PassageInfonGroupByOutputType>[]
+          args: Prisma.IngestionRunGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IngestionRunGroupByOutputType>[]
         }
         count: {
-          args: Prisma.PassageInfonCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.PassageInfonCountAggregateOutputType> | number
+          args: Prisma.IngestionRunCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IngestionRunCountAggregateOutputType> | number
         }
       }
     }
-    Annotation: {
-      payload: Prisma.$AnnotationPayload<ExtArgs>
-      fields: Prisma.AnnotationFieldRefs
+    IngestedFile: {
+      payload: Prisma.$IngestedFilePayload<ExtArgs>
+      fields: Prisma.IngestedFileFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.AnnotationFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload> | null
+          args: Prisma.IngestedFileFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.AnnotationFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+          args: Prisma.IngestedFileFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>
         }
         findFirst: {
-          args: Prisma.AnnotationFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload> | null
+          args: Prisma.IngestedFileFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.AnnotationFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+          args: Prisma.IngestedFileFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>
         }
         findMany: {
-          args: Prisma.AnnotationFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>[]
+          args: Prisma.IngestedFileFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>[]
         }
         create: {
-          args: Prisma.AnnotationCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+          args: Prisma.IngestedFileCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>
         }
         createMany: {
-          args: Prisma.AnnotationCreateManyArgs<ExtArgs>
+          args: Prisma.IngestedFileCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.AnnotationCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>[]
+          args: Prisma.IngestedFileCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>[]
         }
         delete: {
-          args: Prisma.AnnotationDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+          args: Prisma.IngestedFileDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>
         }
         update: {
-          args: Prisma.AnnotationUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+          args: Prisma.IngestedFileUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>
         }
         deleteMany: {
-          args: Prisma.AnnotationDeleteManyArgs<ExtArgs>
+          args: Prisma.IngestedFileDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.AnnotationUpdateManyArgs<ExtArgs>
+          args: Prisma.IngestedFileUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.AnnotationUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>[]
+          args: Prisma.IngestedFileUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>[]
         }
         upsert: {
-          args: Prisma.AnnotationUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AnnotationPayload>
+          args: Prisma.IngestedFileUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IngestedFilePayload>
         }
         aggregate: {
-          args: Prisma.AnnotationAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateAnnotation>
+          args: Prisma.IngestedFileAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateIngestedFile>
         }
         groupBy: {
-          args: Prisma.AnnotationGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AnnotationGroupByOutputType>[]
+          args: Prisma.IngestedFileGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IngestedFileGroupByOutputType>[]
         }
         count: {
-          args: Prisma.AnnotationCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AnnotationCountAggregateOutputType> | number
+          args: Prisma.IngestedFileCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IngestedFileCountAggregateOutputType> | number
         }
       }
     }
@@ -897,6 +1722,9 @@ export const CollectionScalarFieldEnum = {
   source: 'source',
   date: 'date',
   key: 'key',
+  sourcePath: 'sourcePath',
+  sourceSize: 'sourceSize',
+  sourceHash: 'sourceHash',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -904,10 +1732,22 @@ export const CollectionScalarFieldEnum = {
 export type CollectionScalarFieldEnum = (typeof CollectionScalarFieldEnum)[keyof typeof CollectionScalarFieldEnum]
 
 
+export const CollectionInfonScalarFieldEnum = {
+  id: 'id',
+  collectionId: 'collectionId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type CollectionInfonScalarFieldEnum = (typeof CollectionInfonScalarFieldEnum)[keyof typeof CollectionInfonScalarFieldEnum]
+
+
 export const DocumentScalarFieldEnum = {
   id: 'id',
   documentId: 'documentId',
   collectionId: 'collectionId',
+  contentHash: 'contentHash',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -915,6 +1755,17 @@ export const DocumentScalarFieldEnum = {
 export type DocumentScalarFieldEnum = (typeof DocumentScalarFieldEnum)[keyof typeof DocumentScalarFieldEnum]
 
 
+export const DocumentInfonScalarFieldEnum = {
+  id: 'id',
+  documentId: 'documentId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type DocumentInfonScalarFieldEnum = (typeof DocumentInfonScalarFieldEnum)[keyof typeof DocumentInfonScalarFieldEnum]
+
+
 export const PassageScalarFieldEnum = {
   id: 'id',
   documentId: 'documentId',
@@ -940,9 +1791,33 @@ export const PassageInfonScalarFieldEnum = {
 export type PassageInfonScalarFieldEnum = (typeof PassageInfonScalarFieldEnum)[keyof typeof PassageInfonScalarFieldEnum]
 
 
+export const SentenceScalarFieldEnum = {
+  id: 'id',
+  passageId: 'passageId',
+  offset: 'offset',
+  text: 'text',
+  createdAt: 'createdAt'
+} as const
+
+export type SentenceScalarFieldEnum = (typeof SentenceScalarFieldEnum)[keyof typeof SentenceScalarFieldEnum]
+
+
+export const SentenceInfonScalarFieldEnum = {
+  id: 'id',
+  sentenceId: 'sentenceId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type SentenceInfonScalarFieldEnum = (typeof SentenceInfonScalarFieldEnum)[keyof typeof SentenceInfonScalarFieldEnum]
+
+
 export const AnnotationScalarFieldEnum = {
   id: 'id',
+  documentId: 'documentId',
   passageId: 'passageId',
+  sentenceId: 'sentenceId',
   annotationId: 'annotationId',
   identifier: 'identifier',
   type: 'type',
@@ -955,6 +1830,103 @@ export const AnnotationScalarFieldEnum = {
 export type AnnotationScalarFieldEnum = (typeof AnnotationScalarFieldEnum)[keyof typeof AnnotationScalarFieldEnum]
 
 
+export const AnnotationInfonScalarFieldEnum = {
+  id: 'id',
+  annotationId: 'annotationId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type AnnotationInfonScalarFieldEnum = (typeof AnnotationInfonScalarFieldEnum)[keyof typeof AnnotationInfonScalarFieldEnum]
+
+
+export const AnnotationLocationScalarFieldEnum = {
+  id: 'id',
+  annotationId: 'annotationId',
+  offset: 'offset',
+  length: 'length',
+  ordinal: 'ordinal',
+  createdAt: 'createdAt'
+} as const
+
+export type AnnotationLocationScalarFieldEnum = (typeof AnnotationLocationScalarFieldEnum)[keyof typeof AnnotationLocationScalarFieldEnum]
+
+
+export const RelationScalarFieldEnum = {
+  id: 'id',
+  documentId: 'documentId',
+  passageId: 'passageId',
+  relationId: 'relationId',
+  type: 'type',
+  createdAt: 'createdAt'
+} as const
+
+export type RelationScalarFieldEnum = (typeof RelationScalarFieldEnum)[keyof typeof RelationScalarFieldEnum]
+
+
+export const RelationInfonScalarFieldEnum = {
+  id: 'id',
+  relationId: 'relationId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type RelationInfonScalarFieldEnum = (typeof RelationInfonScalarFieldEnum)[keyof typeof RelationInfonScalarFieldEnum]
+
+
+export const RelationNodeScalarFieldEnum = {
+  id: 'id',
+  relationId: 'relationId',
+  refid: 'refid',
+  role: 'role',
+  annotationId: 'annotationId',
+  createdAt: 'createdAt'
+} as const
+
+export type RelationNodeScalarFieldEnum = (typeof RelationNodeScalarFieldEnum)[keyof typeof RelationNodeScalarFieldEnum]
+
+
+export const IngestionRunScalarFieldEnum = {
+  id: 'id',
+  status: 'status',
+  documentsFound: 'documentsFound',
+  documentsInserted: 'documentsInserted',
+  documentsAdded: 'documentsAdded',
+  documentsChanged: 'documentsChanged',
+  documentsUnchanged: 'documentsUnchanged',
+  manifestPath: 'manifestPath',
+  manifestHash: 'manifestHash',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt'
+} as const
+
+export type IngestionRunScalarFieldEnum = (typeof IngestionRunScalarFieldEnum)[keyof typeof IngestionRunScalarFieldEnum]
+
+
+export const IngestedFileScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  path: 'path',
+  size: 'size',
+  hash: 'hash',
+  archiveHash: 'archiveHash',
+  selection: 'selection',
+  status: 'status',
+  documentsFound: 'documentsFound',
+  documentsInserted: 'documentsInserted',
+  lastDocumentId: 'lastDocumentId',
+  lastPosition: 'lastPosition',
+  error: 'error',
+  startedAt: 'startedAt',
+  updatedAt: 'updatedAt',
+  finishedAt: 'finishedAt'
+} as const
+
+export type IngestedFileScalarFieldEnum = (typeof IngestedFileScalarFieldEnum)[keyof typeof IngestedFileScalarFieldEnum]
+
+
 export const DiseaseScalarFieldEnum = {
   id: 'id',
   meshId: 'meshId',
@@ -1008,6 +1980,20 @@ export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaMod
     
 
 
+/**
+ * Reference to a field of type 'BigInt'
+ */
+export type BigIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BigInt'>
+    
+
+
+/**
+ * Reference to a field of type 'BigInt[]'
+ */
+export type ListBigIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BigInt[]'>
+    
+
+
 /**
  * Reference to a field of type 'DateTime'
  */
@@ -1145,10 +2131,21 @@ export type PrismaClientOptions = ({
 }
 export type GlobalOmitConfig = {
   collection?: Prisma.CollectionOmit
+  collectionInfon?: Prisma.CollectionInfonOmit
   document?: Prisma.DocumentOmit
+  documentInfon?: Prisma.DocumentInfonOmit
   passage?: Prisma.PassageOmit
   passageInfon?: Prisma.PassageInfonOmit
+  sentence?: Prisma.SentenceOmit
+  sentenceInfon?: Prisma.SentenceInfonOmit
   annotation?: Prisma.AnnotationOmit
+  annotationInfon?: Prisma.AnnotationInfonOmit
+  annotationLocation?: Prisma.AnnotationLocationOmit
+  relation?: Prisma.RelationOmit
+  relationInfon?: Prisma.RelationInfonOmit
+  relationNode?: Prisma.RelationNodeOmit
+  ingestionRun?: Prisma.IngestionRunOmit
+  ingestedFile?: Prisma.IngestedFileOmit
   disease?: Prisma.DiseaseOmit
 }
 
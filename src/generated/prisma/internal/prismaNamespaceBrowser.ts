@@ -52,10 +52,21 @@ export const AnyNull = runtime.AnyNull
 
 export const ModelName = {
   Collection: 'Collection',
+  CollectionInfon: 'CollectionInfon',
   Document: 'Document',
+  DocumentInfon: 'DocumentInfon',
   Passage: 'Passage',
   PassageInfon: 'PassageInfon',
+  Sentence: 'Sentence',
+  SentenceInfon: 'SentenceInfon',
   Annotation: 'Annotation',
+  AnnotationInfon: 'AnnotationInfon',
+  AnnotationLocation: 'AnnotationLocation',
+  Relation: 'Relation',
+  RelationInfon: 'RelationInfon',
+  RelationNode: 'RelationNode',
+  IngestionRun: 'IngestionRun',
+  IngestedFile: 'IngestedFile',
   Disease: 'Disease'
 } as const
 
@@ -80,6 +91,9 @@ export const CollectionScalarFieldEnum = {
   source: 'source',
   date: 'date',
   key: 'key',
+  sourcePath: 'sourcePath',
+  sourceSize: 'sourceSize',
+  sourceHash: 'sourceHash',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -87,10 +101,22 @@ export const CollectionScalarFieldEnum = {
 export type CollectionScalarFieldEnum = (typeof CollectionScalarFieldEnum)[keyof typeof CollectionScalarFieldEnum]
 
 
+export const CollectionInfonScalarFieldEnum = {
+  id: 'id',
+  collectionId: 'collectionId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type CollectionInfonScalarFieldEnum = (typeof CollectionInfonScalarFieldEnum)[keyof typeof CollectionInfonScalarFieldEnum]
+
+
 export const DocumentScalarFieldEnum = {
   id: 'id',
   documentId: 'documentId',
   collectionId: 'collectionId',
+  contentHash: 'contentHash',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -98,6 +124,17 @@ export const DocumentScalarFieldEnum = {
 export type DocumentScalarFieldEnum = (typeof DocumentScalarFieldEnum)[keyof typeof DocumentScalarFieldEnum]
 
 
+export const DocumentInfonScalarFieldEnum = {
+  id: 'id',
+  documentId: 'documentId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type DocumentInfonScalarFieldEnum = (typeof DocumentInfonScalarFieldEnum)[keyof typeof DocumentInfonScalarFieldEnum]
+
+
 export const PassageScalarFieldEnum = {
   id: 'id',
   documentId: 'documentId',
@@ -123,9 +160,33 @@ export const PassageInfonScalarFieldEnum = {
 export type PassageInfonScalarFieldEnum = (typeof PassageInfonScalarFieldEnum)[keyof typeof PassageInfonScalarFieldEnum]
 
 
+export const SentenceScalarFieldEnum = {
+  id: 'id',
+  passageId: 'passageId',
+  offset: 'offset',
+  text: 'text',
+  createdAt: 'createdAt'
+} as const
+
+export type SentenceScalarFieldEnum = (typeof SentenceScalarFieldEnum)[keyof typeof SentenceScalarFieldEnum]
+
+
+export const SentenceInfonScalarFieldEnum = {
+  id: 'id',
+  sentenceId: 'sentenceId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type SentenceInfonScalarFieldEnum = (typeof SentenceInfonScalarFieldEnum)[keyof typeof SentenceInfonScalarFieldEnum]
+
+
 export const AnnotationScalarFieldEnum = {
   id: 'id',
+  documentId: 'documentId',
   passageId: 'passageId',
+  sentenceId: 'sentenceId',
   annotationId: 'annotationId',
   identifier: 'identifier',
   type: 'type',
@@ -138,6 +199,103 @@ export const AnnotationScalarFieldEnum = {
 export type AnnotationScalarFieldEnum = (typeof AnnotationScalarFieldEnum)[keyof typeof AnnotationScalarFieldEnum]
 
 
+export const AnnotationInfonScalarFieldEnum = {
+  id: 'id',
+  annotationId: 'annotationId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type AnnotationInfonScalarFieldEnum = (typeof AnnotationInfonScalarFieldEnum)[keyof typeof AnnotationInfonScalarFieldEnum]
+
+
+export const AnnotationLocationScalarFieldEnum = {
+  id: 'id',
+  annotationId: 'annotationId',
+  offset: 'offset',
+  length: 'length',
+  ordinal: 'ordinal',
+  createdAt: 'createdAt'
+} as const
+
+export type AnnotationLocationScalarFieldEnum = (typeof AnnotationLocationScalarFieldEnum)[keyof typeof AnnotationLocationScalarFieldEnum]
+
+
+export const RelationScalarFieldEnum = {
+  id: 'id',
+  documentId: 'documentId',
+  passageId: 'passageId',
+  relationId: 'relationId',
+  type: 'type',
+  createdAt: 'createdAt'
+} as const
+
+export type RelationScalarFieldEnum = (typeof RelationScalarFieldEnum)[keyof typeof RelationScalarFieldEnum]
+
+
+export const RelationInfonScalarFieldEnum = {
+  id: 'id',
+  relationId: 'relationId',
+  key: 'key',
+  value: 'value',
+  createdAt: 'createdAt'
+} as const
+
+export type RelationInfonScalarFieldEnum = (typeof RelationInfonScalarFieldEnum)[keyof typeof RelationInfonScalarFieldEnum]
+
+
+export const RelationNodeScalarFieldEnum = {
+  id: 'id',
+  relationId: 'relationId',
+  refid: 'refid',
+  role: 'role',
+  annotationId: 'annotationId',
+  createdAt: 'createdAt'
+} as const
+
+export type RelationNodeScalarFieldEnum = (typeof RelationNodeScalarFieldEnum)[keyof typeof RelationNodeScalarFieldEnum]
+
+
+export const IngestionRunScalarFieldEnum = {
+  id: 'id',
+  status: 'status',
+  documentsFound: 'documentsFound',
+  documentsInserted: 'documentsInserted',
+  documentsAdded: 'documentsAdded',
+  documentsChanged: 'documentsChanged',
+  documentsUnchanged: 'documentsUnchanged',
+  manifestPath: 'manifestPath',
+  manifestHash: 'manifestHash',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt'
+} as const
+
+export type IngestionRunScalarFieldEnum = (typeof IngestionRunScalarFieldEnum)[keyof typeof IngestionRunScalarFieldEnum]
+
+
+export const IngestedFileScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  path: 'path',
+  size: 'size',
+  hash: 'hash',
+  archiveHash: 'archiveHash',
+  selection: 'selection',
+  status: 'status',
+  documentsFound: 'documentsFound',
+  documentsInserted: 'documentsInserted',
+  lastDocumentId: 'lastDocumentId',
+  lastPosition: 'lastPosition',
+  error: 'error',
+  startedAt: 'startedAt',
+  updatedAt: 'updatedAt',
+  finishedAt: 'finishedAt'
+} as const
+
+export type IngestedFileScalarFieldEnum = (typeof IngestedFileScalarFieldEnum)[keyof typeof IngestedFileScalarFieldEnum]
+
+
 export const DiseaseScalarFieldEnum = {
   id: 'id',
   meshId: 'meshId',
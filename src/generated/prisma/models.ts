@@ -9,9 +9,20 @@
  * 🟢 You can import this file directly.
  */
 export type * from './models/Collection.js'
+export type * from './models/CollectionInfon.js'
 export type * from './models/Document.js'
+export type * from './models/DocumentInfon.js'
 export type * from './models/Passage.js'
 export type * from './models/PassageInfon.js'
+export type * from './models/Sentence.js'
+export type * from './models/SentenceInfon.js'
 export type * from './models/Annotation.js'
+export type * from './models/AnnotationInfon.js'
+export type * from './models/AnnotationLocation.js'
+export type * from './models/Relation.js'
+export type * from './models/RelationInfon.js'
+export type * from './models/RelationNode.js'
+export type * from './models/IngestionRun.js'
+export type * from './models/IngestedFile.js'
 export type * from './models/Disease.js'
 export type * from './commonInputTypes.js'
\ No newline at end of file
@@ -38,7 +38,9 @@ export type AnnotationSumAggregateOutputType = {
 
 export type AnnotationMinAggregateOutputType = {
   id: string | null
+  documentId: string | null
   passageId: string | null
+  sentenceId: string | null
   annotationId: string | null
   identifier: string | null
   type: string | null
@@ -50,7 +52,9 @@ export type AnnotationMinAggregateOutputType = {
 
 export type AnnotationMaxAggregateOutputType = {
   id: string | null
+  documentId: string | null
   passageId: string | null
+  sentenceId: string | null
   annotationId: string | null
   identifier: string | null
   type: string | null
@@ -62,7 +66,9 @@ export type AnnotationMaxAggregateOutputType = {
 
 export type AnnotationCountAggregateOutputType = {
   id: number
+  documentId: number
   passageId: number
+  sentenceId: number
   annotationId: number
   identifier: number
   type: number
@@ -86,7 +92,9 @@ export type AnnotationSumAggregateInputType = {
 
 export type AnnotationMinAggregateInputType = {
   id?: true
+  documentId?: true
   passageId?: true
+  sentenceId?: true
   annotationId?: true
   identifier?: true
   type?: true
@@ -98,7 +106,9 @@ export type AnnotationMinAggregateInputType = {
 
 export type AnnotationMaxAggregateInputType = {
   id?: true
+  documentId?: true
   passageId?: true
+  sentenceId?: true
   annotationId?: true
   identifier?: true
   type?: true
@@ -110,7 +120,9 @@ export type AnnotationMaxAggregateInputType = {
 
 export type AnnotationCountAggregateInputType = {
   id?: true
+  documentId?: true
   passageId?: true
+  sentenceId?: true
   annotationId?: true
   identifier?: true
   type?: true
@@ -209,7 +221,9 @@ export type AnnotationGroupByArgs<ExtArgs extends runtime.Types.Extensions.Inter
 
 export type AnnotationGroupByOutputType = {
   id: string
-  passageId: string
+  documentId: string | null
+  passageId: string | null
+  sentenceId: string | null
   annotationId: string
   identifier: string | null
   type: string | null
@@ -244,7 +258,9 @@ export type AnnotationWhereInput = {
   OR?: Prisma.AnnotationWhereInput[]
   NOT?: Prisma.AnnotationWhereInput | Prisma.AnnotationWhereInput[]
   id?: Prisma.StringFilter<"Annotation"> | string
-  passageId?: Prisma.StringFilter<"Annotation"> | string
+  documentId?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  passageId?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  sentenceId?: Prisma.StringNullableFilter<"Annotation"> | string | null
   annotationId?: Prisma.StringFilter<"Annotation"> | string
   identifier?: Prisma.StringNullableFilter<"Annotation"> | string | null
   type?: Prisma.StringNullableFilter<"Annotation"> | string | null
@@ -252,12 +268,19 @@ export type AnnotationWhereInput = {
   length?: Prisma.IntFilter<"Annotation"> | number
   text?: Prisma.StringFilter<"Annotation"> | string
   createdAt?: Prisma.DateTimeFilter<"Annotation"> | Date | string
-  passage?: Prisma.XOR<Prisma.PassageScalarRelationFilter, Prisma.PassageWhereInput>
+  document?: Prisma.XOR<Prisma.DocumentNullableScalarRelationFilter, Prisma.DocumentWhereInput> | null
+  passage?: Prisma.XOR<Prisma.PassageNullableScalarRelationFilter, Prisma.PassageWhereInput> | null
+  sentence?: Prisma.XOR<Prisma.SentenceNullableScalarRelationFilter, Prisma.SentenceWhereInput> | null
+  infons?: Prisma.AnnotationInfonListRelationFilter
+  locations?: Prisma.AnnotationLocationListRelationFilter
+  relationNodes?: Prisma.RelationNodeListRelationFilter
 }
 
 export type AnnotationOrderByWithRelationInput = {
   id?: Prisma.SortOrder
-  passageId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  passageId?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentenceId?: Prisma.SortOrderInput | Prisma.SortOrder
   annotationId?: Prisma.SortOrder
   identifier?: Prisma.SortOrderInput | Prisma.SortOrder
   type?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -265,7 +288,12 @@ export type AnnotationOrderByWithRelationInput = {
   length?: Prisma.SortOrder
   text?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
+  document?: Prisma.DocumentOrderByWithRelationInput
   passage?: Prisma.PassageOrderByWithRelationInput
+  sentence?: Prisma.SentenceOrderByWithRelationInput
+  infons?: Prisma.AnnotationInfonOrderByRelationAggregateInput
+  locations?: Prisma.AnnotationLocationOrderByRelationAggregateInput
+  relationNodes?: Prisma.RelationNodeOrderByRelationAggregateInput
 }
 
 export type AnnotationWhereUniqueInput = Prisma.AtLeast<{
@@ -273,7 +301,9 @@ export type AnnotationWhereUniqueInput = Prisma.AtLeast<{
   AND?: Prisma.AnnotationWhereInput | Prisma.AnnotationWhereInput[]
   OR?: Prisma.AnnotationWhereInput[]
   NOT?: Prisma.AnnotationWhereInput | Prisma.AnnotationWhereInput[]
-  passageId?: Prisma.StringFilter<"Annotation"> | string
+  documentId?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  passageId?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  sentenceId?: Prisma.StringNullableFilter<"Annotation"> | string | null
   annotationId?: Prisma.StringFilter<"Annotation"> | string
   identifier?: Prisma.StringNullableFilter<"Annotation"> | string | null
   type?: Prisma.StringNullableFilter<"Annotation"> | string | null
@@ -281,12 +311,19 @@ export type AnnotationWhereUniqueInput = Prisma.AtLeast<{
   length?: Prisma.IntFilter<"Annotation"> | number
   text?: Prisma.StringFilter<"Annotation"> | string
   createdAt?: Prisma.DateTimeFilter<"Annotation"> | Date | string
-  passage?: Prisma.XOR<Prisma.PassageScalarRelationFilter, Prisma.PassageWhereInput>
+  document?: Prisma.XOR<Prisma.DocumentNullableScalarRelationFilter, Prisma.DocumentWhereInput> | null
+  passage?: Prisma.XOR<Prisma.PassageNullableScalarRelationFilter, Prisma.PassageWhereInput> | null
+  sentence?: Prisma.XOR<Prisma.SentenceNullableScalarRelationFilter, Prisma.SentenceWhereInput> | null
+  infons?: Prisma.AnnotationInfonListRelationFilter
+  locations?: Prisma.AnnotationLocationListRelationFilter
+  relationNodes?: Prisma.RelationNodeListRelationFilter
 }, "id">
 
 export type AnnotationOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
-  passageId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  passageId?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentenceId?: Prisma.SortOrderInput | Prisma.SortOrder
   annotationId?: Prisma.SortOrder
   identifier?: Prisma.SortOrderInput | Prisma.SortOrder
   type?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -306,7 +343,9 @@ export type AnnotationScalarWhereWithAggregatesInput = {
   OR?: Prisma.AnnotationScalarWhereWithAggregatesInput[]
   NOT?: Prisma.AnnotationScalarWhereWithAggregatesInput | Prisma.AnnotationScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"Annotation"> | string
-  passageId?: Prisma.StringWithAggregatesFilter<"Annotation"> | string
+  documentId?: Prisma.StringNullableWithAggregatesFilter<"Annotation"> | string | null
+  passageId?: Prisma.StringNullableWithAggregatesFilter<"Annotation"> | string | null
+  sentenceId?: Prisma.StringNullableWithAggregatesFilter<"Annotation"> | string | null
   annotationId?: Prisma.StringWithAggregatesFilter<"Annotation"> | string
   identifier?: Prisma.StringNullableWithAggregatesFilter<"Annotation"> | string | null
   type?: Prisma.StringNullableWithAggregatesFilter<"Annotation"> | string | null
@@ -325,12 +364,19 @@ export type AnnotationCreateInput = {
   length: number
   text: string
   createdAt?: Date | string
-  passage: Prisma.PassageCreateNestedOneWithoutAnnotationsInput
+  document?: Prisma.DocumentCreateNestedOneWithoutAnnotationsInput
+  passage?: Prisma.PassageCreateNestedOneWithoutAnnotationsInput
+  sentence?: Prisma.SentenceCreateNestedOneWithoutAnnotationsInput
+  infons?: Prisma.AnnotationInfonCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeCreateNestedManyWithoutAnnotationInput
 }
 
 export type AnnotationUncheckedCreateInput = {
   id?: string
-  passageId: string
+  documentId?: string | null
+  passageId?: string | null
+  sentenceId?: string | null
   annotationId: string
   identifier?: string | null
   type?: string | null
@@ -338,6 +384,9 @@ export type AnnotationUncheckedCreateInput = {
   length: number
   text: string
   createdAt?: Date | string
+  infons?: Prisma.AnnotationInfonUncheckedCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationUncheckedCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutAnnotationInput
 }
 
 export type AnnotationUpdateInput = {
@@ -349,12 +398,19 @@ export type AnnotationUpdateInput = {
   length?: Prisma.IntFieldUpdateOperationsInput | number
   text?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  passage?: Prisma.PassageUpdateOneRequiredWithoutAnnotationsNestedInput
+  document?: Prisma.DocumentUpdateOneWithoutAnnotationsNestedInput
+  passage?: Prisma.PassageUpdateOneWithoutAnnotationsNestedInput
+  sentence?: Prisma.SentenceUpdateOneWithoutAnnotationsNestedInput
+  infons?: Prisma.AnnotationInfonUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUpdateManyWithoutAnnotationNestedInput
 }
 
 export type AnnotationUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  passageId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   annotationId?: Prisma.StringFieldUpdateOperationsInput | string
   identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -362,11 +418,16 @@ export type AnnotationUncheckedUpdateInput = {
   length?: Prisma.IntFieldUpdateOperationsInput | number
   text?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.AnnotationInfonUncheckedUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUncheckedUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutAnnotationNestedInput
 }
 
 export type AnnotationCreateManyInput = {
   id?: string
-  passageId: string
+  documentId?: string | null
+  passageId?: string | null
+  sentenceId?: string | null
   annotationId: string
   identifier?: string | null
   type?: string | null
@@ -389,7 +450,9 @@ export type AnnotationUpdateManyMutationInput = {
 
 export type AnnotationUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  passageId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   annotationId?: Prisma.StringFieldUpdateOperationsInput | string
   identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -411,7 +474,9 @@ export type AnnotationOrderByRelationAggregateInput = {
 
 export type AnnotationCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
   passageId?: Prisma.SortOrder
+  sentenceId?: Prisma.SortOrder
   annotationId?: Prisma.SortOrder
   identifier?: Prisma.SortOrder
   type?: Prisma.SortOrder
@@ -428,7 +493,9 @@ export type AnnotationAvgOrderByAggregateInput = {
 
 export type AnnotationMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
   passageId?: Prisma.SortOrder
+  sentenceId?: Prisma.SortOrder
   annotationId?: Prisma.SortOrder
   identifier?: Prisma.SortOrder
   type?: Prisma.SortOrder
@@ -440,7 +507,9 @@ export type AnnotationMaxOrderByAggregateInput = {
 
 export type AnnotationMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
   passageId?: Prisma.SortOrder
+  sentenceId?: Prisma.SortOrder
   annotationId?: Prisma.SortOrder
   identifier?: Prisma.SortOrder
   type?: Prisma.SortOrder
@@ -455,6 +524,58 @@ export type AnnotationSumOrderByAggregateInput = {
   length?: Prisma.SortOrder
 }
 
+export type AnnotationScalarRelationFilter = {
+  is?: Prisma.AnnotationWhereInput
+  isNot?: Prisma.AnnotationWhereInput
+}
+
+export type AnnotationNullableScalarRelationFilter = {
+  is?: Prisma.AnnotationWhereInput | null
+  isNot?: Prisma.AnnotationWhereInput | null
+}
+
+export type AnnotationCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutDocumentInput, Prisma.AnnotationUncheckedCreateWithoutDocumentInput> | Prisma.AnnotationCreateWithoutDocumentInput[] | Prisma.AnnotationUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutDocumentInput | Prisma.AnnotationCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.AnnotationCreateManyDocumentInputEnvelope
+  connect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+}
+
+export type AnnotationUncheckedCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutDocumentInput, Prisma.AnnotationUncheckedCreateWithoutDocumentInput> | Prisma.AnnotationCreateWithoutDocumentInput[] | Prisma.AnnotationUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutDocumentInput | Prisma.AnnotationCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.AnnotationCreateManyDocumentInputEnvelope
+  connect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+}
+
+export type AnnotationUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutDocumentInput, Prisma.AnnotationUncheckedCreateWithoutDocumentInput> | Prisma.AnnotationCreateWithoutDocumentInput[] | Prisma.AnnotationUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutDocumentInput | Prisma.AnnotationCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.AnnotationUpsertWithWhereUniqueWithoutDocumentInput | Prisma.AnnotationUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.AnnotationCreateManyDocumentInputEnvelope
+  set?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  disconnect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  delete?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  connect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  update?: Prisma.AnnotationUpdateWithWhereUniqueWithoutDocumentInput | Prisma.AnnotationUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.AnnotationUpdateManyWithWhereWithoutDocumentInput | Prisma.AnnotationUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
+}
+
+export type AnnotationUncheckedUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutDocumentInput, Prisma.AnnotationUncheckedCreateWithoutDocumentInput> | Prisma.AnnotationCreateWithoutDocumentInput[] | Prisma.AnnotationUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutDocumentInput | Prisma.AnnotationCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.AnnotationUpsertWithWhereUniqueWithoutDocumentInput | Prisma.AnnotationUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.AnnotationCreateManyDocumentInputEnvelope
+  set?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  disconnect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  delete?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  connect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  update?: Prisma.AnnotationUpdateWithWhereUniqueWithoutDocumentInput | Prisma.AnnotationUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.AnnotationUpdateManyWithWhereWithoutDocumentInput | Prisma.AnnotationUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
+}
+
 export type AnnotationCreateNestedManyWithoutPassageInput = {
   create?: Prisma.XOR<Prisma.AnnotationCreateWithoutPassageInput, Prisma.AnnotationUncheckedCreateWithoutPassageInput> | Prisma.AnnotationCreateWithoutPassageInput[] | Prisma.AnnotationUncheckedCreateWithoutPassageInput[]
   connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutPassageInput | Prisma.AnnotationCreateOrConnectWithoutPassageInput[]
@@ -497,6 +618,167 @@ export type AnnotationUncheckedUpdateManyWithoutPassageNestedInput = {
   deleteMany?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
 }
 
+export type AnnotationCreateNestedManyWithoutSentenceInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutSentenceInput, Prisma.AnnotationUncheckedCreateWithoutSentenceInput> | Prisma.AnnotationCreateWithoutSentenceInput[] | Prisma.AnnotationUncheckedCreateWithoutSentenceInput[]
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutSentenceInput | Prisma.AnnotationCreateOrConnectWithoutSentenceInput[]
+  createMany?: Prisma.AnnotationCreateManySentenceInputEnvelope
+  connect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+}
+
+export type AnnotationUncheckedCreateNestedManyWithoutSentenceInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutSentenceInput, Prisma.AnnotationUncheckedCreateWithoutSentenceInput> | Prisma.AnnotationCreateWithoutSentenceInput[] | Prisma.AnnotationUncheckedCreateWithoutSentenceInput[]
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutSentenceInput | Prisma.AnnotationCreateOrConnectWithoutSentenceInput[]
+  createMany?: Prisma.AnnotationCreateManySentenceInputEnvelope
+  connect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+}
+
+export type AnnotationUpdateManyWithoutSentenceNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutSentenceInput, Prisma.AnnotationUncheckedCreateWithoutSentenceInput> | Prisma.AnnotationCreateWithoutSentenceInput[] | Prisma.AnnotationUncheckedCreateWithoutSentenceInput[]
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutSentenceInput | Prisma.AnnotationCreateOrConnectWithoutSentenceInput[]
+  upsert?: Prisma.AnnotationUpsertWithWhereUniqueWithoutSentenceInput | Prisma.AnnotationUpsertWithWhereUniqueWithoutSentenceInput[]
+  createMany?: Prisma.AnnotationCreateManySentenceInputEnvelope
+  set?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  disconnect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  delete?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  connect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  update?: Prisma.AnnotationUpdateWithWhereUniqueWithoutSentenceInput | Prisma.AnnotationUpdateWithWhereUniqueWithoutSentenceInput[]
+  updateMany?: Prisma.AnnotationUpdateManyWithWhereWithoutSentenceInput | Prisma.AnnotationUpdateManyWithWhereWithoutSentenceInput[]
+  deleteMany?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
+}
+
+export type AnnotationUncheckedUpdateManyWithoutSentenceNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutSentenceInput, Prisma.AnnotationUncheckedCreateWithoutSentenceInput> | Prisma.AnnotationCreateWithoutSentenceInput[] | Prisma.AnnotationUncheckedCreateWithoutSentenceInput[]
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutSentenceInput | Prisma.AnnotationCreateOrConnectWithoutSentenceInput[]
+  upsert?: Prisma.AnnotationUpsertWithWhereUniqueWithoutSentenceInput | Prisma.AnnotationUpsertWithWhereUniqueWithoutSentenceInput[]
+  createMany?: Prisma.AnnotationCreateManySentenceInputEnvelope
+  set?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  disconnect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  delete?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  connect?: Prisma.AnnotationWhereUniqueInput | Prisma.AnnotationWhereUniqueInput[]
+  update?: Prisma.AnnotationUpdateWithWhereUniqueWithoutSentenceInput | Prisma.AnnotationUpdateWithWhereUniqueWithoutSentenceInput[]
+  updateMany?: Prisma.AnnotationUpdateManyWithWhereWithoutSentenceInput | Prisma.AnnotationUpdateManyWithWhereWithoutSentenceInput[]
+  deleteMany?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
+}
+
+export type AnnotationCreateNestedOneWithoutInfonsInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutInfonsInput, Prisma.AnnotationUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutInfonsInput
+  connect?: Prisma.AnnotationWhereUniqueInput
+}
+
+export type AnnotationUpdateOneRequiredWithoutInfonsNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutInfonsInput, Prisma.AnnotationUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutInfonsInput
+  upsert?: Prisma.AnnotationUpsertWithoutInfonsInput
+  connect?: Prisma.AnnotationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AnnotationUpdateToOneWithWhereWithoutInfonsInput, Prisma.AnnotationUpdateWithoutInfonsInput>, Prisma.AnnotationUncheckedUpdateWithoutInfonsInput>
+}
+
+export type AnnotationCreateNestedOneWithoutLocationsInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutLocationsInput, Prisma.AnnotationUncheckedCreateWithoutLocationsInput>
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutLocationsInput
+  connect?: Prisma.AnnotationWhereUniqueInput
+}
+
+export type AnnotationUpdateOneRequiredWithoutLocationsNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutLocationsInput, Prisma.AnnotationUncheckedCreateWithoutLocationsInput>
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutLocationsInput
+  upsert?: Prisma.AnnotationUpsertWithoutLocationsInput
+  connect?: Prisma.AnnotationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AnnotationUpdateToOneWithWhereWithoutLocationsInput, Prisma.AnnotationUpdateWithoutLocationsInput>, Prisma.AnnotationUncheckedUpdateWithoutLocationsInput>
+}
+
+export type AnnotationCreateNestedOneWithoutRelationNodesInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutRelationNodesInput, Prisma.AnnotationUncheckedCreateWithoutRelationNodesInput>
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutRelationNodesInput
+  connect?: Prisma.AnnotationWhereUniqueInput
+}
+
+export type AnnotationUpdateOneWithoutRelationNodesNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationCreateWithoutRelationNodesInput, Prisma.AnnotationUncheckedCreateWithoutRelationNodesInput>
+  connectOrCreate?: Prisma.AnnotationCreateOrConnectWithoutRelationNodesInput
+  upsert?: Prisma.AnnotationUpsertWithoutRelationNodesInput
+  disconnect?: Prisma.AnnotationWhereInput | boolean
+  delete?: Prisma.AnnotationWhereInput | boolean
+  connect?: Prisma.AnnotationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AnnotationUpdateToOneWithWhereWithoutRelationNodesInput, Prisma.AnnotationUpdateWithoutRelationNodesInput>, Prisma.AnnotationUncheckedUpdateWithoutRelationNodesInput>
+}
+
+export type AnnotationCreateWithoutDocumentInput = {
+  id?: string
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  passage?: Prisma.PassageCreateNestedOneWithoutAnnotationsInput
+  sentence?: Prisma.SentenceCreateNestedOneWithoutAnnotationsInput
+  infons?: Prisma.AnnotationInfonCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationUncheckedCreateWithoutDocumentInput = {
+  id?: string
+  passageId?: string | null
+  sentenceId?: string | null
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  infons?: Prisma.AnnotationInfonUncheckedCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationUncheckedCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationCreateOrConnectWithoutDocumentInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutDocumentInput, Prisma.AnnotationUncheckedCreateWithoutDocumentInput>
+}
+
+export type AnnotationCreateManyDocumentInputEnvelope = {
+  data: Prisma.AnnotationCreateManyDocumentInput | Prisma.AnnotationCreateManyDocumentInput[]
+  skipDuplicates?: boolean
+}
+
+export type AnnotationUpsertWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  update: Prisma.XOR<Prisma.AnnotationUpdateWithoutDocumentInput, Prisma.AnnotationUncheckedUpdateWithoutDocumentInput>
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutDocumentInput, Prisma.AnnotationUncheckedCreateWithoutDocumentInput>
+}
+
+export type AnnotationUpdateWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  data: Prisma.XOR<Prisma.AnnotationUpdateWithoutDocumentInput, Prisma.AnnotationUncheckedUpdateWithoutDocumentInput>
+}
+
+export type AnnotationUpdateManyWithWhereWithoutDocumentInput = {
+  where: Prisma.AnnotationScalarWhereInput
+  data: Prisma.XOR<Prisma.AnnotationUpdateManyMutationInput, Prisma.AnnotationUncheckedUpdateManyWithoutDocumentInput>
+}
+
+export type AnnotationScalarWhereInput = {
+  AND?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
+  OR?: Prisma.AnnotationScalarWhereInput[]
+  NOT?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
+  id?: Prisma.StringFilter<"Annotation"> | string
+  documentId?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  passageId?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  sentenceId?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  annotationId?: Prisma.StringFilter<"Annotation"> | string
+  identifier?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  type?: Prisma.StringNullableFilter<"Annotation"> | string | null
+  offset?: Prisma.IntFilter<"Annotation"> | number
+  length?: Prisma.IntFilter<"Annotation"> | number
+  text?: Prisma.StringFilter<"Annotation"> | string
+  createdAt?: Prisma.DateTimeFilter<"Annotation"> | Date | string
+}
+
 export type AnnotationCreateWithoutPassageInput = {
   id?: string
   annotationId: string
@@ -506,10 +788,17 @@ export type AnnotationCreateWithoutPassageInput = {
   length: number
   text: string
   createdAt?: Date | string
+  document?: Prisma.DocumentCreateNestedOneWithoutAnnotationsInput
+  sentence?: Prisma.SentenceCreateNestedOneWithoutAnnotationsInput
+  infons?: Prisma.AnnotationInfonCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeCreateNestedManyWithoutAnnotationInput
 }
 
 export type AnnotationUncheckedCreateWithoutPassageInput = {
   id?: string
+  documentId?: string | null
+  sentenceId?: string | null
   annotationId: string
   identifier?: string | null
   type?: string | null
@@ -517,6 +806,9 @@ export type AnnotationUncheckedCreateWithoutPassageInput = {
   length: number
   text: string
   createdAt?: Date | string
+  infons?: Prisma.AnnotationInfonUncheckedCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationUncheckedCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutAnnotationInput
 }
 
 export type AnnotationCreateOrConnectWithoutPassageInput = {
@@ -545,23 +837,366 @@ export type AnnotationUpdateManyWithWhereWithoutPassageInput = {
   data: Prisma.XOR<Prisma.AnnotationUpdateManyMutationInput, Prisma.AnnotationUncheckedUpdateManyWithoutPassageInput>
 }
 
-export type AnnotationScalarWhereInput = {
-  AND?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
-  OR?: Prisma.AnnotationScalarWhereInput[]
-  NOT?: Prisma.AnnotationScalarWhereInput | Prisma.AnnotationScalarWhereInput[]
-  id?: Prisma.StringFilter<"Annotation"> | string
-  passageId?: Prisma.StringFilter<"Annotation"> | string
-  annotationId?: Prisma.StringFilter<"Annotation"> | string
-  identifier?: Prisma.StringNullableFilter<"Annotation"> | string | null
-  type?: Prisma.StringNullableFilter<"Annotation"> | string | null
-  offset?: Prisma.IntFilter<"Annotation"> | number
-  length?: Prisma.IntFilter<"Annotation"> | number
-  text?: Prisma.StringFilter<"Annotation"> | string
-  createdAt?: Prisma.DateTimeFilter<"Annotation"> | Date | string
+export type AnnotationCreateWithoutSentenceInput = {
+  id?: string
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  document?: Prisma.DocumentCreateNestedOneWithoutAnnotationsInput
+  passage?: Prisma.PassageCreateNestedOneWithoutAnnotationsInput
+  infons?: Prisma.AnnotationInfonCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationUncheckedCreateWithoutSentenceInput = {
+  id?: string
+  documentId?: string | null
+  passageId?: string | null
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  infons?: Prisma.AnnotationInfonUncheckedCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationUncheckedCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationCreateOrConnectWithoutSentenceInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutSentenceInput, Prisma.AnnotationUncheckedCreateWithoutSentenceInput>
+}
+
+export type AnnotationCreateManySentenceInputEnvelope = {
+  data: Prisma.AnnotationCreateManySentenceInput | Prisma.AnnotationCreateManySentenceInput[]
+  skipDuplicates?: boolean
+}
+
+export type AnnotationUpsertWithWhereUniqueWithoutSentenceInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  update: Prisma.XOR<Prisma.AnnotationUpdateWithoutSentenceInput, Prisma.AnnotationUncheckedUpdateWithoutSentenceInput>
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutSentenceInput, Prisma.AnnotationUncheckedCreateWithoutSentenceInput>
+}
+
+export type AnnotationUpdateWithWhereUniqueWithoutSentenceInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  data: Prisma.XOR<Prisma.AnnotationUpdateWithoutSentenceInput, Prisma.AnnotationUncheckedUpdateWithoutSentenceInput>
+}
+
+export type AnnotationUpdateManyWithWhereWithoutSentenceInput = {
+  where: Prisma.AnnotationScalarWhereInput
+  data: Prisma.XOR<Prisma.AnnotationUpdateManyMutationInput, Prisma.AnnotationUncheckedUpdateManyWithoutSentenceInput>
+}
+
+export type AnnotationCreateWithoutInfonsInput = {
+  id?: string
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  document?: Prisma.DocumentCreateNestedOneWithoutAnnotationsInput
+  passage?: Prisma.PassageCreateNestedOneWithoutAnnotationsInput
+  sentence?: Prisma.SentenceCreateNestedOneWithoutAnnotationsInput
+  locations?: Prisma.AnnotationLocationCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationUncheckedCreateWithoutInfonsInput = {
+  id?: string
+  documentId?: string | null
+  passageId?: string | null
+  sentenceId?: string | null
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  locations?: Prisma.AnnotationLocationUncheckedCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationCreateOrConnectWithoutInfonsInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutInfonsInput, Prisma.AnnotationUncheckedCreateWithoutInfonsInput>
+}
+
+export type AnnotationUpsertWithoutInfonsInput = {
+  update: Prisma.XOR<Prisma.AnnotationUpdateWithoutInfonsInput, Prisma.AnnotationUncheckedUpdateWithoutInfonsInput>
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutInfonsInput, Prisma.AnnotationUncheckedCreateWithoutInfonsInput>
+  where?: Prisma.AnnotationWhereInput
+}
+
+export type AnnotationUpdateToOneWithWhereWithoutInfonsInput = {
+  where?: Prisma.AnnotationWhereInput
+  data: Prisma.XOR<Prisma.AnnotationUpdateWithoutInfonsInput, Prisma.AnnotationUncheckedUpdateWithoutInfonsInput>
+}
+
+export type AnnotationUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneWithoutAnnotationsNestedInput
+  passage?: Prisma.PassageUpdateOneWithoutAnnotationsNestedInput
+  sentence?: Prisma.SentenceUpdateOneWithoutAnnotationsNestedInput
+  locations?: Prisma.AnnotationLocationUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationUncheckedUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  locations?: Prisma.AnnotationLocationUncheckedUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationCreateWithoutLocationsInput = {
+  id?: string
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  document?: Prisma.DocumentCreateNestedOneWithoutAnnotationsInput
+  passage?: Prisma.PassageCreateNestedOneWithoutAnnotationsInput
+  sentence?: Prisma.SentenceCreateNestedOneWithoutAnnotationsInput
+  infons?: Prisma.AnnotationInfonCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationUncheckedCreateWithoutLocationsInput = {
+  id?: string
+  documentId?: string | null
+  passageId?: string | null
+  sentenceId?: string | null
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  infons?: Prisma.AnnotationInfonUncheckedCreateNestedManyWithoutAnnotationInput
+  relationNodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationCreateOrConnectWithoutLocationsInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutLocationsInput, Prisma.AnnotationUncheckedCreateWithoutLocationsInput>
+}
+
+export type AnnotationUpsertWithoutLocationsInput = {
+  update: Prisma.XOR<Prisma.AnnotationUpdateWithoutLocationsInput, Prisma.AnnotationUncheckedUpdateWithoutLocationsInput>
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutLocationsInput, Prisma.AnnotationUncheckedCreateWithoutLocationsInput>
+  where?: Prisma.AnnotationWhereInput
+}
+
+export type AnnotationUpdateToOneWithWhereWithoutLocationsInput = {
+  where?: Prisma.AnnotationWhereInput
+  data: Prisma.XOR<Prisma.AnnotationUpdateWithoutLocationsInput, Prisma.AnnotationUncheckedUpdateWithoutLocationsInput>
+}
+
+export type AnnotationUpdateWithoutLocationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneWithoutAnnotationsNestedInput
+  passage?: Prisma.PassageUpdateOneWithoutAnnotationsNestedInput
+  sentence?: Prisma.SentenceUpdateOneWithoutAnnotationsNestedInput
+  infons?: Prisma.AnnotationInfonUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationUncheckedUpdateWithoutLocationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.AnnotationInfonUncheckedUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationCreateWithoutRelationNodesInput = {
+  id?: string
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  document?: Prisma.DocumentCreateNestedOneWithoutAnnotationsInput
+  passage?: Prisma.PassageCreateNestedOneWithoutAnnotationsInput
+  sentence?: Prisma.SentenceCreateNestedOneWithoutAnnotationsInput
+  infons?: Prisma.AnnotationInfonCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationUncheckedCreateWithoutRelationNodesInput = {
+  id?: string
+  documentId?: string | null
+  passageId?: string | null
+  sentenceId?: string | null
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+  infons?: Prisma.AnnotationInfonUncheckedCreateNestedManyWithoutAnnotationInput
+  locations?: Prisma.AnnotationLocationUncheckedCreateNestedManyWithoutAnnotationInput
+}
+
+export type AnnotationCreateOrConnectWithoutRelationNodesInput = {
+  where: Prisma.AnnotationWhereUniqueInput
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutRelationNodesInput, Prisma.AnnotationUncheckedCreateWithoutRelationNodesInput>
+}
+
+export type AnnotationUpsertWithoutRelationNodesInput = {
+  update: Prisma.XOR<Prisma.AnnotationUpdateWithoutRelationNodesInput, Prisma.AnnotationUncheckedUpdateWithoutRelationNodesInput>
+  create: Prisma.XOR<Prisma.AnnotationCreateWithoutRelationNodesInput, Prisma.AnnotationUncheckedCreateWithoutRelationNodesInput>
+  where?: Prisma.AnnotationWhereInput
+}
+
+export type AnnotationUpdateToOneWithWhereWithoutRelationNodesInput = {
+  where?: Prisma.AnnotationWhereInput
+  data: Prisma.XOR<Prisma.AnnotationUpdateWithoutRelationNodesInput, Prisma.AnnotationUncheckedUpdateWithoutRelationNodesInput>
+}
+
+export type AnnotationUpdateWithoutRelationNodesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneWithoutAnnotationsNestedInput
+  passage?: Prisma.PassageUpdateOneWithoutAnnotationsNestedInput
+  sentence?: Prisma.SentenceUpdateOneWithoutAnnotationsNestedInput
+  infons?: Prisma.AnnotationInfonUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationUncheckedUpdateWithoutRelationNodesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.AnnotationInfonUncheckedUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUncheckedUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationCreateManyDocumentInput = {
+  id?: string
+  passageId?: string | null
+  sentenceId?: string | null
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+}
+
+export type AnnotationUpdateWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  passage?: Prisma.PassageUpdateOneWithoutAnnotationsNestedInput
+  sentence?: Prisma.SentenceUpdateOneWithoutAnnotationsNestedInput
+  infons?: Prisma.AnnotationInfonUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationUncheckedUpdateWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.AnnotationInfonUncheckedUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUncheckedUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationUncheckedUpdateManyWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type AnnotationCreateManyPassageInput = {
   id?: string
+  documentId?: string | null
+  sentenceId?: string | null
   annotationId: string
   identifier?: string | null
   type?: string | null
@@ -580,10 +1215,17 @@ export type AnnotationUpdateWithoutPassageInput = {
   length?: Prisma.IntFieldUpdateOperationsInput | number
   text?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneWithoutAnnotationsNestedInput
+  sentence?: Prisma.SentenceUpdateOneWithoutAnnotationsNestedInput
+  infons?: Prisma.AnnotationInfonUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUpdateManyWithoutAnnotationNestedInput
 }
 
 export type AnnotationUncheckedUpdateWithoutPassageInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   annotationId?: Prisma.StringFieldUpdateOperationsInput | string
   identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -591,10 +1233,73 @@ export type AnnotationUncheckedUpdateWithoutPassageInput = {
   length?: Prisma.IntFieldUpdateOperationsInput | number
   text?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.AnnotationInfonUncheckedUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUncheckedUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutAnnotationNestedInput
 }
 
 export type AnnotationUncheckedUpdateManyWithoutPassageInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentenceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationCreateManySentenceInput = {
+  id?: string
+  documentId?: string | null
+  passageId?: string | null
+  annotationId: string
+  identifier?: string | null
+  type?: string | null
+  offset: number
+  length: number
+  text: string
+  createdAt?: Date | string
+}
+
+export type AnnotationUpdateWithoutSentenceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneWithoutAnnotationsNestedInput
+  passage?: Prisma.PassageUpdateOneWithoutAnnotationsNestedInput
+  infons?: Prisma.AnnotationInfonUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationUncheckedUpdateWithoutSentenceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.AnnotationInfonUncheckedUpdateManyWithoutAnnotationNestedInput
+  locations?: Prisma.AnnotationLocationUncheckedUpdateManyWithoutAnnotationNestedInput
+  relationNodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutAnnotationNestedInput
+}
+
+export type AnnotationUncheckedUpdateManyWithoutSentenceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   annotationId?: Prisma.StringFieldUpdateOperationsInput | string
   identifier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -605,10 +1310,59 @@ export type AnnotationUncheckedUpdateManyWithoutPassageInput = {
 }
 
 
+/**
+ * Count Type AnnotationCountOutputType
+ */
+
+export type AnnotationCountOutputType = {
+  infons: number
+  locations: number
+  relationNodes: number
+}
+
+export type AnnotationCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  infons?: boolean | AnnotationCountOutputTypeCountInfonsArgs
+  locations?: boolean | AnnotationCountOutputTypeCountLocationsArgs
+  relationNodes?: boolean | AnnotationCountOutputTypeCountRelationNodesArgs
+}
+
+/**
+ * AnnotationCountOutputType without action
+ */
+export type AnnotationCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationCountOutputType
+   */
+  select?: Prisma.AnnotationCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * AnnotationCountOutputType without action
+ */
+export type AnnotationCountOutputTypeCountInfonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AnnotationInfonWhereInput
+}
+
+/**
+ * AnnotationCountOutputType without action
+ */
+export type AnnotationCountOutputTypeCountLocationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AnnotationLocationWhereInput
+}
+
+/**
+ * AnnotationCountOutputType without action
+ */
+export type AnnotationCountOutputTypeCountRelationNodesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RelationNodeWhereInput
+}
+
 
 export type AnnotationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  documentId?: boolean
   passageId?: boolean
+  sentenceId?: boolean
   annotationId?: boolean
   identifier?: boolean
   type?: boolean
@@ -616,12 +1370,20 @@ export type AnnotationSelect<ExtArgs extends runtime.Types.Extensions.InternalAr
   length?: boolean
   text?: boolean
   createdAt?: boolean
-  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.Annotation$documentArgs<ExtArgs>
+  passage?: boolean | Prisma.Annotation$passageArgs<ExtArgs>
+  sentence?: boolean | Prisma.Annotation$sentenceArgs<ExtArgs>
+  infons?: boolean | Prisma.Annotation$infonsArgs<ExtArgs>
+  locations?: boolean | Prisma.Annotation$locationsArgs<ExtArgs>
+  relationNodes?: boolean | Prisma.Annotation$relationNodesArgs<ExtArgs>
+  _count?: boolean | Prisma.AnnotationCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["annotation"]>
 
 export type AnnotationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  documentId?: boolean
   passageId?: boolean
+  sentenceId?: boolean
   annotationId?: boolean
   identifier?: boolean
   type?: boolean
@@ -629,12 +1391,16 @@ export type AnnotationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ex
   length?: boolean
   text?: boolean
   createdAt?: boolean
-  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.Annotation$documentArgs<ExtArgs>
+  passage?: boolean | Prisma.Annotation$passageArgs<ExtArgs>
+  sentence?: boolean | Prisma.Annotation$sentenceArgs<ExtArgs>
 }, ExtArgs["result"]["annotation"]>
 
 export type AnnotationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  documentId?: boolean
   passageId?: boolean
+  sentenceId?: boolean
   annotationId?: boolean
   identifier?: boolean
   type?: boolean
@@ -642,12 +1408,16 @@ export type AnnotationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ex
   length?: boolean
   text?: boolean
   createdAt?: boolean
-  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.Annotation$documentArgs<ExtArgs>
+  passage?: boolean | Prisma.Annotation$passageArgs<ExtArgs>
+  sentence?: boolean | Prisma.Annotation$sentenceArgs<ExtArgs>
 }, ExtArgs["result"]["annotation"]>
 
 export type AnnotationSelectScalar = {
   id?: boolean
+  documentId?: boolean
   passageId?: boolean
+  sentenceId?: boolean
   annotationId?: boolean
   identifier?: boolean
   type?: boolean
@@ -657,25 +1427,42 @@ export type AnnotationSelectScalar = {
   createdAt?: boolean
 }
 
-export type AnnotationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "passageId" | "annotationId" | "identifier" | "type" | "offset" | "length" | "text" | "createdAt", ExtArgs["result"]["annotation"]>
+export type AnnotationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "documentId" | "passageId" | "sentenceId" | "annotationId" | "identifier" | "type" | "offset" | "length" | "text" | "createdAt", ExtArgs["result"]["annotation"]>
 export type AnnotationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.Annotation$documentArgs<ExtArgs>
+  passage?: boolean | Prisma.Annotation$passageArgs<ExtArgs>
+  sentence?: boolean | Prisma.Annotation$sentenceArgs<ExtArgs>
+  infons?: boolean | Prisma.Annotation$infonsArgs<ExtArgs>
+  locations?: boolean | Prisma.Annotation$locationsArgs<ExtArgs>
+  relationNodes?: boolean | Prisma.Annotation$relationNodesArgs<ExtArgs>
+  _count?: boolean | Prisma.AnnotationCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type AnnotationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.Annotation$documentArgs<ExtArgs>
+  passage?: boolean | Prisma.Annotation$passageArgs<ExtArgs>
+  sentence?: boolean | Prisma.Annotation$sentenceArgs<ExtArgs>
 }
 export type AnnotationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.Annotation$documentArgs<ExtArgs>
+  passage?: boolean | Prisma.Annotation$passageArgs<ExtArgs>
+  sentence?: boolean | Prisma.Annotation$sentenceArgs<ExtArgs>
 }
 
 export type $AnnotationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Annotation"
   objects: {
-    passage: Prisma.$PassagePayload<ExtArgs>
+    document: Prisma.$DocumentPayload<ExtArgs> | null
+    passage: Prisma.$PassagePayload<ExtArgs> | null
+    sentence: Prisma.$SentencePayload<ExtArgs> | null
+    infons: Prisma.$AnnotationInfonPayload<ExtArgs>[]
+    locations: Prisma.$AnnotationLocationPayload<ExtArgs>[]
+    relationNodes: Prisma.$RelationNodePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
-    passageId: string
+    documentId: string | null
+    passageId: string | null
+    sentenceId: string | null
     annotationId: string
     identifier: string | null
     type: string | null
@@ -1077,7 +1864,12 @@ readonly fields: AnnotationFieldRefs;
  */
 export interface Prisma__AnnotationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
-  passage<T extends Prisma.PassageDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PassageDefaultArgs<ExtArgs>>): Prisma.Prisma__PassageClient<runtime.Types.Result.GetResult<Prisma.$PassagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  document<T extends Prisma.Annotation$documentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Annotation$documentArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  passage<T extends Prisma.Annotation$passageArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Annotation$passageArgs<ExtArgs>>): Prisma.Prisma__PassageClient<runtime.Types.Result.GetResult<Prisma.$PassagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  sentence<T extends Prisma.Annotation$sentenceArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Annotation$sentenceArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  infons<T extends Prisma.Annotation$infonsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Annotation$infonsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  locations<T extends Prisma.Annotation$locationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Annotation$locationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  relationNodes<T extends Prisma.Annotation$relationNodesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Annotation$relationNodesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1108,7 +1900,9 @@ export interface Prisma__AnnotationClient<T, Null = never, ExtArgs extends runti
  */
 export interface AnnotationFieldRefs {
   readonly id: Prisma.FieldRef<"Annotation", 'String'>
+  readonly documentId: Prisma.FieldRef<"Annotation", 'String'>
   readonly passageId: Prisma.FieldRef<"Annotation", 'String'>
+  readonly sentenceId: Prisma.FieldRef<"Annotation", 'String'>
   readonly annotationId: Prisma.FieldRef<"Annotation", 'String'>
   readonly identifier: Prisma.FieldRef<"Annotation", 'String'>
   readonly type: Prisma.FieldRef<"Annotation", 'String'>
@@ -1511,6 +2305,135 @@ export type AnnotationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.In
   limit?: number
 }
 
+/**
+ * Annotation.document
+ */
+export type Annotation$documentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Document
+   */
+  select?: Prisma.DocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Document
+   */
+  omit?: Prisma.DocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInclude<ExtArgs> | null
+  where?: Prisma.DocumentWhereInput
+}
+
+/**
+ * Annotation.passage
+ */
+export type Annotation$passageArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Passage
+   */
+  select?: Prisma.PassageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Passage
+   */
+  omit?: Prisma.PassageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PassageInclude<ExtArgs> | null
+  where?: Prisma.PassageWhereInput
+}
+
+/**
+ * Annotation.sentence
+ */
+export type Annotation$sentenceArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  where?: Prisma.SentenceWhereInput
+}
+
+/**
+ * Annotation.infons
+ */
+export type Annotation$infonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  where?: Prisma.AnnotationInfonWhereInput
+  orderBy?: Prisma.AnnotationInfonOrderByWithRelationInput | Prisma.AnnotationInfonOrderByWithRelationInput[]
+  cursor?: Prisma.AnnotationInfonWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AnnotationInfonScalarFieldEnum | Prisma.AnnotationInfonScalarFieldEnum[]
+}
+
+/**
+ * Annotation.locations
+ */
+export type Annotation$locationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  where?: Prisma.AnnotationLocationWhereInput
+  orderBy?: Prisma.AnnotationLocationOrderByWithRelationInput | Prisma.AnnotationLocationOrderByWithRelationInput[]
+  cursor?: Prisma.AnnotationLocationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AnnotationLocationScalarFieldEnum | Prisma.AnnotationLocationScalarFieldEnum[]
+}
+
+/**
+ * Annotation.relationNodes
+ */
+export type Annotation$relationNodesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  where?: Prisma.RelationNodeWhereInput
+  orderBy?: Prisma.RelationNodeOrderByWithRelationInput | Prisma.RelationNodeOrderByWithRelationInput[]
+  cursor?: Prisma.RelationNodeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RelationNodeScalarFieldEnum | Prisma.RelationNodeScalarFieldEnum[]
+}
+
 /**
  * Annotation without action
  */
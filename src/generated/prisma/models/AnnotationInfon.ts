@@ -0,0 +1,1340 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `AnnotationInfon` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model AnnotationInfon
+ * 
+ */
+export type AnnotationInfonModel = runtime.Types.Result.DefaultSelection<Prisma.$AnnotationInfonPayload>
+
+export type AggregateAnnotationInfon = {
+  _count: AnnotationInfonCountAggregateOutputType | null
+  _min: AnnotationInfonMinAggregateOutputType | null
+  _max: AnnotationInfonMaxAggregateOutputType | null
+}
+
+export type AnnotationInfonMinAggregateOutputType = {
+  id: string | null
+  annotationId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type AnnotationInfonMaxAggregateOutputType = {
+  id: string | null
+  annotationId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type AnnotationInfonCountAggregateOutputType = {
+  id: number
+  annotationId: number
+  key: number
+  value: number
+  createdAt: number
+  _all: number
+}
+
+
+export type AnnotationInfonMinAggregateInputType = {
+  id?: true
+  annotationId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type AnnotationInfonMaxAggregateInputType = {
+  id?: true
+  annotationId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type AnnotationInfonCountAggregateInputType = {
+  id?: true
+  annotationId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type AnnotationInfonAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AnnotationInfon to aggregate.
+   */
+  where?: Prisma.AnnotationInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AnnotationInfons to fetch.
+   */
+  orderBy?: Prisma.AnnotationInfonOrderByWithRelationInput | Prisma.AnnotationInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AnnotationInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AnnotationInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AnnotationInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AnnotationInfons
+  **/
+  _count?: true | AnnotationInfonCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AnnotationInfonMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AnnotationInfonMaxAggregateInputType
+}
+
+export type GetAnnotationInfonAggregateType<T extends AnnotationInfonAggregateArgs> = {
+      [P in keyof T & keyof AggregateAnnotationInfon]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAnnotationInfon[P]>
+    : Prisma.GetScalarType<T[P], AggregateAnnotationInfon[P]>
+}
+
+
+
+
+export type AnnotationInfonGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AnnotationInfonWhereInput
+  orderBy?: Prisma.AnnotationInfonOrderByWithAggregationInput | Prisma.AnnotationInfonOrderByWithAggregationInput[]
+  by: Prisma.AnnotationInfonScalarFieldEnum[] | Prisma.AnnotationInfonScalarFieldEnum
+  having?: Prisma.AnnotationInfonScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AnnotationInfonCountAggregateInputType | true
+  _min?: AnnotationInfonMinAggregateInputType
+  _max?: AnnotationInfonMaxAggregateInputType
+}
+
+export type AnnotationInfonGroupByOutputType = {
+  id: string
+  annotationId: string
+  key: string
+  value: string
+  createdAt: Date
+  _count: AnnotationInfonCountAggregateOutputType | null
+  _min: AnnotationInfonMinAggregateOutputType | null
+  _max: AnnotationInfonMaxAggregateOutputType | null
+}
+
+type GetAnnotationInfonGroupByPayload<T extends AnnotationInfonGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AnnotationInfonGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AnnotationInfonGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AnnotationInfonGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AnnotationInfonGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AnnotationInfonWhereInput = {
+  AND?: Prisma.AnnotationInfonWhereInput | Prisma.AnnotationInfonWhereInput[]
+  OR?: Prisma.AnnotationInfonWhereInput[]
+  NOT?: Prisma.AnnotationInfonWhereInput | Prisma.AnnotationInfonWhereInput[]
+  id?: Prisma.StringFilter<"AnnotationInfon"> | string
+  annotationId?: Prisma.StringFilter<"AnnotationInfon"> | string
+  key?: Prisma.StringFilter<"AnnotationInfon"> | string
+  value?: Prisma.StringFilter<"AnnotationInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"AnnotationInfon"> | Date | string
+  annotation?: Prisma.XOR<Prisma.AnnotationScalarRelationFilter, Prisma.AnnotationWhereInput>
+}
+
+export type AnnotationInfonOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  annotation?: Prisma.AnnotationOrderByWithRelationInput
+}
+
+export type AnnotationInfonWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.AnnotationInfonWhereInput | Prisma.AnnotationInfonWhereInput[]
+  OR?: Prisma.AnnotationInfonWhereInput[]
+  NOT?: Prisma.AnnotationInfonWhereInput | Prisma.AnnotationInfonWhereInput[]
+  annotationId?: Prisma.StringFilter<"AnnotationInfon"> | string
+  key?: Prisma.StringFilter<"AnnotationInfon"> | string
+  value?: Prisma.StringFilter<"AnnotationInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"AnnotationInfon"> | Date | string
+  annotation?: Prisma.XOR<Prisma.AnnotationScalarRelationFilter, Prisma.AnnotationWhereInput>
+}, "id">
+
+export type AnnotationInfonOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.AnnotationInfonCountOrderByAggregateInput
+  _max?: Prisma.AnnotationInfonMaxOrderByAggregateInput
+  _min?: Prisma.AnnotationInfonMinOrderByAggregateInput
+}
+
+export type AnnotationInfonScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AnnotationInfonScalarWhereWithAggregatesInput | Prisma.AnnotationInfonScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AnnotationInfonScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AnnotationInfonScalarWhereWithAggregatesInput | Prisma.AnnotationInfonScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"AnnotationInfon"> | string
+  annotationId?: Prisma.StringWithAggregatesFilter<"AnnotationInfon"> | string
+  key?: Prisma.StringWithAggregatesFilter<"AnnotationInfon"> | string
+  value?: Prisma.StringWithAggregatesFilter<"AnnotationInfon"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AnnotationInfon"> | Date | string
+}
+
+export type AnnotationInfonCreateInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+  annotation: Prisma.AnnotationCreateNestedOneWithoutInfonsInput
+}
+
+export type AnnotationInfonUncheckedCreateInput = {
+  id?: string
+  annotationId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type AnnotationInfonUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  annotation?: Prisma.AnnotationUpdateOneRequiredWithoutInfonsNestedInput
+}
+
+export type AnnotationInfonUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationInfonCreateManyInput = {
+  id?: string
+  annotationId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type AnnotationInfonUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationInfonUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationInfonListRelationFilter = {
+  every?: Prisma.AnnotationInfonWhereInput
+  some?: Prisma.AnnotationInfonWhereInput
+  none?: Prisma.AnnotationInfonWhereInput
+}
+
+export type AnnotationInfonOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type AnnotationInfonCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AnnotationInfonMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AnnotationInfonMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AnnotationInfonCreateNestedManyWithoutAnnotationInput = {
+  create?: Prisma.XOR<Prisma.AnnotationInfonCreateWithoutAnnotationInput, Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput> | Prisma.AnnotationInfonCreateWithoutAnnotationInput[] | Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.AnnotationInfonCreateOrConnectWithoutAnnotationInput | Prisma.AnnotationInfonCreateOrConnectWithoutAnnotationInput[]
+  createMany?: Prisma.AnnotationInfonCreateManyAnnotationInputEnvelope
+  connect?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+}
+
+export type AnnotationInfonUncheckedCreateNestedManyWithoutAnnotationInput = {
+  create?: Prisma.XOR<Prisma.AnnotationInfonCreateWithoutAnnotationInput, Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput> | Prisma.AnnotationInfonCreateWithoutAnnotationInput[] | Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.AnnotationInfonCreateOrConnectWithoutAnnotationInput | Prisma.AnnotationInfonCreateOrConnectWithoutAnnotationInput[]
+  createMany?: Prisma.AnnotationInfonCreateManyAnnotationInputEnvelope
+  connect?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+}
+
+export type AnnotationInfonUpdateManyWithoutAnnotationNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationInfonCreateWithoutAnnotationInput, Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput> | Prisma.AnnotationInfonCreateWithoutAnnotationInput[] | Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.AnnotationInfonCreateOrConnectWithoutAnnotationInput | Prisma.AnnotationInfonCreateOrConnectWithoutAnnotationInput[]
+  upsert?: Prisma.AnnotationInfonUpsertWithWhereUniqueWithoutAnnotationInput | Prisma.AnnotationInfonUpsertWithWhereUniqueWithoutAnnotationInput[]
+  createMany?: Prisma.AnnotationInfonCreateManyAnnotationInputEnvelope
+  set?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+  disconnect?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+  delete?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+  connect?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+  update?: Prisma.AnnotationInfonUpdateWithWhereUniqueWithoutAnnotationInput | Prisma.AnnotationInfonUpdateWithWhereUniqueWithoutAnnotationInput[]
+  updateMany?: Prisma.AnnotationInfonUpdateManyWithWhereWithoutAnnotationInput | Prisma.AnnotationInfonUpdateManyWithWhereWithoutAnnotationInput[]
+  deleteMany?: Prisma.AnnotationInfonScalarWhereInput | Prisma.AnnotationInfonScalarWhereInput[]
+}
+
+export type AnnotationInfonUncheckedUpdateManyWithoutAnnotationNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationInfonCreateWithoutAnnotationInput, Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput> | Prisma.AnnotationInfonCreateWithoutAnnotationInput[] | Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.AnnotationInfonCreateOrConnectWithoutAnnotationInput | Prisma.AnnotationInfonCreateOrConnectWithoutAnnotationInput[]
+  upsert?: Prisma.AnnotationInfonUpsertWithWhereUniqueWithoutAnnotationInput | Prisma.AnnotationInfonUpsertWithWhereUniqueWithoutAnnotationInput[]
+  createMany?: Prisma.AnnotationInfonCreateManyAnnotationInputEnvelope
+  set?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+  disconnect?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+  delete?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+  connect?: Prisma.AnnotationInfonWhereUniqueInput | Prisma.AnnotationInfonWhereUniqueInput[]
+  update?: Prisma.AnnotationInfonUpdateWithWhereUniqueWithoutAnnotationInput | Prisma.AnnotationInfonUpdateWithWhereUniqueWithoutAnnotationInput[]
+  updateMany?: Prisma.AnnotationInfonUpdateManyWithWhereWithoutAnnotationInput | Prisma.AnnotationInfonUpdateManyWithWhereWithoutAnnotationInput[]
+  deleteMany?: Prisma.AnnotationInfonScalarWhereInput | Prisma.AnnotationInfonScalarWhereInput[]
+}
+
+export type AnnotationInfonCreateWithoutAnnotationInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type AnnotationInfonUncheckedCreateWithoutAnnotationInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type AnnotationInfonCreateOrConnectWithoutAnnotationInput = {
+  where: Prisma.AnnotationInfonWhereUniqueInput
+  create: Prisma.XOR<Prisma.AnnotationInfonCreateWithoutAnnotationInput, Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput>
+}
+
+export type AnnotationInfonCreateManyAnnotationInputEnvelope = {
+  data: Prisma.AnnotationInfonCreateManyAnnotationInput | Prisma.AnnotationInfonCreateManyAnnotationInput[]
+  skipDuplicates?: boolean
+}
+
+export type AnnotationInfonUpsertWithWhereUniqueWithoutAnnotationInput = {
+  where: Prisma.AnnotationInfonWhereUniqueInput
+  update: Prisma.XOR<Prisma.AnnotationInfonUpdateWithoutAnnotationInput, Prisma.AnnotationInfonUncheckedUpdateWithoutAnnotationInput>
+  create: Prisma.XOR<Prisma.AnnotationInfonCreateWithoutAnnotationInput, Prisma.AnnotationInfonUncheckedCreateWithoutAnnotationInput>
+}
+
+export type AnnotationInfonUpdateWithWhereUniqueWithoutAnnotationInput = {
+  where: Prisma.AnnotationInfonWhereUniqueInput
+  data: Prisma.XOR<Prisma.AnnotationInfonUpdateWithoutAnnotationInput, Prisma.AnnotationInfonUncheckedUpdateWithoutAnnotationInput>
+}
+
+export type AnnotationInfonUpdateManyWithWhereWithoutAnnotationInput = {
+  where: Prisma.AnnotationInfonScalarWhereInput
+  data: Prisma.XOR<Prisma.AnnotationInfonUpdateManyMutationInput, Prisma.AnnotationInfonUncheckedUpdateManyWithoutAnnotationInput>
+}
+
+export type AnnotationInfonScalarWhereInput = {
+  AND?: Prisma.AnnotationInfonScalarWhereInput | Prisma.AnnotationInfonScalarWhereInput[]
+  OR?: Prisma.AnnotationInfonScalarWhereInput[]
+  NOT?: Prisma.AnnotationInfonScalarWhereInput | Prisma.AnnotationInfonScalarWhereInput[]
+  id?: Prisma.StringFilter<"AnnotationInfon"> | string
+  annotationId?: Prisma.StringFilter<"AnnotationInfon"> | string
+  key?: Prisma.StringFilter<"AnnotationInfon"> | string
+  value?: Prisma.StringFilter<"AnnotationInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"AnnotationInfon"> | Date | string
+}
+
+export type AnnotationInfonCreateManyAnnotationInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type AnnotationInfonUpdateWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationInfonUncheckedUpdateWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationInfonUncheckedUpdateManyWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type AnnotationInfonSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  annotationId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["annotationInfon"]>
+
+export type AnnotationInfonSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  annotationId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["annotationInfon"]>
+
+export type AnnotationInfonSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  annotationId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["annotationInfon"]>
+
+export type AnnotationInfonSelectScalar = {
+  id?: boolean
+  annotationId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+}
+
+export type AnnotationInfonOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "annotationId" | "key" | "value" | "createdAt", ExtArgs["result"]["annotationInfon"]>
+export type AnnotationInfonInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}
+export type AnnotationInfonIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}
+export type AnnotationInfonIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}
+
+export type $AnnotationInfonPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AnnotationInfon"
+  objects: {
+    annotation: Prisma.$AnnotationPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    annotationId: string
+    key: string
+    value: string
+    createdAt: Date
+  }, ExtArgs["result"]["annotationInfon"]>
+  composites: {}
+}
+
+export type AnnotationInfonGetPayload<S extends boolean | null | undefined | AnnotationInfonDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload, S>
+
+export type AnnotationInfonCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AnnotationInfonFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AnnotationInfonCountAggregateInputType | true
+  }
+
+export interface AnnotationInfonDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AnnotationInfon'], meta: { name: 'AnnotationInfon' } }
+  /**
+   * Find zero or one AnnotationInfon that matches the filter.
+   * @param {AnnotationInfonFindUniqueArgs} args - Arguments to find a AnnotationInfon
+   * @example
+   * // Get one AnnotationInfon
+   * const annotationInfon = await prisma.annotationInfon.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AnnotationInfonFindUniqueArgs>(args: Prisma.SelectSubset<T, AnnotationInfonFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AnnotationInfonClient<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AnnotationInfon that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AnnotationInfonFindUniqueOrThrowArgs} args - Arguments to find a AnnotationInfon
+   * @example
+   * // Get one AnnotationInfon
+   * const annotationInfon = await prisma.annotationInfon.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AnnotationInfonFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AnnotationInfonFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AnnotationInfonClient<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AnnotationInfon that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationInfonFindFirstArgs} args - Arguments to find a AnnotationInfon
+   * @example
+   * // Get one AnnotationInfon
+   * const annotationInfon = await prisma.annotationInfon.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AnnotationInfonFindFirstArgs>(args?: Prisma.SelectSubset<T, AnnotationInfonFindFirstArgs<ExtArgs>>): Prisma.Prisma__AnnotationInfonClient<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AnnotationInfon that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationInfonFindFirstOrThrowArgs} args - Arguments to find a AnnotationInfon
+   * @example
+   * // Get one AnnotationInfon
+   * const annotationInfon = await prisma.annotationInfon.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AnnotationInfonFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AnnotationInfonFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AnnotationInfonClient<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AnnotationInfons that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationInfonFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AnnotationInfons
+   * const annotationInfons = await prisma.annotationInfon.findMany()
+   * 
+   * // Get first 10 AnnotationInfons
+   * const annotationInfons = await prisma.annotationInfon.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const annotationInfonWithIdOnly = await prisma.annotationInfon.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AnnotationInfonFindManyArgs>(args?: Prisma.SelectSubset<T, AnnotationInfonFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AnnotationInfon.
+   * @param {AnnotationInfonCreateArgs} args - Arguments to create a AnnotationInfon.
+   * @example
+   * // Create one AnnotationInfon
+   * const AnnotationInfon = await prisma.annotationInfon.create({
+   *   data: {
+   *     // ... data to create a AnnotationInfon
+   *   }
+   * })
+   * 
+   */
+  create<T extends AnnotationInfonCreateArgs>(args: Prisma.SelectSubset<T, AnnotationInfonCreateArgs<ExtArgs>>): Prisma.Prisma__AnnotationInfonClient<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AnnotationInfons.
+   * @param {AnnotationInfonCreateManyArgs} args - Arguments to create many AnnotationInfons.
+   * @example
+   * // Create many AnnotationInfons
+   * const annotationInfon = await prisma.annotationInfon.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AnnotationInfonCreateManyArgs>(args?: Prisma.SelectSubset<T, AnnotationInfonCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AnnotationInfons and returns the data saved in the database.
+   * @param {AnnotationInfonCreateManyAndReturnArgs} args - Arguments to create many AnnotationInfons.
+   * @example
+   * // Create many AnnotationInfons
+   * const annotationInfon = await prisma.annotationInfon.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AnnotationInfons and only return the `id`
+   * const annotationInfonWithIdOnly = await prisma.annotationInfon.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AnnotationInfonCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AnnotationInfonCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AnnotationInfon.
+   * @param {AnnotationInfonDeleteArgs} args - Arguments to delete one AnnotationInfon.
+   * @example
+   * // Delete one AnnotationInfon
+   * const AnnotationInfon = await prisma.annotationInfon.delete({
+   *   where: {
+   *     // ... filter to delete one AnnotationInfon
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AnnotationInfonDeleteArgs>(args: Prisma.SelectSubset<T, AnnotationInfonDeleteArgs<ExtArgs>>): Prisma.Prisma__AnnotationInfonClient<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AnnotationInfon.
+   * @param {AnnotationInfonUpdateArgs} args - Arguments to update one AnnotationInfon.
+   * @example
+   * // Update one AnnotationInfon
+   * const annotationInfon = await prisma.annotationInfon.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AnnotationInfonUpdateArgs>(args: Prisma.SelectSubset<T, AnnotationInfonUpdateArgs<ExtArgs>>): Prisma.Prisma__AnnotationInfonClient<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AnnotationInfons.
+   * @param {AnnotationInfonDeleteManyArgs} args - Arguments to filter AnnotationInfons to delete.
+   * @example
+   * // Delete a few AnnotationInfons
+   * const { count } = await prisma.annotationInfon.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AnnotationInfonDeleteManyArgs>(args?: Prisma.SelectSubset<T, AnnotationInfonDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AnnotationInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationInfonUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AnnotationInfons
+   * const annotationInfon = await prisma.annotationInfon.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AnnotationInfonUpdateManyArgs>(args: Prisma.SelectSubset<T, AnnotationInfonUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AnnotationInfons and returns the data updated in the database.
+   * @param {AnnotationInfonUpdateManyAndReturnArgs} args - Arguments to update many AnnotationInfons.
+   * @example
+   * // Update many AnnotationInfons
+   * const annotationInfon = await prisma.annotationInfon.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AnnotationInfons and only return the `id`
+   * const annotationInfonWithIdOnly = await prisma.annotationInfon.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AnnotationInfonUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AnnotationInfonUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AnnotationInfon.
+   * @param {AnnotationInfonUpsertArgs} args - Arguments to update or create a AnnotationInfon.
+   * @example
+   * // Update or create a AnnotationInfon
+   * const annotationInfon = await prisma.annotationInfon.upsert({
+   *   create: {
+   *     // ... data to create a AnnotationInfon
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AnnotationInfon we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AnnotationInfonUpsertArgs>(args: Prisma.SelectSubset<T, AnnotationInfonUpsertArgs<ExtArgs>>): Prisma.Prisma__AnnotationInfonClient<runtime.Types.Result.GetResult<Prisma.$AnnotationInfonPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AnnotationInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationInfonCountArgs} args - Arguments to filter AnnotationInfons to count.
+   * @example
+   * // Count the number of AnnotationInfons
+   * const count = await prisma.annotationInfon.count({
+   *   where: {
+   *     // ... the filter for the AnnotationInfons we want to count
+   *   }
+   * })
+  **/
+  count<T extends AnnotationInfonCountArgs>(
+    args?: Prisma.Subset<T, AnnotationInfonCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AnnotationInfonCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AnnotationInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationInfonAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AnnotationInfonAggregateArgs>(args: Prisma.Subset<T, AnnotationInfonAggregateArgs>): Prisma.PrismaPromise<GetAnnotationInfonAggregateType<T>>
+
+  /**
+   * Group by AnnotationInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationInfonGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AnnotationInfonGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AnnotationInfonGroupByArgs['orderBy'] }
+      : { orderBy?: AnnotationInfonGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AnnotationInfonGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAnnotationInfonGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AnnotationInfon model
+ */
+readonly fields: AnnotationInfonFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AnnotationInfon.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AnnotationInfonClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  annotation<T extends Prisma.AnnotationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AnnotationDefaultArgs<ExtArgs>>): Prisma.Prisma__AnnotationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AnnotationInfon model
+ */
+export interface AnnotationInfonFieldRefs {
+  readonly id: Prisma.FieldRef<"AnnotationInfon", 'String'>
+  readonly annotationId: Prisma.FieldRef<"AnnotationInfon", 'String'>
+  readonly key: Prisma.FieldRef<"AnnotationInfon", 'String'>
+  readonly value: Prisma.FieldRef<"AnnotationInfon", 'String'>
+  readonly createdAt: Prisma.FieldRef<"AnnotationInfon", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AnnotationInfon findUnique
+ */
+export type AnnotationInfonFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationInfon to fetch.
+   */
+  where: Prisma.AnnotationInfonWhereUniqueInput
+}
+
+/**
+ * AnnotationInfon findUniqueOrThrow
+ */
+export type AnnotationInfonFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationInfon to fetch.
+   */
+  where: Prisma.AnnotationInfonWhereUniqueInput
+}
+
+/**
+ * AnnotationInfon findFirst
+ */
+export type AnnotationInfonFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationInfon to fetch.
+   */
+  where?: Prisma.AnnotationInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AnnotationInfons to fetch.
+   */
+  orderBy?: Prisma.AnnotationInfonOrderByWithRelationInput | Prisma.AnnotationInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AnnotationInfons.
+   */
+  cursor?: Prisma.AnnotationInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AnnotationInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AnnotationInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AnnotationInfons.
+   */
+  distinct?: Prisma.AnnotationInfonScalarFieldEnum | Prisma.AnnotationInfonScalarFieldEnum[]
+}
+
+/**
+ * AnnotationInfon findFirstOrThrow
+ */
+export type AnnotationInfonFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationInfon to fetch.
+   */
+  where?: Prisma.AnnotationInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AnnotationInfons to fetch.
+   */
+  orderBy?: Prisma.AnnotationInfonOrderByWithRelationInput | Prisma.AnnotationInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AnnotationInfons.
+   */
+  cursor?: Prisma.AnnotationInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AnnotationInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AnnotationInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AnnotationInfons.
+   */
+  distinct?: Prisma.AnnotationInfonScalarFieldEnum | Prisma.AnnotationInfonScalarFieldEnum[]
+}
+
+/**
+ * AnnotationInfon findMany
+ */
+export type AnnotationInfonFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationInfons to fetch.
+   */
+  where?: Prisma.AnnotationInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AnnotationInfons to fetch.
+   */
+  orderBy?: Prisma.AnnotationInfonOrderByWithRelationInput | Prisma.AnnotationInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AnnotationInfons.
+   */
+  cursor?: Prisma.AnnotationInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AnnotationInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AnnotationInfons.
+   */
+  skip?: number
+  distinct?: Prisma.AnnotationInfonScalarFieldEnum | Prisma.AnnotationInfonScalarFieldEnum[]
+}
+
+/**
+ * AnnotationInfon create
+ */
+export type AnnotationInfonCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AnnotationInfon.
+   */
+  data: Prisma.XOR<Prisma.AnnotationInfonCreateInput, Prisma.AnnotationInfonUncheckedCreateInput>
+}
+
+/**
+ * AnnotationInfon createMany
+ */
+export type AnnotationInfonCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AnnotationInfons.
+   */
+  data: Prisma.AnnotationInfonCreateManyInput | Prisma.AnnotationInfonCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AnnotationInfon createManyAndReturn
+ */
+export type AnnotationInfonCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * The data used to create many AnnotationInfons.
+   */
+  data: Prisma.AnnotationInfonCreateManyInput | Prisma.AnnotationInfonCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AnnotationInfon update
+ */
+export type AnnotationInfonUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AnnotationInfon.
+   */
+  data: Prisma.XOR<Prisma.AnnotationInfonUpdateInput, Prisma.AnnotationInfonUncheckedUpdateInput>
+  /**
+   * Choose, which AnnotationInfon to update.
+   */
+  where: Prisma.AnnotationInfonWhereUniqueInput
+}
+
+/**
+ * AnnotationInfon updateMany
+ */
+export type AnnotationInfonUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AnnotationInfons.
+   */
+  data: Prisma.XOR<Prisma.AnnotationInfonUpdateManyMutationInput, Prisma.AnnotationInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which AnnotationInfons to update
+   */
+  where?: Prisma.AnnotationInfonWhereInput
+  /**
+   * Limit how many AnnotationInfons to update.
+   */
+  limit?: number
+}
+
+/**
+ * AnnotationInfon updateManyAndReturn
+ */
+export type AnnotationInfonUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * The data used to update AnnotationInfons.
+   */
+  data: Prisma.XOR<Prisma.AnnotationInfonUpdateManyMutationInput, Prisma.AnnotationInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which AnnotationInfons to update
+   */
+  where?: Prisma.AnnotationInfonWhereInput
+  /**
+   * Limit how many AnnotationInfons to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AnnotationInfon upsert
+ */
+export type AnnotationInfonUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AnnotationInfon to update in case it exists.
+   */
+  where: Prisma.AnnotationInfonWhereUniqueInput
+  /**
+   * In case the AnnotationInfon found by the `where` argument doesn't exist, create a new AnnotationInfon with this data.
+   */
+  create: Prisma.XOR<Prisma.AnnotationInfonCreateInput, Prisma.AnnotationInfonUncheckedCreateInput>
+  /**
+   * In case the AnnotationInfon was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AnnotationInfonUpdateInput, Prisma.AnnotationInfonUncheckedUpdateInput>
+}
+
+/**
+ * AnnotationInfon delete
+ */
+export type AnnotationInfonDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+  /**
+   * Filter which AnnotationInfon to delete.
+   */
+  where: Prisma.AnnotationInfonWhereUniqueInput
+}
+
+/**
+ * AnnotationInfon deleteMany
+ */
+export type AnnotationInfonDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AnnotationInfons to delete
+   */
+  where?: Prisma.AnnotationInfonWhereInput
+  /**
+   * Limit how many AnnotationInfons to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AnnotationInfon without action
+ */
+export type AnnotationInfonDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationInfon
+   */
+  select?: Prisma.AnnotationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationInfon
+   */
+  omit?: Prisma.AnnotationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInfonInclude<ExtArgs> | null
+}
@@ -0,0 +1,1431 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `AnnotationLocation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model AnnotationLocation
+ * 
+ */
+export type AnnotationLocationModel = runtime.Types.Result.DefaultSelection<Prisma.$AnnotationLocationPayload>
+
+export type AggregateAnnotationLocation = {
+  _count: AnnotationLocationCountAggregateOutputType | null
+  _avg: AnnotationLocationAvgAggregateOutputType | null
+  _sum: AnnotationLocationSumAggregateOutputType | null
+  _min: AnnotationLocationMinAggregateOutputType | null
+  _max: AnnotationLocationMaxAggregateOutputType | null
+}
+
+export type AnnotationLocationAvgAggregateOutputType = {
+  offset: number | null
+  length: number | null
+  ordinal: number | null
+}
+
+export type AnnotationLocationSumAggregateOutputType = {
+  offset: number | null
+  length: number | null
+  ordinal: number | null
+}
+
+export type AnnotationLocationMinAggregateOutputType = {
+  id: string | null
+  annotationId: string | null
+  offset: number | null
+  length: number | null
+  ordinal: number | null
+  createdAt: Date | null
+}
+
+export type AnnotationLocationMaxAggregateOutputType = {
+  id: string | null
+  annotationId: string | null
+  offset: number | null
+  length: number | null
+  ordinal: number | null
+  createdAt: Date | null
+}
+
+export type AnnotationLocationCountAggregateOutputType = {
+  id: number
+  annotationId: number
+  offset: number
+  length: number
+  ordinal: number
+  createdAt: number
+  _all: number
+}
+
+
+export type AnnotationLocationAvgAggregateInputType = {
+  offset?: true
+  length?: true
+  ordinal?: true
+}
+
+export type AnnotationLocationSumAggregateInputType = {
+  offset?: true
+  length?: true
+  ordinal?: true
+}
+
+export type AnnotationLocationMinAggregateInputType = {
+  id?: true
+  annotationId?: true
+  offset?: true
+  length?: true
+  ordinal?: true
+  createdAt?: true
+}
+
+export type AnnotationLocationMaxAggregateInputType = {
+  id?: true
+  annotationId?: true
+  offset?: true
+  length?: true
+  ordinal?: true
+  createdAt?: true
+}
+
+export type AnnotationLocationCountAggregateInputType = {
+  id?: true
+  annotationId?: true
+  offset?: true
+  length?: true
+  ordinal?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type AnnotationLocationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AnnotationLocation to aggregate.
+   */
+  where?: Prisma.AnnotationLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AnnotationLocations to fetch.
+   */
+  orderBy?: Prisma.AnnotationLocationOrderByWithRelationInput | Prisma.AnnotationLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AnnotationLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AnnotationLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AnnotationLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AnnotationLocations
+  **/
+  _count?: true | AnnotationLocationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: AnnotationLocationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: AnnotationLocationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AnnotationLocationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AnnotationLocationMaxAggregateInputType
+}
+
+export type GetAnnotationLocationAggregateType<T extends AnnotationLocationAggregateArgs> = {
+      [P in keyof T & keyof AggregateAnnotationLocation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAnnotationLocation[P]>
+    : Prisma.GetScalarType<T[P], AggregateAnnotationLocation[P]>
+}
+
+
+
+
+export type AnnotationLocationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AnnotationLocationWhereInput
+  orderBy?: Prisma.AnnotationLocationOrderByWithAggregationInput | Prisma.AnnotationLocationOrderByWithAggregationInput[]
+  by: Prisma.AnnotationLocationScalarFieldEnum[] | Prisma.AnnotationLocationScalarFieldEnum
+  having?: Prisma.AnnotationLocationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AnnotationLocationCountAggregateInputType | true
+  _avg?: AnnotationLocationAvgAggregateInputType
+  _sum?: AnnotationLocationSumAggregateInputType
+  _min?: AnnotationLocationMinAggregateInputType
+  _max?: AnnotationLocationMaxAggregateInputType
+}
+
+export type AnnotationLocationGroupByOutputType = {
+  id: string
+  annotationId: string
+  offset: number
+  length: number
+  ordinal: number
+  createdAt: Date
+  _count: AnnotationLocationCountAggregateOutputType | null
+  _avg: AnnotationLocationAvgAggregateOutputType | null
+  _sum: AnnotationLocationSumAggregateOutputType | null
+  _min: AnnotationLocationMinAggregateOutputType | null
+  _max: AnnotationLocationMaxAggregateOutputType | null
+}
+
+type GetAnnotationLocationGroupByPayload<T extends AnnotationLocationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AnnotationLocationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AnnotationLocationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AnnotationLocationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AnnotationLocationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AnnotationLocationWhereInput = {
+  AND?: Prisma.AnnotationLocationWhereInput | Prisma.AnnotationLocationWhereInput[]
+  OR?: Prisma.AnnotationLocationWhereInput[]
+  NOT?: Prisma.AnnotationLocationWhereInput | Prisma.AnnotationLocationWhereInput[]
+  id?: Prisma.StringFilter<"AnnotationLocation"> | string
+  annotationId?: Prisma.StringFilter<"AnnotationLocation"> | string
+  offset?: Prisma.IntFilter<"AnnotationLocation"> | number
+  length?: Prisma.IntFilter<"AnnotationLocation"> | number
+  ordinal?: Prisma.IntFilter<"AnnotationLocation"> | number
+  createdAt?: Prisma.DateTimeFilter<"AnnotationLocation"> | Date | string
+  annotation?: Prisma.XOR<Prisma.AnnotationScalarRelationFilter, Prisma.AnnotationWhereInput>
+}
+
+export type AnnotationLocationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  length?: Prisma.SortOrder
+  ordinal?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  annotation?: Prisma.AnnotationOrderByWithRelationInput
+}
+
+export type AnnotationLocationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.AnnotationLocationWhereInput | Prisma.AnnotationLocationWhereInput[]
+  OR?: Prisma.AnnotationLocationWhereInput[]
+  NOT?: Prisma.AnnotationLocationWhereInput | Prisma.AnnotationLocationWhereInput[]
+  annotationId?: Prisma.StringFilter<"AnnotationLocation"> | string
+  offset?: Prisma.IntFilter<"AnnotationLocation"> | number
+  length?: Prisma.IntFilter<"AnnotationLocation"> | number
+  ordinal?: Prisma.IntFilter<"AnnotationLocation"> | number
+  createdAt?: Prisma.DateTimeFilter<"AnnotationLocation"> | Date | string
+  annotation?: Prisma.XOR<Prisma.AnnotationScalarRelationFilter, Prisma.AnnotationWhereInput>
+}, "id">
+
+export type AnnotationLocationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  length?: Prisma.SortOrder
+  ordinal?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.AnnotationLocationCountOrderByAggregateInput
+  _avg?: Prisma.AnnotationLocationAvgOrderByAggregateInput
+  _max?: Prisma.AnnotationLocationMaxOrderByAggregateInput
+  _min?: Prisma.AnnotationLocationMinOrderByAggregateInput
+  _sum?: Prisma.AnnotationLocationSumOrderByAggregateInput
+}
+
+export type AnnotationLocationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AnnotationLocationScalarWhereWithAggregatesInput | Prisma.AnnotationLocationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AnnotationLocationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AnnotationLocationScalarWhereWithAggregatesInput | Prisma.AnnotationLocationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"AnnotationLocation"> | string
+  annotationId?: Prisma.StringWithAggregatesFilter<"AnnotationLocation"> | string
+  offset?: Prisma.IntWithAggregatesFilter<"AnnotationLocation"> | number
+  length?: Prisma.IntWithAggregatesFilter<"AnnotationLocation"> | number
+  ordinal?: Prisma.IntWithAggregatesFilter<"AnnotationLocation"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AnnotationLocation"> | Date | string
+}
+
+export type AnnotationLocationCreateInput = {
+  id?: string
+  offset: number
+  length: number
+  ordinal: number
+  createdAt?: Date | string
+  annotation: Prisma.AnnotationCreateNestedOneWithoutLocationsInput
+}
+
+export type AnnotationLocationUncheckedCreateInput = {
+  id?: string
+  annotationId: string
+  offset: number
+  length: number
+  ordinal: number
+  createdAt?: Date | string
+}
+
+export type AnnotationLocationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  ordinal?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  annotation?: Prisma.AnnotationUpdateOneRequiredWithoutLocationsNestedInput
+}
+
+export type AnnotationLocationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  ordinal?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationLocationCreateManyInput = {
+  id?: string
+  annotationId: string
+  offset: number
+  length: number
+  ordinal: number
+  createdAt?: Date | string
+}
+
+export type AnnotationLocationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  ordinal?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationLocationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  annotationId?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  ordinal?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationLocationListRelationFilter = {
+  every?: Prisma.AnnotationLocationWhereInput
+  some?: Prisma.AnnotationLocationWhereInput
+  none?: Prisma.AnnotationLocationWhereInput
+}
+
+export type AnnotationLocationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type AnnotationLocationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  length?: Prisma.SortOrder
+  ordinal?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AnnotationLocationAvgOrderByAggregateInput = {
+  offset?: Prisma.SortOrder
+  length?: Prisma.SortOrder
+  ordinal?: Prisma.SortOrder
+}
+
+export type AnnotationLocationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  length?: Prisma.SortOrder
+  ordinal?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AnnotationLocationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  length?: Prisma.SortOrder
+  ordinal?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AnnotationLocationSumOrderByAggregateInput = {
+  offset?: Prisma.SortOrder
+  length?: Prisma.SortOrder
+  ordinal?: Prisma.SortOrder
+}
+
+export type AnnotationLocationCreateNestedManyWithoutAnnotationInput = {
+  create?: Prisma.XOR<Prisma.AnnotationLocationCreateWithoutAnnotationInput, Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput> | Prisma.AnnotationLocationCreateWithoutAnnotationInput[] | Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.AnnotationLocationCreateOrConnectWithoutAnnotationInput | Prisma.AnnotationLocationCreateOrConnectWithoutAnnotationInput[]
+  createMany?: Prisma.AnnotationLocationCreateManyAnnotationInputEnvelope
+  connect?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+}
+
+export type AnnotationLocationUncheckedCreateNestedManyWithoutAnnotationInput = {
+  create?: Prisma.XOR<Prisma.AnnotationLocationCreateWithoutAnnotationInput, Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput> | Prisma.AnnotationLocationCreateWithoutAnnotationInput[] | Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.AnnotationLocationCreateOrConnectWithoutAnnotationInput | Prisma.AnnotationLocationCreateOrConnectWithoutAnnotationInput[]
+  createMany?: Prisma.AnnotationLocationCreateManyAnnotationInputEnvelope
+  connect?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+}
+
+export type AnnotationLocationUpdateManyWithoutAnnotationNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationLocationCreateWithoutAnnotationInput, Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput> | Prisma.AnnotationLocationCreateWithoutAnnotationInput[] | Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.AnnotationLocationCreateOrConnectWithoutAnnotationInput | Prisma.AnnotationLocationCreateOrConnectWithoutAnnotationInput[]
+  upsert?: Prisma.AnnotationLocationUpsertWithWhereUniqueWithoutAnnotationInput | Prisma.AnnotationLocationUpsertWithWhereUniqueWithoutAnnotationInput[]
+  createMany?: Prisma.AnnotationLocationCreateManyAnnotationInputEnvelope
+  set?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+  disconnect?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+  delete?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+  connect?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+  update?: Prisma.AnnotationLocationUpdateWithWhereUniqueWithoutAnnotationInput | Prisma.AnnotationLocationUpdateWithWhereUniqueWithoutAnnotationInput[]
+  updateMany?: Prisma.AnnotationLocationUpdateManyWithWhereWithoutAnnotationInput | Prisma.AnnotationLocationUpdateManyWithWhereWithoutAnnotationInput[]
+  deleteMany?: Prisma.AnnotationLocationScalarWhereInput | Prisma.AnnotationLocationScalarWhereInput[]
+}
+
+export type AnnotationLocationUncheckedUpdateManyWithoutAnnotationNestedInput = {
+  create?: Prisma.XOR<Prisma.AnnotationLocationCreateWithoutAnnotationInput, Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput> | Prisma.AnnotationLocationCreateWithoutAnnotationInput[] | Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.AnnotationLocationCreateOrConnectWithoutAnnotationInput | Prisma.AnnotationLocationCreateOrConnectWithoutAnnotationInput[]
+  upsert?: Prisma.AnnotationLocationUpsertWithWhereUniqueWithoutAnnotationInput | Prisma.AnnotationLocationUpsertWithWhereUniqueWithoutAnnotationInput[]
+  createMany?: Prisma.AnnotationLocationCreateManyAnnotationInputEnvelope
+  set?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+  disconnect?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+  delete?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+  connect?: Prisma.AnnotationLocationWhereUniqueInput | Prisma.AnnotationLocationWhereUniqueInput[]
+  update?: Prisma.AnnotationLocationUpdateWithWhereUniqueWithoutAnnotationInput | Prisma.AnnotationLocationUpdateWithWhereUniqueWithoutAnnotationInput[]
+  updateMany?: Prisma.AnnotationLocationUpdateManyWithWhereWithoutAnnotationInput | Prisma.AnnotationLocationUpdateManyWithWhereWithoutAnnotationInput[]
+  deleteMany?: Prisma.AnnotationLocationScalarWhereInput | Prisma.AnnotationLocationScalarWhereInput[]
+}
+
+export type AnnotationLocationCreateWithoutAnnotationInput = {
+  id?: string
+  offset: number
+  length: number
+  ordinal: number
+  createdAt?: Date | string
+}
+
+export type AnnotationLocationUncheckedCreateWithoutAnnotationInput = {
+  id?: string
+  offset: number
+  length: number
+  ordinal: number
+  createdAt?: Date | string
+}
+
+export type AnnotationLocationCreateOrConnectWithoutAnnotationInput = {
+  where: Prisma.AnnotationLocationWhereUniqueInput
+  create: Prisma.XOR<Prisma.AnnotationLocationCreateWithoutAnnotationInput, Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput>
+}
+
+export type AnnotationLocationCreateManyAnnotationInputEnvelope = {
+  data: Prisma.AnnotationLocationCreateManyAnnotationInput | Prisma.AnnotationLocationCreateManyAnnotationInput[]
+  skipDuplicates?: boolean
+}
+
+export type AnnotationLocationUpsertWithWhereUniqueWithoutAnnotationInput = {
+  where: Prisma.AnnotationLocationWhereUniqueInput
+  update: Prisma.XOR<Prisma.AnnotationLocationUpdateWithoutAnnotationInput, Prisma.AnnotationLocationUncheckedUpdateWithoutAnnotationInput>
+  create: Prisma.XOR<Prisma.AnnotationLocationCreateWithoutAnnotationInput, Prisma.AnnotationLocationUncheckedCreateWithoutAnnotationInput>
+}
+
+export type AnnotationLocationUpdateWithWhereUniqueWithoutAnnotationInput = {
+  where: Prisma.AnnotationLocationWhereUniqueInput
+  data: Prisma.XOR<Prisma.AnnotationLocationUpdateWithoutAnnotationInput, Prisma.AnnotationLocationUncheckedUpdateWithoutAnnotationInput>
+}
+
+export type AnnotationLocationUpdateManyWithWhereWithoutAnnotationInput = {
+  where: Prisma.AnnotationLocationScalarWhereInput
+  data: Prisma.XOR<Prisma.AnnotationLocationUpdateManyMutationInput, Prisma.AnnotationLocationUncheckedUpdateManyWithoutAnnotationInput>
+}
+
+export type AnnotationLocationScalarWhereInput = {
+  AND?: Prisma.AnnotationLocationScalarWhereInput | Prisma.AnnotationLocationScalarWhereInput[]
+  OR?: Prisma.AnnotationLocationScalarWhereInput[]
+  NOT?: Prisma.AnnotationLocationScalarWhereInput | Prisma.AnnotationLocationScalarWhereInput[]
+  id?: Prisma.StringFilter<"AnnotationLocation"> | string
+  annotationId?: Prisma.StringFilter<"AnnotationLocation"> | string
+  offset?: Prisma.IntFilter<"AnnotationLocation"> | number
+  length?: Prisma.IntFilter<"AnnotationLocation"> | number
+  ordinal?: Prisma.IntFilter<"AnnotationLocation"> | number
+  createdAt?: Prisma.DateTimeFilter<"AnnotationLocation"> | Date | string
+}
+
+export type AnnotationLocationCreateManyAnnotationInput = {
+  id?: string
+  offset: number
+  length: number
+  ordinal: number
+  createdAt?: Date | string
+}
+
+export type AnnotationLocationUpdateWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  ordinal?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationLocationUncheckedUpdateWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  ordinal?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AnnotationLocationUncheckedUpdateManyWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  length?: Prisma.IntFieldUpdateOperationsInput | number
+  ordinal?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type AnnotationLocationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  annotationId?: boolean
+  offset?: boolean
+  length?: boolean
+  ordinal?: boolean
+  createdAt?: boolean
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["annotationLocation"]>
+
+export type AnnotationLocationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  annotationId?: boolean
+  offset?: boolean
+  length?: boolean
+  ordinal?: boolean
+  createdAt?: boolean
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["annotationLocation"]>
+
+export type AnnotationLocationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  annotationId?: boolean
+  offset?: boolean
+  length?: boolean
+  ordinal?: boolean
+  createdAt?: boolean
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["annotationLocation"]>
+
+export type AnnotationLocationSelectScalar = {
+  id?: boolean
+  annotationId?: boolean
+  offset?: boolean
+  length?: boolean
+  ordinal?: boolean
+  createdAt?: boolean
+}
+
+export type AnnotationLocationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "annotationId" | "offset" | "length" | "ordinal" | "createdAt", ExtArgs["result"]["annotationLocation"]>
+export type AnnotationLocationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}
+export type AnnotationLocationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}
+export type AnnotationLocationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  annotation?: boolean | Prisma.AnnotationDefaultArgs<ExtArgs>
+}
+
+export type $AnnotationLocationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AnnotationLocation"
+  objects: {
+    annotation: Prisma.$AnnotationPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    annotationId: string
+    offset: number
+    length: number
+    ordinal: number
+    createdAt: Date
+  }, ExtArgs["result"]["annotationLocation"]>
+  composites: {}
+}
+
+export type AnnotationLocationGetPayload<S extends boolean | null | undefined | AnnotationLocationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload, S>
+
+export type AnnotationLocationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AnnotationLocationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AnnotationLocationCountAggregateInputType | true
+  }
+
+export interface AnnotationLocationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AnnotationLocation'], meta: { name: 'AnnotationLocation' } }
+  /**
+   * Find zero or one AnnotationLocation that matches the filter.
+   * @param {AnnotationLocationFindUniqueArgs} args - Arguments to find a AnnotationLocation
+   * @example
+   * // Get one AnnotationLocation
+   * const annotationLocation = await prisma.annotationLocation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AnnotationLocationFindUniqueArgs>(args: Prisma.SelectSubset<T, AnnotationLocationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AnnotationLocationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AnnotationLocation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AnnotationLocationFindUniqueOrThrowArgs} args - Arguments to find a AnnotationLocation
+   * @example
+   * // Get one AnnotationLocation
+   * const annotationLocation = await prisma.annotationLocation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AnnotationLocationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AnnotationLocationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AnnotationLocationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AnnotationLocation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationLocationFindFirstArgs} args - Arguments to find a AnnotationLocation
+   * @example
+   * // Get one AnnotationLocation
+   * const annotationLocation = await prisma.annotationLocation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AnnotationLocationFindFirstArgs>(args?: Prisma.SelectSubset<T, AnnotationLocationFindFirstArgs<ExtArgs>>): Prisma.Prisma__AnnotationLocationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AnnotationLocation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationLocationFindFirstOrThrowArgs} args - Arguments to find a AnnotationLocation
+   * @example
+   * // Get one AnnotationLocation
+   * const annotationLocation = await prisma.annotationLocation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AnnotationLocationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AnnotationLocationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AnnotationLocationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AnnotationLocations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationLocationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AnnotationLocations
+   * const annotationLocations = await prisma.annotationLocation.findMany()
+   * 
+   * // Get first 10 AnnotationLocations
+   * const annotationLocations = await prisma.annotationLocation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const annotationLocationWithIdOnly = await prisma.annotationLocation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AnnotationLocationFindManyArgs>(args?: Prisma.SelectSubset<T, AnnotationLocationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AnnotationLocation.
+   * @param {AnnotationLocationCreateArgs} args - Arguments to create a AnnotationLocation.
+   * @example
+   * // Create one AnnotationLocation
+   * const AnnotationLocation = await prisma.annotationLocation.create({
+   *   data: {
+   *     // ... data to create a AnnotationLocation
+   *   }
+   * })
+   * 
+   */
+  create<T extends AnnotationLocationCreateArgs>(args: Prisma.SelectSubset<T, AnnotationLocationCreateArgs<ExtArgs>>): Prisma.Prisma__AnnotationLocationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AnnotationLocations.
+   * @param {AnnotationLocationCreateManyArgs} args - Arguments to create many AnnotationLocations.
+   * @example
+   * // Create many AnnotationLocations
+   * const annotationLocation = await prisma.annotationLocation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AnnotationLocationCreateManyArgs>(args?: Prisma.SelectSubset<T, AnnotationLocationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AnnotationLocations and returns the data saved in the database.
+   * @param {AnnotationLocationCreateManyAndReturnArgs} args - Arguments to create many AnnotationLocations.
+   * @example
+   * // Create many AnnotationLocations
+   * const annotationLocation = await prisma.annotationLocation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AnnotationLocations and only return the `id`
+   * const annotationLocationWithIdOnly = await prisma.annotationLocation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AnnotationLocationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AnnotationLocationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AnnotationLocation.
+   * @param {AnnotationLocationDeleteArgs} args - Arguments to delete one AnnotationLocation.
+   * @example
+   * // Delete one AnnotationLocation
+   * const AnnotationLocation = await prisma.annotationLocation.delete({
+   *   where: {
+   *     // ... filter to delete one AnnotationLocation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AnnotationLocationDeleteArgs>(args: Prisma.SelectSubset<T, AnnotationLocationDeleteArgs<ExtArgs>>): Prisma.Prisma__AnnotationLocationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AnnotationLocation.
+   * @param {AnnotationLocationUpdateArgs} args - Arguments to update one AnnotationLocation.
+   * @example
+   * // Update one AnnotationLocation
+   * const annotationLocation = await prisma.annotationLocation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AnnotationLocationUpdateArgs>(args: Prisma.SelectSubset<T, AnnotationLocationUpdateArgs<ExtArgs>>): Prisma.Prisma__AnnotationLocationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AnnotationLocations.
+   * @param {AnnotationLocationDeleteManyArgs} args - Arguments to filter AnnotationLocations to delete.
+   * @example
+   * // Delete a few AnnotationLocations
+   * const { count } = await prisma.annotationLocation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AnnotationLocationDeleteManyArgs>(args?: Prisma.SelectSubset<T, AnnotationLocationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AnnotationLocations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationLocationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AnnotationLocations
+   * const annotationLocation = await prisma.annotationLocation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AnnotationLocationUpdateManyArgs>(args: Prisma.SelectSubset<T, AnnotationLocationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AnnotationLocations and returns the data updated in the database.
+   * @param {AnnotationLocationUpdateManyAndReturnArgs} args - Arguments to update many AnnotationLocations.
+   * @example
+   * // Update many AnnotationLocations
+   * const annotationLocation = await prisma.annotationLocation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AnnotationLocations and only return the `id`
+   * const annotationLocationWithIdOnly = await prisma.annotationLocation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AnnotationLocationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AnnotationLocationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AnnotationLocation.
+   * @param {AnnotationLocationUpsertArgs} args - Arguments to update or create a AnnotationLocation.
+   * @example
+   * // Update or create a AnnotationLocation
+   * const annotationLocation = await prisma.annotationLocation.upsert({
+   *   create: {
+   *     // ... data to create a AnnotationLocation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AnnotationLocation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AnnotationLocationUpsertArgs>(args: Prisma.SelectSubset<T, AnnotationLocationUpsertArgs<ExtArgs>>): Prisma.Prisma__AnnotationLocationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationLocationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AnnotationLocations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationLocationCountArgs} args - Arguments to filter AnnotationLocations to count.
+   * @example
+   * // Count the number of AnnotationLocations
+   * const count = await prisma.annotationLocation.count({
+   *   where: {
+   *     // ... the filter for the AnnotationLocations we want to count
+   *   }
+   * })
+  **/
+  count<T extends AnnotationLocationCountArgs>(
+    args?: Prisma.Subset<T, AnnotationLocationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AnnotationLocationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AnnotationLocation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationLocationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AnnotationLocationAggregateArgs>(args: Prisma.Subset<T, AnnotationLocationAggregateArgs>): Prisma.PrismaPromise<GetAnnotationLocationAggregateType<T>>
+
+  /**
+   * Group by AnnotationLocation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AnnotationLocationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AnnotationLocationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AnnotationLocationGroupByArgs['orderBy'] }
+      : { orderBy?: AnnotationLocationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AnnotationLocationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAnnotationLocationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AnnotationLocation model
+ */
+readonly fields: AnnotationLocationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AnnotationLocation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AnnotationLocationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  annotation<T extends Prisma.AnnotationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AnnotationDefaultArgs<ExtArgs>>): Prisma.Prisma__AnnotationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AnnotationLocation model
+ */
+export interface AnnotationLocationFieldRefs {
+  readonly id: Prisma.FieldRef<"AnnotationLocation", 'String'>
+  readonly annotationId: Prisma.FieldRef<"AnnotationLocation", 'String'>
+  readonly offset: Prisma.FieldRef<"AnnotationLocation", 'Int'>
+  readonly length: Prisma.FieldRef<"AnnotationLocation", 'Int'>
+  readonly ordinal: Prisma.FieldRef<"AnnotationLocation", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"AnnotationLocation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AnnotationLocation findUnique
+ */
+export type AnnotationLocationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationLocation to fetch.
+   */
+  where: Prisma.AnnotationLocationWhereUniqueInput
+}
+
+/**
+ * AnnotationLocation findUniqueOrThrow
+ */
+export type AnnotationLocationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationLocation to fetch.
+   */
+  where: Prisma.AnnotationLocationWhereUniqueInput
+}
+
+/**
+ * AnnotationLocation findFirst
+ */
+export type AnnotationLocationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationLocation to fetch.
+   */
+  where?: Prisma.AnnotationLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AnnotationLocations to fetch.
+   */
+  orderBy?: Prisma.AnnotationLocationOrderByWithRelationInput | Prisma.AnnotationLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AnnotationLocations.
+   */
+  cursor?: Prisma.AnnotationLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AnnotationLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AnnotationLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AnnotationLocations.
+   */
+  distinct?: Prisma.AnnotationLocationScalarFieldEnum | Prisma.AnnotationLocationScalarFieldEnum[]
+}
+
+/**
+ * AnnotationLocation findFirstOrThrow
+ */
+export type AnnotationLocationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationLocation to fetch.
+   */
+  where?: Prisma.AnnotationLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AnnotationLocations to fetch.
+   */
+  orderBy?: Prisma.AnnotationLocationOrderByWithRelationInput | Prisma.AnnotationLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AnnotationLocations.
+   */
+  cursor?: Prisma.AnnotationLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AnnotationLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AnnotationLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AnnotationLocations.
+   */
+  distinct?: Prisma.AnnotationLocationScalarFieldEnum | Prisma.AnnotationLocationScalarFieldEnum[]
+}
+
+/**
+ * AnnotationLocation findMany
+ */
+export type AnnotationLocationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which AnnotationLocations to fetch.
+   */
+  where?: Prisma.AnnotationLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AnnotationLocations to fetch.
+   */
+  orderBy?: Prisma.AnnotationLocationOrderByWithRelationInput | Prisma.AnnotationLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AnnotationLocations.
+   */
+  cursor?: Prisma.AnnotationLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AnnotationLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AnnotationLocations.
+   */
+  skip?: number
+  distinct?: Prisma.AnnotationLocationScalarFieldEnum | Prisma.AnnotationLocationScalarFieldEnum[]
+}
+
+/**
+ * AnnotationLocation create
+ */
+export type AnnotationLocationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AnnotationLocation.
+   */
+  data: Prisma.XOR<Prisma.AnnotationLocationCreateInput, Prisma.AnnotationLocationUncheckedCreateInput>
+}
+
+/**
+ * AnnotationLocation createMany
+ */
+export type AnnotationLocationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AnnotationLocations.
+   */
+  data: Prisma.AnnotationLocationCreateManyInput | Prisma.AnnotationLocationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AnnotationLocation createManyAndReturn
+ */
+export type AnnotationLocationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * The data used to create many AnnotationLocations.
+   */
+  data: Prisma.AnnotationLocationCreateManyInput | Prisma.AnnotationLocationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AnnotationLocation update
+ */
+export type AnnotationLocationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AnnotationLocation.
+   */
+  data: Prisma.XOR<Prisma.AnnotationLocationUpdateInput, Prisma.AnnotationLocationUncheckedUpdateInput>
+  /**
+   * Choose, which AnnotationLocation to update.
+   */
+  where: Prisma.AnnotationLocationWhereUniqueInput
+}
+
+/**
+ * AnnotationLocation updateMany
+ */
+export type AnnotationLocationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AnnotationLocations.
+   */
+  data: Prisma.XOR<Prisma.AnnotationLocationUpdateManyMutationInput, Prisma.AnnotationLocationUncheckedUpdateManyInput>
+  /**
+   * Filter which AnnotationLocations to update
+   */
+  where?: Prisma.AnnotationLocationWhereInput
+  /**
+   * Limit how many AnnotationLocations to update.
+   */
+  limit?: number
+}
+
+/**
+ * AnnotationLocation updateManyAndReturn
+ */
+export type AnnotationLocationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * The data used to update AnnotationLocations.
+   */
+  data: Prisma.XOR<Prisma.AnnotationLocationUpdateManyMutationInput, Prisma.AnnotationLocationUncheckedUpdateManyInput>
+  /**
+   * Filter which AnnotationLocations to update
+   */
+  where?: Prisma.AnnotationLocationWhereInput
+  /**
+   * Limit how many AnnotationLocations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AnnotationLocation upsert
+ */
+export type AnnotationLocationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AnnotationLocation to update in case it exists.
+   */
+  where: Prisma.AnnotationLocationWhereUniqueInput
+  /**
+   * In case the AnnotationLocation found by the `where` argument doesn't exist, create a new AnnotationLocation with this data.
+   */
+  create: Prisma.XOR<Prisma.AnnotationLocationCreateInput, Prisma.AnnotationLocationUncheckedCreateInput>
+  /**
+   * In case the AnnotationLocation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AnnotationLocationUpdateInput, Prisma.AnnotationLocationUncheckedUpdateInput>
+}
+
+/**
+ * AnnotationLocation delete
+ */
+export type AnnotationLocationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+  /**
+   * Filter which AnnotationLocation to delete.
+   */
+  where: Prisma.AnnotationLocationWhereUniqueInput
+}
+
+/**
+ * AnnotationLocation deleteMany
+ */
+export type AnnotationLocationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AnnotationLocations to delete
+   */
+  where?: Prisma.AnnotationLocationWhereInput
+  /**
+   * Limit how many AnnotationLocations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AnnotationLocation without action
+ */
+export type AnnotationLocationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AnnotationLocation
+   */
+  select?: Prisma.AnnotationLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AnnotationLocation
+   */
+  omit?: Prisma.AnnotationLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationLocationInclude<ExtArgs> | null
+}
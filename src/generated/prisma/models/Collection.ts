@@ -20,15 +20,28 @@ export type CollectionModel = runtime.Types.Result.DefaultSelection<Prisma.$Coll
 
 export type AggregateCollection = {
   _count: CollectionCountAggregateOutputType | null
+  _avg: CollectionAvgAggregateOutputType | null
+  _sum: CollectionSumAggregateOutputType | null
   _min: CollectionMinAggregateOutputType | null
   _max: CollectionMaxAggregateOutputType | null
 }
 
+export type CollectionAvgAggregateOutputType = {
+  sourceSize: number | null
+}
+
+export type CollectionSumAggregateOutputType = {
+  sourceSize: bigint | null
+}
+
 export type CollectionMinAggregateOutputType = {
   id: string | null
   source: string | null
   date: string | null
   key: string | null
+  sourcePath: string | null
+  sourceSize: bigint | null
+  sourceHash: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -38,6 +51,9 @@ export type CollectionMaxAggregateOutputType = {
   source: string | null
   date: string | null
   key: string | null
+  sourcePath: string | null
+  sourceSize: bigint | null
+  sourceHash: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -47,17 +63,31 @@ export type CollectionCountAggregateOutputType = {
   source: number
   date: number
   key: number
+  sourcePath: number
+  sourceSize: number
+  sourceHash: number
   createdAt: number
   updatedAt: number
   _all: number
 }
 
 
+export type CollectionAvgAggregateInputType = {
+  sourceSize?: true
+}
+
+export type CollectionSumAggregateInputType = {
+  sourceSize?: true
+}
+
 export type CollectionMinAggregateInputType = {
   id?: true
   source?: true
   date?: true
   key?: true
+  sourcePath?: true
+  sourceSize?: true
+  sourceHash?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -67,6 +97,9 @@ export type CollectionMaxAggregateInputType = {
   source?: true
   date?: true
   key?: true
+  sourcePath?: true
+  sourceSize?: true
+  sourceHash?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -76,6 +109,9 @@ export type CollectionCountAggregateInputType = {
   source?: true
   date?: true
   key?: true
+  sourcePath?: true
+  sourceSize?: true
+  sourceHash?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -116,6 +152,18 @@ export type CollectionAggregateArgs<ExtArgs extends runtime.Types.Extensions.Int
    * Count returned Collections
   **/
   _count?: true | CollectionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CollectionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CollectionSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -149,6 +197,8 @@ export type CollectionGroupByArgs<ExtArgs extends runtime.Types.Extensions.Inter
   take?: number
   skip?: number
   _count?: CollectionCountAggregateInputType | true
+  _avg?: CollectionAvgAggregateInputType
+  _sum?: CollectionSumAggregateInputType
   _min?: CollectionMinAggregateInputType
   _max?: CollectionMaxAggregateInputType
 }
@@ -158,9 +208,14 @@ export type CollectionGroupByOutputType = {
   source: string | null
   date: string | null
   key: string | null
+  sourcePath: string | null
+  sourceSize: bigint | null
+  sourceHash: string | null
   createdAt: Date
   updatedAt: Date
   _count: CollectionCountAggregateOutputType | null
+  _avg: CollectionAvgAggregateOutputType | null
+  _sum: CollectionSumAggregateOutputType | null
   _min: CollectionMinAggregateOutputType | null
   _max: CollectionMaxAggregateOutputType | null
 }
@@ -188,8 +243,12 @@ export type CollectionWhereInput = {
   source?: Prisma.StringNullableFilter<"Collection"> | string | null
   date?: Prisma.StringNullableFilter<"Collection"> | string | null
   key?: Prisma.StringNullableFilter<"Collection"> | string | null
+  sourcePath?: Prisma.StringNullableFilter<"Collection"> | string | null
+  sourceSize?: Prisma.BigIntNullableFilter<"Collection"> | bigint | number | null
+  sourceHash?: Prisma.StringNullableFilter<"Collection"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Collection"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Collection"> | Date | string
+  infons?: Prisma.CollectionInfonListRelationFilter
   documents?: Prisma.DocumentListRelationFilter
 }
 
@@ -198,8 +257,12 @@ export type CollectionOrderByWithRelationInput = {
   source?: Prisma.SortOrderInput | Prisma.SortOrder
   date?: Prisma.SortOrderInput | Prisma.SortOrder
   key?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourcePath?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourceSize?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourceHash?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  infons?: Prisma.CollectionInfonOrderByRelationAggregateInput
   documents?: Prisma.DocumentOrderByRelationAggregateInput
 }
 
@@ -211,8 +274,12 @@ export type CollectionWhereUniqueInput = Prisma.AtLeast<{
   source?: Prisma.StringNullableFilter<"Collection"> | string | null
   date?: Prisma.StringNullableFilter<"Collection"> | string | null
   key?: Prisma.StringNullableFilter<"Collection"> | string | null
+  sourcePath?: Prisma.StringNullableFilter<"Collection"> | string | null
+  sourceSize?: Prisma.BigIntNullableFilter<"Collection"> | bigint | number | null
+  sourceHash?: Prisma.StringNullableFilter<"Collection"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Collection"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Collection"> | Date | string
+  infons?: Prisma.CollectionInfonListRelationFilter
   documents?: Prisma.DocumentListRelationFilter
 }, "id">
 
@@ -221,11 +288,16 @@ export type CollectionOrderByWithAggregationInput = {
   source?: Prisma.SortOrderInput | Prisma.SortOrder
   date?: Prisma.SortOrderInput | Prisma.SortOrder
   key?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourcePath?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourceSize?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourceHash?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.CollectionCountOrderByAggregateInput
+  _avg?: Prisma.CollectionAvgOrderByAggregateInput
   _max?: Prisma.CollectionMaxOrderByAggregateInput
   _min?: Prisma.CollectionMinOrderByAggregateInput
+  _sum?: Prisma.CollectionSumOrderByAggregateInput
 }
 
 export type CollectionScalarWhereWithAggregatesInput = {
@@ -236,6 +308,9 @@ export type CollectionScalarWhereWithAggregatesInput = {
   source?: Prisma.StringNullableWithAggregatesFilter<"Collection"> | string | null
   date?: Prisma.StringNullableWithAggregatesFilter<"Collection"> | string | null
   key?: Prisma.StringNullableWithAggregatesFilter<"Collection"> | string | null
+  sourcePath?: Prisma.StringNullableWithAggregatesFilter<"Collection"> | string | null
+  sourceSize?: Prisma.BigIntNullableWithAggregatesFilter<"Collection"> | bigint | number | null
+  sourceHash?: Prisma.StringNullableWithAggregatesFilter<"Collection"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Collection"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Collection"> | Date | string
 }
@@ -245,8 +320,12 @@ export type CollectionCreateInput = {
   source?: string | null
   date?: string | null
   key?: string | null
+  sourcePath?: string | null
+  sourceSize?: bigint | number | null
+  sourceHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  infons?: Prisma.CollectionInfonCreateNestedManyWithoutCollectionInput
   documents?: Prisma.DocumentCreateNestedManyWithoutCollectionInput
 }
 
@@ -255,8 +334,12 @@ export type CollectionUncheckedCreateInput = {
   source?: string | null
   date?: string | null
   key?: string | null
+  sourcePath?: string | null
+  sourceSize?: bigint | number | null
+  sourceHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  infons?: Prisma.CollectionInfonUncheckedCreateNestedManyWithoutCollectionInput
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutCollectionInput
 }
 
@@ -265,8 +348,12 @@ export type CollectionUpdateInput = {
   source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   date?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   key?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceSize?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  sourceHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.CollectionInfonUpdateManyWithoutCollectionNestedInput
   documents?: Prisma.DocumentUpdateManyWithoutCollectionNestedInput
 }
 
@@ -275,8 +362,12 @@ export type CollectionUncheckedUpdateInput = {
   source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   date?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   key?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceSize?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  sourceHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.CollectionInfonUncheckedUpdateManyWithoutCollectionNestedInput
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutCollectionNestedInput
 }
 
@@ -285,6 +376,9 @@ export type CollectionCreateManyInput = {
   source?: string | null
   date?: string | null
   key?: string | null
+  sourcePath?: string | null
+  sourceSize?: bigint | number | null
+  sourceHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -294,6 +388,9 @@ export type CollectionUpdateManyMutationInput = {
   source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   date?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   key?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceSize?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  sourceHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -303,6 +400,9 @@ export type CollectionUncheckedUpdateManyInput = {
   source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   date?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   key?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceSize?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  sourceHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -312,15 +412,25 @@ export type CollectionCountOrderByAggregateInput = {
   source?: Prisma.SortOrder
   date?: Prisma.SortOrder
   key?: Prisma.SortOrder
+  sourcePath?: Prisma.SortOrder
+  sourceSize?: Prisma.SortOrder
+  sourceHash?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type CollectionAvgOrderByAggregateInput = {
+  sourceSize?: Prisma.SortOrder
+}
+
 export type CollectionMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   source?: Prisma.SortOrder
   date?: Prisma.SortOrder
   key?: Prisma.SortOrder
+  sourcePath?: Prisma.SortOrder
+  sourceSize?: Prisma.SortOrder
+  sourceHash?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -330,10 +440,17 @@ export type CollectionMinOrderByAggregateInput = {
   source?: Prisma.SortOrder
   date?: Prisma.SortOrder
   key?: Prisma.SortOrder
+  sourcePath?: Prisma.SortOrder
+  sourceSize?: Prisma.SortOrder
+  sourceHash?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type CollectionSumOrderByAggregateInput = {
+  sourceSize?: Prisma.SortOrder
+}
+
 export type CollectionScalarRelationFilter = {
   is?: Prisma.CollectionWhereInput
   isNot?: Prisma.CollectionWhereInput
@@ -347,10 +464,32 @@ export type NullableStringFieldUpdateOperationsInput = {
   set?: string | null
 }
 
+export type NullableBigIntFieldUpdateOperationsInput = {
+  set?: bigint | number | null
+  increment?: bigint | number
+  decrement?: bigint | number
+  multiply?: bigint | number
+  divide?: bigint | number
+}
+
 export type DateTimeFieldUpdateOperationsInput = {
   set?: Date | string
 }
 
+export type CollectionCreateNestedOneWithoutInfonsInput = {
+  create?: Prisma.XOR<Prisma.CollectionCreateWithoutInfonsInput, Prisma.CollectionUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.CollectionCreateOrConnectWithoutInfonsInput
+  connect?: Prisma.CollectionWhereUniqueInput
+}
+
+export type CollectionUpdateOneRequiredWithoutInfonsNestedInput = {
+  create?: Prisma.XOR<Prisma.CollectionCreateWithoutInfonsInput, Prisma.CollectionUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.CollectionCreateOrConnectWithoutInfonsInput
+  upsert?: Prisma.CollectionUpsertWithoutInfonsInput
+  connect?: Prisma.CollectionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CollectionUpdateToOneWithWhereWithoutInfonsInput, Prisma.CollectionUpdateWithoutInfonsInput>, Prisma.CollectionUncheckedUpdateWithoutInfonsInput>
+}
+
 export type CollectionCreateNestedOneWithoutDocumentsInput = {
   create?: Prisma.XOR<Prisma.CollectionCreateWithoutDocumentsInput, Prisma.CollectionUncheckedCreateWithoutDocumentsInput>
   connectOrCreate?: Prisma.CollectionCreateOrConnectWithoutDocumentsInput
@@ -365,13 +504,85 @@ export type CollectionUpdateOneRequiredWithoutDocumentsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CollectionUpdateToOneWithWhereWithoutDocumentsInput, Prisma.CollectionUpdateWithoutDocumentsInput>, Prisma.CollectionUncheckedUpdateWithoutDocumentsInput>
 }
 
+export type CollectionCreateWithoutInfonsInput = {
+  id?: string
+  source?: string | null
+  date?: string | null
+  key?: string | null
+  sourcePath?: string | null
+  sourceSize?: bigint | number | null
+  sourceHash?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  documents?: Prisma.DocumentCreateNestedManyWithoutCollectionInput
+}
+
+export type CollectionUncheckedCreateWithoutInfonsInput = {
+  id?: string
+  source?: string | null
+  date?: string | null
+  key?: string | null
+  sourcePath?: string | null
+  sourceSize?: bigint | number | null
+  sourceHash?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutCollectionInput
+}
+
+export type CollectionCreateOrConnectWithoutInfonsInput = {
+  where: Prisma.CollectionWhereUniqueInput
+  create: Prisma.XOR<Prisma.CollectionCreateWithoutInfonsInput, Prisma.CollectionUncheckedCreateWithoutInfonsInput>
+}
+
+export type CollectionUpsertWithoutInfonsInput = {
+  update: Prisma.XOR<Prisma.CollectionUpdateWithoutInfonsInput, Prisma.CollectionUncheckedUpdateWithoutInfonsInput>
+  create: Prisma.XOR<Prisma.CollectionCreateWithoutInfonsInput, Prisma.CollectionUncheckedCreateWithoutInfonsInput>
+  where?: Prisma.CollectionWhereInput
+}
+
+export type CollectionUpdateToOneWithWhereWithoutInfonsInput = {
+  where?: Prisma.CollectionWhereInput
+  data: Prisma.XOR<Prisma.CollectionUpdateWithoutInfonsInput, Prisma.CollectionUncheckedUpdateWithoutInfonsInput>
+}
+
+export type CollectionUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  date?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  key?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceSize?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  sourceHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  documents?: Prisma.DocumentUpdateManyWithoutCollectionNestedInput
+}
+
+export type CollectionUncheckedUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  date?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  key?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceSize?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  sourceHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutCollectionNestedInput
+}
+
 export type CollectionCreateWithoutDocumentsInput = {
   id?: string
   source?: string | null
   date?: string | null
   key?: string | null
+  sourcePath?: string | null
+  sourceSize?: bigint | number | null
+  sourceHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  infons?: Prisma.CollectionInfonCreateNestedManyWithoutCollectionInput
 }
 
 export type CollectionUncheckedCreateWithoutDocumentsInput = {
@@ -379,8 +590,12 @@ export type CollectionUncheckedCreateWithoutDocumentsInput = {
   source?: string | null
   date?: string | null
   key?: string | null
+  sourcePath?: string | null
+  sourceSize?: bigint | number | null
+  sourceHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  infons?: Prisma.CollectionInfonUncheckedCreateNestedManyWithoutCollectionInput
 }
 
 export type CollectionCreateOrConnectWithoutDocumentsInput = {
@@ -404,8 +619,12 @@ export type CollectionUpdateWithoutDocumentsInput = {
   source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   date?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   key?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceSize?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  sourceHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.CollectionInfonUpdateManyWithoutCollectionNestedInput
 }
 
 export type CollectionUncheckedUpdateWithoutDocumentsInput = {
@@ -413,8 +632,12 @@ export type CollectionUncheckedUpdateWithoutDocumentsInput = {
   source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   date?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   key?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourcePath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceSize?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  sourceHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.CollectionInfonUncheckedUpdateManyWithoutCollectionNestedInput
 }
 
 
@@ -423,10 +646,12 @@ export type CollectionUncheckedUpdateWithoutDocumentsInput = {
  */
 
 export type CollectionCountOutputType = {
+  infons: number
   documents: number
 }
 
 export type CollectionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  infons?: boolean | CollectionCountOutputTypeCountInfonsArgs
   documents?: boolean | CollectionCountOutputTypeCountDocumentsArgs
 }
 
@@ -440,6 +665,13 @@ export type CollectionCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.E
   select?: Prisma.CollectionCountOutputTypeSelect<ExtArgs> | null
 }
 
+/**
+ * CollectionCountOutputType without action
+ */
+export type CollectionCountOutputTypeCountInfonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CollectionInfonWhereInput
+}
+
 /**
  * CollectionCountOutputType without action
  */
@@ -453,8 +685,12 @@ export type CollectionSelect<ExtArgs extends runtime.Types.Extensions.InternalAr
   source?: boolean
   date?: boolean
   key?: boolean
+  sourcePath?: boolean
+  sourceSize?: boolean
+  sourceHash?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  infons?: boolean | Prisma.Collection$infonsArgs<ExtArgs>
   documents?: boolean | Prisma.Collection$documentsArgs<ExtArgs>
   _count?: boolean | Prisma.CollectionCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["collection"]>
@@ -464,6 +700,9 @@ export type CollectionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ex
   source?: boolean
   date?: boolean
   key?: boolean
+  sourcePath?: boolean
+  sourceSize?: boolean
+  sourceHash?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["collection"]>
@@ -473,6 +712,9 @@ export type CollectionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ex
   source?: boolean
   date?: boolean
   key?: boolean
+  sourcePath?: boolean
+  sourceSize?: boolean
+  sourceHash?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["collection"]>
@@ -482,12 +724,16 @@ export type CollectionSelectScalar = {
   source?: boolean
   date?: boolean
   key?: boolean
+  sourcePath?: boolean
+  sourceSize?: boolean
+  sourceHash?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type CollectionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "source" | "date" | "key" | "createdAt" | "updatedAt", ExtArgs["result"]["collection"]>
+export type CollectionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "source" | "date" | "key" | "sourcePath" | "sourceSize" | "sourceHash" | "createdAt" | "updatedAt", ExtArgs["result"]["collection"]>
 export type CollectionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  infons?: boolean | Prisma.Collection$infonsArgs<ExtArgs>
   documents?: boolean | Prisma.Collection$documentsArgs<ExtArgs>
   _count?: boolean | Prisma.CollectionCountOutputTypeDefaultArgs<ExtArgs>
 }
@@ -497,6 +743,7 @@ export type CollectionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.E
 export type $CollectionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Collection"
   objects: {
+    infons: Prisma.$CollectionInfonPayload<ExtArgs>[]
     documents: Prisma.$DocumentPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
@@ -504,6 +751,9 @@ export type $CollectionPayload<ExtArgs extends runtime.Types.Extensions.Internal
     source: string | null
     date: string | null
     key: string | null
+    sourcePath: string | null
+    sourceSize: bigint | null
+    sourceHash: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["collection"]>
@@ -900,6 +1150,7 @@ readonly fields: CollectionFieldRefs;
  */
 export interface Prisma__CollectionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
+  infons<T extends Prisma.Collection$infonsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Collection$infonsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   documents<T extends Prisma.Collection$documentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Collection$documentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
@@ -934,6 +1185,9 @@ export interface CollectionFieldRefs {
   readonly source: Prisma.FieldRef<"Collection", 'String'>
   readonly date: Prisma.FieldRef<"Collection", 'String'>
   readonly key: Prisma.FieldRef<"Collection", 'String'>
+  readonly sourcePath: Prisma.FieldRef<"Collection", 'String'>
+  readonly sourceSize: Prisma.FieldRef<"Collection", 'BigInt'>
+  readonly sourceHash: Prisma.FieldRef<"Collection", 'String'>
   readonly createdAt: Prisma.FieldRef<"Collection", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Collection", 'DateTime'>
 }
@@ -1323,6 +1577,30 @@ export type CollectionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.In
   limit?: number
 }
 
+/**
+ * Collection.infons
+ */
+export type Collection$infonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  where?: Prisma.CollectionInfonWhereInput
+  orderBy?: Prisma.CollectionInfonOrderByWithRelationInput | Prisma.CollectionInfonOrderByWithRelationInput[]
+  cursor?: Prisma.CollectionInfonWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CollectionInfonScalarFieldEnum | Prisma.CollectionInfonScalarFieldEnum[]
+}
+
 /**
  * Collection.documents
  */
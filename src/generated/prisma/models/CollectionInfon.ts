@@ -0,0 +1,1340 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CollectionInfon` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CollectionInfon
+ * 
+ */
+export type CollectionInfonModel = runtime.Types.Result.DefaultSelection<Prisma.$CollectionInfonPayload>
+
+export type AggregateCollectionInfon = {
+  _count: CollectionInfonCountAggregateOutputType | null
+  _min: CollectionInfonMinAggregateOutputType | null
+  _max: CollectionInfonMaxAggregateOutputType | null
+}
+
+export type CollectionInfonMinAggregateOutputType = {
+  id: string | null
+  collectionId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type CollectionInfonMaxAggregateOutputType = {
+  id: string | null
+  collectionId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type CollectionInfonCountAggregateOutputType = {
+  id: number
+  collectionId: number
+  key: number
+  value: number
+  createdAt: number
+  _all: number
+}
+
+
+export type CollectionInfonMinAggregateInputType = {
+  id?: true
+  collectionId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type CollectionInfonMaxAggregateInputType = {
+  id?: true
+  collectionId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type CollectionInfonCountAggregateInputType = {
+  id?: true
+  collectionId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type CollectionInfonAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CollectionInfon to aggregate.
+   */
+  where?: Prisma.CollectionInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CollectionInfons to fetch.
+   */
+  orderBy?: Prisma.CollectionInfonOrderByWithRelationInput | Prisma.CollectionInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CollectionInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CollectionInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CollectionInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CollectionInfons
+  **/
+  _count?: true | CollectionInfonCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CollectionInfonMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CollectionInfonMaxAggregateInputType
+}
+
+export type GetCollectionInfonAggregateType<T extends CollectionInfonAggregateArgs> = {
+      [P in keyof T & keyof AggregateCollectionInfon]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCollectionInfon[P]>
+    : Prisma.GetScalarType<T[P], AggregateCollectionInfon[P]>
+}
+
+
+
+
+export type CollectionInfonGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CollectionInfonWhereInput
+  orderBy?: Prisma.CollectionInfonOrderByWithAggregationInput | Prisma.CollectionInfonOrderByWithAggregationInput[]
+  by: Prisma.CollectionInfonScalarFieldEnum[] | Prisma.CollectionInfonScalarFieldEnum
+  having?: Prisma.CollectionInfonScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CollectionInfonCountAggregateInputType | true
+  _min?: CollectionInfonMinAggregateInputType
+  _max?: CollectionInfonMaxAggregateInputType
+}
+
+export type CollectionInfonGroupByOutputType = {
+  id: string
+  collectionId: string
+  key: string
+  value: string
+  createdAt: Date
+  _count: CollectionInfonCountAggregateOutputType | null
+  _min: CollectionInfonMinAggregateOutputType | null
+  _max: CollectionInfonMaxAggregateOutputType | null
+}
+
+type GetCollectionInfonGroupByPayload<T extends CollectionInfonGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CollectionInfonGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CollectionInfonGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CollectionInfonGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CollectionInfonGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CollectionInfonWhereInput = {
+  AND?: Prisma.CollectionInfonWhereInput | Prisma.CollectionInfonWhereInput[]
+  OR?: Prisma.CollectionInfonWhereInput[]
+  NOT?: Prisma.CollectionInfonWhereInput | Prisma.CollectionInfonWhereInput[]
+  id?: Prisma.StringFilter<"CollectionInfon"> | string
+  collectionId?: Prisma.StringFilter<"CollectionInfon"> | string
+  key?: Prisma.StringFilter<"CollectionInfon"> | string
+  value?: Prisma.StringFilter<"CollectionInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"CollectionInfon"> | Date | string
+  collection?: Prisma.XOR<Prisma.CollectionScalarRelationFilter, Prisma.CollectionWhereInput>
+}
+
+export type CollectionInfonOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  collectionId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  collection?: Prisma.CollectionOrderByWithRelationInput
+}
+
+export type CollectionInfonWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.CollectionInfonWhereInput | Prisma.CollectionInfonWhereInput[]
+  OR?: Prisma.CollectionInfonWhereInput[]
+  NOT?: Prisma.CollectionInfonWhereInput | Prisma.CollectionInfonWhereInput[]
+  collectionId?: Prisma.StringFilter<"CollectionInfon"> | string
+  key?: Prisma.StringFilter<"CollectionInfon"> | string
+  value?: Prisma.StringFilter<"CollectionInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"CollectionInfon"> | Date | string
+  collection?: Prisma.XOR<Prisma.CollectionScalarRelationFilter, Prisma.CollectionWhereInput>
+}, "id">
+
+export type CollectionInfonOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  collectionId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.CollectionInfonCountOrderByAggregateInput
+  _max?: Prisma.CollectionInfonMaxOrderByAggregateInput
+  _min?: Prisma.CollectionInfonMinOrderByAggregateInput
+}
+
+export type CollectionInfonScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CollectionInfonScalarWhereWithAggregatesInput | Prisma.CollectionInfonScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CollectionInfonScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CollectionInfonScalarWhereWithAggregatesInput | Prisma.CollectionInfonScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CollectionInfon"> | string
+  collectionId?: Prisma.StringWithAggregatesFilter<"CollectionInfon"> | string
+  key?: Prisma.StringWithAggregatesFilter<"CollectionInfon"> | string
+  value?: Prisma.StringWithAggregatesFilter<"CollectionInfon"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CollectionInfon"> | Date | string
+}
+
+export type CollectionInfonCreateInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+  collection: Prisma.CollectionCreateNestedOneWithoutInfonsInput
+}
+
+export type CollectionInfonUncheckedCreateInput = {
+  id?: string
+  collectionId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type CollectionInfonUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  collection?: Prisma.CollectionUpdateOneRequiredWithoutInfonsNestedInput
+}
+
+export type CollectionInfonUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  collectionId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CollectionInfonCreateManyInput = {
+  id?: string
+  collectionId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type CollectionInfonUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CollectionInfonUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  collectionId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CollectionInfonListRelationFilter = {
+  every?: Prisma.CollectionInfonWhereInput
+  some?: Prisma.CollectionInfonWhereInput
+  none?: Prisma.CollectionInfonWhereInput
+}
+
+export type CollectionInfonOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CollectionInfonCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  collectionId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CollectionInfonMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  collectionId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CollectionInfonMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  collectionId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CollectionInfonCreateNestedManyWithoutCollectionInput = {
+  create?: Prisma.XOR<Prisma.CollectionInfonCreateWithoutCollectionInput, Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput> | Prisma.CollectionInfonCreateWithoutCollectionInput[] | Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput[]
+  connectOrCreate?: Prisma.CollectionInfonCreateOrConnectWithoutCollectionInput | Prisma.CollectionInfonCreateOrConnectWithoutCollectionInput[]
+  createMany?: Prisma.CollectionInfonCreateManyCollectionInputEnvelope
+  connect?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+}
+
+export type CollectionInfonUncheckedCreateNestedManyWithoutCollectionInput = {
+  create?: Prisma.XOR<Prisma.CollectionInfonCreateWithoutCollectionInput, Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput> | Prisma.CollectionInfonCreateWithoutCollectionInput[] | Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput[]
+  connectOrCreate?: Prisma.CollectionInfonCreateOrConnectWithoutCollectionInput | Prisma.CollectionInfonCreateOrConnectWithoutCollectionInput[]
+  createMany?: Prisma.CollectionInfonCreateManyCollectionInputEnvelope
+  connect?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+}
+
+export type CollectionInfonUpdateManyWithoutCollectionNestedInput = {
+  create?: Prisma.XOR<Prisma.CollectionInfonCreateWithoutCollectionInput, Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput> | Prisma.CollectionInfonCreateWithoutCollectionInput[] | Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput[]
+  connectOrCreate?: Prisma.CollectionInfonCreateOrConnectWithoutCollectionInput | Prisma.CollectionInfonCreateOrConnectWithoutCollectionInput[]
+  upsert?: Prisma.CollectionInfonUpsertWithWhereUniqueWithoutCollectionInput | Prisma.CollectionInfonUpsertWithWhereUniqueWithoutCollectionInput[]
+  createMany?: Prisma.CollectionInfonCreateManyCollectionInputEnvelope
+  set?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+  disconnect?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+  delete?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+  connect?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+  update?: Prisma.CollectionInfonUpdateWithWhereUniqueWithoutCollectionInput | Prisma.CollectionInfonUpdateWithWhereUniqueWithoutCollectionInput[]
+  updateMany?: Prisma.CollectionInfonUpdateManyWithWhereWithoutCollectionInput | Prisma.CollectionInfonUpdateManyWithWhereWithoutCollectionInput[]
+  deleteMany?: Prisma.CollectionInfonScalarWhereInput | Prisma.CollectionInfonScalarWhereInput[]
+}
+
+export type CollectionInfonUncheckedUpdateManyWithoutCollectionNestedInput = {
+  create?: Prisma.XOR<Prisma.CollectionInfonCreateWithoutCollectionInput, Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput> | Prisma.CollectionInfonCreateWithoutCollectionInput[] | Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput[]
+  connectOrCreate?: Prisma.CollectionInfonCreateOrConnectWithoutCollectionInput | Prisma.CollectionInfonCreateOrConnectWithoutCollectionInput[]
+  upsert?: Prisma.CollectionInfonUpsertWithWhereUniqueWithoutCollectionInput | Prisma.CollectionInfonUpsertWithWhereUniqueWithoutCollectionInput[]
+  createMany?: Prisma.CollectionInfonCreateManyCollectionInputEnvelope
+  set?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+  disconnect?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+  delete?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+  connect?: Prisma.CollectionInfonWhereUniqueInput | Prisma.CollectionInfonWhereUniqueInput[]
+  update?: Prisma.CollectionInfonUpdateWithWhereUniqueWithoutCollectionInput | Prisma.CollectionInfonUpdateWithWhereUniqueWithoutCollectionInput[]
+  updateMany?: Prisma.CollectionInfonUpdateManyWithWhereWithoutCollectionInput | Prisma.CollectionInfonUpdateManyWithWhereWithoutCollectionInput[]
+  deleteMany?: Prisma.CollectionInfonScalarWhereInput | Prisma.CollectionInfonScalarWhereInput[]
+}
+
+export type CollectionInfonCreateWithoutCollectionInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type CollectionInfonUncheckedCreateWithoutCollectionInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type CollectionInfonCreateOrConnectWithoutCollectionInput = {
+  where: Prisma.CollectionInfonWhereUniqueInput
+  create: Prisma.XOR<Prisma.CollectionInfonCreateWithoutCollectionInput, Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput>
+}
+
+export type CollectionInfonCreateManyCollectionInputEnvelope = {
+  data: Prisma.CollectionInfonCreateManyCollectionInput | Prisma.CollectionInfonCreateManyCollectionInput[]
+  skipDuplicates?: boolean
+}
+
+export type CollectionInfonUpsertWithWhereUniqueWithoutCollectionInput = {
+  where: Prisma.CollectionInfonWhereUniqueInput
+  update: Prisma.XOR<Prisma.CollectionInfonUpdateWithoutCollectionInput, Prisma.CollectionInfonUncheckedUpdateWithoutCollectionInput>
+  create: Prisma.XOR<Prisma.CollectionInfonCreateWithoutCollectionInput, Prisma.CollectionInfonUncheckedCreateWithoutCollectionInput>
+}
+
+export type CollectionInfonUpdateWithWhereUniqueWithoutCollectionInput = {
+  where: Prisma.CollectionInfonWhereUniqueInput
+  data: Prisma.XOR<Prisma.CollectionInfonUpdateWithoutCollectionInput, Prisma.CollectionInfonUncheckedUpdateWithoutCollectionInput>
+}
+
+export type CollectionInfonUpdateManyWithWhereWithoutCollectionInput = {
+  where: Prisma.CollectionInfonScalarWhereInput
+  data: Prisma.XOR<Prisma.CollectionInfonUpdateManyMutationInput, Prisma.CollectionInfonUncheckedUpdateManyWithoutCollectionInput>
+}
+
+export type CollectionInfonScalarWhereInput = {
+  AND?: Prisma.CollectionInfonScalarWhereInput | Prisma.CollectionInfonScalarWhereInput[]
+  OR?: Prisma.CollectionInfonScalarWhereInput[]
+  NOT?: Prisma.CollectionInfonScalarWhereInput | Prisma.CollectionInfonScalarWhereInput[]
+  id?: Prisma.StringFilter<"CollectionInfon"> | string
+  collectionId?: Prisma.StringFilter<"CollectionInfon"> | string
+  key?: Prisma.StringFilter<"CollectionInfon"> | string
+  value?: Prisma.StringFilter<"CollectionInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"CollectionInfon"> | Date | string
+}
+
+export type CollectionInfonCreateManyCollectionInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type CollectionInfonUpdateWithoutCollectionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CollectionInfonUncheckedUpdateWithoutCollectionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CollectionInfonUncheckedUpdateManyWithoutCollectionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CollectionInfonSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  collectionId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["collectionInfon"]>
+
+export type CollectionInfonSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  collectionId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["collectionInfon"]>
+
+export type CollectionInfonSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  collectionId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["collectionInfon"]>
+
+export type CollectionInfonSelectScalar = {
+  id?: boolean
+  collectionId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+}
+
+export type CollectionInfonOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "collectionId" | "key" | "value" | "createdAt", ExtArgs["result"]["collectionInfon"]>
+export type CollectionInfonInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
+}
+export type CollectionInfonIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
+}
+export type CollectionInfonIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
+}
+
+export type $CollectionInfonPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CollectionInfon"
+  objects: {
+    collection: Prisma.$CollectionPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    collectionId: string
+    key: string
+    value: string
+    createdAt: Date
+  }, ExtArgs["result"]["collectionInfon"]>
+  composites: {}
+}
+
+export type CollectionInfonGetPayload<S extends boolean | null | undefined | CollectionInfonDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload, S>
+
+export type CollectionInfonCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CollectionInfonFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CollectionInfonCountAggregateInputType | true
+  }
+
+export interface CollectionInfonDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CollectionInfon'], meta: { name: 'CollectionInfon' } }
+  /**
+   * Find zero or one CollectionInfon that matches the filter.
+   * @param {CollectionInfonFindUniqueArgs} args - Arguments to find a CollectionInfon
+   * @example
+   * // Get one CollectionInfon
+   * const collectionInfon = await prisma.collectionInfon.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CollectionInfonFindUniqueArgs>(args: Prisma.SelectSubset<T, CollectionInfonFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CollectionInfonClient<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CollectionInfon that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CollectionInfonFindUniqueOrThrowArgs} args - Arguments to find a CollectionInfon
+   * @example
+   * // Get one CollectionInfon
+   * const collectionInfon = await prisma.collectionInfon.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CollectionInfonFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CollectionInfonFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CollectionInfonClient<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CollectionInfon that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CollectionInfonFindFirstArgs} args - Arguments to find a CollectionInfon
+   * @example
+   * // Get one CollectionInfon
+   * const collectionInfon = await prisma.collectionInfon.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CollectionInfonFindFirstArgs>(args?: Prisma.SelectSubset<T, CollectionInfonFindFirstArgs<ExtArgs>>): Prisma.Prisma__CollectionInfonClient<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CollectionInfon that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CollectionInfonFindFirstOrThrowArgs} args - Arguments to find a CollectionInfon
+   * @example
+   * // Get one CollectionInfon
+   * const collectionInfon = await prisma.collectionInfon.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CollectionInfonFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CollectionInfonFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CollectionInfonClient<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CollectionInfons that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CollectionInfonFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CollectionInfons
+   * const collectionInfons = await prisma.collectionInfon.findMany()
+   * 
+   * // Get first 10 CollectionInfons
+   * const collectionInfons = await prisma.collectionInfon.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const collectionInfonWithIdOnly = await prisma.collectionInfon.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CollectionInfonFindManyArgs>(args?: Prisma.SelectSubset<T, CollectionInfonFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CollectionInfon.
+   * @param {CollectionInfonCreateArgs} args - Arguments to create a CollectionInfon.
+   * @example
+   * // Create one CollectionInfon
+   * const CollectionInfon = await prisma.collectionInfon.create({
+   *   data: {
+   *     // ... data to create a CollectionInfon
+   *   }
+   * })
+   * 
+   */
+  create<T extends CollectionInfonCreateArgs>(args: Prisma.SelectSubset<T, CollectionInfonCreateArgs<ExtArgs>>): Prisma.Prisma__CollectionInfonClient<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CollectionInfons.
+   * @param {CollectionInfonCreateManyArgs} args - Arguments to create many CollectionInfons.
+   * @example
+   * // Create many CollectionInfons
+   * const collectionInfon = await prisma.collectionInfon.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CollectionInfonCreateManyArgs>(args?: Prisma.SelectSubset<T, CollectionInfonCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CollectionInfons and returns the data saved in the database.
+   * @param {CollectionInfonCreateManyAndReturnArgs} args - Arguments to create many CollectionInfons.
+   * @example
+   * // Create many CollectionInfons
+   * const collectionInfon = await prisma.collectionInfon.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CollectionInfons and only return the `id`
+   * const collectionInfonWithIdOnly = await prisma.collectionInfon.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CollectionInfonCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CollectionInfonCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CollectionInfon.
+   * @param {CollectionInfonDeleteArgs} args - Arguments to delete one CollectionInfon.
+   * @example
+   * // Delete one CollectionInfon
+   * const CollectionInfon = await prisma.collectionInfon.delete({
+   *   where: {
+   *     // ... filter to delete one CollectionInfon
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CollectionInfonDeleteArgs>(args: Prisma.SelectSubset<T, CollectionInfonDeleteArgs<ExtArgs>>): Prisma.Prisma__CollectionInfonClient<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CollectionInfon.
+   * @param {CollectionInfonUpdateArgs} args - Arguments to update one CollectionInfon.
+   * @example
+   * // Update one CollectionInfon
+   * const collectionInfon = await prisma.collectionInfon.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CollectionInfonUpdateArgs>(args: Prisma.SelectSubset<T, CollectionInfonUpdateArgs<ExtArgs>>): Prisma.Prisma__CollectionInfonClient<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CollectionInfons.
+   * @param {CollectionInfonDeleteManyArgs} args - Arguments to filter CollectionInfons to delete.
+   * @example
+   * // Delete a few CollectionInfons
+   * const { count } = await prisma.collectionInfon.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CollectionInfonDeleteManyArgs>(args?: Prisma.SelectSubset<T, CollectionInfonDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CollectionInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CollectionInfonUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CollectionInfons
+   * const collectionInfon = await prisma.collectionInfon.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CollectionInfonUpdateManyArgs>(args: Prisma.SelectSubset<T, CollectionInfonUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CollectionInfons and returns the data updated in the database.
+   * @param {CollectionInfonUpdateManyAndReturnArgs} args - Arguments to update many CollectionInfons.
+   * @example
+   * // Update many CollectionInfons
+   * const collectionInfon = await prisma.collectionInfon.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CollectionInfons and only return the `id`
+   * const collectionInfonWithIdOnly = await prisma.collectionInfon.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CollectionInfonUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CollectionInfonUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CollectionInfon.
+   * @param {CollectionInfonUpsertArgs} args - Arguments to update or create a CollectionInfon.
+   * @example
+   * // Update or create a CollectionInfon
+   * const collectionInfon = await prisma.collectionInfon.upsert({
+   *   create: {
+   *     // ... data to create a CollectionInfon
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CollectionInfon we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CollectionInfonUpsertArgs>(args: Prisma.SelectSubset<T, CollectionInfonUpsertArgs<ExtArgs>>): Prisma.Prisma__CollectionInfonClient<runtime.Types.Result.GetResult<Prisma.$CollectionInfonPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CollectionInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CollectionInfonCountArgs} args - Arguments to filter CollectionInfons to count.
+   * @example
+   * // Count the number of CollectionInfons
+   * const count = await prisma.collectionInfon.count({
+   *   where: {
+   *     // ... the filter for the CollectionInfons we want to count
+   *   }
+   * })
+  **/
+  count<T extends CollectionInfonCountArgs>(
+    args?: Prisma.Subset<T, CollectionInfonCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CollectionInfonCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CollectionInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CollectionInfonAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CollectionInfonAggregateArgs>(args: Prisma.Subset<T, CollectionInfonAggregateArgs>): Prisma.PrismaPromise<GetCollectionInfonAggregateType<T>>
+
+  /**
+   * Group by CollectionInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CollectionInfonGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CollectionInfonGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CollectionInfonGroupByArgs['orderBy'] }
+      : { orderBy?: CollectionInfonGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CollectionInfonGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCollectionInfonGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CollectionInfon model
+ */
+readonly fields: CollectionInfonFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CollectionInfon.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CollectionInfonClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  collection<T extends Prisma.CollectionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CollectionDefaultArgs<ExtArgs>>): Prisma.Prisma__CollectionClient<runtime.Types.Result.GetResult<Prisma.$CollectionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CollectionInfon model
+ */
+export interface CollectionInfonFieldRefs {
+  readonly id: Prisma.FieldRef<"CollectionInfon", 'String'>
+  readonly collectionId: Prisma.FieldRef<"CollectionInfon", 'String'>
+  readonly key: Prisma.FieldRef<"CollectionInfon", 'String'>
+  readonly value: Prisma.FieldRef<"CollectionInfon", 'String'>
+  readonly createdAt: Prisma.FieldRef<"CollectionInfon", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CollectionInfon findUnique
+ */
+export type CollectionInfonFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which CollectionInfon to fetch.
+   */
+  where: Prisma.CollectionInfonWhereUniqueInput
+}
+
+/**
+ * CollectionInfon findUniqueOrThrow
+ */
+export type CollectionInfonFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which CollectionInfon to fetch.
+   */
+  where: Prisma.CollectionInfonWhereUniqueInput
+}
+
+/**
+ * CollectionInfon findFirst
+ */
+export type CollectionInfonFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which CollectionInfon to fetch.
+   */
+  where?: Prisma.CollectionInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CollectionInfons to fetch.
+   */
+  orderBy?: Prisma.CollectionInfonOrderByWithRelationInput | Prisma.CollectionInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CollectionInfons.
+   */
+  cursor?: Prisma.CollectionInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CollectionInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CollectionInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CollectionInfons.
+   */
+  distinct?: Prisma.CollectionInfonScalarFieldEnum | Prisma.CollectionInfonScalarFieldEnum[]
+}
+
+/**
+ * CollectionInfon findFirstOrThrow
+ */
+export type CollectionInfonFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which CollectionInfon to fetch.
+   */
+  where?: Prisma.CollectionInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CollectionInfons to fetch.
+   */
+  orderBy?: Prisma.CollectionInfonOrderByWithRelationInput | Prisma.CollectionInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CollectionInfons.
+   */
+  cursor?: Prisma.CollectionInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CollectionInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CollectionInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CollectionInfons.
+   */
+  distinct?: Prisma.CollectionInfonScalarFieldEnum | Prisma.CollectionInfonScalarFieldEnum[]
+}
+
+/**
+ * CollectionInfon findMany
+ */
+export type CollectionInfonFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which CollectionInfons to fetch.
+   */
+  where?: Prisma.CollectionInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CollectionInfons to fetch.
+   */
+  orderBy?: Prisma.CollectionInfonOrderByWithRelationInput | Prisma.CollectionInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CollectionInfons.
+   */
+  cursor?: Prisma.CollectionInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CollectionInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CollectionInfons.
+   */
+  skip?: number
+  distinct?: Prisma.CollectionInfonScalarFieldEnum | Prisma.CollectionInfonScalarFieldEnum[]
+}
+
+/**
+ * CollectionInfon create
+ */
+export type CollectionInfonCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CollectionInfon.
+   */
+  data: Prisma.XOR<Prisma.CollectionInfonCreateInput, Prisma.CollectionInfonUncheckedCreateInput>
+}
+
+/**
+ * CollectionInfon createMany
+ */
+export type CollectionInfonCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CollectionInfons.
+   */
+  data: Prisma.CollectionInfonCreateManyInput | Prisma.CollectionInfonCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CollectionInfon createManyAndReturn
+ */
+export type CollectionInfonCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * The data used to create many CollectionInfons.
+   */
+  data: Prisma.CollectionInfonCreateManyInput | Prisma.CollectionInfonCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CollectionInfon update
+ */
+export type CollectionInfonUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CollectionInfon.
+   */
+  data: Prisma.XOR<Prisma.CollectionInfonUpdateInput, Prisma.CollectionInfonUncheckedUpdateInput>
+  /**
+   * Choose, which CollectionInfon to update.
+   */
+  where: Prisma.CollectionInfonWhereUniqueInput
+}
+
+/**
+ * CollectionInfon updateMany
+ */
+export type CollectionInfonUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CollectionInfons.
+   */
+  data: Prisma.XOR<Prisma.CollectionInfonUpdateManyMutationInput, Prisma.CollectionInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which CollectionInfons to update
+   */
+  where?: Prisma.CollectionInfonWhereInput
+  /**
+   * Limit how many CollectionInfons to update.
+   */
+  limit?: number
+}
+
+/**
+ * CollectionInfon updateManyAndReturn
+ */
+export type CollectionInfonUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * The data used to update CollectionInfons.
+   */
+  data: Prisma.XOR<Prisma.CollectionInfonUpdateManyMutationInput, Prisma.CollectionInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which CollectionInfons to update
+   */
+  where?: Prisma.CollectionInfonWhereInput
+  /**
+   * Limit how many CollectionInfons to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CollectionInfon upsert
+ */
+export type CollectionInfonUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CollectionInfon to update in case it exists.
+   */
+  where: Prisma.CollectionInfonWhereUniqueInput
+  /**
+   * In case the CollectionInfon found by the `where` argument doesn't exist, create a new CollectionInfon with this data.
+   */
+  create: Prisma.XOR<Prisma.CollectionInfonCreateInput, Prisma.CollectionInfonUncheckedCreateInput>
+  /**
+   * In case the CollectionInfon was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CollectionInfonUpdateInput, Prisma.CollectionInfonUncheckedUpdateInput>
+}
+
+/**
+ * CollectionInfon delete
+ */
+export type CollectionInfonDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+  /**
+   * Filter which CollectionInfon to delete.
+   */
+  where: Prisma.CollectionInfonWhereUniqueInput
+}
+
+/**
+ * CollectionInfon deleteMany
+ */
+export type CollectionInfonDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CollectionInfons to delete
+   */
+  where?: Prisma.CollectionInfonWhereInput
+  /**
+   * Limit how many CollectionInfons to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CollectionInfon without action
+ */
+export type CollectionInfonDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CollectionInfon
+   */
+  select?: Prisma.CollectionInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CollectionInfon
+   */
+  omit?: Prisma.CollectionInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CollectionInfonInclude<ExtArgs> | null
+}
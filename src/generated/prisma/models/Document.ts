@@ -28,6 +28,7 @@ export type DocumentMinAggregateOutputType = {
   id: string | null
   documentId: string | null
   collectionId: string | null
+  contentHash: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -36,6 +37,7 @@ export type DocumentMaxAggregateOutputType = {
   id: string | null
   documentId: string | null
   collectionId: string | null
+  contentHash: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -44,6 +46,7 @@ export type DocumentCountAggregateOutputType = {
   id: number
   documentId: number
   collectionId: number
+  contentHash: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -54,6 +57,7 @@ export type DocumentMinAggregateInputType = {
   id?: true
   documentId?: true
   collectionId?: true
+  contentHash?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -62,6 +66,7 @@ export type DocumentMaxAggregateInputType = {
   id?: true
   documentId?: true
   collectionId?: true
+  contentHash?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -70,6 +75,7 @@ export type DocumentCountAggregateInputType = {
   id?: true
   documentId?: true
   collectionId?: true
+  contentHash?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -151,6 +157,7 @@ export type DocumentGroupByOutputType = {
   id: string
   documentId: string
   collectionId: string
+  contentHash: string | null
   createdAt: Date
   updatedAt: Date
   _count: DocumentCountAggregateOutputType | null
@@ -180,20 +187,28 @@ export type DocumentWhereInput = {
   id?: Prisma.StringFilter<"Document"> | string
   documentId?: Prisma.StringFilter<"Document"> | string
   collectionId?: Prisma.StringFilter<"Document"> | string
+  contentHash?: Prisma.StringNullableFilter<"Document"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   collection?: Prisma.XOR<Prisma.CollectionScalarRelationFilter, Prisma.CollectionWhereInput>
+  infons?: Prisma.DocumentInfonListRelationFilter
   passages?: Prisma.PassageListRelationFilter
+  annotations?: Prisma.AnnotationListRelationFilter
+  relations?: Prisma.RelationListRelationFilter
 }
 
 export type DocumentOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   documentId?: Prisma.SortOrder
   collectionId?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   collection?: Prisma.CollectionOrderByWithRelationInput
+  infons?: Prisma.DocumentInfonOrderByRelationAggregateInput
   passages?: Prisma.PassageOrderByRelationAggregateInput
+  annotations?: Prisma.AnnotationOrderByRelationAggregateInput
+  relations?: Prisma.RelationOrderByRelationAggregateInput
 }
 
 export type DocumentWhereUniqueInput = Prisma.AtLeast<{
@@ -203,16 +218,21 @@ export type DocumentWhereUniqueInput = Prisma.AtLeast<{
   OR?: Prisma.DocumentWhereInput[]
   NOT?: Prisma.DocumentWhereInput | Prisma.DocumentWhereInput[]
   collectionId?: Prisma.StringFilter<"Document"> | string
+  contentHash?: Prisma.StringNullableFilter<"Document"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   collection?: Prisma.XOR<Prisma.CollectionScalarRelationFilter, Prisma.CollectionWhereInput>
+  infons?: Prisma.DocumentInfonListRelationFilter
   passages?: Prisma.PassageListRelationFilter
+  annotations?: Prisma.AnnotationListRelationFilter
+  relations?: Prisma.RelationListRelationFilter
 }, "id" | "documentId">
 
 export type DocumentOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   documentId?: Prisma.SortOrder
   collectionId?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.DocumentCountOrderByAggregateInput
@@ -227,6 +247,7 @@ export type DocumentScalarWhereWithAggregatesInput = {
   id?: Prisma.StringWithAggregatesFilter<"Document"> | string
   documentId?: Prisma.StringWithAggregatesFilter<"Document"> | string
   collectionId?: Prisma.StringWithAggregatesFilter<"Document"> | string
+  contentHash?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Document"> | Date | string
 }
@@ -234,43 +255,60 @@ export type DocumentScalarWhereWithAggregatesInput = {
 export type DocumentCreateInput = {
   id?: string
   documentId: string
+  contentHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   collection: Prisma.CollectionCreateNestedOneWithoutDocumentsInput
+  infons?: Prisma.DocumentInfonCreateNestedManyWithoutDocumentInput
   passages?: Prisma.PassageCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationCreateNestedManyWithoutDocumentInput
 }
 
 export type DocumentUncheckedCreateInput = {
   id?: string
   documentId: string
   collectionId: string
+  contentHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  infons?: Prisma.DocumentInfonUncheckedCreateNestedManyWithoutDocumentInput
   passages?: Prisma.PassageUncheckedCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutDocumentInput
 }
 
 export type DocumentUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   collection?: Prisma.CollectionUpdateOneRequiredWithoutDocumentsNestedInput
+  infons?: Prisma.DocumentInfonUpdateManyWithoutDocumentNestedInput
   passages?: Prisma.PassageUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutDocumentNestedInput
 }
 
 export type DocumentUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
   collectionId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.DocumentInfonUncheckedUpdateManyWithoutDocumentNestedInput
   passages?: Prisma.PassageUncheckedUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutDocumentNestedInput
 }
 
 export type DocumentCreateManyInput = {
   id?: string
   documentId: string
   collectionId: string
+  contentHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -278,6 +316,7 @@ export type DocumentCreateManyInput = {
 export type DocumentUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -286,6 +325,7 @@ export type DocumentUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
   collectionId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -304,6 +344,7 @@ export type DocumentCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   documentId?: Prisma.SortOrder
   collectionId?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -312,6 +353,7 @@ export type DocumentMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   documentId?: Prisma.SortOrder
   collectionId?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -320,6 +362,7 @@ export type DocumentMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   documentId?: Prisma.SortOrder
   collectionId?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -329,6 +372,11 @@ export type DocumentScalarRelationFilter = {
   isNot?: Prisma.DocumentWhereInput
 }
 
+export type DocumentNullableScalarRelationFilter = {
+  is?: Prisma.DocumentWhereInput | null
+  isNot?: Prisma.DocumentWhereInput | null
+}
+
 export type DocumentCreateNestedManyWithoutCollectionInput = {
   create?: Prisma.XOR<Prisma.DocumentCreateWithoutCollectionInput, Prisma.DocumentUncheckedCreateWithoutCollectionInput> | Prisma.DocumentCreateWithoutCollectionInput[] | Prisma.DocumentUncheckedCreateWithoutCollectionInput[]
   connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutCollectionInput | Prisma.DocumentCreateOrConnectWithoutCollectionInput[]
@@ -371,6 +419,20 @@ export type DocumentUncheckedUpdateManyWithoutCollectionNestedInput = {
   deleteMany?: Prisma.DocumentScalarWhereInput | Prisma.DocumentScalarWhereInput[]
 }
 
+export type DocumentCreateNestedOneWithoutInfonsInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutInfonsInput, Prisma.DocumentUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutInfonsInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentUpdateOneRequiredWithoutInfonsNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutInfonsInput, Prisma.DocumentUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutInfonsInput
+  upsert?: Prisma.DocumentUpsertWithoutInfonsInput
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutInfonsInput, Prisma.DocumentUpdateWithoutInfonsInput>, Prisma.DocumentUncheckedUpdateWithoutInfonsInput>
+}
+
 export type DocumentCreateNestedOneWithoutPassagesInput = {
   create?: Prisma.XOR<Prisma.DocumentCreateWithoutPassagesInput, Prisma.DocumentUncheckedCreateWithoutPassagesInput>
   connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutPassagesInput
@@ -385,20 +447,58 @@ export type DocumentUpdateOneRequiredWithoutPassagesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutPassagesInput, Prisma.DocumentUpdateWithoutPassagesInput>, Prisma.DocumentUncheckedUpdateWithoutPassagesInput>
 }
 
+export type DocumentCreateNestedOneWithoutAnnotationsInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutAnnotationsInput, Prisma.DocumentUncheckedCreateWithoutAnnotationsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutAnnotationsInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentUpdateOneWithoutAnnotationsNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutAnnotationsInput, Prisma.DocumentUncheckedCreateWithoutAnnotationsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutAnnotationsInput
+  upsert?: Prisma.DocumentUpsertWithoutAnnotationsInput
+  disconnect?: Prisma.DocumentWhereInput | boolean
+  delete?: Prisma.DocumentWhereInput | boolean
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutAnnotationsInput, Prisma.DocumentUpdateWithoutAnnotationsInput>, Prisma.DocumentUncheckedUpdateWithoutAnnotationsInput>
+}
+
+export type DocumentCreateNestedOneWithoutRelationsInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutRelationsInput, Prisma.DocumentUncheckedCreateWithoutRelationsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutRelationsInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentUpdateOneRequiredWithoutRelationsNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutRelationsInput, Prisma.DocumentUncheckedCreateWithoutRelationsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutRelationsInput
+  upsert?: Prisma.DocumentUpsertWithoutRelationsInput
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutRelationsInput, Prisma.DocumentUpdateWithoutRelationsInput>, Prisma.DocumentUncheckedUpdateWithoutRelationsInput>
+}
+
 export type DocumentCreateWithoutCollectionInput = {
   id?: string
   documentId: string
+  contentHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  infons?: Prisma.DocumentInfonCreateNestedManyWithoutDocumentInput
   passages?: Prisma.PassageCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationCreateNestedManyWithoutDocumentInput
 }
 
 export type DocumentUncheckedCreateWithoutCollectionInput = {
   id?: string
   documentId: string
+  contentHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  infons?: Prisma.DocumentInfonUncheckedCreateNestedManyWithoutDocumentInput
   passages?: Prisma.PassageUncheckedCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutDocumentInput
 }
 
 export type DocumentCreateOrConnectWithoutCollectionInput = {
@@ -434,24 +534,97 @@ export type DocumentScalarWhereInput = {
   id?: Prisma.StringFilter<"Document"> | string
   documentId?: Prisma.StringFilter<"Document"> | string
   collectionId?: Prisma.StringFilter<"Document"> | string
+  contentHash?: Prisma.StringNullableFilter<"Document"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Document"> | Date | string
 }
 
+export type DocumentCreateWithoutInfonsInput = {
+  id?: string
+  documentId: string
+  contentHash?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  collection: Prisma.CollectionCreateNestedOneWithoutDocumentsInput
+  passages?: Prisma.PassageCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutInfonsInput = {
+  id?: string
+  documentId: string
+  collectionId: string
+  contentHash?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  passages?: Prisma.PassageUncheckedCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutInfonsInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutInfonsInput, Prisma.DocumentUncheckedCreateWithoutInfonsInput>
+}
+
+export type DocumentUpsertWithoutInfonsInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutInfonsInput, Prisma.DocumentUncheckedUpdateWithoutInfonsInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutInfonsInput, Prisma.DocumentUncheckedCreateWithoutInfonsInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutInfonsInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutInfonsInput, Prisma.DocumentUncheckedUpdateWithoutInfonsInput>
+}
+
+export type DocumentUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  collection?: Prisma.CollectionUpdateOneRequiredWithoutDocumentsNestedInput
+  passages?: Prisma.PassageUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  collectionId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  passages?: Prisma.PassageUncheckedUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutDocumentNestedInput
+}
+
 export type DocumentCreateWithoutPassagesInput = {
   id?: string
   documentId: string
+  contentHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   collection: Prisma.CollectionCreateNestedOneWithoutDocumentsInput
+  infons?: Prisma.DocumentInfonCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationCreateNestedManyWithoutDocumentInput
 }
 
 export type DocumentUncheckedCreateWithoutPassagesInput = {
   id?: string
   documentId: string
   collectionId: string
+  contentHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  infons?: Prisma.DocumentInfonUncheckedCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutDocumentInput
 }
 
 export type DocumentCreateOrConnectWithoutPassagesInput = {
@@ -473,22 +646,159 @@ export type DocumentUpdateToOneWithWhereWithoutPassagesInput = {
 export type DocumentUpdateWithoutPassagesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   collection?: Prisma.CollectionUpdateOneRequiredWithoutDocumentsNestedInput
+  infons?: Prisma.DocumentInfonUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutDocumentNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutPassagesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
   collectionId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.DocumentInfonUncheckedUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentCreateWithoutAnnotationsInput = {
+  id?: string
+  documentId: string
+  contentHash?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  collection: Prisma.CollectionCreateNestedOneWithoutDocumentsInput
+  infons?: Prisma.DocumentInfonCreateNestedManyWithoutDocumentInput
+  passages?: Prisma.PassageCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutAnnotationsInput = {
+  id?: string
+  documentId: string
+  collectionId: string
+  contentHash?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  infons?: Prisma.DocumentInfonUncheckedCreateNestedManyWithoutDocumentInput
+  passages?: Prisma.PassageUncheckedCreateNestedManyWithoutDocumentInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutAnnotationsInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutAnnotationsInput, Prisma.DocumentUncheckedCreateWithoutAnnotationsInput>
+}
+
+export type DocumentUpsertWithoutAnnotationsInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutAnnotationsInput, Prisma.DocumentUncheckedUpdateWithoutAnnotationsInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutAnnotationsInput, Prisma.DocumentUncheckedCreateWithoutAnnotationsInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutAnnotationsInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutAnnotationsInput, Prisma.DocumentUncheckedUpdateWithoutAnnotationsInput>
+}
+
+export type DocumentUpdateWithoutAnnotationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  collection?: Prisma.CollectionUpdateOneRequiredWithoutDocumentsNestedInput
+  infons?: Prisma.DocumentInfonUpdateManyWithoutDocumentNestedInput
+  passages?: Prisma.PassageUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutAnnotationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  collectionId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.DocumentInfonUncheckedUpdateManyWithoutDocumentNestedInput
+  passages?: Prisma.PassageUncheckedUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentCreateWithoutRelationsInput = {
+  id?: string
+  documentId: string
+  contentHash?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  collection: Prisma.CollectionCreateNestedOneWithoutDocumentsInput
+  infons?: Prisma.DocumentInfonCreateNestedManyWithoutDocumentInput
+  passages?: Prisma.PassageCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutRelationsInput = {
+  id?: string
+  documentId: string
+  collectionId: string
+  contentHash?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  infons?: Prisma.DocumentInfonUncheckedCreateNestedManyWithoutDocumentInput
+  passages?: Prisma.PassageUncheckedCreateNestedManyWithoutDocumentInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutRelationsInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutRelationsInput, Prisma.DocumentUncheckedCreateWithoutRelationsInput>
+}
+
+export type DocumentUpsertWithoutRelationsInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutRelationsInput, Prisma.DocumentUncheckedUpdateWithoutRelationsInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutRelationsInput, Prisma.DocumentUncheckedCreateWithoutRelationsInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutRelationsInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutRelationsInput, Prisma.DocumentUncheckedUpdateWithoutRelationsInput>
+}
+
+export type DocumentUpdateWithoutRelationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  collection?: Prisma.CollectionUpdateOneRequiredWithoutDocumentsNestedInput
+  infons?: Prisma.DocumentInfonUpdateManyWithoutDocumentNestedInput
+  passages?: Prisma.PassageUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutRelationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  collectionId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.DocumentInfonUncheckedUpdateManyWithoutDocumentNestedInput
+  passages?: Prisma.PassageUncheckedUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutDocumentNestedInput
 }
 
 export type DocumentCreateManyCollectionInput = {
   id?: string
   documentId: string
+  contentHash?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -496,22 +806,31 @@ export type DocumentCreateManyCollectionInput = {
 export type DocumentUpdateWithoutCollectionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.DocumentInfonUpdateManyWithoutDocumentNestedInput
   passages?: Prisma.PassageUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutDocumentNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutCollectionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.DocumentInfonUncheckedUpdateManyWithoutDocumentNestedInput
   passages?: Prisma.PassageUncheckedUpdateManyWithoutDocumentNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutDocumentNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutDocumentNestedInput
 }
 
 export type DocumentUncheckedUpdateManyWithoutCollectionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -522,11 +841,17 @@ export type DocumentUncheckedUpdateManyWithoutCollectionInput = {
  */
 
 export type DocumentCountOutputType = {
+  infons: number
   passages: number
+  annotations: number
+  relations: number
 }
 
 export type DocumentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  infons?: boolean | DocumentCountOutputTypeCountInfonsArgs
   passages?: boolean | DocumentCountOutputTypeCountPassagesArgs
+  annotations?: boolean | DocumentCountOutputTypeCountAnnotationsArgs
+  relations?: boolean | DocumentCountOutputTypeCountRelationsArgs
 }
 
 /**
@@ -539,6 +864,13 @@ export type DocumentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Ext
   select?: Prisma.DocumentCountOutputTypeSelect<ExtArgs> | null
 }
 
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountInfonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentInfonWhereInput
+}
+
 /**
  * DocumentCountOutputType without action
  */
@@ -546,15 +878,33 @@ export type DocumentCountOutputTypeCountPassagesArgs<ExtArgs extends runtime.Typ
   where?: Prisma.PassageWhereInput
 }
 
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountAnnotationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AnnotationWhereInput
+}
+
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountRelationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RelationWhereInput
+}
+
 
 export type DocumentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   documentId?: boolean
   collectionId?: boolean
+  contentHash?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
+  infons?: boolean | Prisma.Document$infonsArgs<ExtArgs>
   passages?: boolean | Prisma.Document$passagesArgs<ExtArgs>
+  annotations?: boolean | Prisma.Document$annotationsArgs<ExtArgs>
+  relations?: boolean | Prisma.Document$relationsArgs<ExtArgs>
   _count?: boolean | Prisma.DocumentCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["document"]>
 
@@ -562,6 +912,7 @@ export type DocumentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   id?: boolean
   documentId?: boolean
   collectionId?: boolean
+  contentHash?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
@@ -571,6 +922,7 @@ export type DocumentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   id?: boolean
   documentId?: boolean
   collectionId?: boolean
+  contentHash?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
@@ -580,14 +932,18 @@ export type DocumentSelectScalar = {
   id?: boolean
   documentId?: boolean
   collectionId?: boolean
+  contentHash?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type DocumentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "documentId" | "collectionId" | "createdAt" | "updatedAt", ExtArgs["result"]["document"]>
+export type DocumentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "documentId" | "collectionId" | "contentHash" | "createdAt" | "updatedAt", ExtArgs["result"]["document"]>
 export type DocumentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   collection?: boolean | Prisma.CollectionDefaultArgs<ExtArgs>
+  infons?: boolean | Prisma.Document$infonsArgs<ExtArgs>
   passages?: boolean | Prisma.Document$passagesArgs<ExtArgs>
+  annotations?: boolean | Prisma.Document$annotationsArgs<ExtArgs>
+  relations?: boolean | Prisma.Document$relationsArgs<ExtArgs>
   _count?: boolean | Prisma.DocumentCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type DocumentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -601,12 +957,16 @@ export type $DocumentPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
   name: "Document"
   objects: {
     collection: Prisma.$CollectionPayload<ExtArgs>
+    infons: Prisma.$DocumentInfonPayload<ExtArgs>[]
     passages: Prisma.$PassagePayload<ExtArgs>[]
+    annotations: Prisma.$AnnotationPayload<ExtArgs>[]
+    relations: Prisma.$RelationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     documentId: string
     collectionId: string
+    contentHash: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["document"]>
@@ -1004,7 +1364,10 @@ readonly fields: DocumentFieldRefs;
 export interface Prisma__DocumentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   collection<T extends Prisma.CollectionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CollectionDefaultArgs<ExtArgs>>): Prisma.Prisma__CollectionClient<runtime.Types.Result.GetResult<Prisma.$CollectionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  infons<T extends Prisma.Document$infonsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$infonsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   passages<T extends Prisma.Document$passagesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$passagesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PassagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  annotations<T extends Prisma.Document$annotationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$annotationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  relations<T extends Prisma.Document$relationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$relationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1037,6 +1400,7 @@ export interface DocumentFieldRefs {
   readonly id: Prisma.FieldRef<"Document", 'String'>
   readonly documentId: Prisma.FieldRef<"Document", 'String'>
   readonly collectionId: Prisma.FieldRef<"Document", 'String'>
+  readonly contentHash: Prisma.FieldRef<"Document", 'String'>
   readonly createdAt: Prisma.FieldRef<"Document", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Document", 'DateTime'>
 }
@@ -1434,6 +1798,30 @@ export type DocumentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inte
   limit?: number
 }
 
+/**
+ * Document.infons
+ */
+export type Document$infonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  where?: Prisma.DocumentInfonWhereInput
+  orderBy?: Prisma.DocumentInfonOrderByWithRelationInput | Prisma.DocumentInfonOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentInfonWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentInfonScalarFieldEnum | Prisma.DocumentInfonScalarFieldEnum[]
+}
+
 /**
  * Document.passages
  */
@@ -1458,6 +1846,54 @@ export type Document$passagesArgs<ExtArgs extends runtime.Types.Extensions.Inter
   distinct?: Prisma.PassageScalarFieldEnum | Prisma.PassageScalarFieldEnum[]
 }
 
+/**
+ * Document.annotations
+ */
+export type Document$annotationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Annotation
+   */
+  select?: Prisma.AnnotationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Annotation
+   */
+  omit?: Prisma.AnnotationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInclude<ExtArgs> | null
+  where?: Prisma.AnnotationWhereInput
+  orderBy?: Prisma.AnnotationOrderByWithRelationInput | Prisma.AnnotationOrderByWithRelationInput[]
+  cursor?: Prisma.AnnotationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AnnotationScalarFieldEnum | Prisma.AnnotationScalarFieldEnum[]
+}
+
+/**
+ * Document.relations
+ */
+export type Document$relationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  where?: Prisma.RelationWhereInput
+  orderBy?: Prisma.RelationOrderByWithRelationInput | Prisma.RelationOrderByWithRelationInput[]
+  cursor?: Prisma.RelationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RelationScalarFieldEnum | Prisma.RelationScalarFieldEnum[]
+}
+
 /**
  * Document without action
  */
@@ -0,0 +1,1340 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `DocumentInfon` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model DocumentInfon
+ * 
+ */
+export type DocumentInfonModel = runtime.Types.Result.DefaultSelection<Prisma.$DocumentInfonPayload>
+
+export type AggregateDocumentInfon = {
+  _count: DocumentInfonCountAggregateOutputType | null
+  _min: DocumentInfonMinAggregateOutputType | null
+  _max: DocumentInfonMaxAggregateOutputType | null
+}
+
+export type DocumentInfonMinAggregateOutputType = {
+  id: string | null
+  documentId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type DocumentInfonMaxAggregateOutputType = {
+  id: string | null
+  documentId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type DocumentInfonCountAggregateOutputType = {
+  id: number
+  documentId: number
+  key: number
+  value: number
+  createdAt: number
+  _all: number
+}
+
+
+export type DocumentInfonMinAggregateInputType = {
+  id?: true
+  documentId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type DocumentInfonMaxAggregateInputType = {
+  id?: true
+  documentId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type DocumentInfonCountAggregateInputType = {
+  id?: true
+  documentId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type DocumentInfonAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DocumentInfon to aggregate.
+   */
+  where?: Prisma.DocumentInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentInfons to fetch.
+   */
+  orderBy?: Prisma.DocumentInfonOrderByWithRelationInput | Prisma.DocumentInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.DocumentInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned DocumentInfons
+  **/
+  _count?: true | DocumentInfonCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: DocumentInfonMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: DocumentInfonMaxAggregateInputType
+}
+
+export type GetDocumentInfonAggregateType<T extends DocumentInfonAggregateArgs> = {
+      [P in keyof T & keyof AggregateDocumentInfon]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateDocumentInfon[P]>
+    : Prisma.GetScalarType<T[P], AggregateDocumentInfon[P]>
+}
+
+
+
+
+export type DocumentInfonGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentInfonWhereInput
+  orderBy?: Prisma.DocumentInfonOrderByWithAggregationInput | Prisma.DocumentInfonOrderByWithAggregationInput[]
+  by: Prisma.DocumentInfonScalarFieldEnum[] | Prisma.DocumentInfonScalarFieldEnum
+  having?: Prisma.DocumentInfonScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: DocumentInfonCountAggregateInputType | true
+  _min?: DocumentInfonMinAggregateInputType
+  _max?: DocumentInfonMaxAggregateInputType
+}
+
+export type DocumentInfonGroupByOutputType = {
+  id: string
+  documentId: string
+  key: string
+  value: string
+  createdAt: Date
+  _count: DocumentInfonCountAggregateOutputType | null
+  _min: DocumentInfonMinAggregateOutputType | null
+  _max: DocumentInfonMaxAggregateOutputType | null
+}
+
+type GetDocumentInfonGroupByPayload<T extends DocumentInfonGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<DocumentInfonGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof DocumentInfonGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], DocumentInfonGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], DocumentInfonGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type DocumentInfonWhereInput = {
+  AND?: Prisma.DocumentInfonWhereInput | Prisma.DocumentInfonWhereInput[]
+  OR?: Prisma.DocumentInfonWhereInput[]
+  NOT?: Prisma.DocumentInfonWhereInput | Prisma.DocumentInfonWhereInput[]
+  id?: Prisma.StringFilter<"DocumentInfon"> | string
+  documentId?: Prisma.StringFilter<"DocumentInfon"> | string
+  key?: Prisma.StringFilter<"DocumentInfon"> | string
+  value?: Prisma.StringFilter<"DocumentInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"DocumentInfon"> | Date | string
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+}
+
+export type DocumentInfonOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  document?: Prisma.DocumentOrderByWithRelationInput
+}
+
+export type DocumentInfonWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.DocumentInfonWhereInput | Prisma.DocumentInfonWhereInput[]
+  OR?: Prisma.DocumentInfonWhereInput[]
+  NOT?: Prisma.DocumentInfonWhereInput | Prisma.DocumentInfonWhereInput[]
+  documentId?: Prisma.StringFilter<"DocumentInfon"> | string
+  key?: Prisma.StringFilter<"DocumentInfon"> | string
+  value?: Prisma.StringFilter<"DocumentInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"DocumentInfon"> | Date | string
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+}, "id">
+
+export type DocumentInfonOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.DocumentInfonCountOrderByAggregateInput
+  _max?: Prisma.DocumentInfonMaxOrderByAggregateInput
+  _min?: Prisma.DocumentInfonMinOrderByAggregateInput
+}
+
+export type DocumentInfonScalarWhereWithAggregatesInput = {
+  AND?: Prisma.DocumentInfonScalarWhereWithAggregatesInput | Prisma.DocumentInfonScalarWhereWithAggregatesInput[]
+  OR?: Prisma.DocumentInfonScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.DocumentInfonScalarWhereWithAggregatesInput | Prisma.DocumentInfonScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"DocumentInfon"> | string
+  documentId?: Prisma.StringWithAggregatesFilter<"DocumentInfon"> | string
+  key?: Prisma.StringWithAggregatesFilter<"DocumentInfon"> | string
+  value?: Prisma.StringWithAggregatesFilter<"DocumentInfon"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"DocumentInfon"> | Date | string
+}
+
+export type DocumentInfonCreateInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+  document: Prisma.DocumentCreateNestedOneWithoutInfonsInput
+}
+
+export type DocumentInfonUncheckedCreateInput = {
+  id?: string
+  documentId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type DocumentInfonUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutInfonsNestedInput
+}
+
+export type DocumentInfonUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentInfonCreateManyInput = {
+  id?: string
+  documentId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type DocumentInfonUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentInfonUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentInfonListRelationFilter = {
+  every?: Prisma.DocumentInfonWhereInput
+  some?: Prisma.DocumentInfonWhereInput
+  none?: Prisma.DocumentInfonWhereInput
+}
+
+export type DocumentInfonOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type DocumentInfonCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DocumentInfonMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DocumentInfonMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DocumentInfonCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.DocumentInfonCreateWithoutDocumentInput, Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput> | Prisma.DocumentInfonCreateWithoutDocumentInput[] | Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentInfonCreateOrConnectWithoutDocumentInput | Prisma.DocumentInfonCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.DocumentInfonCreateManyDocumentInputEnvelope
+  connect?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+}
+
+export type DocumentInfonUncheckedCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.DocumentInfonCreateWithoutDocumentInput, Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput> | Prisma.DocumentInfonCreateWithoutDocumentInput[] | Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentInfonCreateOrConnectWithoutDocumentInput | Prisma.DocumentInfonCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.DocumentInfonCreateManyDocumentInputEnvelope
+  connect?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+}
+
+export type DocumentInfonUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentInfonCreateWithoutDocumentInput, Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput> | Prisma.DocumentInfonCreateWithoutDocumentInput[] | Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentInfonCreateOrConnectWithoutDocumentInput | Prisma.DocumentInfonCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.DocumentInfonUpsertWithWhereUniqueWithoutDocumentInput | Prisma.DocumentInfonUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.DocumentInfonCreateManyDocumentInputEnvelope
+  set?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+  disconnect?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+  delete?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+  connect?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+  update?: Prisma.DocumentInfonUpdateWithWhereUniqueWithoutDocumentInput | Prisma.DocumentInfonUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.DocumentInfonUpdateManyWithWhereWithoutDocumentInput | Prisma.DocumentInfonUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.DocumentInfonScalarWhereInput | Prisma.DocumentInfonScalarWhereInput[]
+}
+
+export type DocumentInfonUncheckedUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentInfonCreateWithoutDocumentInput, Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput> | Prisma.DocumentInfonCreateWithoutDocumentInput[] | Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentInfonCreateOrConnectWithoutDocumentInput | Prisma.DocumentInfonCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.DocumentInfonUpsertWithWhereUniqueWithoutDocumentInput | Prisma.DocumentInfonUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.DocumentInfonCreateManyDocumentInputEnvelope
+  set?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+  disconnect?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+  delete?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+  connect?: Prisma.DocumentInfonWhereUniqueInput | Prisma.DocumentInfonWhereUniqueInput[]
+  update?: Prisma.DocumentInfonUpdateWithWhereUniqueWithoutDocumentInput | Prisma.DocumentInfonUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.DocumentInfonUpdateManyWithWhereWithoutDocumentInput | Prisma.DocumentInfonUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.DocumentInfonScalarWhereInput | Prisma.DocumentInfonScalarWhereInput[]
+}
+
+export type DocumentInfonCreateWithoutDocumentInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type DocumentInfonUncheckedCreateWithoutDocumentInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type DocumentInfonCreateOrConnectWithoutDocumentInput = {
+  where: Prisma.DocumentInfonWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentInfonCreateWithoutDocumentInput, Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput>
+}
+
+export type DocumentInfonCreateManyDocumentInputEnvelope = {
+  data: Prisma.DocumentInfonCreateManyDocumentInput | Prisma.DocumentInfonCreateManyDocumentInput[]
+  skipDuplicates?: boolean
+}
+
+export type DocumentInfonUpsertWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.DocumentInfonWhereUniqueInput
+  update: Prisma.XOR<Prisma.DocumentInfonUpdateWithoutDocumentInput, Prisma.DocumentInfonUncheckedUpdateWithoutDocumentInput>
+  create: Prisma.XOR<Prisma.DocumentInfonCreateWithoutDocumentInput, Prisma.DocumentInfonUncheckedCreateWithoutDocumentInput>
+}
+
+export type DocumentInfonUpdateWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.DocumentInfonWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentInfonUpdateWithoutDocumentInput, Prisma.DocumentInfonUncheckedUpdateWithoutDocumentInput>
+}
+
+export type DocumentInfonUpdateManyWithWhereWithoutDocumentInput = {
+  where: Prisma.DocumentInfonScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentInfonUpdateManyMutationInput, Prisma.DocumentInfonUncheckedUpdateManyWithoutDocumentInput>
+}
+
+export type DocumentInfonScalarWhereInput = {
+  AND?: Prisma.DocumentInfonScalarWhereInput | Prisma.DocumentInfonScalarWhereInput[]
+  OR?: Prisma.DocumentInfonScalarWhereInput[]
+  NOT?: Prisma.DocumentInfonScalarWhereInput | Prisma.DocumentInfonScalarWhereInput[]
+  id?: Prisma.StringFilter<"DocumentInfon"> | string
+  documentId?: Prisma.StringFilter<"DocumentInfon"> | string
+  key?: Prisma.StringFilter<"DocumentInfon"> | string
+  value?: Prisma.StringFilter<"DocumentInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"DocumentInfon"> | Date | string
+}
+
+export type DocumentInfonCreateManyDocumentInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type DocumentInfonUpdateWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentInfonUncheckedUpdateWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentInfonUncheckedUpdateManyWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type DocumentInfonSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  documentId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentInfon"]>
+
+export type DocumentInfonSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  documentId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentInfon"]>
+
+export type DocumentInfonSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  documentId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentInfon"]>
+
+export type DocumentInfonSelectScalar = {
+  id?: boolean
+  documentId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+}
+
+export type DocumentInfonOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "documentId" | "key" | "value" | "createdAt", ExtArgs["result"]["documentInfon"]>
+export type DocumentInfonInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+export type DocumentInfonIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+export type DocumentInfonIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+
+export type $DocumentInfonPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "DocumentInfon"
+  objects: {
+    document: Prisma.$DocumentPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    documentId: string
+    key: string
+    value: string
+    createdAt: Date
+  }, ExtArgs["result"]["documentInfon"]>
+  composites: {}
+}
+
+export type DocumentInfonGetPayload<S extends boolean | null | undefined | DocumentInfonDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload, S>
+
+export type DocumentInfonCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<DocumentInfonFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: DocumentInfonCountAggregateInputType | true
+  }
+
+export interface DocumentInfonDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['DocumentInfon'], meta: { name: 'DocumentInfon' } }
+  /**
+   * Find zero or one DocumentInfon that matches the filter.
+   * @param {DocumentInfonFindUniqueArgs} args - Arguments to find a DocumentInfon
+   * @example
+   * // Get one DocumentInfon
+   * const documentInfon = await prisma.documentInfon.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends DocumentInfonFindUniqueArgs>(args: Prisma.SelectSubset<T, DocumentInfonFindUniqueArgs<ExtArgs>>): Prisma.Prisma__DocumentInfonClient<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one DocumentInfon that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {DocumentInfonFindUniqueOrThrowArgs} args - Arguments to find a DocumentInfon
+   * @example
+   * // Get one DocumentInfon
+   * const documentInfon = await prisma.documentInfon.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends DocumentInfonFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, DocumentInfonFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__DocumentInfonClient<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DocumentInfon that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentInfonFindFirstArgs} args - Arguments to find a DocumentInfon
+   * @example
+   * // Get one DocumentInfon
+   * const documentInfon = await prisma.documentInfon.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends DocumentInfonFindFirstArgs>(args?: Prisma.SelectSubset<T, DocumentInfonFindFirstArgs<ExtArgs>>): Prisma.Prisma__DocumentInfonClient<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DocumentInfon that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentInfonFindFirstOrThrowArgs} args - Arguments to find a DocumentInfon
+   * @example
+   * // Get one DocumentInfon
+   * const documentInfon = await prisma.documentInfon.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends DocumentInfonFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, DocumentInfonFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__DocumentInfonClient<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more DocumentInfons that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentInfonFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all DocumentInfons
+   * const documentInfons = await prisma.documentInfon.findMany()
+   * 
+   * // Get first 10 DocumentInfons
+   * const documentInfons = await prisma.documentInfon.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const documentInfonWithIdOnly = await prisma.documentInfon.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends DocumentInfonFindManyArgs>(args?: Prisma.SelectSubset<T, DocumentInfonFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a DocumentInfon.
+   * @param {DocumentInfonCreateArgs} args - Arguments to create a DocumentInfon.
+   * @example
+   * // Create one DocumentInfon
+   * const DocumentInfon = await prisma.documentInfon.create({
+   *   data: {
+   *     // ... data to create a DocumentInfon
+   *   }
+   * })
+   * 
+   */
+  create<T extends DocumentInfonCreateArgs>(args: Prisma.SelectSubset<T, DocumentInfonCreateArgs<ExtArgs>>): Prisma.Prisma__DocumentInfonClient<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many DocumentInfons.
+   * @param {DocumentInfonCreateManyArgs} args - Arguments to create many DocumentInfons.
+   * @example
+   * // Create many DocumentInfons
+   * const documentInfon = await prisma.documentInfon.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends DocumentInfonCreateManyArgs>(args?: Prisma.SelectSubset<T, DocumentInfonCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many DocumentInfons and returns the data saved in the database.
+   * @param {DocumentInfonCreateManyAndReturnArgs} args - Arguments to create many DocumentInfons.
+   * @example
+   * // Create many DocumentInfons
+   * const documentInfon = await prisma.documentInfon.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many DocumentInfons and only return the `id`
+   * const documentInfonWithIdOnly = await prisma.documentInfon.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends DocumentInfonCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, DocumentInfonCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a DocumentInfon.
+   * @param {DocumentInfonDeleteArgs} args - Arguments to delete one DocumentInfon.
+   * @example
+   * // Delete one DocumentInfon
+   * const DocumentInfon = await prisma.documentInfon.delete({
+   *   where: {
+   *     // ... filter to delete one DocumentInfon
+   *   }
+   * })
+   * 
+   */
+  delete<T extends DocumentInfonDeleteArgs>(args: Prisma.SelectSubset<T, DocumentInfonDeleteArgs<ExtArgs>>): Prisma.Prisma__DocumentInfonClient<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one DocumentInfon.
+   * @param {DocumentInfonUpdateArgs} args - Arguments to update one DocumentInfon.
+   * @example
+   * // Update one DocumentInfon
+   * const documentInfon = await prisma.documentInfon.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends DocumentInfonUpdateArgs>(args: Prisma.SelectSubset<T, DocumentInfonUpdateArgs<ExtArgs>>): Prisma.Prisma__DocumentInfonClient<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more DocumentInfons.
+   * @param {DocumentInfonDeleteManyArgs} args - Arguments to filter DocumentInfons to delete.
+   * @example
+   * // Delete a few DocumentInfons
+   * const { count } = await prisma.documentInfon.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends DocumentInfonDeleteManyArgs>(args?: Prisma.SelectSubset<T, DocumentInfonDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DocumentInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentInfonUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many DocumentInfons
+   * const documentInfon = await prisma.documentInfon.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends DocumentInfonUpdateManyArgs>(args: Prisma.SelectSubset<T, DocumentInfonUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DocumentInfons and returns the data updated in the database.
+   * @param {DocumentInfonUpdateManyAndReturnArgs} args - Arguments to update many DocumentInfons.
+   * @example
+   * // Update many DocumentInfons
+   * const documentInfon = await prisma.documentInfon.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more DocumentInfons and only return the `id`
+   * const documentInfonWithIdOnly = await prisma.documentInfon.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends DocumentInfonUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, DocumentInfonUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one DocumentInfon.
+   * @param {DocumentInfonUpsertArgs} args - Arguments to update or create a DocumentInfon.
+   * @example
+   * // Update or create a DocumentInfon
+   * const documentInfon = await prisma.documentInfon.upsert({
+   *   create: {
+   *     // ... data to create a DocumentInfon
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the DocumentInfon we want to update
+   *   }
+   * })
+   */
+  upsert<T extends DocumentInfonUpsertArgs>(args: Prisma.SelectSubset<T, DocumentInfonUpsertArgs<ExtArgs>>): Prisma.Prisma__DocumentInfonClient<runtime.Types.Result.GetResult<Prisma.$DocumentInfonPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of DocumentInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentInfonCountArgs} args - Arguments to filter DocumentInfons to count.
+   * @example
+   * // Count the number of DocumentInfons
+   * const count = await prisma.documentInfon.count({
+   *   where: {
+   *     // ... the filter for the DocumentInfons we want to count
+   *   }
+   * })
+  **/
+  count<T extends DocumentInfonCountArgs>(
+    args?: Prisma.Subset<T, DocumentInfonCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], DocumentInfonCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a DocumentInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentInfonAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends DocumentInfonAggregateArgs>(args: Prisma.Subset<T, DocumentInfonAggregateArgs>): Prisma.PrismaPromise<GetDocumentInfonAggregateType<T>>
+
+  /**
+   * Group by DocumentInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentInfonGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends DocumentInfonGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: DocumentInfonGroupByArgs['orderBy'] }
+      : { orderBy?: DocumentInfonGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, DocumentInfonGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDocumentInfonGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the DocumentInfon model
+ */
+readonly fields: DocumentInfonFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for DocumentInfon.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__DocumentInfonClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  document<T extends Prisma.DocumentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the DocumentInfon model
+ */
+export interface DocumentInfonFieldRefs {
+  readonly id: Prisma.FieldRef<"DocumentInfon", 'String'>
+  readonly documentId: Prisma.FieldRef<"DocumentInfon", 'String'>
+  readonly key: Prisma.FieldRef<"DocumentInfon", 'String'>
+  readonly value: Prisma.FieldRef<"DocumentInfon", 'String'>
+  readonly createdAt: Prisma.FieldRef<"DocumentInfon", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * DocumentInfon findUnique
+ */
+export type DocumentInfonFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentInfon to fetch.
+   */
+  where: Prisma.DocumentInfonWhereUniqueInput
+}
+
+/**
+ * DocumentInfon findUniqueOrThrow
+ */
+export type DocumentInfonFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentInfon to fetch.
+   */
+  where: Prisma.DocumentInfonWhereUniqueInput
+}
+
+/**
+ * DocumentInfon findFirst
+ */
+export type DocumentInfonFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentInfon to fetch.
+   */
+  where?: Prisma.DocumentInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentInfons to fetch.
+   */
+  orderBy?: Prisma.DocumentInfonOrderByWithRelationInput | Prisma.DocumentInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DocumentInfons.
+   */
+  cursor?: Prisma.DocumentInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DocumentInfons.
+   */
+  distinct?: Prisma.DocumentInfonScalarFieldEnum | Prisma.DocumentInfonScalarFieldEnum[]
+}
+
+/**
+ * DocumentInfon findFirstOrThrow
+ */
+export type DocumentInfonFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentInfon to fetch.
+   */
+  where?: Prisma.DocumentInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentInfons to fetch.
+   */
+  orderBy?: Prisma.DocumentInfonOrderByWithRelationInput | Prisma.DocumentInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DocumentInfons.
+   */
+  cursor?: Prisma.DocumentInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DocumentInfons.
+   */
+  distinct?: Prisma.DocumentInfonScalarFieldEnum | Prisma.DocumentInfonScalarFieldEnum[]
+}
+
+/**
+ * DocumentInfon findMany
+ */
+export type DocumentInfonFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentInfons to fetch.
+   */
+  where?: Prisma.DocumentInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentInfons to fetch.
+   */
+  orderBy?: Prisma.DocumentInfonOrderByWithRelationInput | Prisma.DocumentInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing DocumentInfons.
+   */
+  cursor?: Prisma.DocumentInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentInfons.
+   */
+  skip?: number
+  distinct?: Prisma.DocumentInfonScalarFieldEnum | Prisma.DocumentInfonScalarFieldEnum[]
+}
+
+/**
+ * DocumentInfon create
+ */
+export type DocumentInfonCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to create a DocumentInfon.
+   */
+  data: Prisma.XOR<Prisma.DocumentInfonCreateInput, Prisma.DocumentInfonUncheckedCreateInput>
+}
+
+/**
+ * DocumentInfon createMany
+ */
+export type DocumentInfonCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many DocumentInfons.
+   */
+  data: Prisma.DocumentInfonCreateManyInput | Prisma.DocumentInfonCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DocumentInfon createManyAndReturn
+ */
+export type DocumentInfonCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * The data used to create many DocumentInfons.
+   */
+  data: Prisma.DocumentInfonCreateManyInput | Prisma.DocumentInfonCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DocumentInfon update
+ */
+export type DocumentInfonUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to update a DocumentInfon.
+   */
+  data: Prisma.XOR<Prisma.DocumentInfonUpdateInput, Prisma.DocumentInfonUncheckedUpdateInput>
+  /**
+   * Choose, which DocumentInfon to update.
+   */
+  where: Prisma.DocumentInfonWhereUniqueInput
+}
+
+/**
+ * DocumentInfon updateMany
+ */
+export type DocumentInfonUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update DocumentInfons.
+   */
+  data: Prisma.XOR<Prisma.DocumentInfonUpdateManyMutationInput, Prisma.DocumentInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which DocumentInfons to update
+   */
+  where?: Prisma.DocumentInfonWhereInput
+  /**
+   * Limit how many DocumentInfons to update.
+   */
+  limit?: number
+}
+
+/**
+ * DocumentInfon updateManyAndReturn
+ */
+export type DocumentInfonUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * The data used to update DocumentInfons.
+   */
+  data: Prisma.XOR<Prisma.DocumentInfonUpdateManyMutationInput, Prisma.DocumentInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which DocumentInfons to update
+   */
+  where?: Prisma.DocumentInfonWhereInput
+  /**
+   * Limit how many DocumentInfons to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DocumentInfon upsert
+ */
+export type DocumentInfonUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * The filter to search for the DocumentInfon to update in case it exists.
+   */
+  where: Prisma.DocumentInfonWhereUniqueInput
+  /**
+   * In case the DocumentInfon found by the `where` argument doesn't exist, create a new DocumentInfon with this data.
+   */
+  create: Prisma.XOR<Prisma.DocumentInfonCreateInput, Prisma.DocumentInfonUncheckedCreateInput>
+  /**
+   * In case the DocumentInfon was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.DocumentInfonUpdateInput, Prisma.DocumentInfonUncheckedUpdateInput>
+}
+
+/**
+ * DocumentInfon delete
+ */
+export type DocumentInfonDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+  /**
+   * Filter which DocumentInfon to delete.
+   */
+  where: Prisma.DocumentInfonWhereUniqueInput
+}
+
+/**
+ * DocumentInfon deleteMany
+ */
+export type DocumentInfonDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DocumentInfons to delete
+   */
+  where?: Prisma.DocumentInfonWhereInput
+  /**
+   * Limit how many DocumentInfons to delete.
+   */
+  limit?: number
+}
+
+/**
+ * DocumentInfon without action
+ */
+export type DocumentInfonDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentInfon
+   */
+  select?: Prisma.DocumentInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentInfon
+   */
+  omit?: Prisma.DocumentInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentInfonInclude<ExtArgs> | null
+}
@@ -0,0 +1,1793 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `IngestedFile` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model IngestedFile
+ * 
+ */
+export type IngestedFileModel = runtime.Types.Result.DefaultSelection<Prisma.$IngestedFilePayload>
+
+export type AggregateIngestedFile = {
+  _count: IngestedFileCountAggregateOutputType | null
+  _avg: IngestedFileAvgAggregateOutputType | null
+  _sum: IngestedFileSumAggregateOutputType | null
+  _min: IngestedFileMinAggregateOutputType | null
+  _max: IngestedFileMaxAggregateOutputType | null
+}
+
+export type IngestedFileAvgAggregateOutputType = {
+  size: number | null
+  documentsFound: number | null
+  documentsInserted: number | null
+  lastPosition: number | null
+}
+
+export type IngestedFileSumAggregateOutputType = {
+  size: bigint | null
+  documentsFound: number | null
+  documentsInserted: number | null
+  lastPosition: number | null
+}
+
+export type IngestedFileMinAggregateOutputType = {
+  id: string | null
+  runId: string | null
+  path: string | null
+  size: bigint | null
+  hash: string | null
+  archiveHash: string | null
+  selection: string | null
+  status: string | null
+  documentsFound: number | null
+  documentsInserted: number | null
+  lastDocumentId: string | null
+  lastPosition: number | null
+  error: string | null
+  startedAt: Date | null
+  updatedAt: Date | null
+  finishedAt: Date | null
+}
+
+export type IngestedFileMaxAggregateOutputType = {
+  id: string | null
+  runId: string | null
+  path: string | null
+  size: bigint | null
+  hash: string | null
+  archiveHash: string | null
+  selection: string | null
+  status: string | null
+  documentsFound: number | null
+  documentsInserted: number | null
+  lastDocumentId: string | null
+  lastPosition: number | null
+  error: string | null
+  startedAt: Date | null
+  updatedAt: Date | null
+  finishedAt: Date | null
+}
+
+export type IngestedFileCountAggregateOutputType = {
+  id: number
+  runId: number
+  path: number
+  size: number
+  hash: number
+  archiveHash: number
+  selection: number
+  status: number
+  documentsFound: number
+  documentsInserted: number
+  lastDocumentId: number
+  lastPosition: number
+  error: number
+  startedAt: number
+  updatedAt: number
+  finishedAt: number
+  _all: number
+}
+
+
+export type IngestedFileAvgAggregateInputType = {
+  size?: true
+  documentsFound?: true
+  documentsInserted?: true
+  lastPosition?: true
+}
+
+export type IngestedFileSumAggregateInputType = {
+  size?: true
+  documentsFound?: true
+  documentsInserted?: true
+  lastPosition?: true
+}
+
+export type IngestedFileMinAggregateInputType = {
+  id?: true
+  runId?: true
+  path?: true
+  size?: true
+  hash?: true
+  archiveHash?: true
+  selection?: true
+  status?: true
+  documentsFound?: true
+  documentsInserted?: true
+  lastDocumentId?: true
+  lastPosition?: true
+  error?: true
+  startedAt?: true
+  updatedAt?: true
+  finishedAt?: true
+}
+
+export type IngestedFileMaxAggregateInputType = {
+  id?: true
+  runId?: true
+  path?: true
+  size?: true
+  hash?: true
+  archiveHash?: true
+  selection?: true
+  status?: true
+  documentsFound?: true
+  documentsInserted?: true
+  lastDocumentId?: true
+  lastPosition?: true
+  error?: true
+  startedAt?: true
+  updatedAt?: true
+  finishedAt?: true
+}
+
+export type IngestedFileCountAggregateInputType = {
+  id?: true
+  runId?: true
+  path?: true
+  size?: true
+  hash?: true
+  archiveHash?: true
+  selection?: true
+  status?: true
+  documentsFound?: true
+  documentsInserted?: true
+  lastDocumentId?: true
+  lastPosition?: true
+  error?: true
+  startedAt?: true
+  updatedAt?: true
+  finishedAt?: true
+  _all?: true
+}
+
+export type IngestedFileAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which IngestedFile to aggregate.
+   */
+  where?: Prisma.IngestedFileWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IngestedFiles to fetch.
+   */
+  orderBy?: Prisma.IngestedFileOrderByWithRelationInput | Prisma.IngestedFileOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.IngestedFileWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IngestedFiles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IngestedFiles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned IngestedFiles
+  **/
+  _count?: true | IngestedFileCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: IngestedFileAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: IngestedFileSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: IngestedFileMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: IngestedFileMaxAggregateInputType
+}
+
+export type GetIngestedFileAggregateType<T extends IngestedFileAggregateArgs> = {
+      [P in keyof T & keyof AggregateIngestedFile]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateIngestedFile[P]>
+    : Prisma.GetScalarType<T[P], AggregateIngestedFile[P]>
+}
+
+
+
+
+export type IngestedFileGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.IngestedFileWhereInput
+  orderBy?: Prisma.IngestedFileOrderByWithAggregationInput | Prisma.IngestedFileOrderByWithAggregationInput[]
+  by: Prisma.IngestedFileScalarFieldEnum[] | Prisma.IngestedFileScalarFieldEnum
+  having?: Prisma.IngestedFileScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: IngestedFileCountAggregateInputType | true
+  _avg?: IngestedFileAvgAggregateInputType
+  _sum?: IngestedFileSumAggregateInputType
+  _min?: IngestedFileMinAggregateInputType
+  _max?: IngestedFileMaxAggregateInputType
+}
+
+export type IngestedFileGroupByOutputType = {
+  id: string
+  runId: string
+  path: string
+  size: bigint | null
+  hash: string | null
+  archiveHash: string | null
+  selection: string | null
+  status: string
+  documentsFound: number
+  documentsInserted: number
+  lastDocumentId: string | null
+  lastPosition: number
+  error: string | null
+  startedAt: Date
+  updatedAt: Date
+  finishedAt: Date | null
+  _count: IngestedFileCountAggregateOutputType | null
+  _avg: IngestedFileAvgAggregateOutputType | null
+  _sum: IngestedFileSumAggregateOutputType | null
+  _min: IngestedFileMinAggregateOutputType | null
+  _max: IngestedFileMaxAggregateOutputType | null
+}
+
+type GetIngestedFileGroupByPayload<T extends IngestedFileGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<IngestedFileGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof IngestedFileGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], IngestedFileGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], IngestedFileGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type IngestedFileWhereInput = {
+  AND?: Prisma.IngestedFileWhereInput | Prisma.IngestedFileWhereInput[]
+  OR?: Prisma.IngestedFileWhereInput[]
+  NOT?: Prisma.IngestedFileWhereInput | Prisma.IngestedFileWhereInput[]
+  id?: Prisma.StringFilter<"IngestedFile"> | string
+  runId?: Prisma.StringFilter<"IngestedFile"> | string
+  path?: Prisma.StringFilter<"IngestedFile"> | string
+  size?: Prisma.BigIntNullableFilter<"IngestedFile"> | bigint | number | null
+  hash?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  archiveHash?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  selection?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  status?: Prisma.StringFilter<"IngestedFile"> | string
+  documentsFound?: Prisma.IntFilter<"IngestedFile"> | number
+  documentsInserted?: Prisma.IntFilter<"IngestedFile"> | number
+  lastDocumentId?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  lastPosition?: Prisma.IntFilter<"IngestedFile"> | number
+  error?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  startedAt?: Prisma.DateTimeFilter<"IngestedFile"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"IngestedFile"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableFilter<"IngestedFile"> | Date | string | null
+  run?: Prisma.XOR<Prisma.IngestionRunScalarRelationFilter, Prisma.IngestionRunWhereInput>
+}
+
+export type IngestedFileOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  size?: Prisma.SortOrderInput | Prisma.SortOrder
+  hash?: Prisma.SortOrderInput | Prisma.SortOrder
+  archiveHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  selection?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  lastDocumentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastPosition?: Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  run?: Prisma.IngestionRunOrderByWithRelationInput
+}
+
+export type IngestedFileWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  runId_path?: Prisma.IngestedFileRunIdPathCompoundUniqueInput
+  AND?: Prisma.IngestedFileWhereInput | Prisma.IngestedFileWhereInput[]
+  OR?: Prisma.IngestedFileWhereInput[]
+  NOT?: Prisma.IngestedFileWhereInput | Prisma.IngestedFileWhereInput[]
+  runId?: Prisma.StringFilter<"IngestedFile"> | string
+  path?: Prisma.StringFilter<"IngestedFile"> | string
+  size?: Prisma.BigIntNullableFilter<"IngestedFile"> | bigint | number | null
+  hash?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  archiveHash?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  selection?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  status?: Prisma.StringFilter<"IngestedFile"> | string
+  documentsFound?: Prisma.IntFilter<"IngestedFile"> | number
+  documentsInserted?: Prisma.IntFilter<"IngestedFile"> | number
+  lastDocumentId?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  lastPosition?: Prisma.IntFilter<"IngestedFile"> | number
+  error?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  startedAt?: Prisma.DateTimeFilter<"IngestedFile"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"IngestedFile"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableFilter<"IngestedFile"> | Date | string | null
+  run?: Prisma.XOR<Prisma.IngestionRunScalarRelationFilter, Prisma.IngestionRunWhereInput>
+}, "id" | "runId_path">
+
+export type IngestedFileOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  size?: Prisma.SortOrderInput | Prisma.SortOrder
+  hash?: Prisma.SortOrderInput | Prisma.SortOrder
+  archiveHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  selection?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  lastDocumentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastPosition?: Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.IngestedFileCountOrderByAggregateInput
+  _avg?: Prisma.IngestedFileAvgOrderByAggregateInput
+  _max?: Prisma.IngestedFileMaxOrderByAggregateInput
+  _min?: Prisma.IngestedFileMinOrderByAggregateInput
+  _sum?: Prisma.IngestedFileSumOrderByAggregateInput
+}
+
+export type IngestedFileScalarWhereWithAggregatesInput = {
+  AND?: Prisma.IngestedFileScalarWhereWithAggregatesInput | Prisma.IngestedFileScalarWhereWithAggregatesInput[]
+  OR?: Prisma.IngestedFileScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.IngestedFileScalarWhereWithAggregatesInput | Prisma.IngestedFileScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"IngestedFile"> | string
+  runId?: Prisma.StringWithAggregatesFilter<"IngestedFile"> | string
+  path?: Prisma.StringWithAggregatesFilter<"IngestedFile"> | string
+  size?: Prisma.BigIntNullableWithAggregatesFilter<"IngestedFile"> | bigint | number | null
+  hash?: Prisma.StringNullableWithAggregatesFilter<"IngestedFile"> | string | null
+  archiveHash?: Prisma.StringNullableWithAggregatesFilter<"IngestedFile"> | string | null
+  selection?: Prisma.StringNullableWithAggregatesFilter<"IngestedFile"> | string | null
+  status?: Prisma.StringWithAggregatesFilter<"IngestedFile"> | string
+  documentsFound?: Prisma.IntWithAggregatesFilter<"IngestedFile"> | number
+  documentsInserted?: Prisma.IntWithAggregatesFilter<"IngestedFile"> | number
+  lastDocumentId?: Prisma.StringNullableWithAggregatesFilter<"IngestedFile"> | string | null
+  lastPosition?: Prisma.IntWithAggregatesFilter<"IngestedFile"> | number
+  error?: Prisma.StringNullableWithAggregatesFilter<"IngestedFile"> | string | null
+  startedAt?: Prisma.DateTimeWithAggregatesFilter<"IngestedFile"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"IngestedFile"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"IngestedFile"> | Date | string | null
+}
+
+export type IngestedFileCreateInput = {
+  id?: string
+  path: string
+  size?: bigint | number | null
+  hash?: string | null
+  archiveHash?: string | null
+  selection?: string | null
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  lastDocumentId?: string | null
+  lastPosition?: number
+  error?: string | null
+  startedAt?: Date | string
+  updatedAt?: Date | string
+  finishedAt?: Date | string | null
+  run: Prisma.IngestionRunCreateNestedOneWithoutFilesInput
+}
+
+export type IngestedFileUncheckedCreateInput = {
+  id?: string
+  runId: string
+  path: string
+  size?: bigint | number | null
+  hash?: string | null
+  archiveHash?: string | null
+  selection?: string | null
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  lastDocumentId?: string | null
+  lastPosition?: number
+  error?: string | null
+  startedAt?: Date | string
+  updatedAt?: Date | string
+  finishedAt?: Date | string | null
+}
+
+export type IngestedFileUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  hash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  lastDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastPosition?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  run?: Prisma.IngestionRunUpdateOneRequiredWithoutFilesNestedInput
+}
+
+export type IngestedFileUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  hash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  lastDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastPosition?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type IngestedFileCreateManyInput = {
+  id?: string
+  runId: string
+  path: string
+  size?: bigint | number | null
+  hash?: string | null
+  archiveHash?: string | null
+  selection?: string | null
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  lastDocumentId?: string | null
+  lastPosition?: number
+  error?: string | null
+  startedAt?: Date | string
+  updatedAt?: Date | string
+  finishedAt?: Date | string | null
+}
+
+export type IngestedFileUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  hash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  lastDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastPosition?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type IngestedFileUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  hash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  lastDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastPosition?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type IngestedFileListRelationFilter = {
+  every?: Prisma.IngestedFileWhereInput
+  some?: Prisma.IngestedFileWhereInput
+  none?: Prisma.IngestedFileWhereInput
+}
+
+export type IngestedFileOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type IngestedFileRunIdPathCompoundUniqueInput = {
+  runId: string
+  path: string
+}
+
+export type IngestedFileCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  hash?: Prisma.SortOrder
+  archiveHash?: Prisma.SortOrder
+  selection?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  lastDocumentId?: Prisma.SortOrder
+  lastPosition?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+}
+
+export type IngestedFileAvgOrderByAggregateInput = {
+  size?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  lastPosition?: Prisma.SortOrder
+}
+
+export type IngestedFileMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  hash?: Prisma.SortOrder
+  archiveHash?: Prisma.SortOrder
+  selection?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  lastDocumentId?: Prisma.SortOrder
+  lastPosition?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+}
+
+export type IngestedFileMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  path?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  hash?: Prisma.SortOrder
+  archiveHash?: Prisma.SortOrder
+  selection?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  lastDocumentId?: Prisma.SortOrder
+  lastPosition?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+}
+
+export type IngestedFileSumOrderByAggregateInput = {
+  size?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  lastPosition?: Prisma.SortOrder
+}
+
+export type IngestedFileCreateNestedManyWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.IngestedFileCreateWithoutRunInput, Prisma.IngestedFileUncheckedCreateWithoutRunInput> | Prisma.IngestedFileCreateWithoutRunInput[] | Prisma.IngestedFileUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.IngestedFileCreateOrConnectWithoutRunInput | Prisma.IngestedFileCreateOrConnectWithoutRunInput[]
+  createMany?: Prisma.IngestedFileCreateManyRunInputEnvelope
+  connect?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+}
+
+export type IngestedFileUncheckedCreateNestedManyWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.IngestedFileCreateWithoutRunInput, Prisma.IngestedFileUncheckedCreateWithoutRunInput> | Prisma.IngestedFileCreateWithoutRunInput[] | Prisma.IngestedFileUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.IngestedFileCreateOrConnectWithoutRunInput | Prisma.IngestedFileCreateOrConnectWithoutRunInput[]
+  createMany?: Prisma.IngestedFileCreateManyRunInputEnvelope
+  connect?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+}
+
+export type IngestedFileUpdateManyWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.IngestedFileCreateWithoutRunInput, Prisma.IngestedFileUncheckedCreateWithoutRunInput> | Prisma.IngestedFileCreateWithoutRunInput[] | Prisma.IngestedFileUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.IngestedFileCreateOrConnectWithoutRunInput | Prisma.IngestedFileCreateOrConnectWithoutRunInput[]
+  upsert?: Prisma.IngestedFileUpsertWithWhereUniqueWithoutRunInput | Prisma.IngestedFileUpsertWithWhereUniqueWithoutRunInput[]
+  createMany?: Prisma.IngestedFileCreateManyRunInputEnvelope
+  set?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+  disconnect?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+  delete?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+  connect?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+  update?: Prisma.IngestedFileUpdateWithWhereUniqueWithoutRunInput | Prisma.IngestedFileUpdateWithWhereUniqueWithoutRunInput[]
+  updateMany?: Prisma.IngestedFileUpdateManyWithWhereWithoutRunInput | Prisma.IngestedFileUpdateManyWithWhereWithoutRunInput[]
+  deleteMany?: Prisma.IngestedFileScalarWhereInput | Prisma.IngestedFileScalarWhereInput[]
+}
+
+export type IngestedFileUncheckedUpdateManyWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.IngestedFileCreateWithoutRunInput, Prisma.IngestedFileUncheckedCreateWithoutRunInput> | Prisma.IngestedFileCreateWithoutRunInput[] | Prisma.IngestedFileUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.IngestedFileCreateOrConnectWithoutRunInput | Prisma.IngestedFileCreateOrConnectWithoutRunInput[]
+  upsert?: Prisma.IngestedFileUpsertWithWhereUniqueWithoutRunInput | Prisma.IngestedFileUpsertWithWhereUniqueWithoutRunInput[]
+  createMany?: Prisma.IngestedFileCreateManyRunInputEnvelope
+  set?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+  disconnect?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+  delete?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+  connect?: Prisma.IngestedFileWhereUniqueInput | Prisma.IngestedFileWhereUniqueInput[]
+  update?: Prisma.IngestedFileUpdateWithWhereUniqueWithoutRunInput | Prisma.IngestedFileUpdateWithWhereUniqueWithoutRunInput[]
+  updateMany?: Prisma.IngestedFileUpdateManyWithWhereWithoutRunInput | Prisma.IngestedFileUpdateManyWithWhereWithoutRunInput[]
+  deleteMany?: Prisma.IngestedFileScalarWhereInput | Prisma.IngestedFileScalarWhereInput[]
+}
+
+export type IngestedFileCreateWithoutRunInput = {
+  id?: string
+  path: string
+  size?: bigint | number | null
+  hash?: string | null
+  archiveHash?: string | null
+  selection?: string | null
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  lastDocumentId?: string | null
+  lastPosition?: number
+  error?: string | null
+  startedAt?: Date | string
+  updatedAt?: Date | string
+  finishedAt?: Date | string | null
+}
+
+export type IngestedFileUncheckedCreateWithoutRunInput = {
+  id?: string
+  path: string
+  size?: bigint | number | null
+  hash?: string | null
+  archiveHash?: string | null
+  selection?: string | null
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  lastDocumentId?: string | null
+  lastPosition?: number
+  error?: string | null
+  startedAt?: Date | string
+  updatedAt?: Date | string
+  finishedAt?: Date | string | null
+}
+
+export type IngestedFileCreateOrConnectWithoutRunInput = {
+  where: Prisma.IngestedFileWhereUniqueInput
+  create: Prisma.XOR<Prisma.IngestedFileCreateWithoutRunInput, Prisma.IngestedFileUncheckedCreateWithoutRunInput>
+}
+
+export type IngestedFileCreateManyRunInputEnvelope = {
+  data: Prisma.IngestedFileCreateManyRunInput | Prisma.IngestedFileCreateManyRunInput[]
+  skipDuplicates?: boolean
+}
+
+export type IngestedFileUpsertWithWhereUniqueWithoutRunInput = {
+  where: Prisma.IngestedFileWhereUniqueInput
+  update: Prisma.XOR<Prisma.IngestedFileUpdateWithoutRunInput, Prisma.IngestedFileUncheckedUpdateWithoutRunInput>
+  create: Prisma.XOR<Prisma.IngestedFileCreateWithoutRunInput, Prisma.IngestedFileUncheckedCreateWithoutRunInput>
+}
+
+export type IngestedFileUpdateWithWhereUniqueWithoutRunInput = {
+  where: Prisma.IngestedFileWhereUniqueInput
+  data: Prisma.XOR<Prisma.IngestedFileUpdateWithoutRunInput, Prisma.IngestedFileUncheckedUpdateWithoutRunInput>
+}
+
+export type IngestedFileUpdateManyWithWhereWithoutRunInput = {
+  where: Prisma.IngestedFileScalarWhereInput
+  data: Prisma.XOR<Prisma.IngestedFileUpdateManyMutationInput, Prisma.IngestedFileUncheckedUpdateManyWithoutRunInput>
+}
+
+export type IngestedFileScalarWhereInput = {
+  AND?: Prisma.IngestedFileScalarWhereInput | Prisma.IngestedFileScalarWhereInput[]
+  OR?: Prisma.IngestedFileScalarWhereInput[]
+  NOT?: Prisma.IngestedFileScalarWhereInput | Prisma.IngestedFileScalarWhereInput[]
+  id?: Prisma.StringFilter<"IngestedFile"> | string
+  runId?: Prisma.StringFilter<"IngestedFile"> | string
+  path?: Prisma.StringFilter<"IngestedFile"> | string
+  size?: Prisma.BigIntNullableFilter<"IngestedFile"> | bigint | number | null
+  hash?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  archiveHash?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  selection?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  status?: Prisma.StringFilter<"IngestedFile"> | string
+  documentsFound?: Prisma.IntFilter<"IngestedFile"> | number
+  documentsInserted?: Prisma.IntFilter<"IngestedFile"> | number
+  lastDocumentId?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  lastPosition?: Prisma.IntFilter<"IngestedFile"> | number
+  error?: Prisma.StringNullableFilter<"IngestedFile"> | string | null
+  startedAt?: Prisma.DateTimeFilter<"IngestedFile"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"IngestedFile"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableFilter<"IngestedFile"> | Date | string | null
+}
+
+export type IngestedFileCreateManyRunInput = {
+  id?: string
+  path: string
+  size?: bigint | number | null
+  hash?: string | null
+  archiveHash?: string | null
+  selection?: string | null
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  lastDocumentId?: string | null
+  lastPosition?: number
+  error?: string | null
+  startedAt?: Date | string
+  updatedAt?: Date | string
+  finishedAt?: Date | string | null
+}
+
+export type IngestedFileUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  hash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  lastDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastPosition?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type IngestedFileUncheckedUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  hash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  lastDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastPosition?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type IngestedFileUncheckedUpdateManyWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  path?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  hash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  archiveHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selection?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  lastDocumentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastPosition?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+
+export type IngestedFileSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  path?: boolean
+  size?: boolean
+  hash?: boolean
+  archiveHash?: boolean
+  selection?: boolean
+  status?: boolean
+  documentsFound?: boolean
+  documentsInserted?: boolean
+  lastDocumentId?: boolean
+  lastPosition?: boolean
+  error?: boolean
+  startedAt?: boolean
+  updatedAt?: boolean
+  finishedAt?: boolean
+  run?: boolean | Prisma.IngestionRunDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["ingestedFile"]>
+
+export type IngestedFileSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  path?: boolean
+  size?: boolean
+  hash?: boolean
+  archiveHash?: boolean
+  selection?: boolean
+  status?: boolean
+  documentsFound?: boolean
+  documentsInserted?: boolean
+  lastDocumentId?: boolean
+  lastPosition?: boolean
+  error?: boolean
+  startedAt?: boolean
+  updatedAt?: boolean
+  finishedAt?: boolean
+  run?: boolean | Prisma.IngestionRunDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["ingestedFile"]>
+
+export type IngestedFileSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  path?: boolean
+  size?: boolean
+  hash?: boolean
+  archiveHash?: boolean
+  selection?: boolean
+  status?: boolean
+  documentsFound?: boolean
+  documentsInserted?: boolean
+  lastDocumentId?: boolean
+  lastPosition?: boolean
+  error?: boolean
+  startedAt?: boolean
+  updatedAt?: boolean
+  finishedAt?: boolean
+  run?: boolean | Prisma.IngestionRunDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["ingestedFile"]>
+
+export type IngestedFileSelectScalar = {
+  id?: boolean
+  runId?: boolean
+  path?: boolean
+  size?: boolean
+  hash?: boolean
+  archiveHash?: boolean
+  selection?: boolean
+  status?: boolean
+  documentsFound?: boolean
+  documentsInserted?: boolean
+  lastDocumentId?: boolean
+  lastPosition?: boolean
+  error?: boolean
+  startedAt?: boolean
+  updatedAt?: boolean
+  finishedAt?: boolean
+}
+
+export type IngestedFileOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "runId" | "path" | "size" | "hash" | "archiveHash" | "selection" | "status" | "documentsFound" | "documentsInserted" | "lastDocumentId" | "lastPosition" | "error" | "startedAt" | "updatedAt" | "finishedAt", ExtArgs["result"]["ingestedFile"]>
+export type IngestedFileInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.IngestionRunDefaultArgs<ExtArgs>
+}
+export type IngestedFileIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.IngestionRunDefaultArgs<ExtArgs>
+}
+export type IngestedFileIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.IngestionRunDefaultArgs<ExtArgs>
+}
+
+export type $IngestedFilePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "IngestedFile"
+  objects: {
+    run: Prisma.$IngestionRunPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    runId: string
+    path: string
+    size: bigint | null
+    hash: string | null
+    archiveHash: string | null
+    selection: string | null
+    status: string
+    documentsFound: number
+    documentsInserted: number
+    lastDocumentId: string | null
+    lastPosition: number
+    error: string | null
+    startedAt: Date
+    updatedAt: Date
+    finishedAt: Date | null
+  }, ExtArgs["result"]["ingestedFile"]>
+  composites: {}
+}
+
+export type IngestedFileGetPayload<S extends boolean | null | undefined | IngestedFileDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload, S>
+
+export type IngestedFileCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<IngestedFileFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: IngestedFileCountAggregateInputType | true
+  }
+
+export interface IngestedFileDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['IngestedFile'], meta: { name: 'IngestedFile' } }
+  /**
+   * Find zero or one IngestedFile that matches the filter.
+   * @param {IngestedFileFindUniqueArgs} args - Arguments to find a IngestedFile
+   * @example
+   * // Get one IngestedFile
+   * const ingestedFile = await prisma.ingestedFile.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends IngestedFileFindUniqueArgs>(args: Prisma.SelectSubset<T, IngestedFileFindUniqueArgs<ExtArgs>>): Prisma.Prisma__IngestedFileClient<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one IngestedFile that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {IngestedFileFindUniqueOrThrowArgs} args - Arguments to find a IngestedFile
+   * @example
+   * // Get one IngestedFile
+   * const ingestedFile = await prisma.ingestedFile.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends IngestedFileFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, IngestedFileFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__IngestedFileClient<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first IngestedFile that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestedFileFindFirstArgs} args - Arguments to find a IngestedFile
+   * @example
+   * // Get one IngestedFile
+   * const ingestedFile = await prisma.ingestedFile.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends IngestedFileFindFirstArgs>(args?: Prisma.SelectSubset<T, IngestedFileFindFirstArgs<ExtArgs>>): Prisma.Prisma__IngestedFileClient<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first IngestedFile that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestedFileFindFirstOrThrowArgs} args - Arguments to find a IngestedFile
+   * @example
+   * // Get one IngestedFile
+   * const ingestedFile = await prisma.ingestedFile.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends IngestedFileFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, IngestedFileFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__IngestedFileClient<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more IngestedFiles that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestedFileFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all IngestedFiles
+   * const ingestedFiles = await prisma.ingestedFile.findMany()
+   * 
+   * // Get first 10 IngestedFiles
+   * const ingestedFiles = await prisma.ingestedFile.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const ingestedFileWithIdOnly = await prisma.ingestedFile.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends IngestedFileFindManyArgs>(args?: Prisma.SelectSubset<T, IngestedFileFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a IngestedFile.
+   * @param {IngestedFileCreateArgs} args - Arguments to create a IngestedFile.
+   * @example
+   * // Create one IngestedFile
+   * const IngestedFile = await prisma.ingestedFile.create({
+   *   data: {
+   *     // ... data to create a IngestedFile
+   *   }
+   * })
+   * 
+   */
+  create<T extends IngestedFileCreateArgs>(args: Prisma.SelectSubset<T, IngestedFileCreateArgs<ExtArgs>>): Prisma.Prisma__IngestedFileClient<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many IngestedFiles.
+   * @param {IngestedFileCreateManyArgs} args - Arguments to create many IngestedFiles.
+   * @example
+   * // Create many IngestedFiles
+   * const ingestedFile = await prisma.ingestedFile.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends IngestedFileCreateManyArgs>(args?: Prisma.SelectSubset<T, IngestedFileCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many IngestedFiles and returns the data saved in the database.
+   * @param {IngestedFileCreateManyAndReturnArgs} args - Arguments to create many IngestedFiles.
+   * @example
+   * // Create many IngestedFiles
+   * const ingestedFile = await prisma.ingestedFile.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many IngestedFiles and only return the `id`
+   * const ingestedFileWithIdOnly = await prisma.ingestedFile.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends IngestedFileCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, IngestedFileCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a IngestedFile.
+   * @param {IngestedFileDeleteArgs} args - Arguments to delete one IngestedFile.
+   * @example
+   * // Delete one IngestedFile
+   * const IngestedFile = await prisma.ingestedFile.delete({
+   *   where: {
+   *     // ... filter to delete one IngestedFile
+   *   }
+   * })
+   * 
+   */
+  delete<T extends IngestedFileDeleteArgs>(args: Prisma.SelectSubset<T, IngestedFileDeleteArgs<ExtArgs>>): Prisma.Prisma__IngestedFileClient<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one IngestedFile.
+   * @param {IngestedFileUpdateArgs} args - Arguments to update one IngestedFile.
+   * @example
+   * // Update one IngestedFile
+   * const ingestedFile = await prisma.ingestedFile.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends IngestedFileUpdateArgs>(args: Prisma.SelectSubset<T, IngestedFileUpdateArgs<ExtArgs>>): Prisma.Prisma__IngestedFileClient<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more IngestedFiles.
+   * @param {IngestedFileDeleteManyArgs} args - Arguments to filter IngestedFiles to delete.
+   * @example
+   * // Delete a few IngestedFiles
+   * const { count } = await prisma.ingestedFile.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends IngestedFileDeleteManyArgs>(args?: Prisma.SelectSubset<T, IngestedFileDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more IngestedFiles.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestedFileUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many IngestedFiles
+   * const ingestedFile = await prisma.ingestedFile.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends IngestedFileUpdateManyArgs>(args: Prisma.SelectSubset<T, IngestedFileUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more IngestedFiles and returns the data updated in the database.
+   * @param {IngestedFileUpdateManyAndReturnArgs} args - Arguments to update many IngestedFiles.
+   * @example
+   * // Update many IngestedFiles
+   * const ingestedFile = await prisma.ingestedFile.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more IngestedFiles and only return the `id`
+   * const ingestedFileWithIdOnly = await prisma.ingestedFile.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends IngestedFileUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, IngestedFileUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one IngestedFile.
+   * @param {IngestedFileUpsertArgs} args - Arguments to update or create a IngestedFile.
+   * @example
+   * // Update or create a IngestedFile
+   * const ingestedFile = await prisma.ingestedFile.upsert({
+   *   create: {
+   *     // ... data to create a IngestedFile
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the IngestedFile we want to update
+   *   }
+   * })
+   */
+  upsert<T extends IngestedFileUpsertArgs>(args: Prisma.SelectSubset<T, IngestedFileUpsertArgs<ExtArgs>>): Prisma.Prisma__IngestedFileClient<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of IngestedFiles.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestedFileCountArgs} args - Arguments to filter IngestedFiles to count.
+   * @example
+   * // Count the number of IngestedFiles
+   * const count = await prisma.ingestedFile.count({
+   *   where: {
+   *     // ... the filter for the IngestedFiles we want to count
+   *   }
+   * })
+  **/
+  count<T extends IngestedFileCountArgs>(
+    args?: Prisma.Subset<T, IngestedFileCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], IngestedFileCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a IngestedFile.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestedFileAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends IngestedFileAggregateArgs>(args: Prisma.Subset<T, IngestedFileAggregateArgs>): Prisma.PrismaPromise<GetIngestedFileAggregateType<T>>
+
+  /**
+   * Group by IngestedFile.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestedFileGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends IngestedFileGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: IngestedFileGroupByArgs['orderBy'] }
+      : { orderBy?: IngestedFileGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, IngestedFileGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetIngestedFileGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the IngestedFile model
+ */
+readonly fields: IngestedFileFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for IngestedFile.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__IngestedFileClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  run<T extends Prisma.IngestionRunDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.IngestionRunDefaultArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the IngestedFile model
+ */
+export interface IngestedFileFieldRefs {
+  readonly id: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly runId: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly path: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly size: Prisma.FieldRef<"IngestedFile", 'BigInt'>
+  readonly hash: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly archiveHash: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly selection: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly status: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly documentsFound: Prisma.FieldRef<"IngestedFile", 'Int'>
+  readonly documentsInserted: Prisma.FieldRef<"IngestedFile", 'Int'>
+  readonly lastDocumentId: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly lastPosition: Prisma.FieldRef<"IngestedFile", 'Int'>
+  readonly error: Prisma.FieldRef<"IngestedFile", 'String'>
+  readonly startedAt: Prisma.FieldRef<"IngestedFile", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"IngestedFile", 'DateTime'>
+  readonly finishedAt: Prisma.FieldRef<"IngestedFile", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * IngestedFile findUnique
+ */
+export type IngestedFileFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestedFile to fetch.
+   */
+  where: Prisma.IngestedFileWhereUniqueInput
+}
+
+/**
+ * IngestedFile findUniqueOrThrow
+ */
+export type IngestedFileFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestedFile to fetch.
+   */
+  where: Prisma.IngestedFileWhereUniqueInput
+}
+
+/**
+ * IngestedFile findFirst
+ */
+export type IngestedFileFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestedFile to fetch.
+   */
+  where?: Prisma.IngestedFileWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IngestedFiles to fetch.
+   */
+  orderBy?: Prisma.IngestedFileOrderByWithRelationInput | Prisma.IngestedFileOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for IngestedFiles.
+   */
+  cursor?: Prisma.IngestedFileWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IngestedFiles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IngestedFiles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of IngestedFiles.
+   */
+  distinct?: Prisma.IngestedFileScalarFieldEnum | Prisma.IngestedFileScalarFieldEnum[]
+}
+
+/**
+ * IngestedFile findFirstOrThrow
+ */
+export type IngestedFileFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestedFile to fetch.
+   */
+  where?: Prisma.IngestedFileWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IngestedFiles to fetch.
+   */
+  orderBy?: Prisma.IngestedFileOrderByWithRelationInput | Prisma.IngestedFileOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for IngestedFiles.
+   */
+  cursor?: Prisma.IngestedFileWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IngestedFiles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IngestedFiles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of IngestedFiles.
+   */
+  distinct?: Prisma.IngestedFileScalarFieldEnum | Prisma.IngestedFileScalarFieldEnum[]
+}
+
+/**
+ * IngestedFile findMany
+ */
+export type IngestedFileFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestedFiles to fetch.
+   */
+  where?: Prisma.IngestedFileWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IngestedFiles to fetch.
+   */
+  orderBy?: Prisma.IngestedFileOrderByWithRelationInput | Prisma.IngestedFileOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing IngestedFiles.
+   */
+  cursor?: Prisma.IngestedFileWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IngestedFiles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IngestedFiles.
+   */
+  skip?: number
+  distinct?: Prisma.IngestedFileScalarFieldEnum | Prisma.IngestedFileScalarFieldEnum[]
+}
+
+/**
+ * IngestedFile create
+ */
+export type IngestedFileCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * The data needed to create a IngestedFile.
+   */
+  data: Prisma.XOR<Prisma.IngestedFileCreateInput, Prisma.IngestedFileUncheckedCreateInput>
+}
+
+/**
+ * IngestedFile createMany
+ */
+export type IngestedFileCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many IngestedFiles.
+   */
+  data: Prisma.IngestedFileCreateManyInput | Prisma.IngestedFileCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * IngestedFile createManyAndReturn
+ */
+export type IngestedFileCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * The data used to create many IngestedFiles.
+   */
+  data: Prisma.IngestedFileCreateManyInput | Prisma.IngestedFileCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * IngestedFile update
+ */
+export type IngestedFileUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * The data needed to update a IngestedFile.
+   */
+  data: Prisma.XOR<Prisma.IngestedFileUpdateInput, Prisma.IngestedFileUncheckedUpdateInput>
+  /**
+   * Choose, which IngestedFile to update.
+   */
+  where: Prisma.IngestedFileWhereUniqueInput
+}
+
+/**
+ * IngestedFile updateMany
+ */
+export type IngestedFileUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update IngestedFiles.
+   */
+  data: Prisma.XOR<Prisma.IngestedFileUpdateManyMutationInput, Prisma.IngestedFileUncheckedUpdateManyInput>
+  /**
+   * Filter which IngestedFiles to update
+   */
+  where?: Prisma.IngestedFileWhereInput
+  /**
+   * Limit how many IngestedFiles to update.
+   */
+  limit?: number
+}
+
+/**
+ * IngestedFile updateManyAndReturn
+ */
+export type IngestedFileUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * The data used to update IngestedFiles.
+   */
+  data: Prisma.XOR<Prisma.IngestedFileUpdateManyMutationInput, Prisma.IngestedFileUncheckedUpdateManyInput>
+  /**
+   * Filter which IngestedFiles to update
+   */
+  where?: Prisma.IngestedFileWhereInput
+  /**
+   * Limit how many IngestedFiles to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * IngestedFile upsert
+ */
+export type IngestedFileUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * The filter to search for the IngestedFile to update in case it exists.
+   */
+  where: Prisma.IngestedFileWhereUniqueInput
+  /**
+   * In case the IngestedFile found by the `where` argument doesn't exist, create a new IngestedFile with this data.
+   */
+  create: Prisma.XOR<Prisma.IngestedFileCreateInput, Prisma.IngestedFileUncheckedCreateInput>
+  /**
+   * In case the IngestedFile was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.IngestedFileUpdateInput, Prisma.IngestedFileUncheckedUpdateInput>
+}
+
+/**
+ * IngestedFile delete
+ */
+export type IngestedFileDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  /**
+   * Filter which IngestedFile to delete.
+   */
+  where: Prisma.IngestedFileWhereUniqueInput
+}
+
+/**
+ * IngestedFile deleteMany
+ */
+export type IngestedFileDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which IngestedFiles to delete
+   */
+  where?: Prisma.IngestedFileWhereInput
+  /**
+   * Limit how many IngestedFiles to delete.
+   */
+  limit?: number
+}
+
+/**
+ * IngestedFile without action
+ */
+export type IngestedFileDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+}
@@ -0,0 +1,1586 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `IngestionRun` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model IngestionRun
+ * 
+ */
+export type IngestionRunModel = runtime.Types.Result.DefaultSelection<Prisma.$IngestionRunPayload>
+
+export type AggregateIngestionRun = {
+  _count: IngestionRunCountAggregateOutputType | null
+  _avg: IngestionRunAvgAggregateOutputType | null
+  _sum: IngestionRunSumAggregateOutputType | null
+  _min: IngestionRunMinAggregateOutputType | null
+  _max: IngestionRunMaxAggregateOutputType | null
+}
+
+export type IngestionRunAvgAggregateOutputType = {
+  documentsFound: number | null
+  documentsInserted: number | null
+  documentsAdded: number | null
+  documentsChanged: number | null
+  documentsUnchanged: number | null
+}
+
+export type IngestionRunSumAggregateOutputType = {
+  documentsFound: number | null
+  documentsInserted: number | null
+  documentsAdded: number | null
+  documentsChanged: number | null
+  documentsUnchanged: number | null
+}
+
+export type IngestionRunMinAggregateOutputType = {
+  id: string | null
+  status: string | null
+  documentsFound: number | null
+  documentsInserted: number | null
+  documentsAdded: number | null
+  documentsChanged: number | null
+  documentsUnchanged: number | null
+  manifestPath: string | null
+  manifestHash: string | null
+  startedAt: Date | null
+  finishedAt: Date | null
+}
+
+export type IngestionRunMaxAggregateOutputType = {
+  id: string | null
+  status: string | null
+  documentsFound: number | null
+  documentsInserted: number | null
+  documentsAdded: number | null
+  documentsChanged: number | null
+  documentsUnchanged: number | null
+  manifestPath: string | null
+  manifestHash: string | null
+  startedAt: Date | null
+  finishedAt: Date | null
+}
+
+export type IngestionRunCountAggregateOutputType = {
+  id: number
+  status: number
+  documentsFound: number
+  documentsInserted: number
+  documentsAdded: number
+  documentsChanged: number
+  documentsUnchanged: number
+  manifestPath: number
+  manifestHash: number
+  startedAt: number
+  finishedAt: number
+  _all: number
+}
+
+
+export type IngestionRunAvgAggregateInputType = {
+  documentsFound?: true
+  documentsInserted?: true
+  documentsAdded?: true
+  documentsChanged?: true
+  documentsUnchanged?: true
+}
+
+export type IngestionRunSumAggregateInputType = {
+  documentsFound?: true
+  documentsInserted?: true
+  documentsAdded?: true
+  documentsChanged?: true
+  documentsUnchanged?: true
+}
+
+export type IngestionRunMinAggregateInputType = {
+  id?: true
+  status?: true
+  documentsFound?: true
+  documentsInserted?: true
+  documentsAdded?: true
+  documentsChanged?: true
+  documentsUnchanged?: true
+  manifestPath?: true
+  manifestHash?: true
+  startedAt?: true
+  finishedAt?: true
+}
+
+export type IngestionRunMaxAggregateInputType = {
+  id?: true
+  status?: true
+  documentsFound?: true
+  documentsInserted?: true
+  documentsAdded?: true
+  documentsChanged?: true
+  documentsUnchanged?: true
+  manifestPath?: true
+  manifestHash?: true
+  startedAt?: true
+  finishedAt?: true
+}
+
+export type IngestionRunCountAggregateInputType = {
+  id?: true
+  status?: true
+  documentsFound?: true
+  documentsInserted?: true
+  documentsAdded?: true
+  documentsChanged?: true
+  documentsUnchanged?: true
+  manifestPath?: true
+  manifestHash?: true
+  startedAt?: true
+  finishedAt?: true
+  _all?: true
+}
+
+export type IngestionRunAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which IngestionRun to aggregate.
+   */
+  where?: Prisma.IngestionRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IngestionRuns to fetch.
+   */
+  orderBy?: Prisma.IngestionRunOrderByWithRelationInput | Prisma.IngestionRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.IngestionRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IngestionRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IngestionRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned IngestionRuns
+  **/
+  _count?: true | IngestionRunCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: IngestionRunAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: IngestionRunSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: IngestionRunMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: IngestionRunMaxAggregateInputType
+}
+
+export type GetIngestionRunAggregateType<T extends IngestionRunAggregateArgs> = {
+      [P in keyof T & keyof AggregateIngestionRun]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateIngestionRun[P]>
+    : Prisma.GetScalarType<T[P], AggregateIngestionRun[P]>
+}
+
+
+
+
+export type IngestionRunGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.IngestionRunWhereInput
+  orderBy?: Prisma.IngestionRunOrderByWithAggregationInput | Prisma.IngestionRunOrderByWithAggregationInput[]
+  by: Prisma.IngestionRunScalarFieldEnum[] | Prisma.IngestionRunScalarFieldEnum
+  having?: Prisma.IngestionRunScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: IngestionRunCountAggregateInputType | true
+  _avg?: IngestionRunAvgAggregateInputType
+  _sum?: IngestionRunSumAggregateInputType
+  _min?: IngestionRunMinAggregateInputType
+  _max?: IngestionRunMaxAggregateInputType
+}
+
+export type IngestionRunGroupByOutputType = {
+  id: string
+  status: string
+  documentsFound: number
+  documentsInserted: number
+  documentsAdded: number
+  documentsChanged: number
+  documentsUnchanged: number
+  manifestPath: string | null
+  manifestHash: string | null
+  startedAt: Date
+  finishedAt: Date | null
+  _count: IngestionRunCountAggregateOutputType | null
+  _avg: IngestionRunAvgAggregateOutputType | null
+  _sum: IngestionRunSumAggregateOutputType | null
+  _min: IngestionRunMinAggregateOutputType | null
+  _max: IngestionRunMaxAggregateOutputType | null
+}
+
+type GetIngestionRunGroupByPayload<T extends IngestionRunGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<IngestionRunGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof IngestionRunGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], IngestionRunGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], IngestionRunGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type IngestionRunWhereInput = {
+  AND?: Prisma.IngestionRunWhereInput | Prisma.IngestionRunWhereInput[]
+  OR?: Prisma.IngestionRunWhereInput[]
+  NOT?: Prisma.IngestionRunWhereInput | Prisma.IngestionRunWhereInput[]
+  id?: Prisma.StringFilter<"IngestionRun"> | string
+  status?: Prisma.StringFilter<"IngestionRun"> | string
+  documentsFound?: Prisma.IntFilter<"IngestionRun"> | number
+  documentsInserted?: Prisma.IntFilter<"IngestionRun"> | number
+  documentsAdded?: Prisma.IntFilter<"IngestionRun"> | number
+  documentsChanged?: Prisma.IntFilter<"IngestionRun"> | number
+  documentsUnchanged?: Prisma.IntFilter<"IngestionRun"> | number
+  manifestPath?: Prisma.StringNullableFilter<"IngestionRun"> | string | null
+  manifestHash?: Prisma.StringNullableFilter<"IngestionRun"> | string | null
+  startedAt?: Prisma.DateTimeFilter<"IngestionRun"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableFilter<"IngestionRun"> | Date | string | null
+  files?: Prisma.IngestedFileListRelationFilter
+}
+
+export type IngestionRunOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  documentsAdded?: Prisma.SortOrder
+  documentsChanged?: Prisma.SortOrder
+  documentsUnchanged?: Prisma.SortOrder
+  manifestPath?: Prisma.SortOrderInput | Prisma.SortOrder
+  manifestHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  files?: Prisma.IngestedFileOrderByRelationAggregateInput
+}
+
+export type IngestionRunWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.IngestionRunWhereInput | Prisma.IngestionRunWhereInput[]
+  OR?: Prisma.IngestionRunWhereInput[]
+  NOT?: Prisma.IngestionRunWhereInput | Prisma.IngestionRunWhereInput[]
+  status?: Prisma.StringFilter<"IngestionRun"> | string
+  documentsFound?: Prisma.IntFilter<"IngestionRun"> | number
+  documentsInserted?: Prisma.IntFilter<"IngestionRun"> | number
+  documentsAdded?: Prisma.IntFilter<"IngestionRun"> | number
+  documentsChanged?: Prisma.IntFilter<"IngestionRun"> | number
+  documentsUnchanged?: Prisma.IntFilter<"IngestionRun"> | number
+  manifestPath?: Prisma.StringNullableFilter<"IngestionRun"> | string | null
+  manifestHash?: Prisma.StringNullableFilter<"IngestionRun"> | string | null
+  startedAt?: Prisma.DateTimeFilter<"IngestionRun"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableFilter<"IngestionRun"> | Date | string | null
+  files?: Prisma.IngestedFileListRelationFilter
+}, "id">
+
+export type IngestionRunOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  documentsAdded?: Prisma.SortOrder
+  documentsChanged?: Prisma.SortOrder
+  documentsUnchanged?: Prisma.SortOrder
+  manifestPath?: Prisma.SortOrderInput | Prisma.SortOrder
+  manifestHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.IngestionRunCountOrderByAggregateInput
+  _avg?: Prisma.IngestionRunAvgOrderByAggregateInput
+  _max?: Prisma.IngestionRunMaxOrderByAggregateInput
+  _min?: Prisma.IngestionRunMinOrderByAggregateInput
+  _sum?: Prisma.IngestionRunSumOrderByAggregateInput
+}
+
+export type IngestionRunScalarWhereWithAggregatesInput = {
+  AND?: Prisma.IngestionRunScalarWhereWithAggregatesInput | Prisma.IngestionRunScalarWhereWithAggregatesInput[]
+  OR?: Prisma.IngestionRunScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.IngestionRunScalarWhereWithAggregatesInput | Prisma.IngestionRunScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"IngestionRun"> | string
+  status?: Prisma.StringWithAggregatesFilter<"IngestionRun"> | string
+  documentsFound?: Prisma.IntWithAggregatesFilter<"IngestionRun"> | number
+  documentsInserted?: Prisma.IntWithAggregatesFilter<"IngestionRun"> | number
+  documentsAdded?: Prisma.IntWithAggregatesFilter<"IngestionRun"> | number
+  documentsChanged?: Prisma.IntWithAggregatesFilter<"IngestionRun"> | number
+  documentsUnchanged?: Prisma.IntWithAggregatesFilter<"IngestionRun"> | number
+  manifestPath?: Prisma.StringNullableWithAggregatesFilter<"IngestionRun"> | string | null
+  manifestHash?: Prisma.StringNullableWithAggregatesFilter<"IngestionRun"> | string | null
+  startedAt?: Prisma.DateTimeWithAggregatesFilter<"IngestionRun"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"IngestionRun"> | Date | string | null
+}
+
+export type IngestionRunCreateInput = {
+  id?: string
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  documentsAdded?: number
+  documentsChanged?: number
+  documentsUnchanged?: number
+  manifestPath?: string | null
+  manifestHash?: string | null
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+  files?: Prisma.IngestedFileCreateNestedManyWithoutRunInput
+}
+
+export type IngestionRunUncheckedCreateInput = {
+  id?: string
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  documentsAdded?: number
+  documentsChanged?: number
+  documentsUnchanged?: number
+  manifestPath?: string | null
+  manifestHash?: string | null
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+  files?: Prisma.IngestedFileUncheckedCreateNestedManyWithoutRunInput
+}
+
+export type IngestionRunUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsAdded?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsChanged?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsUnchanged?: Prisma.IntFieldUpdateOperationsInput | number
+  manifestPath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifestHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  files?: Prisma.IngestedFileUpdateManyWithoutRunNestedInput
+}
+
+export type IngestionRunUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsAdded?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsChanged?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsUnchanged?: Prisma.IntFieldUpdateOperationsInput | number
+  manifestPath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifestHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  files?: Prisma.IngestedFileUncheckedUpdateManyWithoutRunNestedInput
+}
+
+export type IngestionRunCreateManyInput = {
+  id?: string
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  documentsAdded?: number
+  documentsChanged?: number
+  documentsUnchanged?: number
+  manifestPath?: string | null
+  manifestHash?: string | null
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+}
+
+export type IngestionRunUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsAdded?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsChanged?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsUnchanged?: Prisma.IntFieldUpdateOperationsInput | number
+  manifestPath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifestHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type IngestionRunUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsAdded?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsChanged?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsUnchanged?: Prisma.IntFieldUpdateOperationsInput | number
+  manifestPath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifestHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type IngestionRunCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  documentsAdded?: Prisma.SortOrder
+  documentsChanged?: Prisma.SortOrder
+  documentsUnchanged?: Prisma.SortOrder
+  manifestPath?: Prisma.SortOrder
+  manifestHash?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+}
+
+export type IngestionRunAvgOrderByAggregateInput = {
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  documentsAdded?: Prisma.SortOrder
+  documentsChanged?: Prisma.SortOrder
+  documentsUnchanged?: Prisma.SortOrder
+}
+
+export type IngestionRunMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  documentsAdded?: Prisma.SortOrder
+  documentsChanged?: Prisma.SortOrder
+  documentsUnchanged?: Prisma.SortOrder
+  manifestPath?: Prisma.SortOrder
+  manifestHash?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+}
+
+export type IngestionRunMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  documentsAdded?: Prisma.SortOrder
+  documentsChanged?: Prisma.SortOrder
+  documentsUnchanged?: Prisma.SortOrder
+  manifestPath?: Prisma.SortOrder
+  manifestHash?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+}
+
+export type IngestionRunSumOrderByAggregateInput = {
+  documentsFound?: Prisma.SortOrder
+  documentsInserted?: Prisma.SortOrder
+  documentsAdded?: Prisma.SortOrder
+  documentsChanged?: Prisma.SortOrder
+  documentsUnchanged?: Prisma.SortOrder
+}
+
+export type IngestionRunScalarRelationFilter = {
+  is?: Prisma.IngestionRunWhereInput
+  isNot?: Prisma.IngestionRunWhereInput
+}
+
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
+export type IngestionRunCreateNestedOneWithoutFilesInput = {
+  create?: Prisma.XOR<Prisma.IngestionRunCreateWithoutFilesInput, Prisma.IngestionRunUncheckedCreateWithoutFilesInput>
+  connectOrCreate?: Prisma.IngestionRunCreateOrConnectWithoutFilesInput
+  connect?: Prisma.IngestionRunWhereUniqueInput
+}
+
+export type IngestionRunUpdateOneRequiredWithoutFilesNestedInput = {
+  create?: Prisma.XOR<Prisma.IngestionRunCreateWithoutFilesInput, Prisma.IngestionRunUncheckedCreateWithoutFilesInput>
+  connectOrCreate?: Prisma.IngestionRunCreateOrConnectWithoutFilesInput
+  upsert?: Prisma.IngestionRunUpsertWithoutFilesInput
+  connect?: Prisma.IngestionRunWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.IngestionRunUpdateToOneWithWhereWithoutFilesInput, Prisma.IngestionRunUpdateWithoutFilesInput>, Prisma.IngestionRunUncheckedUpdateWithoutFilesInput>
+}
+
+export type IngestionRunCreateWithoutFilesInput = {
+  id?: string
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  documentsAdded?: number
+  documentsChanged?: number
+  documentsUnchanged?: number
+  manifestPath?: string | null
+  manifestHash?: string | null
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+}
+
+export type IngestionRunUncheckedCreateWithoutFilesInput = {
+  id?: string
+  status: string
+  documentsFound?: number
+  documentsInserted?: number
+  documentsAdded?: number
+  documentsChanged?: number
+  documentsUnchanged?: number
+  manifestPath?: string | null
+  manifestHash?: string | null
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+}
+
+export type IngestionRunCreateOrConnectWithoutFilesInput = {
+  where: Prisma.IngestionRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.IngestionRunCreateWithoutFilesInput, Prisma.IngestionRunUncheckedCreateWithoutFilesInput>
+}
+
+export type IngestionRunUpsertWithoutFilesInput = {
+  update: Prisma.XOR<Prisma.IngestionRunUpdateWithoutFilesInput, Prisma.IngestionRunUncheckedUpdateWithoutFilesInput>
+  create: Prisma.XOR<Prisma.IngestionRunCreateWithoutFilesInput, Prisma.IngestionRunUncheckedCreateWithoutFilesInput>
+  where?: Prisma.IngestionRunWhereInput
+}
+
+export type IngestionRunUpdateToOneWithWhereWithoutFilesInput = {
+  where?: Prisma.IngestionRunWhereInput
+  data: Prisma.XOR<Prisma.IngestionRunUpdateWithoutFilesInput, Prisma.IngestionRunUncheckedUpdateWithoutFilesInput>
+}
+
+export type IngestionRunUpdateWithoutFilesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsAdded?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsChanged?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsUnchanged?: Prisma.IntFieldUpdateOperationsInput | number
+  manifestPath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifestHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type IngestionRunUncheckedUpdateWithoutFilesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  documentsFound?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsInserted?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsAdded?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsChanged?: Prisma.IntFieldUpdateOperationsInput | number
+  documentsUnchanged?: Prisma.IntFieldUpdateOperationsInput | number
+  manifestPath?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  manifestHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+/**
+ * Count Type IngestionRunCountOutputType
+ */
+
+export type IngestionRunCountOutputType = {
+  files: number
+}
+
+export type IngestionRunCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  files?: boolean | IngestionRunCountOutputTypeCountFilesArgs
+}
+
+/**
+ * IngestionRunCountOutputType without action
+ */
+export type IngestionRunCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRunCountOutputType
+   */
+  select?: Prisma.IngestionRunCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * IngestionRunCountOutputType without action
+ */
+export type IngestionRunCountOutputTypeCountFilesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.IngestedFileWhereInput
+}
+
+
+export type IngestionRunSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  status?: boolean
+  documentsFound?: boolean
+  documentsInserted?: boolean
+  documentsAdded?: boolean
+  documentsChanged?: boolean
+  documentsUnchanged?: boolean
+  manifestPath?: boolean
+  manifestHash?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  files?: boolean | Prisma.IngestionRun$filesArgs<ExtArgs>
+  _count?: boolean | Prisma.IngestionRunCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["ingestionRun"]>
+
+export type IngestionRunSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  status?: boolean
+  documentsFound?: boolean
+  documentsInserted?: boolean
+  documentsAdded?: boolean
+  documentsChanged?: boolean
+  documentsUnchanged?: boolean
+  manifestPath?: boolean
+  manifestHash?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+}, ExtArgs["result"]["ingestionRun"]>
+
+export type IngestionRunSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  status?: boolean
+  documentsFound?: boolean
+  documentsInserted?: boolean
+  documentsAdded?: boolean
+  documentsChanged?: boolean
+  documentsUnchanged?: boolean
+  manifestPath?: boolean
+  manifestHash?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+}, ExtArgs["result"]["ingestionRun"]>
+
+export type IngestionRunSelectScalar = {
+  id?: boolean
+  status?: boolean
+  documentsFound?: boolean
+  documentsInserted?: boolean
+  documentsAdded?: boolean
+  documentsChanged?: boolean
+  documentsUnchanged?: boolean
+  manifestPath?: boolean
+  manifestHash?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+}
+
+export type IngestionRunOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "status" | "documentsFound" | "documentsInserted" | "documentsAdded" | "documentsChanged" | "documentsUnchanged" | "manifestPath" | "manifestHash" | "startedAt" | "finishedAt", ExtArgs["result"]["ingestionRun"]>
+export type IngestionRunInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  files?: boolean | Prisma.IngestionRun$filesArgs<ExtArgs>
+  _count?: boolean | Prisma.IngestionRunCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type IngestionRunIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type IngestionRunIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $IngestionRunPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "IngestionRun"
+  objects: {
+    files: Prisma.$IngestedFilePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    status: string
+    documentsFound: number
+    documentsInserted: number
+    documentsAdded: number
+    documentsChanged: number
+    documentsUnchanged: number
+    manifestPath: string | null
+    manifestHash: string | null
+    startedAt: Date
+    finishedAt: Date | null
+  }, ExtArgs["result"]["ingestionRun"]>
+  composites: {}
+}
+
+export type IngestionRunGetPayload<S extends boolean | null | undefined | IngestionRunDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload, S>
+
+export type IngestionRunCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<IngestionRunFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: IngestionRunCountAggregateInputType | true
+  }
+
+export interface IngestionRunDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['IngestionRun'], meta: { name: 'IngestionRun' } }
+  /**
+   * Find zero or one IngestionRun that matches the filter.
+   * @param {IngestionRunFindUniqueArgs} args - Arguments to find a IngestionRun
+   * @example
+   * // Get one IngestionRun
+   * const ingestionRun = await prisma.ingestionRun.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends IngestionRunFindUniqueArgs>(args: Prisma.SelectSubset<T, IngestionRunFindUniqueArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one IngestionRun that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {IngestionRunFindUniqueOrThrowArgs} args - Arguments to find a IngestionRun
+   * @example
+   * // Get one IngestionRun
+   * const ingestionRun = await prisma.ingestionRun.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends IngestionRunFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, IngestionRunFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first IngestionRun that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestionRunFindFirstArgs} args - Arguments to find a IngestionRun
+   * @example
+   * // Get one IngestionRun
+   * const ingestionRun = await prisma.ingestionRun.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends IngestionRunFindFirstArgs>(args?: Prisma.SelectSubset<T, IngestionRunFindFirstArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first IngestionRun that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestionRunFindFirstOrThrowArgs} args - Arguments to find a IngestionRun
+   * @example
+   * // Get one IngestionRun
+   * const ingestionRun = await prisma.ingestionRun.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends IngestionRunFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, IngestionRunFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more IngestionRuns that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestionRunFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all IngestionRuns
+   * const ingestionRuns = await prisma.ingestionRun.findMany()
+   * 
+   * // Get first 10 IngestionRuns
+   * const ingestionRuns = await prisma.ingestionRun.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const ingestionRunWithIdOnly = await prisma.ingestionRun.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends IngestionRunFindManyArgs>(args?: Prisma.SelectSubset<T, IngestionRunFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a IngestionRun.
+   * @param {IngestionRunCreateArgs} args - Arguments to create a IngestionRun.
+   * @example
+   * // Create one IngestionRun
+   * const IngestionRun = await prisma.ingestionRun.create({
+   *   data: {
+   *     // ... data to create a IngestionRun
+   *   }
+   * })
+   * 
+   */
+  create<T extends IngestionRunCreateArgs>(args: Prisma.SelectSubset<T, IngestionRunCreateArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many IngestionRuns.
+   * @param {IngestionRunCreateManyArgs} args - Arguments to create many IngestionRuns.
+   * @example
+   * // Create many IngestionRuns
+   * const ingestionRun = await prisma.ingestionRun.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends IngestionRunCreateManyArgs>(args?: Prisma.SelectSubset<T, IngestionRunCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many IngestionRuns and returns the data saved in the database.
+   * @param {IngestionRunCreateManyAndReturnArgs} args - Arguments to create many IngestionRuns.
+   * @example
+   * // Create many IngestionRuns
+   * const ingestionRun = await prisma.ingestionRun.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many IngestionRuns and only return the `id`
+   * const ingestionRunWithIdOnly = await prisma.ingestionRun.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends IngestionRunCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, IngestionRunCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a IngestionRun.
+   * @param {IngestionRunDeleteArgs} args - Arguments to delete one IngestionRun.
+   * @example
+   * // Delete one IngestionRun
+   * const IngestionRun = await prisma.ingestionRun.delete({
+   *   where: {
+   *     // ... filter to delete one IngestionRun
+   *   }
+   * })
+   * 
+   */
+  delete<T extends IngestionRunDeleteArgs>(args: Prisma.SelectSubset<T, IngestionRunDeleteArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one IngestionRun.
+   * @param {IngestionRunUpdateArgs} args - Arguments to update one IngestionRun.
+   * @example
+   * // Update one IngestionRun
+   * const ingestionRun = await prisma.ingestionRun.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends IngestionRunUpdateArgs>(args: Prisma.SelectSubset<T, IngestionRunUpdateArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more IngestionRuns.
+   * @param {IngestionRunDeleteManyArgs} args - Arguments to filter IngestionRuns to delete.
+   * @example
+   * // Delete a few IngestionRuns
+   * const { count } = await prisma.ingestionRun.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends IngestionRunDeleteManyArgs>(args?: Prisma.SelectSubset<T, IngestionRunDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more IngestionRuns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestionRunUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many IngestionRuns
+   * const ingestionRun = await prisma.ingestionRun.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends IngestionRunUpdateManyArgs>(args: Prisma.SelectSubset<T, IngestionRunUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more IngestionRuns and returns the data updated in the database.
+   * @param {IngestionRunUpdateManyAndReturnArgs} args - Arguments to update many IngestionRuns.
+   * @example
+   * // Update many IngestionRuns
+   * const ingestionRun = await prisma.ingestionRun.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more IngestionRuns and only return the `id`
+   * const ingestionRunWithIdOnly = await prisma.ingestionRun.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends IngestionRunUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, IngestionRunUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one IngestionRun.
+   * @param {IngestionRunUpsertArgs} args - Arguments to update or create a IngestionRun.
+   * @example
+   * // Update or create a IngestionRun
+   * const ingestionRun = await prisma.ingestionRun.upsert({
+   *   create: {
+   *     // ... data to create a IngestionRun
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the IngestionRun we want to update
+   *   }
+   * })
+   */
+  upsert<T extends IngestionRunUpsertArgs>(args: Prisma.SelectSubset<T, IngestionRunUpsertArgs<ExtArgs>>): Prisma.Prisma__IngestionRunClient<runtime.Types.Result.GetResult<Prisma.$IngestionRunPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of IngestionRuns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestionRunCountArgs} args - Arguments to filter IngestionRuns to count.
+   * @example
+   * // Count the number of IngestionRuns
+   * const count = await prisma.ingestionRun.count({
+   *   where: {
+   *     // ... the filter for the IngestionRuns we want to count
+   *   }
+   * })
+  **/
+  count<T extends IngestionRunCountArgs>(
+    args?: Prisma.Subset<T, IngestionRunCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], IngestionRunCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a IngestionRun.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestionRunAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends IngestionRunAggregateArgs>(args: Prisma.Subset<T, IngestionRunAggregateArgs>): Prisma.PrismaPromise<GetIngestionRunAggregateType<T>>
+
+  /**
+   * Group by IngestionRun.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IngestionRunGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends IngestionRunGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: IngestionRunGroupByArgs['orderBy'] }
+      : { orderBy?: IngestionRunGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, IngestionRunGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetIngestionRunGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the IngestionRun model
+ */
+readonly fields: IngestionRunFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for IngestionRun.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__IngestionRunClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  files<T extends Prisma.IngestionRun$filesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.IngestionRun$filesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IngestedFilePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the IngestionRun model
+ */
+export interface IngestionRunFieldRefs {
+  readonly id: Prisma.FieldRef<"IngestionRun", 'String'>
+  readonly status: Prisma.FieldRef<"IngestionRun", 'String'>
+  readonly documentsFound: Prisma.FieldRef<"IngestionRun", 'Int'>
+  readonly documentsInserted: Prisma.FieldRef<"IngestionRun", 'Int'>
+  readonly documentsAdded: Prisma.FieldRef<"IngestionRun", 'Int'>
+  readonly documentsChanged: Prisma.FieldRef<"IngestionRun", 'Int'>
+  readonly documentsUnchanged: Prisma.FieldRef<"IngestionRun", 'Int'>
+  readonly manifestPath: Prisma.FieldRef<"IngestionRun", 'String'>
+  readonly manifestHash: Prisma.FieldRef<"IngestionRun", 'String'>
+  readonly startedAt: Prisma.FieldRef<"IngestionRun", 'DateTime'>
+  readonly finishedAt: Prisma.FieldRef<"IngestionRun", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * IngestionRun findUnique
+ */
+export type IngestionRunFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestionRun to fetch.
+   */
+  where: Prisma.IngestionRunWhereUniqueInput
+}
+
+/**
+ * IngestionRun findUniqueOrThrow
+ */
+export type IngestionRunFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestionRun to fetch.
+   */
+  where: Prisma.IngestionRunWhereUniqueInput
+}
+
+/**
+ * IngestionRun findFirst
+ */
+export type IngestionRunFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestionRun to fetch.
+   */
+  where?: Prisma.IngestionRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IngestionRuns to fetch.
+   */
+  orderBy?: Prisma.IngestionRunOrderByWithRelationInput | Prisma.IngestionRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for IngestionRuns.
+   */
+  cursor?: Prisma.IngestionRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IngestionRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IngestionRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of IngestionRuns.
+   */
+  distinct?: Prisma.IngestionRunScalarFieldEnum | Prisma.IngestionRunScalarFieldEnum[]
+}
+
+/**
+ * IngestionRun findFirstOrThrow
+ */
+export type IngestionRunFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestionRun to fetch.
+   */
+  where?: Prisma.IngestionRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IngestionRuns to fetch.
+   */
+  orderBy?: Prisma.IngestionRunOrderByWithRelationInput | Prisma.IngestionRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for IngestionRuns.
+   */
+  cursor?: Prisma.IngestionRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IngestionRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IngestionRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of IngestionRuns.
+   */
+  distinct?: Prisma.IngestionRunScalarFieldEnum | Prisma.IngestionRunScalarFieldEnum[]
+}
+
+/**
+ * IngestionRun findMany
+ */
+export type IngestionRunFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * Filter, which IngestionRuns to fetch.
+   */
+  where?: Prisma.IngestionRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of IngestionRuns to fetch.
+   */
+  orderBy?: Prisma.IngestionRunOrderByWithRelationInput | Prisma.IngestionRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing IngestionRuns.
+   */
+  cursor?: Prisma.IngestionRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` IngestionRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` IngestionRuns.
+   */
+  skip?: number
+  distinct?: Prisma.IngestionRunScalarFieldEnum | Prisma.IngestionRunScalarFieldEnum[]
+}
+
+/**
+ * IngestionRun create
+ */
+export type IngestionRunCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * The data needed to create a IngestionRun.
+   */
+  data: Prisma.XOR<Prisma.IngestionRunCreateInput, Prisma.IngestionRunUncheckedCreateInput>
+}
+
+/**
+ * IngestionRun createMany
+ */
+export type IngestionRunCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many IngestionRuns.
+   */
+  data: Prisma.IngestionRunCreateManyInput | Prisma.IngestionRunCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * IngestionRun createManyAndReturn
+ */
+export type IngestionRunCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * The data used to create many IngestionRuns.
+   */
+  data: Prisma.IngestionRunCreateManyInput | Prisma.IngestionRunCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * IngestionRun update
+ */
+export type IngestionRunUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * The data needed to update a IngestionRun.
+   */
+  data: Prisma.XOR<Prisma.IngestionRunUpdateInput, Prisma.IngestionRunUncheckedUpdateInput>
+  /**
+   * Choose, which IngestionRun to update.
+   */
+  where: Prisma.IngestionRunWhereUniqueInput
+}
+
+/**
+ * IngestionRun updateMany
+ */
+export type IngestionRunUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update IngestionRuns.
+   */
+  data: Prisma.XOR<Prisma.IngestionRunUpdateManyMutationInput, Prisma.IngestionRunUncheckedUpdateManyInput>
+  /**
+   * Filter which IngestionRuns to update
+   */
+  where?: Prisma.IngestionRunWhereInput
+  /**
+   * Limit how many IngestionRuns to update.
+   */
+  limit?: number
+}
+
+/**
+ * IngestionRun updateManyAndReturn
+ */
+export type IngestionRunUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * The data used to update IngestionRuns.
+   */
+  data: Prisma.XOR<Prisma.IngestionRunUpdateManyMutationInput, Prisma.IngestionRunUncheckedUpdateManyInput>
+  /**
+   * Filter which IngestionRuns to update
+   */
+  where?: Prisma.IngestionRunWhereInput
+  /**
+   * Limit how many IngestionRuns to update.
+   */
+  limit?: number
+}
+
+/**
+ * IngestionRun upsert
+ */
+export type IngestionRunUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * The filter to search for the IngestionRun to update in case it exists.
+   */
+  where: Prisma.IngestionRunWhereUniqueInput
+  /**
+   * In case the IngestionRun found by the `where` argument doesn't exist, create a new IngestionRun with this data.
+   */
+  create: Prisma.XOR<Prisma.IngestionRunCreateInput, Prisma.IngestionRunUncheckedCreateInput>
+  /**
+   * In case the IngestionRun was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.IngestionRunUpdateInput, Prisma.IngestionRunUncheckedUpdateInput>
+}
+
+/**
+ * IngestionRun delete
+ */
+export type IngestionRunDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+  /**
+   * Filter which IngestionRun to delete.
+   */
+  where: Prisma.IngestionRunWhereUniqueInput
+}
+
+/**
+ * IngestionRun deleteMany
+ */
+export type IngestionRunDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which IngestionRuns to delete
+   */
+  where?: Prisma.IngestionRunWhereInput
+  /**
+   * Limit how many IngestionRuns to delete.
+   */
+  limit?: number
+}
+
+/**
+ * IngestionRun.files
+ */
+export type IngestionRun$filesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestedFile
+   */
+  select?: Prisma.IngestedFileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestedFile
+   */
+  omit?: Prisma.IngestedFileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestedFileInclude<ExtArgs> | null
+  where?: Prisma.IngestedFileWhereInput
+  orderBy?: Prisma.IngestedFileOrderByWithRelationInput | Prisma.IngestedFileOrderByWithRelationInput[]
+  cursor?: Prisma.IngestedFileWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.IngestedFileScalarFieldEnum | Prisma.IngestedFileScalarFieldEnum[]
+}
+
+/**
+ * IngestionRun without action
+ */
+export type IngestionRunDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the IngestionRun
+   */
+  select?: Prisma.IngestionRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the IngestionRun
+   */
+  omit?: Prisma.IngestionRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IngestionRunInclude<ExtArgs> | null
+}
@@ -242,7 +242,9 @@ export type PassageWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"Passage"> | Date | string
   document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
   infons?: Prisma.PassageInfonListRelationFilter
+  sentences?: Prisma.SentenceListRelationFilter
   annotations?: Prisma.AnnotationListRelationFilter
+  relations?: Prisma.RelationListRelationFilter
 }
 
 export type PassageOrderByWithRelationInput = {
@@ -256,7 +258,9 @@ export type PassageOrderByWithRelationInput = {
   updatedAt?: Prisma.SortOrder
   document?: Prisma.DocumentOrderByWithRelationInput
   infons?: Prisma.PassageInfonOrderByRelationAggregateInput
+  sentences?: Prisma.SentenceOrderByRelationAggregateInput
   annotations?: Prisma.AnnotationOrderByRelationAggregateInput
+  relations?: Prisma.RelationOrderByRelationAggregateInput
 }
 
 export type PassageWhereUniqueInput = Prisma.AtLeast<{
@@ -273,7 +277,9 @@ export type PassageWhereUniqueInput = Prisma.AtLeast<{
   updatedAt?: Prisma.DateTimeFilter<"Passage"> | Date | string
   document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
   infons?: Prisma.PassageInfonListRelationFilter
+  sentences?: Prisma.SentenceListRelationFilter
   annotations?: Prisma.AnnotationListRelationFilter
+  relations?: Prisma.RelationListRelationFilter
 }, "id">
 
 export type PassageOrderByWithAggregationInput = {
@@ -316,7 +322,9 @@ export type PassageCreateInput = {
   updatedAt?: Date | string
   document: Prisma.DocumentCreateNestedOneWithoutPassagesInput
   infons?: Prisma.PassageInfonCreateNestedManyWithoutPassageInput
+  sentences?: Prisma.SentenceCreateNestedManyWithoutPassageInput
   annotations?: Prisma.AnnotationCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationCreateNestedManyWithoutPassageInput
 }
 
 export type PassageUncheckedCreateInput = {
@@ -329,7 +337,9 @@ export type PassageUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   infons?: Prisma.PassageInfonUncheckedCreateNestedManyWithoutPassageInput
+  sentences?: Prisma.SentenceUncheckedCreateNestedManyWithoutPassageInput
   annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutPassageInput
 }
 
 export type PassageUpdateInput = {
@@ -342,7 +352,9 @@ export type PassageUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   document?: Prisma.DocumentUpdateOneRequiredWithoutPassagesNestedInput
   infons?: Prisma.PassageInfonUpdateManyWithoutPassageNestedInput
+  sentences?: Prisma.SentenceUpdateManyWithoutPassageNestedInput
   annotations?: Prisma.AnnotationUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutPassageNestedInput
 }
 
 export type PassageUncheckedUpdateInput = {
@@ -355,7 +367,9 @@ export type PassageUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   infons?: Prisma.PassageInfonUncheckedUpdateManyWithoutPassageNestedInput
+  sentences?: Prisma.SentenceUncheckedUpdateManyWithoutPassageNestedInput
   annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutPassageNestedInput
 }
 
 export type PassageCreateManyInput = {
@@ -446,6 +460,11 @@ export type PassageScalarRelationFilter = {
   isNot?: Prisma.PassageWhereInput
 }
 
+export type PassageNullableScalarRelationFilter = {
+  is?: Prisma.PassageWhereInput | null
+  isNot?: Prisma.PassageWhereInput | null
+}
+
 export type PassageCreateNestedManyWithoutDocumentInput = {
   create?: Prisma.XOR<Prisma.PassageCreateWithoutDocumentInput, Prisma.PassageUncheckedCreateWithoutDocumentInput> | Prisma.PassageCreateWithoutDocumentInput[] | Prisma.PassageUncheckedCreateWithoutDocumentInput[]
   connectOrCreate?: Prisma.PassageCreateOrConnectWithoutDocumentInput | Prisma.PassageCreateOrConnectWithoutDocumentInput[]
@@ -510,20 +529,52 @@ export type PassageUpdateOneRequiredWithoutInfonsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.PassageUpdateToOneWithWhereWithoutInfonsInput, Prisma.PassageUpdateWithoutInfonsInput>, Prisma.PassageUncheckedUpdateWithoutInfonsInput>
 }
 
+export type PassageCreateNestedOneWithoutSentencesInput = {
+  create?: Prisma.XOR<Prisma.PassageCreateWithoutSentencesInput, Prisma.PassageUncheckedCreateWithoutSentencesInput>
+  connectOrCreate?: Prisma.PassageCreateOrConnectWithoutSentencesInput
+  connect?: Prisma.PassageWhereUniqueInput
+}
+
+export type PassageUpdateOneRequiredWithoutSentencesNestedInput = {
+  create?: Prisma.XOR<Prisma.PassageCreateWithoutSentencesInput, Prisma.PassageUncheckedCreateWithoutSentencesInput>
+  connectOrCreate?: Prisma.PassageCreateOrConnectWithoutSentencesInput
+  upsert?: Prisma.PassageUpsertWithoutSentencesInput
+  connect?: Prisma.PassageWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PassageUpdateToOneWithWhereWithoutSentencesInput, Prisma.PassageUpdateWithoutSentencesInput>, Prisma.PassageUncheckedUpdateWithoutSentencesInput>
+}
+
 export type PassageCreateNestedOneWithoutAnnotationsInput = {
   create?: Prisma.XOR<Prisma.PassageCreateWithoutAnnotationsInput, Prisma.PassageUncheckedCreateWithoutAnnotationsInput>
   connectOrCreate?: Prisma.PassageCreateOrConnectWithoutAnnotationsInput
   connect?: Prisma.PassageWhereUniqueInput
 }
 
-export type PassageUpdateOneRequiredWithoutAnnotationsNestedInput = {
+export type PassageUpdateOneWithoutAnnotationsNestedInput = {
   create?: Prisma.XOR<Prisma.PassageCreateWithoutAnnotationsInput, Prisma.PassageUncheckedCreateWithoutAnnotationsInput>
   connectOrCreate?: Prisma.PassageCreateOrConnectWithoutAnnotationsInput
   upsert?: Prisma.PassageUpsertWithoutAnnotationsInput
+  disconnect?: Prisma.PassageWhereInput | boolean
+  delete?: Prisma.PassageWhereInput | boolean
   connect?: Prisma.PassageWhereUniqueInput
   update?: Prisma.XOR<Prisma.XOR<Prisma.PassageUpdateToOneWithWhereWithoutAnnotationsInput, Prisma.PassageUpdateWithoutAnnotationsInput>, Prisma.PassageUncheckedUpdateWithoutAnnotationsInput>
 }
 
+export type PassageCreateNestedOneWithoutRelationsInput = {
+  create?: Prisma.XOR<Prisma.PassageCreateWithoutRelationsInput, Prisma.PassageUncheckedCreateWithoutRelationsInput>
+  connectOrCreate?: Prisma.PassageCreateOrConnectWithoutRelationsInput
+  connect?: Prisma.PassageWhereUniqueInput
+}
+
+export type PassageUpdateOneWithoutRelationsNestedInput = {
+  create?: Prisma.XOR<Prisma.PassageCreateWithoutRelationsInput, Prisma.PassageUncheckedCreateWithoutRelationsInput>
+  connectOrCreate?: Prisma.PassageCreateOrConnectWithoutRelationsInput
+  upsert?: Prisma.PassageUpsertWithoutRelationsInput
+  disconnect?: Prisma.PassageWhereInput | boolean
+  delete?: Prisma.PassageWhereInput | boolean
+  connect?: Prisma.PassageWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PassageUpdateToOneWithWhereWithoutRelationsInput, Prisma.PassageUpdateWithoutRelationsInput>, Prisma.PassageUncheckedUpdateWithoutRelationsInput>
+}
+
 export type PassageCreateWithoutDocumentInput = {
   id?: string
   offset: number
@@ -533,7 +584,9 @@ export type PassageCreateWithoutDocumentInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   infons?: Prisma.PassageInfonCreateNestedManyWithoutPassageInput
+  sentences?: Prisma.SentenceCreateNestedManyWithoutPassageInput
   annotations?: Prisma.AnnotationCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationCreateNestedManyWithoutPassageInput
 }
 
 export type PassageUncheckedCreateWithoutDocumentInput = {
@@ -545,7 +598,9 @@ export type PassageUncheckedCreateWithoutDocumentInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   infons?: Prisma.PassageInfonUncheckedCreateNestedManyWithoutPassageInput
+  sentences?: Prisma.SentenceUncheckedCreateNestedManyWithoutPassageInput
   annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutPassageInput
 }
 
 export type PassageCreateOrConnectWithoutDocumentInput = {
@@ -597,7 +652,9 @@ export type PassageCreateWithoutInfonsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   document: Prisma.DocumentCreateNestedOneWithoutPassagesInput
+  sentences?: Prisma.SentenceCreateNestedManyWithoutPassageInput
   annotations?: Prisma.AnnotationCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationCreateNestedManyWithoutPassageInput
 }
 
 export type PassageUncheckedCreateWithoutInfonsInput = {
@@ -609,7 +666,9 @@ export type PassageUncheckedCreateWithoutInfonsInput = {
   type?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  sentences?: Prisma.SentenceUncheckedCreateNestedManyWithoutPassageInput
   annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutPassageInput
 }
 
 export type PassageCreateOrConnectWithoutInfonsInput = {
@@ -637,7 +696,9 @@ export type PassageUpdateWithoutInfonsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   document?: Prisma.DocumentUpdateOneRequiredWithoutPassagesNestedInput
+  sentences?: Prisma.SentenceUpdateManyWithoutPassageNestedInput
   annotations?: Prisma.AnnotationUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutPassageNestedInput
 }
 
 export type PassageUncheckedUpdateWithoutInfonsInput = {
@@ -649,7 +710,81 @@ export type PassageUncheckedUpdateWithoutInfonsInput = {
   type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentences?: Prisma.SentenceUncheckedUpdateManyWithoutPassageNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutPassageNestedInput
+}
+
+export type PassageCreateWithoutSentencesInput = {
+  id?: string
+  offset: number
+  text: string
+  sectionType?: string | null
+  type?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  document: Prisma.DocumentCreateNestedOneWithoutPassagesInput
+  infons?: Prisma.PassageInfonCreateNestedManyWithoutPassageInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationCreateNestedManyWithoutPassageInput
+}
+
+export type PassageUncheckedCreateWithoutSentencesInput = {
+  id?: string
+  documentId: string
+  offset: number
+  text: string
+  sectionType?: string | null
+  type?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  infons?: Prisma.PassageInfonUncheckedCreateNestedManyWithoutPassageInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutPassageInput
+}
+
+export type PassageCreateOrConnectWithoutSentencesInput = {
+  where: Prisma.PassageWhereUniqueInput
+  create: Prisma.XOR<Prisma.PassageCreateWithoutSentencesInput, Prisma.PassageUncheckedCreateWithoutSentencesInput>
+}
+
+export type PassageUpsertWithoutSentencesInput = {
+  update: Prisma.XOR<Prisma.PassageUpdateWithoutSentencesInput, Prisma.PassageUncheckedUpdateWithoutSentencesInput>
+  create: Prisma.XOR<Prisma.PassageCreateWithoutSentencesInput, Prisma.PassageUncheckedCreateWithoutSentencesInput>
+  where?: Prisma.PassageWhereInput
+}
+
+export type PassageUpdateToOneWithWhereWithoutSentencesInput = {
+  where?: Prisma.PassageWhereInput
+  data: Prisma.XOR<Prisma.PassageUpdateWithoutSentencesInput, Prisma.PassageUncheckedUpdateWithoutSentencesInput>
+}
+
+export type PassageUpdateWithoutSentencesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  sectionType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutPassagesNestedInput
+  infons?: Prisma.PassageInfonUpdateManyWithoutPassageNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutPassageNestedInput
+}
+
+export type PassageUncheckedUpdateWithoutSentencesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  sectionType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.PassageInfonUncheckedUpdateManyWithoutPassageNestedInput
   annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutPassageNestedInput
 }
 
 export type PassageCreateWithoutAnnotationsInput = {
@@ -662,6 +797,8 @@ export type PassageCreateWithoutAnnotationsInput = {
   updatedAt?: Date | string
   document: Prisma.DocumentCreateNestedOneWithoutPassagesInput
   infons?: Prisma.PassageInfonCreateNestedManyWithoutPassageInput
+  sentences?: Prisma.SentenceCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationCreateNestedManyWithoutPassageInput
 }
 
 export type PassageUncheckedCreateWithoutAnnotationsInput = {
@@ -674,6 +811,8 @@ export type PassageUncheckedCreateWithoutAnnotationsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   infons?: Prisma.PassageInfonUncheckedCreateNestedManyWithoutPassageInput
+  sentences?: Prisma.SentenceUncheckedCreateNestedManyWithoutPassageInput
+  relations?: Prisma.RelationUncheckedCreateNestedManyWithoutPassageInput
 }
 
 export type PassageCreateOrConnectWithoutAnnotationsInput = {
@@ -702,6 +841,8 @@ export type PassageUpdateWithoutAnnotationsInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   document?: Prisma.DocumentUpdateOneRequiredWithoutPassagesNestedInput
   infons?: Prisma.PassageInfonUpdateManyWithoutPassageNestedInput
+  sentences?: Prisma.SentenceUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutPassageNestedInput
 }
 
 export type PassageUncheckedUpdateWithoutAnnotationsInput = {
@@ -714,6 +855,80 @@ export type PassageUncheckedUpdateWithoutAnnotationsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   infons?: Prisma.PassageInfonUncheckedUpdateManyWithoutPassageNestedInput
+  sentences?: Prisma.SentenceUncheckedUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutPassageNestedInput
+}
+
+export type PassageCreateWithoutRelationsInput = {
+  id?: string
+  offset: number
+  text: string
+  sectionType?: string | null
+  type?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  document: Prisma.DocumentCreateNestedOneWithoutPassagesInput
+  infons?: Prisma.PassageInfonCreateNestedManyWithoutPassageInput
+  sentences?: Prisma.SentenceCreateNestedManyWithoutPassageInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutPassageInput
+}
+
+export type PassageUncheckedCreateWithoutRelationsInput = {
+  id?: string
+  documentId: string
+  offset: number
+  text: string
+  sectionType?: string | null
+  type?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  infons?: Prisma.PassageInfonUncheckedCreateNestedManyWithoutPassageInput
+  sentences?: Prisma.SentenceUncheckedCreateNestedManyWithoutPassageInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutPassageInput
+}
+
+export type PassageCreateOrConnectWithoutRelationsInput = {
+  where: Prisma.PassageWhereUniqueInput
+  create: Prisma.XOR<Prisma.PassageCreateWithoutRelationsInput, Prisma.PassageUncheckedCreateWithoutRelationsInput>
+}
+
+export type PassageUpsertWithoutRelationsInput = {
+  update: Prisma.XOR<Prisma.PassageUpdateWithoutRelationsInput, Prisma.PassageUncheckedUpdateWithoutRelationsInput>
+  create: Prisma.XOR<Prisma.PassageCreateWithoutRelationsInput, Prisma.PassageUncheckedCreateWithoutRelationsInput>
+  where?: Prisma.PassageWhereInput
+}
+
+export type PassageUpdateToOneWithWhereWithoutRelationsInput = {
+  where?: Prisma.PassageWhereInput
+  data: Prisma.XOR<Prisma.PassageUpdateWithoutRelationsInput, Prisma.PassageUncheckedUpdateWithoutRelationsInput>
+}
+
+export type PassageUpdateWithoutRelationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  sectionType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutPassagesNestedInput
+  infons?: Prisma.PassageInfonUpdateManyWithoutPassageNestedInput
+  sentences?: Prisma.SentenceUpdateManyWithoutPassageNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutPassageNestedInput
+}
+
+export type PassageUncheckedUpdateWithoutRelationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  sectionType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.PassageInfonUncheckedUpdateManyWithoutPassageNestedInput
+  sentences?: Prisma.SentenceUncheckedUpdateManyWithoutPassageNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutPassageNestedInput
 }
 
 export type PassageCreateManyDocumentInput = {
@@ -735,7 +950,9 @@ export type PassageUpdateWithoutDocumentInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   infons?: Prisma.PassageInfonUpdateManyWithoutPassageNestedInput
+  sentences?: Prisma.SentenceUpdateManyWithoutPassageNestedInput
   annotations?: Prisma.AnnotationUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUpdateManyWithoutPassageNestedInput
 }
 
 export type PassageUncheckedUpdateWithoutDocumentInput = {
@@ -747,7 +964,9 @@ export type PassageUncheckedUpdateWithoutDocumentInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   infons?: Prisma.PassageInfonUncheckedUpdateManyWithoutPassageNestedInput
+  sentences?: Prisma.SentenceUncheckedUpdateManyWithoutPassageNestedInput
   annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutPassageNestedInput
+  relations?: Prisma.RelationUncheckedUpdateManyWithoutPassageNestedInput
 }
 
 export type PassageUncheckedUpdateManyWithoutDocumentInput = {
@@ -767,12 +986,16 @@ export type PassageUncheckedUpdateManyWithoutDocumentInput = {
 
 export type PassageCountOutputType = {
   infons: number
+  sentences: number
   annotations: number
+  relations: number
 }
 
 export type PassageCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   infons?: boolean | PassageCountOutputTypeCountInfonsArgs
+  sentences?: boolean | PassageCountOutputTypeCountSentencesArgs
   annotations?: boolean | PassageCountOutputTypeCountAnnotationsArgs
+  relations?: boolean | PassageCountOutputTypeCountRelationsArgs
 }
 
 /**
@@ -792,6 +1015,13 @@ export type PassageCountOutputTypeCountInfonsArgs<ExtArgs extends runtime.Types.
   where?: Prisma.PassageInfonWhereInput
 }
 
+/**
+ * PassageCountOutputType without action
+ */
+export type PassageCountOutputTypeCountSentencesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SentenceWhereInput
+}
+
 /**
  * PassageCountOutputType without action
  */
@@ -799,6 +1029,13 @@ export type PassageCountOutputTypeCountAnnotationsArgs<ExtArgs extends runtime.T
   where?: Prisma.AnnotationWhereInput
 }
 
+/**
+ * PassageCountOutputType without action
+ */
+export type PassageCountOutputTypeCountRelationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RelationWhereInput
+}
+
 
 export type PassageSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -811,7 +1048,9 @@ export type PassageSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   updatedAt?: boolean
   document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
   infons?: boolean | Prisma.Passage$infonsArgs<ExtArgs>
+  sentences?: boolean | Prisma.Passage$sentencesArgs<ExtArgs>
   annotations?: boolean | Prisma.Passage$annotationsArgs<ExtArgs>
+  relations?: boolean | Prisma.Passage$relationsArgs<ExtArgs>
   _count?: boolean | Prisma.PassageCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["passage"]>
 
@@ -854,7 +1093,9 @@ export type PassageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs =
 export type PassageInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
   infons?: boolean | Prisma.Passage$infonsArgs<ExtArgs>
+  sentences?: boolean | Prisma.Passage$sentencesArgs<ExtArgs>
   annotations?: boolean | Prisma.Passage$annotationsArgs<ExtArgs>
+  relations?: boolean | Prisma.Passage$relationsArgs<ExtArgs>
   _count?: boolean | Prisma.PassageCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type PassageIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -869,7 +1110,9 @@ export type $PassagePayload<ExtArgs extends runtime.Types.Extensions.InternalArg
   objects: {
     document: Prisma.$DocumentPayload<ExtArgs>
     infons: Prisma.$PassageInfonPayload<ExtArgs>[]
+    sentences: Prisma.$SentencePayload<ExtArgs>[]
     annotations: Prisma.$AnnotationPayload<ExtArgs>[]
+    relations: Prisma.$RelationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1276,7 +1519,9 @@ export interface Prisma__PassageClient<T, Null = never, ExtArgs extends runtime.
   readonly [Symbol.toStringTag]: "PrismaPromise"
   document<T extends Prisma.DocumentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   infons<T extends Prisma.Passage$infonsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Passage$infonsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PassageInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sentences<T extends Prisma.Passage$sentencesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Passage$sentencesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   annotations<T extends Prisma.Passage$annotationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Passage$annotationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  relations<T extends Prisma.Passage$relationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Passage$relationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1733,6 +1978,30 @@ export type Passage$infonsArgs<ExtArgs extends runtime.Types.Extensions.Internal
   distinct?: Prisma.PassageInfonScalarFieldEnum | Prisma.PassageInfonScalarFieldEnum[]
 }
 
+/**
+ * Passage.sentences
+ */
+export type Passage$sentencesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  where?: Prisma.SentenceWhereInput
+  orderBy?: Prisma.SentenceOrderByWithRelationInput | Prisma.SentenceOrderByWithRelationInput[]
+  cursor?: Prisma.SentenceWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SentenceScalarFieldEnum | Prisma.SentenceScalarFieldEnum[]
+}
+
 /**
  * Passage.annotations
  */
@@ -1757,6 +2026,30 @@ export type Passage$annotationsArgs<ExtArgs extends runtime.Types.Extensions.Int
   distinct?: Prisma.AnnotationScalarFieldEnum | Prisma.AnnotationScalarFieldEnum[]
 }
 
+/**
+ * Passage.relations
+ */
+export type Passage$relationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  where?: Prisma.RelationWhereInput
+  orderBy?: Prisma.RelationOrderByWithRelationInput | Prisma.RelationOrderByWithRelationInput[]
+  cursor?: Prisma.RelationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RelationScalarFieldEnum | Prisma.RelationScalarFieldEnum[]
+}
+
 /**
  * Passage without action
  */
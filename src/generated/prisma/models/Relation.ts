@@ -0,0 +1,1791 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Relation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Relation
+ * 
+ */
+export type RelationModel = runtime.Types.Result.DefaultSelection<Prisma.$RelationPayload>
+
+export type AggregateRelation = {
+  _count: RelationCountAggregateOutputType | null
+  _min: RelationMinAggregateOutputType | null
+  _max: RelationMaxAggregateOutputType | null
+}
+
+export type RelationMinAggregateOutputType = {
+  id: string | null
+  documentId: string | null
+  passageId: string | null
+  relationId: string | null
+  type: string | null
+  createdAt: Date | null
+}
+
+export type RelationMaxAggregateOutputType = {
+  id: string | null
+  documentId: string | null
+  passageId: string | null
+  relationId: string | null
+  type: string | null
+  createdAt: Date | null
+}
+
+export type RelationCountAggregateOutputType = {
+  id: number
+  documentId: number
+  passageId: number
+  relationId: number
+  type: number
+  createdAt: number
+  _all: number
+}
+
+
+export type RelationMinAggregateInputType = {
+  id?: true
+  documentId?: true
+  passageId?: true
+  relationId?: true
+  type?: true
+  createdAt?: true
+}
+
+export type RelationMaxAggregateInputType = {
+  id?: true
+  documentId?: true
+  passageId?: true
+  relationId?: true
+  type?: true
+  createdAt?: true
+}
+
+export type RelationCountAggregateInputType = {
+  id?: true
+  documentId?: true
+  passageId?: true
+  relationId?: true
+  type?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type RelationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Relation to aggregate.
+   */
+  where?: Prisma.RelationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Relations to fetch.
+   */
+  orderBy?: Prisma.RelationOrderByWithRelationInput | Prisma.RelationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RelationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Relations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Relations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Relations
+  **/
+  _count?: true | RelationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RelationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RelationMaxAggregateInputType
+}
+
+export type GetRelationAggregateType<T extends RelationAggregateArgs> = {
+      [P in keyof T & keyof AggregateRelation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRelation[P]>
+    : Prisma.GetScalarType<T[P], AggregateRelation[P]>
+}
+
+
+
+
+export type RelationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RelationWhereInput
+  orderBy?: Prisma.RelationOrderByWithAggregationInput | Prisma.RelationOrderByWithAggregationInput[]
+  by: Prisma.RelationScalarFieldEnum[] | Prisma.RelationScalarFieldEnum
+  having?: Prisma.RelationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RelationCountAggregateInputType | true
+  _min?: RelationMinAggregateInputType
+  _max?: RelationMaxAggregateInputType
+}
+
+export type RelationGroupByOutputType = {
+  id: string
+  documentId: string
+  passageId: string | null
+  relationId: string
+  type: string | null
+  createdAt: Date
+  _count: RelationCountAggregateOutputType | null
+  _min: RelationMinAggregateOutputType | null
+  _max: RelationMaxAggregateOutputType | null
+}
+
+type GetRelationGroupByPayload<T extends RelationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RelationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RelationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RelationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RelationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RelationWhereInput = {
+  AND?: Prisma.RelationWhereInput | Prisma.RelationWhereInput[]
+  OR?: Prisma.RelationWhereInput[]
+  NOT?: Prisma.RelationWhereInput | Prisma.RelationWhereInput[]
+  id?: Prisma.StringFilter<"Relation"> | string
+  documentId?: Prisma.StringFilter<"Relation"> | string
+  passageId?: Prisma.StringNullableFilter<"Relation"> | string | null
+  relationId?: Prisma.StringFilter<"Relation"> | string
+  type?: Prisma.StringNullableFilter<"Relation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Relation"> | Date | string
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+  passage?: Prisma.XOR<Prisma.PassageNullableScalarRelationFilter, Prisma.PassageWhereInput> | null
+  infons?: Prisma.RelationInfonListRelationFilter
+  nodes?: Prisma.RelationNodeListRelationFilter
+}
+
+export type RelationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  passageId?: Prisma.SortOrderInput | Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  type?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  document?: Prisma.DocumentOrderByWithRelationInput
+  passage?: Prisma.PassageOrderByWithRelationInput
+  infons?: Prisma.RelationInfonOrderByRelationAggregateInput
+  nodes?: Prisma.RelationNodeOrderByRelationAggregateInput
+}
+
+export type RelationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RelationWhereInput | Prisma.RelationWhereInput[]
+  OR?: Prisma.RelationWhereInput[]
+  NOT?: Prisma.RelationWhereInput | Prisma.RelationWhereInput[]
+  documentId?: Prisma.StringFilter<"Relation"> | string
+  passageId?: Prisma.StringNullableFilter<"Relation"> | string | null
+  relationId?: Prisma.StringFilter<"Relation"> | string
+  type?: Prisma.StringNullableFilter<"Relation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Relation"> | Date | string
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+  passage?: Prisma.XOR<Prisma.PassageNullableScalarRelationFilter, Prisma.PassageWhereInput> | null
+  infons?: Prisma.RelationInfonListRelationFilter
+  nodes?: Prisma.RelationNodeListRelationFilter
+}, "id">
+
+export type RelationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  passageId?: Prisma.SortOrderInput | Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  type?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.RelationCountOrderByAggregateInput
+  _max?: Prisma.RelationMaxOrderByAggregateInput
+  _min?: Prisma.RelationMinOrderByAggregateInput
+}
+
+export type RelationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RelationScalarWhereWithAggregatesInput | Prisma.RelationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RelationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RelationScalarWhereWithAggregatesInput | Prisma.RelationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Relation"> | string
+  documentId?: Prisma.StringWithAggregatesFilter<"Relation"> | string
+  passageId?: Prisma.StringNullableWithAggregatesFilter<"Relation"> | string | null
+  relationId?: Prisma.StringWithAggregatesFilter<"Relation"> | string
+  type?: Prisma.StringNullableWithAggregatesFilter<"Relation"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Relation"> | Date | string
+}
+
+export type RelationCreateInput = {
+  id?: string
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  document: Prisma.DocumentCreateNestedOneWithoutRelationsInput
+  passage?: Prisma.PassageCreateNestedOneWithoutRelationsInput
+  infons?: Prisma.RelationInfonCreateNestedManyWithoutRelationInput
+  nodes?: Prisma.RelationNodeCreateNestedManyWithoutRelationInput
+}
+
+export type RelationUncheckedCreateInput = {
+  id?: string
+  documentId: string
+  passageId?: string | null
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  infons?: Prisma.RelationInfonUncheckedCreateNestedManyWithoutRelationInput
+  nodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutRelationInput
+}
+
+export type RelationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutRelationsNestedInput
+  passage?: Prisma.PassageUpdateOneWithoutRelationsNestedInput
+  infons?: Prisma.RelationInfonUpdateManyWithoutRelationNestedInput
+  nodes?: Prisma.RelationNodeUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.RelationInfonUncheckedUpdateManyWithoutRelationNestedInput
+  nodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationCreateManyInput = {
+  id?: string
+  documentId: string
+  passageId?: string | null
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationListRelationFilter = {
+  every?: Prisma.RelationWhereInput
+  some?: Prisma.RelationWhereInput
+  none?: Prisma.RelationWhereInput
+}
+
+export type RelationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RelationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  passageId?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  passageId?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  passageId?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationScalarRelationFilter = {
+  is?: Prisma.RelationWhereInput
+  isNot?: Prisma.RelationWhereInput
+}
+
+export type RelationCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutDocumentInput, Prisma.RelationUncheckedCreateWithoutDocumentInput> | Prisma.RelationCreateWithoutDocumentInput[] | Prisma.RelationUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutDocumentInput | Prisma.RelationCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.RelationCreateManyDocumentInputEnvelope
+  connect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+}
+
+export type RelationUncheckedCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutDocumentInput, Prisma.RelationUncheckedCreateWithoutDocumentInput> | Prisma.RelationCreateWithoutDocumentInput[] | Prisma.RelationUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutDocumentInput | Prisma.RelationCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.RelationCreateManyDocumentInputEnvelope
+  connect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+}
+
+export type RelationUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutDocumentInput, Prisma.RelationUncheckedCreateWithoutDocumentInput> | Prisma.RelationCreateWithoutDocumentInput[] | Prisma.RelationUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutDocumentInput | Prisma.RelationCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.RelationUpsertWithWhereUniqueWithoutDocumentInput | Prisma.RelationUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.RelationCreateManyDocumentInputEnvelope
+  set?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  disconnect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  delete?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  connect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  update?: Prisma.RelationUpdateWithWhereUniqueWithoutDocumentInput | Prisma.RelationUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.RelationUpdateManyWithWhereWithoutDocumentInput | Prisma.RelationUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.RelationScalarWhereInput | Prisma.RelationScalarWhereInput[]
+}
+
+export type RelationUncheckedUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutDocumentInput, Prisma.RelationUncheckedCreateWithoutDocumentInput> | Prisma.RelationCreateWithoutDocumentInput[] | Prisma.RelationUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutDocumentInput | Prisma.RelationCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.RelationUpsertWithWhereUniqueWithoutDocumentInput | Prisma.RelationUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.RelationCreateManyDocumentInputEnvelope
+  set?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  disconnect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  delete?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  connect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  update?: Prisma.RelationUpdateWithWhereUniqueWithoutDocumentInput | Prisma.RelationUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.RelationUpdateManyWithWhereWithoutDocumentInput | Prisma.RelationUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.RelationScalarWhereInput | Prisma.RelationScalarWhereInput[]
+}
+
+export type RelationCreateNestedManyWithoutPassageInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutPassageInput, Prisma.RelationUncheckedCreateWithoutPassageInput> | Prisma.RelationCreateWithoutPassageInput[] | Prisma.RelationUncheckedCreateWithoutPassageInput[]
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutPassageInput | Prisma.RelationCreateOrConnectWithoutPassageInput[]
+  createMany?: Prisma.RelationCreateManyPassageInputEnvelope
+  connect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+}
+
+export type RelationUncheckedCreateNestedManyWithoutPassageInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutPassageInput, Prisma.RelationUncheckedCreateWithoutPassageInput> | Prisma.RelationCreateWithoutPassageInput[] | Prisma.RelationUncheckedCreateWithoutPassageInput[]
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutPassageInput | Prisma.RelationCreateOrConnectWithoutPassageInput[]
+  createMany?: Prisma.RelationCreateManyPassageInputEnvelope
+  connect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+}
+
+export type RelationUpdateManyWithoutPassageNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutPassageInput, Prisma.RelationUncheckedCreateWithoutPassageInput> | Prisma.RelationCreateWithoutPassageInput[] | Prisma.RelationUncheckedCreateWithoutPassageInput[]
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutPassageInput | Prisma.RelationCreateOrConnectWithoutPassageInput[]
+  upsert?: Prisma.RelationUpsertWithWhereUniqueWithoutPassageInput | Prisma.RelationUpsertWithWhereUniqueWithoutPassageInput[]
+  createMany?: Prisma.RelationCreateManyPassageInputEnvelope
+  set?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  disconnect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  delete?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  connect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  update?: Prisma.RelationUpdateWithWhereUniqueWithoutPassageInput | Prisma.RelationUpdateWithWhereUniqueWithoutPassageInput[]
+  updateMany?: Prisma.RelationUpdateManyWithWhereWithoutPassageInput | Prisma.RelationUpdateManyWithWhereWithoutPassageInput[]
+  deleteMany?: Prisma.RelationScalarWhereInput | Prisma.RelationScalarWhereInput[]
+}
+
+export type RelationUncheckedUpdateManyWithoutPassageNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutPassageInput, Prisma.RelationUncheckedCreateWithoutPassageInput> | Prisma.RelationCreateWithoutPassageInput[] | Prisma.RelationUncheckedCreateWithoutPassageInput[]
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutPassageInput | Prisma.RelationCreateOrConnectWithoutPassageInput[]
+  upsert?: Prisma.RelationUpsertWithWhereUniqueWithoutPassageInput | Prisma.RelationUpsertWithWhereUniqueWithoutPassageInput[]
+  createMany?: Prisma.RelationCreateManyPassageInputEnvelope
+  set?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  disconnect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  delete?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  connect?: Prisma.RelationWhereUniqueInput | Prisma.RelationWhereUniqueInput[]
+  update?: Prisma.RelationUpdateWithWhereUniqueWithoutPassageInput | Prisma.RelationUpdateWithWhereUniqueWithoutPassageInput[]
+  updateMany?: Prisma.RelationUpdateManyWithWhereWithoutPassageInput | Prisma.RelationUpdateManyWithWhereWithoutPassageInput[]
+  deleteMany?: Prisma.RelationScalarWhereInput | Prisma.RelationScalarWhereInput[]
+}
+
+export type RelationCreateNestedOneWithoutInfonsInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutInfonsInput, Prisma.RelationUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutInfonsInput
+  connect?: Prisma.RelationWhereUniqueInput
+}
+
+export type RelationUpdateOneRequiredWithoutInfonsNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutInfonsInput, Prisma.RelationUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutInfonsInput
+  upsert?: Prisma.RelationUpsertWithoutInfonsInput
+  connect?: Prisma.RelationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RelationUpdateToOneWithWhereWithoutInfonsInput, Prisma.RelationUpdateWithoutInfonsInput>, Prisma.RelationUncheckedUpdateWithoutInfonsInput>
+}
+
+export type RelationCreateNestedOneWithoutNodesInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutNodesInput, Prisma.RelationUncheckedCreateWithoutNodesInput>
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutNodesInput
+  connect?: Prisma.RelationWhereUniqueInput
+}
+
+export type RelationUpdateOneRequiredWithoutNodesNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationCreateWithoutNodesInput, Prisma.RelationUncheckedCreateWithoutNodesInput>
+  connectOrCreate?: Prisma.RelationCreateOrConnectWithoutNodesInput
+  upsert?: Prisma.RelationUpsertWithoutNodesInput
+  connect?: Prisma.RelationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RelationUpdateToOneWithWhereWithoutNodesInput, Prisma.RelationUpdateWithoutNodesInput>, Prisma.RelationUncheckedUpdateWithoutNodesInput>
+}
+
+export type RelationCreateWithoutDocumentInput = {
+  id?: string
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  passage?: Prisma.PassageCreateNestedOneWithoutRelationsInput
+  infons?: Prisma.RelationInfonCreateNestedManyWithoutRelationInput
+  nodes?: Prisma.RelationNodeCreateNestedManyWithoutRelationInput
+}
+
+export type RelationUncheckedCreateWithoutDocumentInput = {
+  id?: string
+  passageId?: string | null
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  infons?: Prisma.RelationInfonUncheckedCreateNestedManyWithoutRelationInput
+  nodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutRelationInput
+}
+
+export type RelationCreateOrConnectWithoutDocumentInput = {
+  where: Prisma.RelationWhereUniqueInput
+  create: Prisma.XOR<Prisma.RelationCreateWithoutDocumentInput, Prisma.RelationUncheckedCreateWithoutDocumentInput>
+}
+
+export type RelationCreateManyDocumentInputEnvelope = {
+  data: Prisma.RelationCreateManyDocumentInput | Prisma.RelationCreateManyDocumentInput[]
+  skipDuplicates?: boolean
+}
+
+export type RelationUpsertWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.RelationWhereUniqueInput
+  update: Prisma.XOR<Prisma.RelationUpdateWithoutDocumentInput, Prisma.RelationUncheckedUpdateWithoutDocumentInput>
+  create: Prisma.XOR<Prisma.RelationCreateWithoutDocumentInput, Prisma.RelationUncheckedCreateWithoutDocumentInput>
+}
+
+export type RelationUpdateWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.RelationWhereUniqueInput
+  data: Prisma.XOR<Prisma.RelationUpdateWithoutDocumentInput, Prisma.RelationUncheckedUpdateWithoutDocumentInput>
+}
+
+export type RelationUpdateManyWithWhereWithoutDocumentInput = {
+  where: Prisma.RelationScalarWhereInput
+  data: Prisma.XOR<Prisma.RelationUpdateManyMutationInput, Prisma.RelationUncheckedUpdateManyWithoutDocumentInput>
+}
+
+export type RelationScalarWhereInput = {
+  AND?: Prisma.RelationScalarWhereInput | Prisma.RelationScalarWhereInput[]
+  OR?: Prisma.RelationScalarWhereInput[]
+  NOT?: Prisma.RelationScalarWhereInput | Prisma.RelationScalarWhereInput[]
+  id?: Prisma.StringFilter<"Relation"> | string
+  documentId?: Prisma.StringFilter<"Relation"> | string
+  passageId?: Prisma.StringNullableFilter<"Relation"> | string | null
+  relationId?: Prisma.StringFilter<"Relation"> | string
+  type?: Prisma.StringNullableFilter<"Relation"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Relation"> | Date | string
+}
+
+export type RelationCreateWithoutPassageInput = {
+  id?: string
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  document: Prisma.DocumentCreateNestedOneWithoutRelationsInput
+  infons?: Prisma.RelationInfonCreateNestedManyWithoutRelationInput
+  nodes?: Prisma.RelationNodeCreateNestedManyWithoutRelationInput
+}
+
+export type RelationUncheckedCreateWithoutPassageInput = {
+  id?: string
+  documentId: string
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  infons?: Prisma.RelationInfonUncheckedCreateNestedManyWithoutRelationInput
+  nodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutRelationInput
+}
+
+export type RelationCreateOrConnectWithoutPassageInput = {
+  where: Prisma.RelationWhereUniqueInput
+  create: Prisma.XOR<Prisma.RelationCreateWithoutPassageInput, Prisma.RelationUncheckedCreateWithoutPassageInput>
+}
+
+export type RelationCreateManyPassageInputEnvelope = {
+  data: Prisma.RelationCreateManyPassageInput | Prisma.RelationCreateManyPassageInput[]
+  skipDuplicates?: boolean
+}
+
+export type RelationUpsertWithWhereUniqueWithoutPassageInput = {
+  where: Prisma.RelationWhereUniqueInput
+  update: Prisma.XOR<Prisma.RelationUpdateWithoutPassageInput, Prisma.RelationUncheckedUpdateWithoutPassageInput>
+  create: Prisma.XOR<Prisma.RelationCreateWithoutPassageInput, Prisma.RelationUncheckedCreateWithoutPassageInput>
+}
+
+export type RelationUpdateWithWhereUniqueWithoutPassageInput = {
+  where: Prisma.RelationWhereUniqueInput
+  data: Prisma.XOR<Prisma.RelationUpdateWithoutPassageInput, Prisma.RelationUncheckedUpdateWithoutPassageInput>
+}
+
+export type RelationUpdateManyWithWhereWithoutPassageInput = {
+  where: Prisma.RelationScalarWhereInput
+  data: Prisma.XOR<Prisma.RelationUpdateManyMutationInput, Prisma.RelationUncheckedUpdateManyWithoutPassageInput>
+}
+
+export type RelationCreateWithoutInfonsInput = {
+  id?: string
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  document: Prisma.DocumentCreateNestedOneWithoutRelationsInput
+  passage?: Prisma.PassageCreateNestedOneWithoutRelationsInput
+  nodes?: Prisma.RelationNodeCreateNestedManyWithoutRelationInput
+}
+
+export type RelationUncheckedCreateWithoutInfonsInput = {
+  id?: string
+  documentId: string
+  passageId?: string | null
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  nodes?: Prisma.RelationNodeUncheckedCreateNestedManyWithoutRelationInput
+}
+
+export type RelationCreateOrConnectWithoutInfonsInput = {
+  where: Prisma.RelationWhereUniqueInput
+  create: Prisma.XOR<Prisma.RelationCreateWithoutInfonsInput, Prisma.RelationUncheckedCreateWithoutInfonsInput>
+}
+
+export type RelationUpsertWithoutInfonsInput = {
+  update: Prisma.XOR<Prisma.RelationUpdateWithoutInfonsInput, Prisma.RelationUncheckedUpdateWithoutInfonsInput>
+  create: Prisma.XOR<Prisma.RelationCreateWithoutInfonsInput, Prisma.RelationUncheckedCreateWithoutInfonsInput>
+  where?: Prisma.RelationWhereInput
+}
+
+export type RelationUpdateToOneWithWhereWithoutInfonsInput = {
+  where?: Prisma.RelationWhereInput
+  data: Prisma.XOR<Prisma.RelationUpdateWithoutInfonsInput, Prisma.RelationUncheckedUpdateWithoutInfonsInput>
+}
+
+export type RelationUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutRelationsNestedInput
+  passage?: Prisma.PassageUpdateOneWithoutRelationsNestedInput
+  nodes?: Prisma.RelationNodeUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationUncheckedUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationCreateWithoutNodesInput = {
+  id?: string
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  document: Prisma.DocumentCreateNestedOneWithoutRelationsInput
+  passage?: Prisma.PassageCreateNestedOneWithoutRelationsInput
+  infons?: Prisma.RelationInfonCreateNestedManyWithoutRelationInput
+}
+
+export type RelationUncheckedCreateWithoutNodesInput = {
+  id?: string
+  documentId: string
+  passageId?: string | null
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+  infons?: Prisma.RelationInfonUncheckedCreateNestedManyWithoutRelationInput
+}
+
+export type RelationCreateOrConnectWithoutNodesInput = {
+  where: Prisma.RelationWhereUniqueInput
+  create: Prisma.XOR<Prisma.RelationCreateWithoutNodesInput, Prisma.RelationUncheckedCreateWithoutNodesInput>
+}
+
+export type RelationUpsertWithoutNodesInput = {
+  update: Prisma.XOR<Prisma.RelationUpdateWithoutNodesInput, Prisma.RelationUncheckedUpdateWithoutNodesInput>
+  create: Prisma.XOR<Prisma.RelationCreateWithoutNodesInput, Prisma.RelationUncheckedCreateWithoutNodesInput>
+  where?: Prisma.RelationWhereInput
+}
+
+export type RelationUpdateToOneWithWhereWithoutNodesInput = {
+  where?: Prisma.RelationWhereInput
+  data: Prisma.XOR<Prisma.RelationUpdateWithoutNodesInput, Prisma.RelationUncheckedUpdateWithoutNodesInput>
+}
+
+export type RelationUpdateWithoutNodesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutRelationsNestedInput
+  passage?: Prisma.PassageUpdateOneWithoutRelationsNestedInput
+  infons?: Prisma.RelationInfonUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationUncheckedUpdateWithoutNodesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.RelationInfonUncheckedUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationCreateManyDocumentInput = {
+  id?: string
+  passageId?: string | null
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationUpdateWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  passage?: Prisma.PassageUpdateOneWithoutRelationsNestedInput
+  infons?: Prisma.RelationInfonUpdateManyWithoutRelationNestedInput
+  nodes?: Prisma.RelationNodeUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationUncheckedUpdateWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.RelationInfonUncheckedUpdateManyWithoutRelationNestedInput
+  nodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationUncheckedUpdateManyWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationCreateManyPassageInput = {
+  id?: string
+  documentId: string
+  relationId: string
+  type?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationUpdateWithoutPassageInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutRelationsNestedInput
+  infons?: Prisma.RelationInfonUpdateManyWithoutRelationNestedInput
+  nodes?: Prisma.RelationNodeUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationUncheckedUpdateWithoutPassageInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.RelationInfonUncheckedUpdateManyWithoutRelationNestedInput
+  nodes?: Prisma.RelationNodeUncheckedUpdateManyWithoutRelationNestedInput
+}
+
+export type RelationUncheckedUpdateManyWithoutPassageInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type RelationCountOutputType
+ */
+
+export type RelationCountOutputType = {
+  infons: number
+  nodes: number
+}
+
+export type RelationCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  infons?: boolean | RelationCountOutputTypeCountInfonsArgs
+  nodes?: boolean | RelationCountOutputTypeCountNodesArgs
+}
+
+/**
+ * RelationCountOutputType without action
+ */
+export type RelationCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationCountOutputType
+   */
+  select?: Prisma.RelationCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * RelationCountOutputType without action
+ */
+export type RelationCountOutputTypeCountInfonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RelationInfonWhereInput
+}
+
+/**
+ * RelationCountOutputType without action
+ */
+export type RelationCountOutputTypeCountNodesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RelationNodeWhereInput
+}
+
+
+export type RelationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  documentId?: boolean
+  passageId?: boolean
+  relationId?: boolean
+  type?: boolean
+  createdAt?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  passage?: boolean | Prisma.Relation$passageArgs<ExtArgs>
+  infons?: boolean | Prisma.Relation$infonsArgs<ExtArgs>
+  nodes?: boolean | Prisma.Relation$nodesArgs<ExtArgs>
+  _count?: boolean | Prisma.RelationCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["relation"]>
+
+export type RelationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  documentId?: boolean
+  passageId?: boolean
+  relationId?: boolean
+  type?: boolean
+  createdAt?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  passage?: boolean | Prisma.Relation$passageArgs<ExtArgs>
+}, ExtArgs["result"]["relation"]>
+
+export type RelationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  documentId?: boolean
+  passageId?: boolean
+  relationId?: boolean
+  type?: boolean
+  createdAt?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  passage?: boolean | Prisma.Relation$passageArgs<ExtArgs>
+}, ExtArgs["result"]["relation"]>
+
+export type RelationSelectScalar = {
+  id?: boolean
+  documentId?: boolean
+  passageId?: boolean
+  relationId?: boolean
+  type?: boolean
+  createdAt?: boolean
+}
+
+export type RelationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "documentId" | "passageId" | "relationId" | "type" | "createdAt", ExtArgs["result"]["relation"]>
+export type RelationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  passage?: boolean | Prisma.Relation$passageArgs<ExtArgs>
+  infons?: boolean | Prisma.Relation$infonsArgs<ExtArgs>
+  nodes?: boolean | Prisma.Relation$nodesArgs<ExtArgs>
+  _count?: boolean | Prisma.RelationCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type RelationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  passage?: boolean | Prisma.Relation$passageArgs<ExtArgs>
+}
+export type RelationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  passage?: boolean | Prisma.Relation$passageArgs<ExtArgs>
+}
+
+export type $RelationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Relation"
+  objects: {
+    document: Prisma.$DocumentPayload<ExtArgs>
+    passage: Prisma.$PassagePayload<ExtArgs> | null
+    infons: Prisma.$RelationInfonPayload<ExtArgs>[]
+    nodes: Prisma.$RelationNodePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    documentId: string
+    passageId: string | null
+    relationId: string
+    type: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["relation"]>
+  composites: {}
+}
+
+export type RelationGetPayload<S extends boolean | null | undefined | RelationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RelationPayload, S>
+
+export type RelationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RelationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RelationCountAggregateInputType | true
+  }
+
+export interface RelationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Relation'], meta: { name: 'Relation' } }
+  /**
+   * Find zero or one Relation that matches the filter.
+   * @param {RelationFindUniqueArgs} args - Arguments to find a Relation
+   * @example
+   * // Get one Relation
+   * const relation = await prisma.relation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RelationFindUniqueArgs>(args: Prisma.SelectSubset<T, RelationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Relation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RelationFindUniqueOrThrowArgs} args - Arguments to find a Relation
+   * @example
+   * // Get one Relation
+   * const relation = await prisma.relation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RelationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RelationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Relation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationFindFirstArgs} args - Arguments to find a Relation
+   * @example
+   * // Get one Relation
+   * const relation = await prisma.relation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RelationFindFirstArgs>(args?: Prisma.SelectSubset<T, RelationFindFirstArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Relation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationFindFirstOrThrowArgs} args - Arguments to find a Relation
+   * @example
+   * // Get one Relation
+   * const relation = await prisma.relation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RelationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RelationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Relations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Relations
+   * const relations = await prisma.relation.findMany()
+   * 
+   * // Get first 10 Relations
+   * const relations = await prisma.relation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const relationWithIdOnly = await prisma.relation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RelationFindManyArgs>(args?: Prisma.SelectSubset<T, RelationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Relation.
+   * @param {RelationCreateArgs} args - Arguments to create a Relation.
+   * @example
+   * // Create one Relation
+   * const Relation = await prisma.relation.create({
+   *   data: {
+   *     // ... data to create a Relation
+   *   }
+   * })
+   * 
+   */
+  create<T extends RelationCreateArgs>(args: Prisma.SelectSubset<T, RelationCreateArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Relations.
+   * @param {RelationCreateManyArgs} args - Arguments to create many Relations.
+   * @example
+   * // Create many Relations
+   * const relation = await prisma.relation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RelationCreateManyArgs>(args?: Prisma.SelectSubset<T, RelationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Relations and returns the data saved in the database.
+   * @param {RelationCreateManyAndReturnArgs} args - Arguments to create many Relations.
+   * @example
+   * // Create many Relations
+   * const relation = await prisma.relation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Relations and only return the `id`
+   * const relationWithIdOnly = await prisma.relation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RelationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RelationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Relation.
+   * @param {RelationDeleteArgs} args - Arguments to delete one Relation.
+   * @example
+   * // Delete one Relation
+   * const Relation = await prisma.relation.delete({
+   *   where: {
+   *     // ... filter to delete one Relation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RelationDeleteArgs>(args: Prisma.SelectSubset<T, RelationDeleteArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Relation.
+   * @param {RelationUpdateArgs} args - Arguments to update one Relation.
+   * @example
+   * // Update one Relation
+   * const relation = await prisma.relation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RelationUpdateArgs>(args: Prisma.SelectSubset<T, RelationUpdateArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Relations.
+   * @param {RelationDeleteManyArgs} args - Arguments to filter Relations to delete.
+   * @example
+   * // Delete a few Relations
+   * const { count } = await prisma.relation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RelationDeleteManyArgs>(args?: Prisma.SelectSubset<T, RelationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Relations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Relations
+   * const relation = await prisma.relation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RelationUpdateManyArgs>(args: Prisma.SelectSubset<T, RelationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Relations and returns the data updated in the database.
+   * @param {RelationUpdateManyAndReturnArgs} args - Arguments to update many Relations.
+   * @example
+   * // Update many Relations
+   * const relation = await prisma.relation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Relations and only return the `id`
+   * const relationWithIdOnly = await prisma.relation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RelationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RelationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Relation.
+   * @param {RelationUpsertArgs} args - Arguments to update or create a Relation.
+   * @example
+   * // Update or create a Relation
+   * const relation = await prisma.relation.upsert({
+   *   create: {
+   *     // ... data to create a Relation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Relation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RelationUpsertArgs>(args: Prisma.SelectSubset<T, RelationUpsertArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Relations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationCountArgs} args - Arguments to filter Relations to count.
+   * @example
+   * // Count the number of Relations
+   * const count = await prisma.relation.count({
+   *   where: {
+   *     // ... the filter for the Relations we want to count
+   *   }
+   * })
+  **/
+  count<T extends RelationCountArgs>(
+    args?: Prisma.Subset<T, RelationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RelationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Relation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RelationAggregateArgs>(args: Prisma.Subset<T, RelationAggregateArgs>): Prisma.PrismaPromise<GetRelationAggregateType<T>>
+
+  /**
+   * Group by Relation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RelationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RelationGroupByArgs['orderBy'] }
+      : { orderBy?: RelationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RelationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRelationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Relation model
+ */
+readonly fields: RelationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Relation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RelationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  document<T extends Prisma.DocumentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  passage<T extends Prisma.Relation$passageArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Relation$passageArgs<ExtArgs>>): Prisma.Prisma__PassageClient<runtime.Types.Result.GetResult<Prisma.$PassagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  infons<T extends Prisma.Relation$infonsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Relation$infonsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  nodes<T extends Prisma.Relation$nodesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Relation$nodesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Relation model
+ */
+export interface RelationFieldRefs {
+  readonly id: Prisma.FieldRef<"Relation", 'String'>
+  readonly documentId: Prisma.FieldRef<"Relation", 'String'>
+  readonly passageId: Prisma.FieldRef<"Relation", 'String'>
+  readonly relationId: Prisma.FieldRef<"Relation", 'String'>
+  readonly type: Prisma.FieldRef<"Relation", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Relation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Relation findUnique
+ */
+export type RelationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * Filter, which Relation to fetch.
+   */
+  where: Prisma.RelationWhereUniqueInput
+}
+
+/**
+ * Relation findUniqueOrThrow
+ */
+export type RelationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * Filter, which Relation to fetch.
+   */
+  where: Prisma.RelationWhereUniqueInput
+}
+
+/**
+ * Relation findFirst
+ */
+export type RelationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * Filter, which Relation to fetch.
+   */
+  where?: Prisma.RelationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Relations to fetch.
+   */
+  orderBy?: Prisma.RelationOrderByWithRelationInput | Prisma.RelationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Relations.
+   */
+  cursor?: Prisma.RelationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Relations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Relations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Relations.
+   */
+  distinct?: Prisma.RelationScalarFieldEnum | Prisma.RelationScalarFieldEnum[]
+}
+
+/**
+ * Relation findFirstOrThrow
+ */
+export type RelationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * Filter, which Relation to fetch.
+   */
+  where?: Prisma.RelationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Relations to fetch.
+   */
+  orderBy?: Prisma.RelationOrderByWithRelationInput | Prisma.RelationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Relations.
+   */
+  cursor?: Prisma.RelationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Relations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Relations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Relations.
+   */
+  distinct?: Prisma.RelationScalarFieldEnum | Prisma.RelationScalarFieldEnum[]
+}
+
+/**
+ * Relation findMany
+ */
+export type RelationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * Filter, which Relations to fetch.
+   */
+  where?: Prisma.RelationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Relations to fetch.
+   */
+  orderBy?: Prisma.RelationOrderByWithRelationInput | Prisma.RelationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Relations.
+   */
+  cursor?: Prisma.RelationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Relations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Relations.
+   */
+  skip?: number
+  distinct?: Prisma.RelationScalarFieldEnum | Prisma.RelationScalarFieldEnum[]
+}
+
+/**
+ * Relation create
+ */
+export type RelationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Relation.
+   */
+  data: Prisma.XOR<Prisma.RelationCreateInput, Prisma.RelationUncheckedCreateInput>
+}
+
+/**
+ * Relation createMany
+ */
+export type RelationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Relations.
+   */
+  data: Prisma.RelationCreateManyInput | Prisma.RelationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Relation createManyAndReturn
+ */
+export type RelationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * The data used to create many Relations.
+   */
+  data: Prisma.RelationCreateManyInput | Prisma.RelationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Relation update
+ */
+export type RelationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Relation.
+   */
+  data: Prisma.XOR<Prisma.RelationUpdateInput, Prisma.RelationUncheckedUpdateInput>
+  /**
+   * Choose, which Relation to update.
+   */
+  where: Prisma.RelationWhereUniqueInput
+}
+
+/**
+ * Relation updateMany
+ */
+export type RelationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Relations.
+   */
+  data: Prisma.XOR<Prisma.RelationUpdateManyMutationInput, Prisma.RelationUncheckedUpdateManyInput>
+  /**
+   * Filter which Relations to update
+   */
+  where?: Prisma.RelationWhereInput
+  /**
+   * Limit how many Relations to update.
+   */
+  limit?: number
+}
+
+/**
+ * Relation updateManyAndReturn
+ */
+export type RelationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * The data used to update Relations.
+   */
+  data: Prisma.XOR<Prisma.RelationUpdateManyMutationInput, Prisma.RelationUncheckedUpdateManyInput>
+  /**
+   * Filter which Relations to update
+   */
+  where?: Prisma.RelationWhereInput
+  /**
+   * Limit how many Relations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Relation upsert
+ */
+export type RelationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Relation to update in case it exists.
+   */
+  where: Prisma.RelationWhereUniqueInput
+  /**
+   * In case the Relation found by the `where` argument doesn't exist, create a new Relation with this data.
+   */
+  create: Prisma.XOR<Prisma.RelationCreateInput, Prisma.RelationUncheckedCreateInput>
+  /**
+   * In case the Relation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RelationUpdateInput, Prisma.RelationUncheckedUpdateInput>
+}
+
+/**
+ * Relation delete
+ */
+export type RelationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+  /**
+   * Filter which Relation to delete.
+   */
+  where: Prisma.RelationWhereUniqueInput
+}
+
+/**
+ * Relation deleteMany
+ */
+export type RelationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Relations to delete
+   */
+  where?: Prisma.RelationWhereInput
+  /**
+   * Limit how many Relations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Relation.passage
+ */
+export type Relation$passageArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Passage
+   */
+  select?: Prisma.PassageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Passage
+   */
+  omit?: Prisma.PassageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PassageInclude<ExtArgs> | null
+  where?: Prisma.PassageWhereInput
+}
+
+/**
+ * Relation.infons
+ */
+export type Relation$infonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  where?: Prisma.RelationInfonWhereInput
+  orderBy?: Prisma.RelationInfonOrderByWithRelationInput | Prisma.RelationInfonOrderByWithRelationInput[]
+  cursor?: Prisma.RelationInfonWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RelationInfonScalarFieldEnum | Prisma.RelationInfonScalarFieldEnum[]
+}
+
+/**
+ * Relation.nodes
+ */
+export type Relation$nodesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  where?: Prisma.RelationNodeWhereInput
+  orderBy?: Prisma.RelationNodeOrderByWithRelationInput | Prisma.RelationNodeOrderByWithRelationInput[]
+  cursor?: Prisma.RelationNodeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RelationNodeScalarFieldEnum | Prisma.RelationNodeScalarFieldEnum[]
+}
+
+/**
+ * Relation without action
+ */
+export type RelationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Relation
+   */
+  select?: Prisma.RelationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Relation
+   */
+  omit?: Prisma.RelationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInclude<ExtArgs> | null
+}
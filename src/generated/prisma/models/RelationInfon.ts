@@ -0,0 +1,1340 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RelationInfon` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model RelationInfon
+ * 
+ */
+export type RelationInfonModel = runtime.Types.Result.DefaultSelection<Prisma.$RelationInfonPayload>
+
+export type AggregateRelationInfon = {
+  _count: RelationInfonCountAggregateOutputType | null
+  _min: RelationInfonMinAggregateOutputType | null
+  _max: RelationInfonMaxAggregateOutputType | null
+}
+
+export type RelationInfonMinAggregateOutputType = {
+  id: string | null
+  relationId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type RelationInfonMaxAggregateOutputType = {
+  id: string | null
+  relationId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type RelationInfonCountAggregateOutputType = {
+  id: number
+  relationId: number
+  key: number
+  value: number
+  createdAt: number
+  _all: number
+}
+
+
+export type RelationInfonMinAggregateInputType = {
+  id?: true
+  relationId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type RelationInfonMaxAggregateInputType = {
+  id?: true
+  relationId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type RelationInfonCountAggregateInputType = {
+  id?: true
+  relationId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type RelationInfonAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RelationInfon to aggregate.
+   */
+  where?: Prisma.RelationInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RelationInfons to fetch.
+   */
+  orderBy?: Prisma.RelationInfonOrderByWithRelationInput | Prisma.RelationInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RelationInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RelationInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RelationInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RelationInfons
+  **/
+  _count?: true | RelationInfonCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RelationInfonMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RelationInfonMaxAggregateInputType
+}
+
+export type GetRelationInfonAggregateType<T extends RelationInfonAggregateArgs> = {
+      [P in keyof T & keyof AggregateRelationInfon]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRelationInfon[P]>
+    : Prisma.GetScalarType<T[P], AggregateRelationInfon[P]>
+}
+
+
+
+
+export type RelationInfonGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RelationInfonWhereInput
+  orderBy?: Prisma.RelationInfonOrderByWithAggregationInput | Prisma.RelationInfonOrderByWithAggregationInput[]
+  by: Prisma.RelationInfonScalarFieldEnum[] | Prisma.RelationInfonScalarFieldEnum
+  having?: Prisma.RelationInfonScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RelationInfonCountAggregateInputType | true
+  _min?: RelationInfonMinAggregateInputType
+  _max?: RelationInfonMaxAggregateInputType
+}
+
+export type RelationInfonGroupByOutputType = {
+  id: string
+  relationId: string
+  key: string
+  value: string
+  createdAt: Date
+  _count: RelationInfonCountAggregateOutputType | null
+  _min: RelationInfonMinAggregateOutputType | null
+  _max: RelationInfonMaxAggregateOutputType | null
+}
+
+type GetRelationInfonGroupByPayload<T extends RelationInfonGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RelationInfonGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RelationInfonGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RelationInfonGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RelationInfonGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RelationInfonWhereInput = {
+  AND?: Prisma.RelationInfonWhereInput | Prisma.RelationInfonWhereInput[]
+  OR?: Prisma.RelationInfonWhereInput[]
+  NOT?: Prisma.RelationInfonWhereInput | Prisma.RelationInfonWhereInput[]
+  id?: Prisma.StringFilter<"RelationInfon"> | string
+  relationId?: Prisma.StringFilter<"RelationInfon"> | string
+  key?: Prisma.StringFilter<"RelationInfon"> | string
+  value?: Prisma.StringFilter<"RelationInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"RelationInfon"> | Date | string
+  relation?: Prisma.XOR<Prisma.RelationScalarRelationFilter, Prisma.RelationWhereInput>
+}
+
+export type RelationInfonOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  relation?: Prisma.RelationOrderByWithRelationInput
+}
+
+export type RelationInfonWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RelationInfonWhereInput | Prisma.RelationInfonWhereInput[]
+  OR?: Prisma.RelationInfonWhereInput[]
+  NOT?: Prisma.RelationInfonWhereInput | Prisma.RelationInfonWhereInput[]
+  relationId?: Prisma.StringFilter<"RelationInfon"> | string
+  key?: Prisma.StringFilter<"RelationInfon"> | string
+  value?: Prisma.StringFilter<"RelationInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"RelationInfon"> | Date | string
+  relation?: Prisma.XOR<Prisma.RelationScalarRelationFilter, Prisma.RelationWhereInput>
+}, "id">
+
+export type RelationInfonOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.RelationInfonCountOrderByAggregateInput
+  _max?: Prisma.RelationInfonMaxOrderByAggregateInput
+  _min?: Prisma.RelationInfonMinOrderByAggregateInput
+}
+
+export type RelationInfonScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RelationInfonScalarWhereWithAggregatesInput | Prisma.RelationInfonScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RelationInfonScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RelationInfonScalarWhereWithAggregatesInput | Prisma.RelationInfonScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"RelationInfon"> | string
+  relationId?: Prisma.StringWithAggregatesFilter<"RelationInfon"> | string
+  key?: Prisma.StringWithAggregatesFilter<"RelationInfon"> | string
+  value?: Prisma.StringWithAggregatesFilter<"RelationInfon"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RelationInfon"> | Date | string
+}
+
+export type RelationInfonCreateInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+  relation: Prisma.RelationCreateNestedOneWithoutInfonsInput
+}
+
+export type RelationInfonUncheckedCreateInput = {
+  id?: string
+  relationId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type RelationInfonUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  relation?: Prisma.RelationUpdateOneRequiredWithoutInfonsNestedInput
+}
+
+export type RelationInfonUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationInfonCreateManyInput = {
+  id?: string
+  relationId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type RelationInfonUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationInfonUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationInfonListRelationFilter = {
+  every?: Prisma.RelationInfonWhereInput
+  some?: Prisma.RelationInfonWhereInput
+  none?: Prisma.RelationInfonWhereInput
+}
+
+export type RelationInfonOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RelationInfonCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationInfonMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationInfonMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationInfonCreateNestedManyWithoutRelationInput = {
+  create?: Prisma.XOR<Prisma.RelationInfonCreateWithoutRelationInput, Prisma.RelationInfonUncheckedCreateWithoutRelationInput> | Prisma.RelationInfonCreateWithoutRelationInput[] | Prisma.RelationInfonUncheckedCreateWithoutRelationInput[]
+  connectOrCreate?: Prisma.RelationInfonCreateOrConnectWithoutRelationInput | Prisma.RelationInfonCreateOrConnectWithoutRelationInput[]
+  createMany?: Prisma.RelationInfonCreateManyRelationInputEnvelope
+  connect?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+}
+
+export type RelationInfonUncheckedCreateNestedManyWithoutRelationInput = {
+  create?: Prisma.XOR<Prisma.RelationInfonCreateWithoutRelationInput, Prisma.RelationInfonUncheckedCreateWithoutRelationInput> | Prisma.RelationInfonCreateWithoutRelationInput[] | Prisma.RelationInfonUncheckedCreateWithoutRelationInput[]
+  connectOrCreate?: Prisma.RelationInfonCreateOrConnectWithoutRelationInput | Prisma.RelationInfonCreateOrConnectWithoutRelationInput[]
+  createMany?: Prisma.RelationInfonCreateManyRelationInputEnvelope
+  connect?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+}
+
+export type RelationInfonUpdateManyWithoutRelationNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationInfonCreateWithoutRelationInput, Prisma.RelationInfonUncheckedCreateWithoutRelationInput> | Prisma.RelationInfonCreateWithoutRelationInput[] | Prisma.RelationInfonUncheckedCreateWithoutRelationInput[]
+  connectOrCreate?: Prisma.RelationInfonCreateOrConnectWithoutRelationInput | Prisma.RelationInfonCreateOrConnectWithoutRelationInput[]
+  upsert?: Prisma.RelationInfonUpsertWithWhereUniqueWithoutRelationInput | Prisma.RelationInfonUpsertWithWhereUniqueWithoutRelationInput[]
+  createMany?: Prisma.RelationInfonCreateManyRelationInputEnvelope
+  set?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+  disconnect?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+  delete?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+  connect?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+  update?: Prisma.RelationInfonUpdateWithWhereUniqueWithoutRelationInput | Prisma.RelationInfonUpdateWithWhereUniqueWithoutRelationInput[]
+  updateMany?: Prisma.RelationInfonUpdateManyWithWhereWithoutRelationInput | Prisma.RelationInfonUpdateManyWithWhereWithoutRelationInput[]
+  deleteMany?: Prisma.RelationInfonScalarWhereInput | Prisma.RelationInfonScalarWhereInput[]
+}
+
+export type RelationInfonUncheckedUpdateManyWithoutRelationNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationInfonCreateWithoutRelationInput, Prisma.RelationInfonUncheckedCreateWithoutRelationInput> | Prisma.RelationInfonCreateWithoutRelationInput[] | Prisma.RelationInfonUncheckedCreateWithoutRelationInput[]
+  connectOrCreate?: Prisma.RelationInfonCreateOrConnectWithoutRelationInput | Prisma.RelationInfonCreateOrConnectWithoutRelationInput[]
+  upsert?: Prisma.RelationInfonUpsertWithWhereUniqueWithoutRelationInput | Prisma.RelationInfonUpsertWithWhereUniqueWithoutRelationInput[]
+  createMany?: Prisma.RelationInfonCreateManyRelationInputEnvelope
+  set?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+  disconnect?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+  delete?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+  connect?: Prisma.RelationInfonWhereUniqueInput | Prisma.RelationInfonWhereUniqueInput[]
+  update?: Prisma.RelationInfonUpdateWithWhereUniqueWithoutRelationInput | Prisma.RelationInfonUpdateWithWhereUniqueWithoutRelationInput[]
+  updateMany?: Prisma.RelationInfonUpdateManyWithWhereWithoutRelationInput | Prisma.RelationInfonUpdateManyWithWhereWithoutRelationInput[]
+  deleteMany?: Prisma.RelationInfonScalarWhereInput | Prisma.RelationInfonScalarWhereInput[]
+}
+
+export type RelationInfonCreateWithoutRelationInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type RelationInfonUncheckedCreateWithoutRelationInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type RelationInfonCreateOrConnectWithoutRelationInput = {
+  where: Prisma.RelationInfonWhereUniqueInput
+  create: Prisma.XOR<Prisma.RelationInfonCreateWithoutRelationInput, Prisma.RelationInfonUncheckedCreateWithoutRelationInput>
+}
+
+export type RelationInfonCreateManyRelationInputEnvelope = {
+  data: Prisma.RelationInfonCreateManyRelationInput | Prisma.RelationInfonCreateManyRelationInput[]
+  skipDuplicates?: boolean
+}
+
+export type RelationInfonUpsertWithWhereUniqueWithoutRelationInput = {
+  where: Prisma.RelationInfonWhereUniqueInput
+  update: Prisma.XOR<Prisma.RelationInfonUpdateWithoutRelationInput, Prisma.RelationInfonUncheckedUpdateWithoutRelationInput>
+  create: Prisma.XOR<Prisma.RelationInfonCreateWithoutRelationInput, Prisma.RelationInfonUncheckedCreateWithoutRelationInput>
+}
+
+export type RelationInfonUpdateWithWhereUniqueWithoutRelationInput = {
+  where: Prisma.RelationInfonWhereUniqueInput
+  data: Prisma.XOR<Prisma.RelationInfonUpdateWithoutRelationInput, Prisma.RelationInfonUncheckedUpdateWithoutRelationInput>
+}
+
+export type RelationInfonUpdateManyWithWhereWithoutRelationInput = {
+  where: Prisma.RelationInfonScalarWhereInput
+  data: Prisma.XOR<Prisma.RelationInfonUpdateManyMutationInput, Prisma.RelationInfonUncheckedUpdateManyWithoutRelationInput>
+}
+
+export type RelationInfonScalarWhereInput = {
+  AND?: Prisma.RelationInfonScalarWhereInput | Prisma.RelationInfonScalarWhereInput[]
+  OR?: Prisma.RelationInfonScalarWhereInput[]
+  NOT?: Prisma.RelationInfonScalarWhereInput | Prisma.RelationInfonScalarWhereInput[]
+  id?: Prisma.StringFilter<"RelationInfon"> | string
+  relationId?: Prisma.StringFilter<"RelationInfon"> | string
+  key?: Prisma.StringFilter<"RelationInfon"> | string
+  value?: Prisma.StringFilter<"RelationInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"RelationInfon"> | Date | string
+}
+
+export type RelationInfonCreateManyRelationInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type RelationInfonUpdateWithoutRelationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationInfonUncheckedUpdateWithoutRelationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationInfonUncheckedUpdateManyWithoutRelationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type RelationInfonSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  relationId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["relationInfon"]>
+
+export type RelationInfonSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  relationId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["relationInfon"]>
+
+export type RelationInfonSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  relationId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["relationInfon"]>
+
+export type RelationInfonSelectScalar = {
+  id?: boolean
+  relationId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+}
+
+export type RelationInfonOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "relationId" | "key" | "value" | "createdAt", ExtArgs["result"]["relationInfon"]>
+export type RelationInfonInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+}
+export type RelationInfonIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+}
+export type RelationInfonIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+}
+
+export type $RelationInfonPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RelationInfon"
+  objects: {
+    relation: Prisma.$RelationPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    relationId: string
+    key: string
+    value: string
+    createdAt: Date
+  }, ExtArgs["result"]["relationInfon"]>
+  composites: {}
+}
+
+export type RelationInfonGetPayload<S extends boolean | null | undefined | RelationInfonDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload, S>
+
+export type RelationInfonCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RelationInfonFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RelationInfonCountAggregateInputType | true
+  }
+
+export interface RelationInfonDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RelationInfon'], meta: { name: 'RelationInfon' } }
+  /**
+   * Find zero or one RelationInfon that matches the filter.
+   * @param {RelationInfonFindUniqueArgs} args - Arguments to find a RelationInfon
+   * @example
+   * // Get one RelationInfon
+   * const relationInfon = await prisma.relationInfon.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RelationInfonFindUniqueArgs>(args: Prisma.SelectSubset<T, RelationInfonFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RelationInfonClient<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RelationInfon that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RelationInfonFindUniqueOrThrowArgs} args - Arguments to find a RelationInfon
+   * @example
+   * // Get one RelationInfon
+   * const relationInfon = await prisma.relationInfon.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RelationInfonFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RelationInfonFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RelationInfonClient<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RelationInfon that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationInfonFindFirstArgs} args - Arguments to find a RelationInfon
+   * @example
+   * // Get one RelationInfon
+   * const relationInfon = await prisma.relationInfon.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RelationInfonFindFirstArgs>(args?: Prisma.SelectSubset<T, RelationInfonFindFirstArgs<ExtArgs>>): Prisma.Prisma__RelationInfonClient<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RelationInfon that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationInfonFindFirstOrThrowArgs} args - Arguments to find a RelationInfon
+   * @example
+   * // Get one RelationInfon
+   * const relationInfon = await prisma.relationInfon.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RelationInfonFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RelationInfonFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RelationInfonClient<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RelationInfons that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationInfonFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RelationInfons
+   * const relationInfons = await prisma.relationInfon.findMany()
+   * 
+   * // Get first 10 RelationInfons
+   * const relationInfons = await prisma.relationInfon.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const relationInfonWithIdOnly = await prisma.relationInfon.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RelationInfonFindManyArgs>(args?: Prisma.SelectSubset<T, RelationInfonFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RelationInfon.
+   * @param {RelationInfonCreateArgs} args - Arguments to create a RelationInfon.
+   * @example
+   * // Create one RelationInfon
+   * const RelationInfon = await prisma.relationInfon.create({
+   *   data: {
+   *     // ... data to create a RelationInfon
+   *   }
+   * })
+   * 
+   */
+  create<T extends RelationInfonCreateArgs>(args: Prisma.SelectSubset<T, RelationInfonCreateArgs<ExtArgs>>): Prisma.Prisma__RelationInfonClient<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RelationInfons.
+   * @param {RelationInfonCreateManyArgs} args - Arguments to create many RelationInfons.
+   * @example
+   * // Create many RelationInfons
+   * const relationInfon = await prisma.relationInfon.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RelationInfonCreateManyArgs>(args?: Prisma.SelectSubset<T, RelationInfonCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RelationInfons and returns the data saved in the database.
+   * @param {RelationInfonCreateManyAndReturnArgs} args - Arguments to create many RelationInfons.
+   * @example
+   * // Create many RelationInfons
+   * const relationInfon = await prisma.relationInfon.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RelationInfons and only return the `id`
+   * const relationInfonWithIdOnly = await prisma.relationInfon.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RelationInfonCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RelationInfonCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RelationInfon.
+   * @param {RelationInfonDeleteArgs} args - Arguments to delete one RelationInfon.
+   * @example
+   * // Delete one RelationInfon
+   * const RelationInfon = await prisma.relationInfon.delete({
+   *   where: {
+   *     // ... filter to delete one RelationInfon
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RelationInfonDeleteArgs>(args: Prisma.SelectSubset<T, RelationInfonDeleteArgs<ExtArgs>>): Prisma.Prisma__RelationInfonClient<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RelationInfon.
+   * @param {RelationInfonUpdateArgs} args - Arguments to update one RelationInfon.
+   * @example
+   * // Update one RelationInfon
+   * const relationInfon = await prisma.relationInfon.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RelationInfonUpdateArgs>(args: Prisma.SelectSubset<T, RelationInfonUpdateArgs<ExtArgs>>): Prisma.Prisma__RelationInfonClient<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RelationInfons.
+   * @param {RelationInfonDeleteManyArgs} args - Arguments to filter RelationInfons to delete.
+   * @example
+   * // Delete a few RelationInfons
+   * const { count } = await prisma.relationInfon.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RelationInfonDeleteManyArgs>(args?: Prisma.SelectSubset<T, RelationInfonDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RelationInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationInfonUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RelationInfons
+   * const relationInfon = await prisma.relationInfon.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RelationInfonUpdateManyArgs>(args: Prisma.SelectSubset<T, RelationInfonUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RelationInfons and returns the data updated in the database.
+   * @param {RelationInfonUpdateManyAndReturnArgs} args - Arguments to update many RelationInfons.
+   * @example
+   * // Update many RelationInfons
+   * const relationInfon = await prisma.relationInfon.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RelationInfons and only return the `id`
+   * const relationInfonWithIdOnly = await prisma.relationInfon.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RelationInfonUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RelationInfonUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RelationInfon.
+   * @param {RelationInfonUpsertArgs} args - Arguments to update or create a RelationInfon.
+   * @example
+   * // Update or create a RelationInfon
+   * const relationInfon = await prisma.relationInfon.upsert({
+   *   create: {
+   *     // ... data to create a RelationInfon
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RelationInfon we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RelationInfonUpsertArgs>(args: Prisma.SelectSubset<T, RelationInfonUpsertArgs<ExtArgs>>): Prisma.Prisma__RelationInfonClient<runtime.Types.Result.GetResult<Prisma.$RelationInfonPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RelationInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationInfonCountArgs} args - Arguments to filter RelationInfons to count.
+   * @example
+   * // Count the number of RelationInfons
+   * const count = await prisma.relationInfon.count({
+   *   where: {
+   *     // ... the filter for the RelationInfons we want to count
+   *   }
+   * })
+  **/
+  count<T extends RelationInfonCountArgs>(
+    args?: Prisma.Subset<T, RelationInfonCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RelationInfonCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RelationInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationInfonAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RelationInfonAggregateArgs>(args: Prisma.Subset<T, RelationInfonAggregateArgs>): Prisma.PrismaPromise<GetRelationInfonAggregateType<T>>
+
+  /**
+   * Group by RelationInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationInfonGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RelationInfonGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RelationInfonGroupByArgs['orderBy'] }
+      : { orderBy?: RelationInfonGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RelationInfonGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRelationInfonGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RelationInfon model
+ */
+readonly fields: RelationInfonFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RelationInfon.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RelationInfonClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  relation<T extends Prisma.RelationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RelationDefaultArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RelationInfon model
+ */
+export interface RelationInfonFieldRefs {
+  readonly id: Prisma.FieldRef<"RelationInfon", 'String'>
+  readonly relationId: Prisma.FieldRef<"RelationInfon", 'String'>
+  readonly key: Prisma.FieldRef<"RelationInfon", 'String'>
+  readonly value: Prisma.FieldRef<"RelationInfon", 'String'>
+  readonly createdAt: Prisma.FieldRef<"RelationInfon", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RelationInfon findUnique
+ */
+export type RelationInfonFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationInfon to fetch.
+   */
+  where: Prisma.RelationInfonWhereUniqueInput
+}
+
+/**
+ * RelationInfon findUniqueOrThrow
+ */
+export type RelationInfonFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationInfon to fetch.
+   */
+  where: Prisma.RelationInfonWhereUniqueInput
+}
+
+/**
+ * RelationInfon findFirst
+ */
+export type RelationInfonFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationInfon to fetch.
+   */
+  where?: Prisma.RelationInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RelationInfons to fetch.
+   */
+  orderBy?: Prisma.RelationInfonOrderByWithRelationInput | Prisma.RelationInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RelationInfons.
+   */
+  cursor?: Prisma.RelationInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RelationInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RelationInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RelationInfons.
+   */
+  distinct?: Prisma.RelationInfonScalarFieldEnum | Prisma.RelationInfonScalarFieldEnum[]
+}
+
+/**
+ * RelationInfon findFirstOrThrow
+ */
+export type RelationInfonFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationInfon to fetch.
+   */
+  where?: Prisma.RelationInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RelationInfons to fetch.
+   */
+  orderBy?: Prisma.RelationInfonOrderByWithRelationInput | Prisma.RelationInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RelationInfons.
+   */
+  cursor?: Prisma.RelationInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RelationInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RelationInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RelationInfons.
+   */
+  distinct?: Prisma.RelationInfonScalarFieldEnum | Prisma.RelationInfonScalarFieldEnum[]
+}
+
+/**
+ * RelationInfon findMany
+ */
+export type RelationInfonFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationInfons to fetch.
+   */
+  where?: Prisma.RelationInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RelationInfons to fetch.
+   */
+  orderBy?: Prisma.RelationInfonOrderByWithRelationInput | Prisma.RelationInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RelationInfons.
+   */
+  cursor?: Prisma.RelationInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RelationInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RelationInfons.
+   */
+  skip?: number
+  distinct?: Prisma.RelationInfonScalarFieldEnum | Prisma.RelationInfonScalarFieldEnum[]
+}
+
+/**
+ * RelationInfon create
+ */
+export type RelationInfonCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to create a RelationInfon.
+   */
+  data: Prisma.XOR<Prisma.RelationInfonCreateInput, Prisma.RelationInfonUncheckedCreateInput>
+}
+
+/**
+ * RelationInfon createMany
+ */
+export type RelationInfonCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RelationInfons.
+   */
+  data: Prisma.RelationInfonCreateManyInput | Prisma.RelationInfonCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RelationInfon createManyAndReturn
+ */
+export type RelationInfonCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * The data used to create many RelationInfons.
+   */
+  data: Prisma.RelationInfonCreateManyInput | Prisma.RelationInfonCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RelationInfon update
+ */
+export type RelationInfonUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to update a RelationInfon.
+   */
+  data: Prisma.XOR<Prisma.RelationInfonUpdateInput, Prisma.RelationInfonUncheckedUpdateInput>
+  /**
+   * Choose, which RelationInfon to update.
+   */
+  where: Prisma.RelationInfonWhereUniqueInput
+}
+
+/**
+ * RelationInfon updateMany
+ */
+export type RelationInfonUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RelationInfons.
+   */
+  data: Prisma.XOR<Prisma.RelationInfonUpdateManyMutationInput, Prisma.RelationInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which RelationInfons to update
+   */
+  where?: Prisma.RelationInfonWhereInput
+  /**
+   * Limit how many RelationInfons to update.
+   */
+  limit?: number
+}
+
+/**
+ * RelationInfon updateManyAndReturn
+ */
+export type RelationInfonUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * The data used to update RelationInfons.
+   */
+  data: Prisma.XOR<Prisma.RelationInfonUpdateManyMutationInput, Prisma.RelationInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which RelationInfons to update
+   */
+  where?: Prisma.RelationInfonWhereInput
+  /**
+   * Limit how many RelationInfons to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RelationInfon upsert
+ */
+export type RelationInfonUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * The filter to search for the RelationInfon to update in case it exists.
+   */
+  where: Prisma.RelationInfonWhereUniqueInput
+  /**
+   * In case the RelationInfon found by the `where` argument doesn't exist, create a new RelationInfon with this data.
+   */
+  create: Prisma.XOR<Prisma.RelationInfonCreateInput, Prisma.RelationInfonUncheckedCreateInput>
+  /**
+   * In case the RelationInfon was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RelationInfonUpdateInput, Prisma.RelationInfonUncheckedUpdateInput>
+}
+
+/**
+ * RelationInfon delete
+ */
+export type RelationInfonDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+  /**
+   * Filter which RelationInfon to delete.
+   */
+  where: Prisma.RelationInfonWhereUniqueInput
+}
+
+/**
+ * RelationInfon deleteMany
+ */
+export type RelationInfonDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RelationInfons to delete
+   */
+  where?: Prisma.RelationInfonWhereInput
+  /**
+   * Limit how many RelationInfons to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RelationInfon without action
+ */
+export type RelationInfonDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationInfon
+   */
+  select?: Prisma.RelationInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationInfon
+   */
+  omit?: Prisma.RelationInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationInfonInclude<ExtArgs> | null
+}
@@ -0,0 +1,1520 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RelationNode` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model RelationNode
+ * 
+ */
+export type RelationNodeModel = runtime.Types.Result.DefaultSelection<Prisma.$RelationNodePayload>
+
+export type AggregateRelationNode = {
+  _count: RelationNodeCountAggregateOutputType | null
+  _min: RelationNodeMinAggregateOutputType | null
+  _max: RelationNodeMaxAggregateOutputType | null
+}
+
+export type RelationNodeMinAggregateOutputType = {
+  id: string | null
+  relationId: string | null
+  refid: string | null
+  role: string | null
+  annotationId: string | null
+  createdAt: Date | null
+}
+
+export type RelationNodeMaxAggregateOutputType = {
+  id: string | null
+  relationId: string | null
+  refid: string | null
+  role: string | null
+  annotationId: string | null
+  createdAt: Date | null
+}
+
+export type RelationNodeCountAggregateOutputType = {
+  id: number
+  relationId: number
+  refid: number
+  role: number
+  annotationId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type RelationNodeMinAggregateInputType = {
+  id?: true
+  relationId?: true
+  refid?: true
+  role?: true
+  annotationId?: true
+  createdAt?: true
+}
+
+export type RelationNodeMaxAggregateInputType = {
+  id?: true
+  relationId?: true
+  refid?: true
+  role?: true
+  annotationId?: true
+  createdAt?: true
+}
+
+export type RelationNodeCountAggregateInputType = {
+  id?: true
+  relationId?: true
+  refid?: true
+  role?: true
+  annotationId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type RelationNodeAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RelationNode to aggregate.
+   */
+  where?: Prisma.RelationNodeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RelationNodes to fetch.
+   */
+  orderBy?: Prisma.RelationNodeOrderByWithRelationInput | Prisma.RelationNodeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RelationNodeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RelationNodes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RelationNodes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RelationNodes
+  **/
+  _count?: true | RelationNodeCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RelationNodeMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RelationNodeMaxAggregateInputType
+}
+
+export type GetRelationNodeAggregateType<T extends RelationNodeAggregateArgs> = {
+      [P in keyof T & keyof AggregateRelationNode]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRelationNode[P]>
+    : Prisma.GetScalarType<T[P], AggregateRelationNode[P]>
+}
+
+
+
+
+export type RelationNodeGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RelationNodeWhereInput
+  orderBy?: Prisma.RelationNodeOrderByWithAggregationInput | Prisma.RelationNodeOrderByWithAggregationInput[]
+  by: Prisma.RelationNodeScalarFieldEnum[] | Prisma.RelationNodeScalarFieldEnum
+  having?: Prisma.RelationNodeScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RelationNodeCountAggregateInputType | true
+  _min?: RelationNodeMinAggregateInputType
+  _max?: RelationNodeMaxAggregateInputType
+}
+
+export type RelationNodeGroupByOutputType = {
+  id: string
+  relationId: string
+  refid: string
+  role: string | null
+  annotationId: string | null
+  createdAt: Date
+  _count: RelationNodeCountAggregateOutputType | null
+  _min: RelationNodeMinAggregateOutputType | null
+  _max: RelationNodeMaxAggregateOutputType | null
+}
+
+type GetRelationNodeGroupByPayload<T extends RelationNodeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RelationNodeGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RelationNodeGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RelationNodeGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RelationNodeGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RelationNodeWhereInput = {
+  AND?: Prisma.RelationNodeWhereInput | Prisma.RelationNodeWhereInput[]
+  OR?: Prisma.RelationNodeWhereInput[]
+  NOT?: Prisma.RelationNodeWhereInput | Prisma.RelationNodeWhereInput[]
+  id?: Prisma.StringFilter<"RelationNode"> | string
+  relationId?: Prisma.StringFilter<"RelationNode"> | string
+  refid?: Prisma.StringFilter<"RelationNode"> | string
+  role?: Prisma.StringNullableFilter<"RelationNode"> | string | null
+  annotationId?: Prisma.StringNullableFilter<"RelationNode"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RelationNode"> | Date | string
+  relation?: Prisma.XOR<Prisma.RelationScalarRelationFilter, Prisma.RelationWhereInput>
+  annotation?: Prisma.XOR<Prisma.AnnotationNullableScalarRelationFilter, Prisma.AnnotationWhereInput> | null
+}
+
+export type RelationNodeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  refid?: Prisma.SortOrder
+  role?: Prisma.SortOrderInput | Prisma.SortOrder
+  annotationId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  relation?: Prisma.RelationOrderByWithRelationInput
+  annotation?: Prisma.AnnotationOrderByWithRelationInput
+}
+
+export type RelationNodeWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RelationNodeWhereInput | Prisma.RelationNodeWhereInput[]
+  OR?: Prisma.RelationNodeWhereInput[]
+  NOT?: Prisma.RelationNodeWhereInput | Prisma.RelationNodeWhereInput[]
+  relationId?: Prisma.StringFilter<"RelationNode"> | string
+  refid?: Prisma.StringFilter<"RelationNode"> | string
+  role?: Prisma.StringNullableFilter<"RelationNode"> | string | null
+  annotationId?: Prisma.StringNullableFilter<"RelationNode"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RelationNode"> | Date | string
+  relation?: Prisma.XOR<Prisma.RelationScalarRelationFilter, Prisma.RelationWhereInput>
+  annotation?: Prisma.XOR<Prisma.AnnotationNullableScalarRelationFilter, Prisma.AnnotationWhereInput> | null
+}, "id">
+
+export type RelationNodeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  refid?: Prisma.SortOrder
+  role?: Prisma.SortOrderInput | Prisma.SortOrder
+  annotationId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.RelationNodeCountOrderByAggregateInput
+  _max?: Prisma.RelationNodeMaxOrderByAggregateInput
+  _min?: Prisma.RelationNodeMinOrderByAggregateInput
+}
+
+export type RelationNodeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RelationNodeScalarWhereWithAggregatesInput | Prisma.RelationNodeScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RelationNodeScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RelationNodeScalarWhereWithAggregatesInput | Prisma.RelationNodeScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"RelationNode"> | string
+  relationId?: Prisma.StringWithAggregatesFilter<"RelationNode"> | string
+  refid?: Prisma.StringWithAggregatesFilter<"RelationNode"> | string
+  role?: Prisma.StringNullableWithAggregatesFilter<"RelationNode"> | string | null
+  annotationId?: Prisma.StringNullableWithAggregatesFilter<"RelationNode"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RelationNode"> | Date | string
+}
+
+export type RelationNodeCreateInput = {
+  id?: string
+  refid: string
+  role?: string | null
+  createdAt?: Date | string
+  relation: Prisma.RelationCreateNestedOneWithoutNodesInput
+  annotation?: Prisma.AnnotationCreateNestedOneWithoutRelationNodesInput
+}
+
+export type RelationNodeUncheckedCreateInput = {
+  id?: string
+  relationId: string
+  refid: string
+  role?: string | null
+  annotationId?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationNodeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  relation?: Prisma.RelationUpdateOneRequiredWithoutNodesNestedInput
+  annotation?: Prisma.AnnotationUpdateOneWithoutRelationNodesNestedInput
+}
+
+export type RelationNodeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationNodeCreateManyInput = {
+  id?: string
+  relationId: string
+  refid: string
+  role?: string | null
+  annotationId?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationNodeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationNodeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationNodeListRelationFilter = {
+  every?: Prisma.RelationNodeWhereInput
+  some?: Prisma.RelationNodeWhereInput
+  none?: Prisma.RelationNodeWhereInput
+}
+
+export type RelationNodeOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RelationNodeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  refid?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationNodeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  refid?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationNodeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  relationId?: Prisma.SortOrder
+  refid?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  annotationId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RelationNodeCreateNestedManyWithoutAnnotationInput = {
+  create?: Prisma.XOR<Prisma.RelationNodeCreateWithoutAnnotationInput, Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput> | Prisma.RelationNodeCreateWithoutAnnotationInput[] | Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.RelationNodeCreateOrConnectWithoutAnnotationInput | Prisma.RelationNodeCreateOrConnectWithoutAnnotationInput[]
+  createMany?: Prisma.RelationNodeCreateManyAnnotationInputEnvelope
+  connect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+}
+
+export type RelationNodeUncheckedCreateNestedManyWithoutAnnotationInput = {
+  create?: Prisma.XOR<Prisma.RelationNodeCreateWithoutAnnotationInput, Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput> | Prisma.RelationNodeCreateWithoutAnnotationInput[] | Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.RelationNodeCreateOrConnectWithoutAnnotationInput | Prisma.RelationNodeCreateOrConnectWithoutAnnotationInput[]
+  createMany?: Prisma.RelationNodeCreateManyAnnotationInputEnvelope
+  connect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+}
+
+export type RelationNodeUpdateManyWithoutAnnotationNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationNodeCreateWithoutAnnotationInput, Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput> | Prisma.RelationNodeCreateWithoutAnnotationInput[] | Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.RelationNodeCreateOrConnectWithoutAnnotationInput | Prisma.RelationNodeCreateOrConnectWithoutAnnotationInput[]
+  upsert?: Prisma.RelationNodeUpsertWithWhereUniqueWithoutAnnotationInput | Prisma.RelationNodeUpsertWithWhereUniqueWithoutAnnotationInput[]
+  createMany?: Prisma.RelationNodeCreateManyAnnotationInputEnvelope
+  set?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  disconnect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  delete?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  connect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  update?: Prisma.RelationNodeUpdateWithWhereUniqueWithoutAnnotationInput | Prisma.RelationNodeUpdateWithWhereUniqueWithoutAnnotationInput[]
+  updateMany?: Prisma.RelationNodeUpdateManyWithWhereWithoutAnnotationInput | Prisma.RelationNodeUpdateManyWithWhereWithoutAnnotationInput[]
+  deleteMany?: Prisma.RelationNodeScalarWhereInput | Prisma.RelationNodeScalarWhereInput[]
+}
+
+export type RelationNodeUncheckedUpdateManyWithoutAnnotationNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationNodeCreateWithoutAnnotationInput, Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput> | Prisma.RelationNodeCreateWithoutAnnotationInput[] | Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput[]
+  connectOrCreate?: Prisma.RelationNodeCreateOrConnectWithoutAnnotationInput | Prisma.RelationNodeCreateOrConnectWithoutAnnotationInput[]
+  upsert?: Prisma.RelationNodeUpsertWithWhereUniqueWithoutAnnotationInput | Prisma.RelationNodeUpsertWithWhereUniqueWithoutAnnotationInput[]
+  createMany?: Prisma.RelationNodeCreateManyAnnotationInputEnvelope
+  set?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  disconnect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  delete?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  connect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  update?: Prisma.RelationNodeUpdateWithWhereUniqueWithoutAnnotationInput | Prisma.RelationNodeUpdateWithWhereUniqueWithoutAnnotationInput[]
+  updateMany?: Prisma.RelationNodeUpdateManyWithWhereWithoutAnnotationInput | Prisma.RelationNodeUpdateManyWithWhereWithoutAnnotationInput[]
+  deleteMany?: Prisma.RelationNodeScalarWhereInput | Prisma.RelationNodeScalarWhereInput[]
+}
+
+export type RelationNodeCreateNestedManyWithoutRelationInput = {
+  create?: Prisma.XOR<Prisma.RelationNodeCreateWithoutRelationInput, Prisma.RelationNodeUncheckedCreateWithoutRelationInput> | Prisma.RelationNodeCreateWithoutRelationInput[] | Prisma.RelationNodeUncheckedCreateWithoutRelationInput[]
+  connectOrCreate?: Prisma.RelationNodeCreateOrConnectWithoutRelationInput | Prisma.RelationNodeCreateOrConnectWithoutRelationInput[]
+  createMany?: Prisma.RelationNodeCreateManyRelationInputEnvelope
+  connect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+}
+
+export type RelationNodeUncheckedCreateNestedManyWithoutRelationInput = {
+  create?: Prisma.XOR<Prisma.RelationNodeCreateWithoutRelationInput, Prisma.RelationNodeUncheckedCreateWithoutRelationInput> | Prisma.RelationNodeCreateWithoutRelationInput[] | Prisma.RelationNodeUncheckedCreateWithoutRelationInput[]
+  connectOrCreate?: Prisma.RelationNodeCreateOrConnectWithoutRelationInput | Prisma.RelationNodeCreateOrConnectWithoutRelationInput[]
+  createMany?: Prisma.RelationNodeCreateManyRelationInputEnvelope
+  connect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+}
+
+export type RelationNodeUpdateManyWithoutRelationNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationNodeCreateWithoutRelationInput, Prisma.RelationNodeUncheckedCreateWithoutRelationInput> | Prisma.RelationNodeCreateWithoutRelationInput[] | Prisma.RelationNodeUncheckedCreateWithoutRelationInput[]
+  connectOrCreate?: Prisma.RelationNodeCreateOrConnectWithoutRelationInput | Prisma.RelationNodeCreateOrConnectWithoutRelationInput[]
+  upsert?: Prisma.RelationNodeUpsertWithWhereUniqueWithoutRelationInput | Prisma.RelationNodeUpsertWithWhereUniqueWithoutRelationInput[]
+  createMany?: Prisma.RelationNodeCreateManyRelationInputEnvelope
+  set?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  disconnect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  delete?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  connect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  update?: Prisma.RelationNodeUpdateWithWhereUniqueWithoutRelationInput | Prisma.RelationNodeUpdateWithWhereUniqueWithoutRelationInput[]
+  updateMany?: Prisma.RelationNodeUpdateManyWithWhereWithoutRelationInput | Prisma.RelationNodeUpdateManyWithWhereWithoutRelationInput[]
+  deleteMany?: Prisma.RelationNodeScalarWhereInput | Prisma.RelationNodeScalarWhereInput[]
+}
+
+export type RelationNodeUncheckedUpdateManyWithoutRelationNestedInput = {
+  create?: Prisma.XOR<Prisma.RelationNodeCreateWithoutRelationInput, Prisma.RelationNodeUncheckedCreateWithoutRelationInput> | Prisma.RelationNodeCreateWithoutRelationInput[] | Prisma.RelationNodeUncheckedCreateWithoutRelationInput[]
+  connectOrCreate?: Prisma.RelationNodeCreateOrConnectWithoutRelationInput | Prisma.RelationNodeCreateOrConnectWithoutRelationInput[]
+  upsert?: Prisma.RelationNodeUpsertWithWhereUniqueWithoutRelationInput | Prisma.RelationNodeUpsertWithWhereUniqueWithoutRelationInput[]
+  createMany?: Prisma.RelationNodeCreateManyRelationInputEnvelope
+  set?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  disconnect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  delete?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  connect?: Prisma.RelationNodeWhereUniqueInput | Prisma.RelationNodeWhereUniqueInput[]
+  update?: Prisma.RelationNodeUpdateWithWhereUniqueWithoutRelationInput | Prisma.RelationNodeUpdateWithWhereUniqueWithoutRelationInput[]
+  updateMany?: Prisma.RelationNodeUpdateManyWithWhereWithoutRelationInput | Prisma.RelationNodeUpdateManyWithWhereWithoutRelationInput[]
+  deleteMany?: Prisma.RelationNodeScalarWhereInput | Prisma.RelationNodeScalarWhereInput[]
+}
+
+export type RelationNodeCreateWithoutAnnotationInput = {
+  id?: string
+  refid: string
+  role?: string | null
+  createdAt?: Date | string
+  relation: Prisma.RelationCreateNestedOneWithoutNodesInput
+}
+
+export type RelationNodeUncheckedCreateWithoutAnnotationInput = {
+  id?: string
+  relationId: string
+  refid: string
+  role?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationNodeCreateOrConnectWithoutAnnotationInput = {
+  where: Prisma.RelationNodeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RelationNodeCreateWithoutAnnotationInput, Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput>
+}
+
+export type RelationNodeCreateManyAnnotationInputEnvelope = {
+  data: Prisma.RelationNodeCreateManyAnnotationInput | Prisma.RelationNodeCreateManyAnnotationInput[]
+  skipDuplicates?: boolean
+}
+
+export type RelationNodeUpsertWithWhereUniqueWithoutAnnotationInput = {
+  where: Prisma.RelationNodeWhereUniqueInput
+  update: Prisma.XOR<Prisma.RelationNodeUpdateWithoutAnnotationInput, Prisma.RelationNodeUncheckedUpdateWithoutAnnotationInput>
+  create: Prisma.XOR<Prisma.RelationNodeCreateWithoutAnnotationInput, Prisma.RelationNodeUncheckedCreateWithoutAnnotationInput>
+}
+
+export type RelationNodeUpdateWithWhereUniqueWithoutAnnotationInput = {
+  where: Prisma.RelationNodeWhereUniqueInput
+  data: Prisma.XOR<Prisma.RelationNodeUpdateWithoutAnnotationInput, Prisma.RelationNodeUncheckedUpdateWithoutAnnotationInput>
+}
+
+export type RelationNodeUpdateManyWithWhereWithoutAnnotationInput = {
+  where: Prisma.RelationNodeScalarWhereInput
+  data: Prisma.XOR<Prisma.RelationNodeUpdateManyMutationInput, Prisma.RelationNodeUncheckedUpdateManyWithoutAnnotationInput>
+}
+
+export type RelationNodeScalarWhereInput = {
+  AND?: Prisma.RelationNodeScalarWhereInput | Prisma.RelationNodeScalarWhereInput[]
+  OR?: Prisma.RelationNodeScalarWhereInput[]
+  NOT?: Prisma.RelationNodeScalarWhereInput | Prisma.RelationNodeScalarWhereInput[]
+  id?: Prisma.StringFilter<"RelationNode"> | string
+  relationId?: Prisma.StringFilter<"RelationNode"> | string
+  refid?: Prisma.StringFilter<"RelationNode"> | string
+  role?: Prisma.StringNullableFilter<"RelationNode"> | string | null
+  annotationId?: Prisma.StringNullableFilter<"RelationNode"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RelationNode"> | Date | string
+}
+
+export type RelationNodeCreateWithoutRelationInput = {
+  id?: string
+  refid: string
+  role?: string | null
+  createdAt?: Date | string
+  annotation?: Prisma.AnnotationCreateNestedOneWithoutRelationNodesInput
+}
+
+export type RelationNodeUncheckedCreateWithoutRelationInput = {
+  id?: string
+  refid: string
+  role?: string | null
+  annotationId?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationNodeCreateOrConnectWithoutRelationInput = {
+  where: Prisma.RelationNodeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RelationNodeCreateWithoutRelationInput, Prisma.RelationNodeUncheckedCreateWithoutRelationInput>
+}
+
+export type RelationNodeCreateManyRelationInputEnvelope = {
+  data: Prisma.RelationNodeCreateManyRelationInput | Prisma.RelationNodeCreateManyRelationInput[]
+  skipDuplicates?: boolean
+}
+
+export type RelationNodeUpsertWithWhereUniqueWithoutRelationInput = {
+  where: Prisma.RelationNodeWhereUniqueInput
+  update: Prisma.XOR<Prisma.RelationNodeUpdateWithoutRelationInput, Prisma.RelationNodeUncheckedUpdateWithoutRelationInput>
+  create: Prisma.XOR<Prisma.RelationNodeCreateWithoutRelationInput, Prisma.RelationNodeUncheckedCreateWithoutRelationInput>
+}
+
+export type RelationNodeUpdateWithWhereUniqueWithoutRelationInput = {
+  where: Prisma.RelationNodeWhereUniqueInput
+  data: Prisma.XOR<Prisma.RelationNodeUpdateWithoutRelationInput, Prisma.RelationNodeUncheckedUpdateWithoutRelationInput>
+}
+
+export type RelationNodeUpdateManyWithWhereWithoutRelationInput = {
+  where: Prisma.RelationNodeScalarWhereInput
+  data: Prisma.XOR<Prisma.RelationNodeUpdateManyMutationInput, Prisma.RelationNodeUncheckedUpdateManyWithoutRelationInput>
+}
+
+export type RelationNodeCreateManyAnnotationInput = {
+  id?: string
+  relationId: string
+  refid: string
+  role?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationNodeUpdateWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  relation?: Prisma.RelationUpdateOneRequiredWithoutNodesNestedInput
+}
+
+export type RelationNodeUncheckedUpdateWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationNodeUncheckedUpdateManyWithoutAnnotationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  relationId?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationNodeCreateManyRelationInput = {
+  id?: string
+  refid: string
+  role?: string | null
+  annotationId?: string | null
+  createdAt?: Date | string
+}
+
+export type RelationNodeUpdateWithoutRelationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  annotation?: Prisma.AnnotationUpdateOneWithoutRelationNodesNestedInput
+}
+
+export type RelationNodeUncheckedUpdateWithoutRelationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RelationNodeUncheckedUpdateManyWithoutRelationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refid?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  annotationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type RelationNodeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  relationId?: boolean
+  refid?: boolean
+  role?: boolean
+  annotationId?: boolean
+  createdAt?: boolean
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+  annotation?: boolean | Prisma.RelationNode$annotationArgs<ExtArgs>
+}, ExtArgs["result"]["relationNode"]>
+
+export type RelationNodeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  relationId?: boolean
+  refid?: boolean
+  role?: boolean
+  annotationId?: boolean
+  createdAt?: boolean
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+  annotation?: boolean | Prisma.RelationNode$annotationArgs<ExtArgs>
+}, ExtArgs["result"]["relationNode"]>
+
+export type RelationNodeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  relationId?: boolean
+  refid?: boolean
+  role?: boolean
+  annotationId?: boolean
+  createdAt?: boolean
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+  annotation?: boolean | Prisma.RelationNode$annotationArgs<ExtArgs>
+}, ExtArgs["result"]["relationNode"]>
+
+export type RelationNodeSelectScalar = {
+  id?: boolean
+  relationId?: boolean
+  refid?: boolean
+  role?: boolean
+  annotationId?: boolean
+  createdAt?: boolean
+}
+
+export type RelationNodeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "relationId" | "refid" | "role" | "annotationId" | "createdAt", ExtArgs["result"]["relationNode"]>
+export type RelationNodeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+  annotation?: boolean | Prisma.RelationNode$annotationArgs<ExtArgs>
+}
+export type RelationNodeIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+  annotation?: boolean | Prisma.RelationNode$annotationArgs<ExtArgs>
+}
+export type RelationNodeIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  relation?: boolean | Prisma.RelationDefaultArgs<ExtArgs>
+  annotation?: boolean | Prisma.RelationNode$annotationArgs<ExtArgs>
+}
+
+export type $RelationNodePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RelationNode"
+  objects: {
+    relation: Prisma.$RelationPayload<ExtArgs>
+    annotation: Prisma.$AnnotationPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    relationId: string
+    refid: string
+    role: string | null
+    annotationId: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["relationNode"]>
+  composites: {}
+}
+
+export type RelationNodeGetPayload<S extends boolean | null | undefined | RelationNodeDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RelationNodePayload, S>
+
+export type RelationNodeCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RelationNodeFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RelationNodeCountAggregateInputType | true
+  }
+
+export interface RelationNodeDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RelationNode'], meta: { name: 'RelationNode' } }
+  /**
+   * Find zero or one RelationNode that matches the filter.
+   * @param {RelationNodeFindUniqueArgs} args - Arguments to find a RelationNode
+   * @example
+   * // Get one RelationNode
+   * const relationNode = await prisma.relationNode.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RelationNodeFindUniqueArgs>(args: Prisma.SelectSubset<T, RelationNodeFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RelationNodeClient<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RelationNode that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RelationNodeFindUniqueOrThrowArgs} args - Arguments to find a RelationNode
+   * @example
+   * // Get one RelationNode
+   * const relationNode = await prisma.relationNode.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RelationNodeFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RelationNodeFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RelationNodeClient<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RelationNode that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationNodeFindFirstArgs} args - Arguments to find a RelationNode
+   * @example
+   * // Get one RelationNode
+   * const relationNode = await prisma.relationNode.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RelationNodeFindFirstArgs>(args?: Prisma.SelectSubset<T, RelationNodeFindFirstArgs<ExtArgs>>): Prisma.Prisma__RelationNodeClient<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RelationNode that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationNodeFindFirstOrThrowArgs} args - Arguments to find a RelationNode
+   * @example
+   * // Get one RelationNode
+   * const relationNode = await prisma.relationNode.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RelationNodeFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RelationNodeFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RelationNodeClient<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RelationNodes that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationNodeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RelationNodes
+   * const relationNodes = await prisma.relationNode.findMany()
+   * 
+   * // Get first 10 RelationNodes
+   * const relationNodes = await prisma.relationNode.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const relationNodeWithIdOnly = await prisma.relationNode.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RelationNodeFindManyArgs>(args?: Prisma.SelectSubset<T, RelationNodeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RelationNode.
+   * @param {RelationNodeCreateArgs} args - Arguments to create a RelationNode.
+   * @example
+   * // Create one RelationNode
+   * const RelationNode = await prisma.relationNode.create({
+   *   data: {
+   *     // ... data to create a RelationNode
+   *   }
+   * })
+   * 
+   */
+  create<T extends RelationNodeCreateArgs>(args: Prisma.SelectSubset<T, RelationNodeCreateArgs<ExtArgs>>): Prisma.Prisma__RelationNodeClient<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RelationNodes.
+   * @param {RelationNodeCreateManyArgs} args - Arguments to create many RelationNodes.
+   * @example
+   * // Create many RelationNodes
+   * const relationNode = await prisma.relationNode.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RelationNodeCreateManyArgs>(args?: Prisma.SelectSubset<T, RelationNodeCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RelationNodes and returns the data saved in the database.
+   * @param {RelationNodeCreateManyAndReturnArgs} args - Arguments to create many RelationNodes.
+   * @example
+   * // Create many RelationNodes
+   * const relationNode = await prisma.relationNode.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RelationNodes and only return the `id`
+   * const relationNodeWithIdOnly = await prisma.relationNode.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RelationNodeCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RelationNodeCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RelationNode.
+   * @param {RelationNodeDeleteArgs} args - Arguments to delete one RelationNode.
+   * @example
+   * // Delete one RelationNode
+   * const RelationNode = await prisma.relationNode.delete({
+   *   where: {
+   *     // ... filter to delete one RelationNode
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RelationNodeDeleteArgs>(args: Prisma.SelectSubset<T, RelationNodeDeleteArgs<ExtArgs>>): Prisma.Prisma__RelationNodeClient<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RelationNode.
+   * @param {RelationNodeUpdateArgs} args - Arguments to update one RelationNode.
+   * @example
+   * // Update one RelationNode
+   * const relationNode = await prisma.relationNode.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RelationNodeUpdateArgs>(args: Prisma.SelectSubset<T, RelationNodeUpdateArgs<ExtArgs>>): Prisma.Prisma__RelationNodeClient<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RelationNodes.
+   * @param {RelationNodeDeleteManyArgs} args - Arguments to filter RelationNodes to delete.
+   * @example
+   * // Delete a few RelationNodes
+   * const { count } = await prisma.relationNode.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RelationNodeDeleteManyArgs>(args?: Prisma.SelectSubset<T, RelationNodeDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RelationNodes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationNodeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RelationNodes
+   * const relationNode = await prisma.relationNode.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RelationNodeUpdateManyArgs>(args: Prisma.SelectSubset<T, RelationNodeUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RelationNodes and returns the data updated in the database.
+   * @param {RelationNodeUpdateManyAndReturnArgs} args - Arguments to update many RelationNodes.
+   * @example
+   * // Update many RelationNodes
+   * const relationNode = await prisma.relationNode.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RelationNodes and only return the `id`
+   * const relationNodeWithIdOnly = await prisma.relationNode.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RelationNodeUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RelationNodeUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RelationNode.
+   * @param {RelationNodeUpsertArgs} args - Arguments to update or create a RelationNode.
+   * @example
+   * // Update or create a RelationNode
+   * const relationNode = await prisma.relationNode.upsert({
+   *   create: {
+   *     // ... data to create a RelationNode
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RelationNode we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RelationNodeUpsertArgs>(args: Prisma.SelectSubset<T, RelationNodeUpsertArgs<ExtArgs>>): Prisma.Prisma__RelationNodeClient<runtime.Types.Result.GetResult<Prisma.$RelationNodePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RelationNodes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationNodeCountArgs} args - Arguments to filter RelationNodes to count.
+   * @example
+   * // Count the number of RelationNodes
+   * const count = await prisma.relationNode.count({
+   *   where: {
+   *     // ... the filter for the RelationNodes we want to count
+   *   }
+   * })
+  **/
+  count<T extends RelationNodeCountArgs>(
+    args?: Prisma.Subset<T, RelationNodeCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RelationNodeCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RelationNode.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationNodeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RelationNodeAggregateArgs>(args: Prisma.Subset<T, RelationNodeAggregateArgs>): Prisma.PrismaPromise<GetRelationNodeAggregateType<T>>
+
+  /**
+   * Group by RelationNode.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RelationNodeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RelationNodeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RelationNodeGroupByArgs['orderBy'] }
+      : { orderBy?: RelationNodeGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RelationNodeGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRelationNodeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RelationNode model
+ */
+readonly fields: RelationNodeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RelationNode.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RelationNodeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  relation<T extends Prisma.RelationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RelationDefaultArgs<ExtArgs>>): Prisma.Prisma__RelationClient<runtime.Types.Result.GetResult<Prisma.$RelationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  annotation<T extends Prisma.RelationNode$annotationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RelationNode$annotationArgs<ExtArgs>>): Prisma.Prisma__AnnotationClient<runtime.Types.Result.GetResult<Prisma.$AnnotationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RelationNode model
+ */
+export interface RelationNodeFieldRefs {
+  readonly id: Prisma.FieldRef<"RelationNode", 'String'>
+  readonly relationId: Prisma.FieldRef<"RelationNode", 'String'>
+  readonly refid: Prisma.FieldRef<"RelationNode", 'String'>
+  readonly role: Prisma.FieldRef<"RelationNode", 'String'>
+  readonly annotationId: Prisma.FieldRef<"RelationNode", 'String'>
+  readonly createdAt: Prisma.FieldRef<"RelationNode", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RelationNode findUnique
+ */
+export type RelationNodeFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationNode to fetch.
+   */
+  where: Prisma.RelationNodeWhereUniqueInput
+}
+
+/**
+ * RelationNode findUniqueOrThrow
+ */
+export type RelationNodeFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationNode to fetch.
+   */
+  where: Prisma.RelationNodeWhereUniqueInput
+}
+
+/**
+ * RelationNode findFirst
+ */
+export type RelationNodeFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationNode to fetch.
+   */
+  where?: Prisma.RelationNodeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RelationNodes to fetch.
+   */
+  orderBy?: Prisma.RelationNodeOrderByWithRelationInput | Prisma.RelationNodeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RelationNodes.
+   */
+  cursor?: Prisma.RelationNodeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RelationNodes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RelationNodes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RelationNodes.
+   */
+  distinct?: Prisma.RelationNodeScalarFieldEnum | Prisma.RelationNodeScalarFieldEnum[]
+}
+
+/**
+ * RelationNode findFirstOrThrow
+ */
+export type RelationNodeFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationNode to fetch.
+   */
+  where?: Prisma.RelationNodeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RelationNodes to fetch.
+   */
+  orderBy?: Prisma.RelationNodeOrderByWithRelationInput | Prisma.RelationNodeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RelationNodes.
+   */
+  cursor?: Prisma.RelationNodeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RelationNodes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RelationNodes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RelationNodes.
+   */
+  distinct?: Prisma.RelationNodeScalarFieldEnum | Prisma.RelationNodeScalarFieldEnum[]
+}
+
+/**
+ * RelationNode findMany
+ */
+export type RelationNodeFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * Filter, which RelationNodes to fetch.
+   */
+  where?: Prisma.RelationNodeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RelationNodes to fetch.
+   */
+  orderBy?: Prisma.RelationNodeOrderByWithRelationInput | Prisma.RelationNodeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RelationNodes.
+   */
+  cursor?: Prisma.RelationNodeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RelationNodes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RelationNodes.
+   */
+  skip?: number
+  distinct?: Prisma.RelationNodeScalarFieldEnum | Prisma.RelationNodeScalarFieldEnum[]
+}
+
+/**
+ * RelationNode create
+ */
+export type RelationNodeCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * The data needed to create a RelationNode.
+   */
+  data: Prisma.XOR<Prisma.RelationNodeCreateInput, Prisma.RelationNodeUncheckedCreateInput>
+}
+
+/**
+ * RelationNode createMany
+ */
+export type RelationNodeCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RelationNodes.
+   */
+  data: Prisma.RelationNodeCreateManyInput | Prisma.RelationNodeCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RelationNode createManyAndReturn
+ */
+export type RelationNodeCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * The data used to create many RelationNodes.
+   */
+  data: Prisma.RelationNodeCreateManyInput | Prisma.RelationNodeCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RelationNode update
+ */
+export type RelationNodeUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * The data needed to update a RelationNode.
+   */
+  data: Prisma.XOR<Prisma.RelationNodeUpdateInput, Prisma.RelationNodeUncheckedUpdateInput>
+  /**
+   * Choose, which RelationNode to update.
+   */
+  where: Prisma.RelationNodeWhereUniqueInput
+}
+
+/**
+ * RelationNode updateMany
+ */
+export type RelationNodeUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RelationNodes.
+   */
+  data: Prisma.XOR<Prisma.RelationNodeUpdateManyMutationInput, Prisma.RelationNodeUncheckedUpdateManyInput>
+  /**
+   * Filter which RelationNodes to update
+   */
+  where?: Prisma.RelationNodeWhereInput
+  /**
+   * Limit how many RelationNodes to update.
+   */
+  limit?: number
+}
+
+/**
+ * RelationNode updateManyAndReturn
+ */
+export type RelationNodeUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * The data used to update RelationNodes.
+   */
+  data: Prisma.XOR<Prisma.RelationNodeUpdateManyMutationInput, Prisma.RelationNodeUncheckedUpdateManyInput>
+  /**
+   * Filter which RelationNodes to update
+   */
+  where?: Prisma.RelationNodeWhereInput
+  /**
+   * Limit how many RelationNodes to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RelationNode upsert
+ */
+export type RelationNodeUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * The filter to search for the RelationNode to update in case it exists.
+   */
+  where: Prisma.RelationNodeWhereUniqueInput
+  /**
+   * In case the RelationNode found by the `where` argument doesn't exist, create a new RelationNode with this data.
+   */
+  create: Prisma.XOR<Prisma.RelationNodeCreateInput, Prisma.RelationNodeUncheckedCreateInput>
+  /**
+   * In case the RelationNode was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RelationNodeUpdateInput, Prisma.RelationNodeUncheckedUpdateInput>
+}
+
+/**
+ * RelationNode delete
+ */
+export type RelationNodeDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+  /**
+   * Filter which RelationNode to delete.
+   */
+  where: Prisma.RelationNodeWhereUniqueInput
+}
+
+/**
+ * RelationNode deleteMany
+ */
+export type RelationNodeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RelationNodes to delete
+   */
+  where?: Prisma.RelationNodeWhereInput
+  /**
+   * Limit how many RelationNodes to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RelationNode.annotation
+ */
+export type RelationNode$annotationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Annotation
+   */
+  select?: Prisma.AnnotationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Annotation
+   */
+  omit?: Prisma.AnnotationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInclude<ExtArgs> | null
+  where?: Prisma.AnnotationWhereInput
+}
+
+/**
+ * RelationNode without action
+ */
+export type RelationNodeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RelationNode
+   */
+  select?: Prisma.RelationNodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RelationNode
+   */
+  omit?: Prisma.RelationNodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RelationNodeInclude<ExtArgs> | null
+}
@@ -0,0 +1,1646 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Sentence` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Sentence
+ * 
+ */
+export type SentenceModel = runtime.Types.Result.DefaultSelection<Prisma.$SentencePayload>
+
+export type AggregateSentence = {
+  _count: SentenceCountAggregateOutputType | null
+  _avg: SentenceAvgAggregateOutputType | null
+  _sum: SentenceSumAggregateOutputType | null
+  _min: SentenceMinAggregateOutputType | null
+  _max: SentenceMaxAggregateOutputType | null
+}
+
+export type SentenceAvgAggregateOutputType = {
+  offset: number | null
+}
+
+export type SentenceSumAggregateOutputType = {
+  offset: number | null
+}
+
+export type SentenceMinAggregateOutputType = {
+  id: string | null
+  passageId: string | null
+  offset: number | null
+  text: string | null
+  createdAt: Date | null
+}
+
+export type SentenceMaxAggregateOutputType = {
+  id: string | null
+  passageId: string | null
+  offset: number | null
+  text: string | null
+  createdAt: Date | null
+}
+
+export type SentenceCountAggregateOutputType = {
+  id: number
+  passageId: number
+  offset: number
+  text: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SentenceAvgAggregateInputType = {
+  offset?: true
+}
+
+export type SentenceSumAggregateInputType = {
+  offset?: true
+}
+
+export type SentenceMinAggregateInputType = {
+  id?: true
+  passageId?: true
+  offset?: true
+  text?: true
+  createdAt?: true
+}
+
+export type SentenceMaxAggregateInputType = {
+  id?: true
+  passageId?: true
+  offset?: true
+  text?: true
+  createdAt?: true
+}
+
+export type SentenceCountAggregateInputType = {
+  id?: true
+  passageId?: true
+  offset?: true
+  text?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SentenceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Sentence to aggregate.
+   */
+  where?: Prisma.SentenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Sentences to fetch.
+   */
+  orderBy?: Prisma.SentenceOrderByWithRelationInput | Prisma.SentenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SentenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Sentences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Sentences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Sentences
+  **/
+  _count?: true | SentenceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SentenceAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SentenceSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SentenceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SentenceMaxAggregateInputType
+}
+
+export type GetSentenceAggregateType<T extends SentenceAggregateArgs> = {
+      [P in keyof T & keyof AggregateSentence]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSentence[P]>
+    : Prisma.GetScalarType<T[P], AggregateSentence[P]>
+}
+
+
+
+
+export type SentenceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SentenceWhereInput
+  orderBy?: Prisma.SentenceOrderByWithAggregationInput | Prisma.SentenceOrderByWithAggregationInput[]
+  by: Prisma.SentenceScalarFieldEnum[] | Prisma.SentenceScalarFieldEnum
+  having?: Prisma.SentenceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SentenceCountAggregateInputType | true
+  _avg?: SentenceAvgAggregateInputType
+  _sum?: SentenceSumAggregateInputType
+  _min?: SentenceMinAggregateInputType
+  _max?: SentenceMaxAggregateInputType
+}
+
+export type SentenceGroupByOutputType = {
+  id: string
+  passageId: string
+  offset: number
+  text: string
+  createdAt: Date
+  _count: SentenceCountAggregateOutputType | null
+  _avg: SentenceAvgAggregateOutputType | null
+  _sum: SentenceSumAggregateOutputType | null
+  _min: SentenceMinAggregateOutputType | null
+  _max: SentenceMaxAggregateOutputType | null
+}
+
+type GetSentenceGroupByPayload<T extends SentenceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SentenceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SentenceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SentenceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SentenceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SentenceWhereInput = {
+  AND?: Prisma.SentenceWhereInput | Prisma.SentenceWhereInput[]
+  OR?: Prisma.SentenceWhereInput[]
+  NOT?: Prisma.SentenceWhereInput | Prisma.SentenceWhereInput[]
+  id?: Prisma.StringFilter<"Sentence"> | string
+  passageId?: Prisma.StringFilter<"Sentence"> | string
+  offset?: Prisma.IntFilter<"Sentence"> | number
+  text?: Prisma.StringFilter<"Sentence"> | string
+  createdAt?: Prisma.DateTimeFilter<"Sentence"> | Date | string
+  passage?: Prisma.XOR<Prisma.PassageScalarRelationFilter, Prisma.PassageWhereInput>
+  infons?: Prisma.SentenceInfonListRelationFilter
+  annotations?: Prisma.AnnotationListRelationFilter
+}
+
+export type SentenceOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  passageId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  passage?: Prisma.PassageOrderByWithRelationInput
+  infons?: Prisma.SentenceInfonOrderByRelationAggregateInput
+  annotations?: Prisma.AnnotationOrderByRelationAggregateInput
+}
+
+export type SentenceWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.SentenceWhereInput | Prisma.SentenceWhereInput[]
+  OR?: Prisma.SentenceWhereInput[]
+  NOT?: Prisma.SentenceWhereInput | Prisma.SentenceWhereInput[]
+  passageId?: Prisma.StringFilter<"Sentence"> | string
+  offset?: Prisma.IntFilter<"Sentence"> | number
+  text?: Prisma.StringFilter<"Sentence"> | string
+  createdAt?: Prisma.DateTimeFilter<"Sentence"> | Date | string
+  passage?: Prisma.XOR<Prisma.PassageScalarRelationFilter, Prisma.PassageWhereInput>
+  infons?: Prisma.SentenceInfonListRelationFilter
+  annotations?: Prisma.AnnotationListRelationFilter
+}, "id">
+
+export type SentenceOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  passageId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SentenceCountOrderByAggregateInput
+  _avg?: Prisma.SentenceAvgOrderByAggregateInput
+  _max?: Prisma.SentenceMaxOrderByAggregateInput
+  _min?: Prisma.SentenceMinOrderByAggregateInput
+  _sum?: Prisma.SentenceSumOrderByAggregateInput
+}
+
+export type SentenceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SentenceScalarWhereWithAggregatesInput | Prisma.SentenceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SentenceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SentenceScalarWhereWithAggregatesInput | Prisma.SentenceScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Sentence"> | string
+  passageId?: Prisma.StringWithAggregatesFilter<"Sentence"> | string
+  offset?: Prisma.IntWithAggregatesFilter<"Sentence"> | number
+  text?: Prisma.StringWithAggregatesFilter<"Sentence"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Sentence"> | Date | string
+}
+
+export type SentenceCreateInput = {
+  id?: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+  passage: Prisma.PassageCreateNestedOneWithoutSentencesInput
+  infons?: Prisma.SentenceInfonCreateNestedManyWithoutSentenceInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutSentenceInput
+}
+
+export type SentenceUncheckedCreateInput = {
+  id?: string
+  passageId: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+  infons?: Prisma.SentenceInfonUncheckedCreateNestedManyWithoutSentenceInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutSentenceInput
+}
+
+export type SentenceUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  passage?: Prisma.PassageUpdateOneRequiredWithoutSentencesNestedInput
+  infons?: Prisma.SentenceInfonUpdateManyWithoutSentenceNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutSentenceNestedInput
+}
+
+export type SentenceUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.SentenceInfonUncheckedUpdateManyWithoutSentenceNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutSentenceNestedInput
+}
+
+export type SentenceCreateManyInput = {
+  id?: string
+  passageId: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+}
+
+export type SentenceUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SentenceUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SentenceListRelationFilter = {
+  every?: Prisma.SentenceWhereInput
+  some?: Prisma.SentenceWhereInput
+  none?: Prisma.SentenceWhereInput
+}
+
+export type SentenceOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SentenceCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  passageId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SentenceAvgOrderByAggregateInput = {
+  offset?: Prisma.SortOrder
+}
+
+export type SentenceMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  passageId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SentenceMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  passageId?: Prisma.SortOrder
+  offset?: Prisma.SortOrder
+  text?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SentenceSumOrderByAggregateInput = {
+  offset?: Prisma.SortOrder
+}
+
+export type SentenceScalarRelationFilter = {
+  is?: Prisma.SentenceWhereInput
+  isNot?: Prisma.SentenceWhereInput
+}
+
+export type SentenceNullableScalarRelationFilter = {
+  is?: Prisma.SentenceWhereInput | null
+  isNot?: Prisma.SentenceWhereInput | null
+}
+
+export type SentenceCreateNestedManyWithoutPassageInput = {
+  create?: Prisma.XOR<Prisma.SentenceCreateWithoutPassageInput, Prisma.SentenceUncheckedCreateWithoutPassageInput> | Prisma.SentenceCreateWithoutPassageInput[] | Prisma.SentenceUncheckedCreateWithoutPassageInput[]
+  connectOrCreate?: Prisma.SentenceCreateOrConnectWithoutPassageInput | Prisma.SentenceCreateOrConnectWithoutPassageInput[]
+  createMany?: Prisma.SentenceCreateManyPassageInputEnvelope
+  connect?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+}
+
+export type SentenceUncheckedCreateNestedManyWithoutPassageInput = {
+  create?: Prisma.XOR<Prisma.SentenceCreateWithoutPassageInput, Prisma.SentenceUncheckedCreateWithoutPassageInput> | Prisma.SentenceCreateWithoutPassageInput[] | Prisma.SentenceUncheckedCreateWithoutPassageInput[]
+  connectOrCreate?: Prisma.SentenceCreateOrConnectWithoutPassageInput | Prisma.SentenceCreateOrConnectWithoutPassageInput[]
+  createMany?: Prisma.SentenceCreateManyPassageInputEnvelope
+  connect?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+}
+
+export type SentenceUpdateManyWithoutPassageNestedInput = {
+  create?: Prisma.XOR<Prisma.SentenceCreateWithoutPassageInput, Prisma.SentenceUncheckedCreateWithoutPassageInput> | Prisma.SentenceCreateWithoutPassageInput[] | Prisma.SentenceUncheckedCreateWithoutPassageInput[]
+  connectOrCreate?: Prisma.SentenceCreateOrConnectWithoutPassageInput | Prisma.SentenceCreateOrConnectWithoutPassageInput[]
+  upsert?: Prisma.SentenceUpsertWithWhereUniqueWithoutPassageInput | Prisma.SentenceUpsertWithWhereUniqueWithoutPassageInput[]
+  createMany?: Prisma.SentenceCreateManyPassageInputEnvelope
+  set?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+  disconnect?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+  delete?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+  connect?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+  update?: Prisma.SentenceUpdateWithWhereUniqueWithoutPassageInput | Prisma.SentenceUpdateWithWhereUniqueWithoutPassageInput[]
+  updateMany?: Prisma.SentenceUpdateManyWithWhereWithoutPassageInput | Prisma.SentenceUpdateManyWithWhereWithoutPassageInput[]
+  deleteMany?: Prisma.SentenceScalarWhereInput | Prisma.SentenceScalarWhereInput[]
+}
+
+export type SentenceUncheckedUpdateManyWithoutPassageNestedInput = {
+  create?: Prisma.XOR<Prisma.SentenceCreateWithoutPassageInput, Prisma.SentenceUncheckedCreateWithoutPassageInput> | Prisma.SentenceCreateWithoutPassageInput[] | Prisma.SentenceUncheckedCreateWithoutPassageInput[]
+  connectOrCreate?: Prisma.SentenceCreateOrConnectWithoutPassageInput | Prisma.SentenceCreateOrConnectWithoutPassageInput[]
+  upsert?: Prisma.SentenceUpsertWithWhereUniqueWithoutPassageInput | Prisma.SentenceUpsertWithWhereUniqueWithoutPassageInput[]
+  createMany?: Prisma.SentenceCreateManyPassageInputEnvelope
+  set?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+  disconnect?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+  delete?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+  connect?: Prisma.SentenceWhereUniqueInput | Prisma.SentenceWhereUniqueInput[]
+  update?: Prisma.SentenceUpdateWithWhereUniqueWithoutPassageInput | Prisma.SentenceUpdateWithWhereUniqueWithoutPassageInput[]
+  updateMany?: Prisma.SentenceUpdateManyWithWhereWithoutPassageInput | Prisma.SentenceUpdateManyWithWhereWithoutPassageInput[]
+  deleteMany?: Prisma.SentenceScalarWhereInput | Prisma.SentenceScalarWhereInput[]
+}
+
+export type SentenceCreateNestedOneWithoutInfonsInput = {
+  create?: Prisma.XOR<Prisma.SentenceCreateWithoutInfonsInput, Prisma.SentenceUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.SentenceCreateOrConnectWithoutInfonsInput
+  connect?: Prisma.SentenceWhereUniqueInput
+}
+
+export type SentenceUpdateOneRequiredWithoutInfonsNestedInput = {
+  create?: Prisma.XOR<Prisma.SentenceCreateWithoutInfonsInput, Prisma.SentenceUncheckedCreateWithoutInfonsInput>
+  connectOrCreate?: Prisma.SentenceCreateOrConnectWithoutInfonsInput
+  upsert?: Prisma.SentenceUpsertWithoutInfonsInput
+  connect?: Prisma.SentenceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SentenceUpdateToOneWithWhereWithoutInfonsInput, Prisma.SentenceUpdateWithoutInfonsInput>, Prisma.SentenceUncheckedUpdateWithoutInfonsInput>
+}
+
+export type SentenceCreateNestedOneWithoutAnnotationsInput = {
+  create?: Prisma.XOR<Prisma.SentenceCreateWithoutAnnotationsInput, Prisma.SentenceUncheckedCreateWithoutAnnotationsInput>
+  connectOrCreate?: Prisma.SentenceCreateOrConnectWithoutAnnotationsInput
+  connect?: Prisma.SentenceWhereUniqueInput
+}
+
+export type SentenceUpdateOneWithoutAnnotationsNestedInput = {
+  create?: Prisma.XOR<Prisma.SentenceCreateWithoutAnnotationsInput, Prisma.SentenceUncheckedCreateWithoutAnnotationsInput>
+  connectOrCreate?: Prisma.SentenceCreateOrConnectWithoutAnnotationsInput
+  upsert?: Prisma.SentenceUpsertWithoutAnnotationsInput
+  disconnect?: Prisma.SentenceWhereInput | boolean
+  delete?: Prisma.SentenceWhereInput | boolean
+  connect?: Prisma.SentenceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SentenceUpdateToOneWithWhereWithoutAnnotationsInput, Prisma.SentenceUpdateWithoutAnnotationsInput>, Prisma.SentenceUncheckedUpdateWithoutAnnotationsInput>
+}
+
+export type SentenceCreateWithoutPassageInput = {
+  id?: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+  infons?: Prisma.SentenceInfonCreateNestedManyWithoutSentenceInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutSentenceInput
+}
+
+export type SentenceUncheckedCreateWithoutPassageInput = {
+  id?: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+  infons?: Prisma.SentenceInfonUncheckedCreateNestedManyWithoutSentenceInput
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutSentenceInput
+}
+
+export type SentenceCreateOrConnectWithoutPassageInput = {
+  where: Prisma.SentenceWhereUniqueInput
+  create: Prisma.XOR<Prisma.SentenceCreateWithoutPassageInput, Prisma.SentenceUncheckedCreateWithoutPassageInput>
+}
+
+export type SentenceCreateManyPassageInputEnvelope = {
+  data: Prisma.SentenceCreateManyPassageInput | Prisma.SentenceCreateManyPassageInput[]
+  skipDuplicates?: boolean
+}
+
+export type SentenceUpsertWithWhereUniqueWithoutPassageInput = {
+  where: Prisma.SentenceWhereUniqueInput
+  update: Prisma.XOR<Prisma.SentenceUpdateWithoutPassageInput, Prisma.SentenceUncheckedUpdateWithoutPassageInput>
+  create: Prisma.XOR<Prisma.SentenceCreateWithoutPassageInput, Prisma.SentenceUncheckedCreateWithoutPassageInput>
+}
+
+export type SentenceUpdateWithWhereUniqueWithoutPassageInput = {
+  where: Prisma.SentenceWhereUniqueInput
+  data: Prisma.XOR<Prisma.SentenceUpdateWithoutPassageInput, Prisma.SentenceUncheckedUpdateWithoutPassageInput>
+}
+
+export type SentenceUpdateManyWithWhereWithoutPassageInput = {
+  where: Prisma.SentenceScalarWhereInput
+  data: Prisma.XOR<Prisma.SentenceUpdateManyMutationInput, Prisma.SentenceUncheckedUpdateManyWithoutPassageInput>
+}
+
+export type SentenceScalarWhereInput = {
+  AND?: Prisma.SentenceScalarWhereInput | Prisma.SentenceScalarWhereInput[]
+  OR?: Prisma.SentenceScalarWhereInput[]
+  NOT?: Prisma.SentenceScalarWhereInput | Prisma.SentenceScalarWhereInput[]
+  id?: Prisma.StringFilter<"Sentence"> | string
+  passageId?: Prisma.StringFilter<"Sentence"> | string
+  offset?: Prisma.IntFilter<"Sentence"> | number
+  text?: Prisma.StringFilter<"Sentence"> | string
+  createdAt?: Prisma.DateTimeFilter<"Sentence"> | Date | string
+}
+
+export type SentenceCreateWithoutInfonsInput = {
+  id?: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+  passage: Prisma.PassageCreateNestedOneWithoutSentencesInput
+  annotations?: Prisma.AnnotationCreateNestedManyWithoutSentenceInput
+}
+
+export type SentenceUncheckedCreateWithoutInfonsInput = {
+  id?: string
+  passageId: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+  annotations?: Prisma.AnnotationUncheckedCreateNestedManyWithoutSentenceInput
+}
+
+export type SentenceCreateOrConnectWithoutInfonsInput = {
+  where: Prisma.SentenceWhereUniqueInput
+  create: Prisma.XOR<Prisma.SentenceCreateWithoutInfonsInput, Prisma.SentenceUncheckedCreateWithoutInfonsInput>
+}
+
+export type SentenceUpsertWithoutInfonsInput = {
+  update: Prisma.XOR<Prisma.SentenceUpdateWithoutInfonsInput, Prisma.SentenceUncheckedUpdateWithoutInfonsInput>
+  create: Prisma.XOR<Prisma.SentenceCreateWithoutInfonsInput, Prisma.SentenceUncheckedCreateWithoutInfonsInput>
+  where?: Prisma.SentenceWhereInput
+}
+
+export type SentenceUpdateToOneWithWhereWithoutInfonsInput = {
+  where?: Prisma.SentenceWhereInput
+  data: Prisma.XOR<Prisma.SentenceUpdateWithoutInfonsInput, Prisma.SentenceUncheckedUpdateWithoutInfonsInput>
+}
+
+export type SentenceUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  passage?: Prisma.PassageUpdateOneRequiredWithoutSentencesNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutSentenceNestedInput
+}
+
+export type SentenceUncheckedUpdateWithoutInfonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutSentenceNestedInput
+}
+
+export type SentenceCreateWithoutAnnotationsInput = {
+  id?: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+  passage: Prisma.PassageCreateNestedOneWithoutSentencesInput
+  infons?: Prisma.SentenceInfonCreateNestedManyWithoutSentenceInput
+}
+
+export type SentenceUncheckedCreateWithoutAnnotationsInput = {
+  id?: string
+  passageId: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+  infons?: Prisma.SentenceInfonUncheckedCreateNestedManyWithoutSentenceInput
+}
+
+export type SentenceCreateOrConnectWithoutAnnotationsInput = {
+  where: Prisma.SentenceWhereUniqueInput
+  create: Prisma.XOR<Prisma.SentenceCreateWithoutAnnotationsInput, Prisma.SentenceUncheckedCreateWithoutAnnotationsInput>
+}
+
+export type SentenceUpsertWithoutAnnotationsInput = {
+  update: Prisma.XOR<Prisma.SentenceUpdateWithoutAnnotationsInput, Prisma.SentenceUncheckedUpdateWithoutAnnotationsInput>
+  create: Prisma.XOR<Prisma.SentenceCreateWithoutAnnotationsInput, Prisma.SentenceUncheckedCreateWithoutAnnotationsInput>
+  where?: Prisma.SentenceWhereInput
+}
+
+export type SentenceUpdateToOneWithWhereWithoutAnnotationsInput = {
+  where?: Prisma.SentenceWhereInput
+  data: Prisma.XOR<Prisma.SentenceUpdateWithoutAnnotationsInput, Prisma.SentenceUncheckedUpdateWithoutAnnotationsInput>
+}
+
+export type SentenceUpdateWithoutAnnotationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  passage?: Prisma.PassageUpdateOneRequiredWithoutSentencesNestedInput
+  infons?: Prisma.SentenceInfonUpdateManyWithoutSentenceNestedInput
+}
+
+export type SentenceUncheckedUpdateWithoutAnnotationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  passageId?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.SentenceInfonUncheckedUpdateManyWithoutSentenceNestedInput
+}
+
+export type SentenceCreateManyPassageInput = {
+  id?: string
+  offset: number
+  text: string
+  createdAt?: Date | string
+}
+
+export type SentenceUpdateWithoutPassageInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.SentenceInfonUpdateManyWithoutSentenceNestedInput
+  annotations?: Prisma.AnnotationUpdateManyWithoutSentenceNestedInput
+}
+
+export type SentenceUncheckedUpdateWithoutPassageInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  infons?: Prisma.SentenceInfonUncheckedUpdateManyWithoutSentenceNestedInput
+  annotations?: Prisma.AnnotationUncheckedUpdateManyWithoutSentenceNestedInput
+}
+
+export type SentenceUncheckedUpdateManyWithoutPassageInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  offset?: Prisma.IntFieldUpdateOperationsInput | number
+  text?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type SentenceCountOutputType
+ */
+
+export type SentenceCountOutputType = {
+  infons: number
+  annotations: number
+}
+
+export type SentenceCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  infons?: boolean | SentenceCountOutputTypeCountInfonsArgs
+  annotations?: boolean | SentenceCountOutputTypeCountAnnotationsArgs
+}
+
+/**
+ * SentenceCountOutputType without action
+ */
+export type SentenceCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceCountOutputType
+   */
+  select?: Prisma.SentenceCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * SentenceCountOutputType without action
+ */
+export type SentenceCountOutputTypeCountInfonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SentenceInfonWhereInput
+}
+
+/**
+ * SentenceCountOutputType without action
+ */
+export type SentenceCountOutputTypeCountAnnotationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AnnotationWhereInput
+}
+
+
+export type SentenceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  passageId?: boolean
+  offset?: boolean
+  text?: boolean
+  createdAt?: boolean
+  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+  infons?: boolean | Prisma.Sentence$infonsArgs<ExtArgs>
+  annotations?: boolean | Prisma.Sentence$annotationsArgs<ExtArgs>
+  _count?: boolean | Prisma.SentenceCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sentence"]>
+
+export type SentenceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  passageId?: boolean
+  offset?: boolean
+  text?: boolean
+  createdAt?: boolean
+  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sentence"]>
+
+export type SentenceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  passageId?: boolean
+  offset?: boolean
+  text?: boolean
+  createdAt?: boolean
+  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sentence"]>
+
+export type SentenceSelectScalar = {
+  id?: boolean
+  passageId?: boolean
+  offset?: boolean
+  text?: boolean
+  createdAt?: boolean
+}
+
+export type SentenceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "passageId" | "offset" | "text" | "createdAt", ExtArgs["result"]["sentence"]>
+export type SentenceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+  infons?: boolean | Prisma.Sentence$infonsArgs<ExtArgs>
+  annotations?: boolean | Prisma.Sentence$annotationsArgs<ExtArgs>
+  _count?: boolean | Prisma.SentenceCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type SentenceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+}
+export type SentenceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  passage?: boolean | Prisma.PassageDefaultArgs<ExtArgs>
+}
+
+export type $SentencePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Sentence"
+  objects: {
+    passage: Prisma.$PassagePayload<ExtArgs>
+    infons: Prisma.$SentenceInfonPayload<ExtArgs>[]
+    annotations: Prisma.$AnnotationPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    passageId: string
+    offset: number
+    text: string
+    createdAt: Date
+  }, ExtArgs["result"]["sentence"]>
+  composites: {}
+}
+
+export type SentenceGetPayload<S extends boolean | null | undefined | SentenceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SentencePayload, S>
+
+export type SentenceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SentenceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SentenceCountAggregateInputType | true
+  }
+
+export interface SentenceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Sentence'], meta: { name: 'Sentence' } }
+  /**
+   * Find zero or one Sentence that matches the filter.
+   * @param {SentenceFindUniqueArgs} args - Arguments to find a Sentence
+   * @example
+   * // Get one Sentence
+   * const sentence = await prisma.sentence.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SentenceFindUniqueArgs>(args: Prisma.SelectSubset<T, SentenceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Sentence that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SentenceFindUniqueOrThrowArgs} args - Arguments to find a Sentence
+   * @example
+   * // Get one Sentence
+   * const sentence = await prisma.sentence.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SentenceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SentenceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Sentence that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceFindFirstArgs} args - Arguments to find a Sentence
+   * @example
+   * // Get one Sentence
+   * const sentence = await prisma.sentence.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SentenceFindFirstArgs>(args?: Prisma.SelectSubset<T, SentenceFindFirstArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Sentence that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceFindFirstOrThrowArgs} args - Arguments to find a Sentence
+   * @example
+   * // Get one Sentence
+   * const sentence = await prisma.sentence.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SentenceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SentenceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Sentences that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Sentences
+   * const sentences = await prisma.sentence.findMany()
+   * 
+   * // Get first 10 Sentences
+   * const sentences = await prisma.sentence.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const sentenceWithIdOnly = await prisma.sentence.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SentenceFindManyArgs>(args?: Prisma.SelectSubset<T, SentenceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Sentence.
+   * @param {SentenceCreateArgs} args - Arguments to create a Sentence.
+   * @example
+   * // Create one Sentence
+   * const Sentence = await prisma.sentence.create({
+   *   data: {
+   *     // ... data to create a Sentence
+   *   }
+   * })
+   * 
+   */
+  create<T extends SentenceCreateArgs>(args: Prisma.SelectSubset<T, SentenceCreateArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Sentences.
+   * @param {SentenceCreateManyArgs} args - Arguments to create many Sentences.
+   * @example
+   * // Create many Sentences
+   * const sentence = await prisma.sentence.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SentenceCreateManyArgs>(args?: Prisma.SelectSubset<T, SentenceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Sentences and returns the data saved in the database.
+   * @param {SentenceCreateManyAndReturnArgs} args - Arguments to create many Sentences.
+   * @example
+   * // Create many Sentences
+   * const sentence = await prisma.sentence.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Sentences and only return the `id`
+   * const sentenceWithIdOnly = await prisma.sentence.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SentenceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SentenceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Sentence.
+   * @param {SentenceDeleteArgs} args - Arguments to delete one Sentence.
+   * @example
+   * // Delete one Sentence
+   * const Sentence = await prisma.sentence.delete({
+   *   where: {
+   *     // ... filter to delete one Sentence
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SentenceDeleteArgs>(args: Prisma.SelectSubset<T, SentenceDeleteArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Sentence.
+   * @param {SentenceUpdateArgs} args - Arguments to update one Sentence.
+   * @example
+   * // Update one Sentence
+   * const sentence = await prisma.sentence.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SentenceUpdateArgs>(args: Prisma.SelectSubset<T, SentenceUpdateArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Sentences.
+   * @param {SentenceDeleteManyArgs} args - Arguments to filter Sentences to delete.
+   * @example
+   * // Delete a few Sentences
+   * const { count } = await prisma.sentence.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SentenceDeleteManyArgs>(args?: Prisma.SelectSubset<T, SentenceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Sentences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Sentences
+   * const sentence = await prisma.sentence.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SentenceUpdateManyArgs>(args: Prisma.SelectSubset<T, SentenceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Sentences and returns the data updated in the database.
+   * @param {SentenceUpdateManyAndReturnArgs} args - Arguments to update many Sentences.
+   * @example
+   * // Update many Sentences
+   * const sentence = await prisma.sentence.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Sentences and only return the `id`
+   * const sentenceWithIdOnly = await prisma.sentence.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SentenceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SentenceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Sentence.
+   * @param {SentenceUpsertArgs} args - Arguments to update or create a Sentence.
+   * @example
+   * // Update or create a Sentence
+   * const sentence = await prisma.sentence.upsert({
+   *   create: {
+   *     // ... data to create a Sentence
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Sentence we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SentenceUpsertArgs>(args: Prisma.SelectSubset<T, SentenceUpsertArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Sentences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceCountArgs} args - Arguments to filter Sentences to count.
+   * @example
+   * // Count the number of Sentences
+   * const count = await prisma.sentence.count({
+   *   where: {
+   *     // ... the filter for the Sentences we want to count
+   *   }
+   * })
+  **/
+  count<T extends SentenceCountArgs>(
+    args?: Prisma.Subset<T, SentenceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SentenceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Sentence.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SentenceAggregateArgs>(args: Prisma.Subset<T, SentenceAggregateArgs>): Prisma.PrismaPromise<GetSentenceAggregateType<T>>
+
+  /**
+   * Group by Sentence.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SentenceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SentenceGroupByArgs['orderBy'] }
+      : { orderBy?: SentenceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SentenceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSentenceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Sentence model
+ */
+readonly fields: SentenceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Sentence.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SentenceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  passage<T extends Prisma.PassageDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PassageDefaultArgs<ExtArgs>>): Prisma.Prisma__PassageClient<runtime.Types.Result.GetResult<Prisma.$PassagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  infons<T extends Prisma.Sentence$infonsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Sentence$infonsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  annotations<T extends Prisma.Sentence$annotationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Sentence$annotationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AnnotationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Sentence model
+ */
+export interface SentenceFieldRefs {
+  readonly id: Prisma.FieldRef<"Sentence", 'String'>
+  readonly passageId: Prisma.FieldRef<"Sentence", 'String'>
+  readonly offset: Prisma.FieldRef<"Sentence", 'Int'>
+  readonly text: Prisma.FieldRef<"Sentence", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Sentence", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Sentence findUnique
+ */
+export type SentenceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * Filter, which Sentence to fetch.
+   */
+  where: Prisma.SentenceWhereUniqueInput
+}
+
+/**
+ * Sentence findUniqueOrThrow
+ */
+export type SentenceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * Filter, which Sentence to fetch.
+   */
+  where: Prisma.SentenceWhereUniqueInput
+}
+
+/**
+ * Sentence findFirst
+ */
+export type SentenceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * Filter, which Sentence to fetch.
+   */
+  where?: Prisma.SentenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Sentences to fetch.
+   */
+  orderBy?: Prisma.SentenceOrderByWithRelationInput | Prisma.SentenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Sentences.
+   */
+  cursor?: Prisma.SentenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Sentences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Sentences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Sentences.
+   */
+  distinct?: Prisma.SentenceScalarFieldEnum | Prisma.SentenceScalarFieldEnum[]
+}
+
+/**
+ * Sentence findFirstOrThrow
+ */
+export type SentenceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * Filter, which Sentence to fetch.
+   */
+  where?: Prisma.SentenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Sentences to fetch.
+   */
+  orderBy?: Prisma.SentenceOrderByWithRelationInput | Prisma.SentenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Sentences.
+   */
+  cursor?: Prisma.SentenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Sentences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Sentences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Sentences.
+   */
+  distinct?: Prisma.SentenceScalarFieldEnum | Prisma.SentenceScalarFieldEnum[]
+}
+
+/**
+ * Sentence findMany
+ */
+export type SentenceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * Filter, which Sentences to fetch.
+   */
+  where?: Prisma.SentenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Sentences to fetch.
+   */
+  orderBy?: Prisma.SentenceOrderByWithRelationInput | Prisma.SentenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Sentences.
+   */
+  cursor?: Prisma.SentenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Sentences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Sentences.
+   */
+  skip?: number
+  distinct?: Prisma.SentenceScalarFieldEnum | Prisma.SentenceScalarFieldEnum[]
+}
+
+/**
+ * Sentence create
+ */
+export type SentenceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Sentence.
+   */
+  data: Prisma.XOR<Prisma.SentenceCreateInput, Prisma.SentenceUncheckedCreateInput>
+}
+
+/**
+ * Sentence createMany
+ */
+export type SentenceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Sentences.
+   */
+  data: Prisma.SentenceCreateManyInput | Prisma.SentenceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Sentence createManyAndReturn
+ */
+export type SentenceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * The data used to create many Sentences.
+   */
+  data: Prisma.SentenceCreateManyInput | Prisma.SentenceCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Sentence update
+ */
+export type SentenceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Sentence.
+   */
+  data: Prisma.XOR<Prisma.SentenceUpdateInput, Prisma.SentenceUncheckedUpdateInput>
+  /**
+   * Choose, which Sentence to update.
+   */
+  where: Prisma.SentenceWhereUniqueInput
+}
+
+/**
+ * Sentence updateMany
+ */
+export type SentenceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Sentences.
+   */
+  data: Prisma.XOR<Prisma.SentenceUpdateManyMutationInput, Prisma.SentenceUncheckedUpdateManyInput>
+  /**
+   * Filter which Sentences to update
+   */
+  where?: Prisma.SentenceWhereInput
+  /**
+   * Limit how many Sentences to update.
+   */
+  limit?: number
+}
+
+/**
+ * Sentence updateManyAndReturn
+ */
+export type SentenceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * The data used to update Sentences.
+   */
+  data: Prisma.XOR<Prisma.SentenceUpdateManyMutationInput, Prisma.SentenceUncheckedUpdateManyInput>
+  /**
+   * Filter which Sentences to update
+   */
+  where?: Prisma.SentenceWhereInput
+  /**
+   * Limit how many Sentences to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Sentence upsert
+ */
+export type SentenceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Sentence to update in case it exists.
+   */
+  where: Prisma.SentenceWhereUniqueInput
+  /**
+   * In case the Sentence found by the `where` argument doesn't exist, create a new Sentence with this data.
+   */
+  create: Prisma.XOR<Prisma.SentenceCreateInput, Prisma.SentenceUncheckedCreateInput>
+  /**
+   * In case the Sentence was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SentenceUpdateInput, Prisma.SentenceUncheckedUpdateInput>
+}
+
+/**
+ * Sentence delete
+ */
+export type SentenceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+  /**
+   * Filter which Sentence to delete.
+   */
+  where: Prisma.SentenceWhereUniqueInput
+}
+
+/**
+ * Sentence deleteMany
+ */
+export type SentenceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Sentences to delete
+   */
+  where?: Prisma.SentenceWhereInput
+  /**
+   * Limit how many Sentences to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Sentence.infons
+ */
+export type Sentence$infonsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  where?: Prisma.SentenceInfonWhereInput
+  orderBy?: Prisma.SentenceInfonOrderByWithRelationInput | Prisma.SentenceInfonOrderByWithRelationInput[]
+  cursor?: Prisma.SentenceInfonWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SentenceInfonScalarFieldEnum | Prisma.SentenceInfonScalarFieldEnum[]
+}
+
+/**
+ * Sentence.annotations
+ */
+export type Sentence$annotationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Annotation
+   */
+  select?: Prisma.AnnotationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Annotation
+   */
+  omit?: Prisma.AnnotationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AnnotationInclude<ExtArgs> | null
+  where?: Prisma.AnnotationWhereInput
+  orderBy?: Prisma.AnnotationOrderByWithRelationInput | Prisma.AnnotationOrderByWithRelationInput[]
+  cursor?: Prisma.AnnotationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AnnotationScalarFieldEnum | Prisma.AnnotationScalarFieldEnum[]
+}
+
+/**
+ * Sentence without action
+ */
+export type SentenceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Sentence
+   */
+  select?: Prisma.SentenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Sentence
+   */
+  omit?: Prisma.SentenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInclude<ExtArgs> | null
+}
@@ -0,0 +1,1340 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SentenceInfon` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model SentenceInfon
+ * 
+ */
+export type SentenceInfonModel = runtime.Types.Result.DefaultSelection<Prisma.$SentenceInfonPayload>
+
+export type AggregateSentenceInfon = {
+  _count: SentenceInfonCountAggregateOutputType | null
+  _min: SentenceInfonMinAggregateOutputType | null
+  _max: SentenceInfonMaxAggregateOutputType | null
+}
+
+export type SentenceInfonMinAggregateOutputType = {
+  id: string | null
+  sentenceId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type SentenceInfonMaxAggregateOutputType = {
+  id: string | null
+  sentenceId: string | null
+  key: string | null
+  value: string | null
+  createdAt: Date | null
+}
+
+export type SentenceInfonCountAggregateOutputType = {
+  id: number
+  sentenceId: number
+  key: number
+  value: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SentenceInfonMinAggregateInputType = {
+  id?: true
+  sentenceId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type SentenceInfonMaxAggregateInputType = {
+  id?: true
+  sentenceId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+}
+
+export type SentenceInfonCountAggregateInputType = {
+  id?: true
+  sentenceId?: true
+  key?: true
+  value?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SentenceInfonAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SentenceInfon to aggregate.
+   */
+  where?: Prisma.SentenceInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SentenceInfons to fetch.
+   */
+  orderBy?: Prisma.SentenceInfonOrderByWithRelationInput | Prisma.SentenceInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SentenceInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SentenceInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SentenceInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SentenceInfons
+  **/
+  _count?: true | SentenceInfonCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SentenceInfonMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SentenceInfonMaxAggregateInputType
+}
+
+export type GetSentenceInfonAggregateType<T extends SentenceInfonAggregateArgs> = {
+      [P in keyof T & keyof AggregateSentenceInfon]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSentenceInfon[P]>
+    : Prisma.GetScalarType<T[P], AggregateSentenceInfon[P]>
+}
+
+
+
+
+export type SentenceInfonGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SentenceInfonWhereInput
+  orderBy?: Prisma.SentenceInfonOrderByWithAggregationInput | Prisma.SentenceInfonOrderByWithAggregationInput[]
+  by: Prisma.SentenceInfonScalarFieldEnum[] | Prisma.SentenceInfonScalarFieldEnum
+  having?: Prisma.SentenceInfonScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SentenceInfonCountAggregateInputType | true
+  _min?: SentenceInfonMinAggregateInputType
+  _max?: SentenceInfonMaxAggregateInputType
+}
+
+export type SentenceInfonGroupByOutputType = {
+  id: string
+  sentenceId: string
+  key: string
+  value: string
+  createdAt: Date
+  _count: SentenceInfonCountAggregateOutputType | null
+  _min: SentenceInfonMinAggregateOutputType | null
+  _max: SentenceInfonMaxAggregateOutputType | null
+}
+
+type GetSentenceInfonGroupByPayload<T extends SentenceInfonGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SentenceInfonGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SentenceInfonGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SentenceInfonGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SentenceInfonGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SentenceInfonWhereInput = {
+  AND?: Prisma.SentenceInfonWhereInput | Prisma.SentenceInfonWhereInput[]
+  OR?: Prisma.SentenceInfonWhereInput[]
+  NOT?: Prisma.SentenceInfonWhereInput | Prisma.SentenceInfonWhereInput[]
+  id?: Prisma.StringFilter<"SentenceInfon"> | string
+  sentenceId?: Prisma.StringFilter<"SentenceInfon"> | string
+  key?: Prisma.StringFilter<"SentenceInfon"> | string
+  value?: Prisma.StringFilter<"SentenceInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"SentenceInfon"> | Date | string
+  sentence?: Prisma.XOR<Prisma.SentenceScalarRelationFilter, Prisma.SentenceWhereInput>
+}
+
+export type SentenceInfonOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  sentenceId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  sentence?: Prisma.SentenceOrderByWithRelationInput
+}
+
+export type SentenceInfonWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.SentenceInfonWhereInput | Prisma.SentenceInfonWhereInput[]
+  OR?: Prisma.SentenceInfonWhereInput[]
+  NOT?: Prisma.SentenceInfonWhereInput | Prisma.SentenceInfonWhereInput[]
+  sentenceId?: Prisma.StringFilter<"SentenceInfon"> | string
+  key?: Prisma.StringFilter<"SentenceInfon"> | string
+  value?: Prisma.StringFilter<"SentenceInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"SentenceInfon"> | Date | string
+  sentence?: Prisma.XOR<Prisma.SentenceScalarRelationFilter, Prisma.SentenceWhereInput>
+}, "id">
+
+export type SentenceInfonOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  sentenceId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SentenceInfonCountOrderByAggregateInput
+  _max?: Prisma.SentenceInfonMaxOrderByAggregateInput
+  _min?: Prisma.SentenceInfonMinOrderByAggregateInput
+}
+
+export type SentenceInfonScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SentenceInfonScalarWhereWithAggregatesInput | Prisma.SentenceInfonScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SentenceInfonScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SentenceInfonScalarWhereWithAggregatesInput | Prisma.SentenceInfonScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SentenceInfon"> | string
+  sentenceId?: Prisma.StringWithAggregatesFilter<"SentenceInfon"> | string
+  key?: Prisma.StringWithAggregatesFilter<"SentenceInfon"> | string
+  value?: Prisma.StringWithAggregatesFilter<"SentenceInfon"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SentenceInfon"> | Date | string
+}
+
+export type SentenceInfonCreateInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+  sentence: Prisma.SentenceCreateNestedOneWithoutInfonsInput
+}
+
+export type SentenceInfonUncheckedCreateInput = {
+  id?: string
+  sentenceId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type SentenceInfonUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentence?: Prisma.SentenceUpdateOneRequiredWithoutInfonsNestedInput
+}
+
+export type SentenceInfonUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sentenceId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SentenceInfonCreateManyInput = {
+  id?: string
+  sentenceId: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type SentenceInfonUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SentenceInfonUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sentenceId?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SentenceInfonListRelationFilter = {
+  every?: Prisma.SentenceInfonWhereInput
+  some?: Prisma.SentenceInfonWhereInput
+  none?: Prisma.SentenceInfonWhereInput
+}
+
+export type SentenceInfonOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SentenceInfonCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sentenceId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SentenceInfonMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sentenceId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SentenceInfonMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sentenceId?: Prisma.SortOrder
+  key?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SentenceInfonCreateNestedManyWithoutSentenceInput = {
+  create?: Prisma.XOR<Prisma.SentenceInfonCreateWithoutSentenceInput, Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput> | Prisma.SentenceInfonCreateWithoutSentenceInput[] | Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput[]
+  connectOrCreate?: Prisma.SentenceInfonCreateOrConnectWithoutSentenceInput | Prisma.SentenceInfonCreateOrConnectWithoutSentenceInput[]
+  createMany?: Prisma.SentenceInfonCreateManySentenceInputEnvelope
+  connect?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+}
+
+export type SentenceInfonUncheckedCreateNestedManyWithoutSentenceInput = {
+  create?: Prisma.XOR<Prisma.SentenceInfonCreateWithoutSentenceInput, Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput> | Prisma.SentenceInfonCreateWithoutSentenceInput[] | Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput[]
+  connectOrCreate?: Prisma.SentenceInfonCreateOrConnectWithoutSentenceInput | Prisma.SentenceInfonCreateOrConnectWithoutSentenceInput[]
+  createMany?: Prisma.SentenceInfonCreateManySentenceInputEnvelope
+  connect?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+}
+
+export type SentenceInfonUpdateManyWithoutSentenceNestedInput = {
+  create?: Prisma.XOR<Prisma.SentenceInfonCreateWithoutSentenceInput, Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput> | Prisma.SentenceInfonCreateWithoutSentenceInput[] | Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput[]
+  connectOrCreate?: Prisma.SentenceInfonCreateOrConnectWithoutSentenceInput | Prisma.SentenceInfonCreateOrConnectWithoutSentenceInput[]
+  upsert?: Prisma.SentenceInfonUpsertWithWhereUniqueWithoutSentenceInput | Prisma.SentenceInfonUpsertWithWhereUniqueWithoutSentenceInput[]
+  createMany?: Prisma.SentenceInfonCreateManySentenceInputEnvelope
+  set?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+  disconnect?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+  delete?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+  connect?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+  update?: Prisma.SentenceInfonUpdateWithWhereUniqueWithoutSentenceInput | Prisma.SentenceInfonUpdateWithWhereUniqueWithoutSentenceInput[]
+  updateMany?: Prisma.SentenceInfonUpdateManyWithWhereWithoutSentenceInput | Prisma.SentenceInfonUpdateManyWithWhereWithoutSentenceInput[]
+  deleteMany?: Prisma.SentenceInfonScalarWhereInput | Prisma.SentenceInfonScalarWhereInput[]
+}
+
+export type SentenceInfonUncheckedUpdateManyWithoutSentenceNestedInput = {
+  create?: Prisma.XOR<Prisma.SentenceInfonCreateWithoutSentenceInput, Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput> | Prisma.SentenceInfonCreateWithoutSentenceInput[] | Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput[]
+  connectOrCreate?: Prisma.SentenceInfonCreateOrConnectWithoutSentenceInput | Prisma.SentenceInfonCreateOrConnectWithoutSentenceInput[]
+  upsert?: Prisma.SentenceInfonUpsertWithWhereUniqueWithoutSentenceInput | Prisma.SentenceInfonUpsertWithWhereUniqueWithoutSentenceInput[]
+  createMany?: Prisma.SentenceInfonCreateManySentenceInputEnvelope
+  set?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+  disconnect?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+  delete?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+  connect?: Prisma.SentenceInfonWhereUniqueInput | Prisma.SentenceInfonWhereUniqueInput[]
+  update?: Prisma.SentenceInfonUpdateWithWhereUniqueWithoutSentenceInput | Prisma.SentenceInfonUpdateWithWhereUniqueWithoutSentenceInput[]
+  updateMany?: Prisma.SentenceInfonUpdateManyWithWhereWithoutSentenceInput | Prisma.SentenceInfonUpdateManyWithWhereWithoutSentenceInput[]
+  deleteMany?: Prisma.SentenceInfonScalarWhereInput | Prisma.SentenceInfonScalarWhereInput[]
+}
+
+export type SentenceInfonCreateWithoutSentenceInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type SentenceInfonUncheckedCreateWithoutSentenceInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type SentenceInfonCreateOrConnectWithoutSentenceInput = {
+  where: Prisma.SentenceInfonWhereUniqueInput
+  create: Prisma.XOR<Prisma.SentenceInfonCreateWithoutSentenceInput, Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput>
+}
+
+export type SentenceInfonCreateManySentenceInputEnvelope = {
+  data: Prisma.SentenceInfonCreateManySentenceInput | Prisma.SentenceInfonCreateManySentenceInput[]
+  skipDuplicates?: boolean
+}
+
+export type SentenceInfonUpsertWithWhereUniqueWithoutSentenceInput = {
+  where: Prisma.SentenceInfonWhereUniqueInput
+  update: Prisma.XOR<Prisma.SentenceInfonUpdateWithoutSentenceInput, Prisma.SentenceInfonUncheckedUpdateWithoutSentenceInput>
+  create: Prisma.XOR<Prisma.SentenceInfonCreateWithoutSentenceInput, Prisma.SentenceInfonUncheckedCreateWithoutSentenceInput>
+}
+
+export type SentenceInfonUpdateWithWhereUniqueWithoutSentenceInput = {
+  where: Prisma.SentenceInfonWhereUniqueInput
+  data: Prisma.XOR<Prisma.SentenceInfonUpdateWithoutSentenceInput, Prisma.SentenceInfonUncheckedUpdateWithoutSentenceInput>
+}
+
+export type SentenceInfonUpdateManyWithWhereWithoutSentenceInput = {
+  where: Prisma.SentenceInfonScalarWhereInput
+  data: Prisma.XOR<Prisma.SentenceInfonUpdateManyMutationInput, Prisma.SentenceInfonUncheckedUpdateManyWithoutSentenceInput>
+}
+
+export type SentenceInfonScalarWhereInput = {
+  AND?: Prisma.SentenceInfonScalarWhereInput | Prisma.SentenceInfonScalarWhereInput[]
+  OR?: Prisma.SentenceInfonScalarWhereInput[]
+  NOT?: Prisma.SentenceInfonScalarWhereInput | Prisma.SentenceInfonScalarWhereInput[]
+  id?: Prisma.StringFilter<"SentenceInfon"> | string
+  sentenceId?: Prisma.StringFilter<"SentenceInfon"> | string
+  key?: Prisma.StringFilter<"SentenceInfon"> | string
+  value?: Prisma.StringFilter<"SentenceInfon"> | string
+  createdAt?: Prisma.DateTimeFilter<"SentenceInfon"> | Date | string
+}
+
+export type SentenceInfonCreateManySentenceInput = {
+  id?: string
+  key: string
+  value: string
+  createdAt?: Date | string
+}
+
+export type SentenceInfonUpdateWithoutSentenceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SentenceInfonUncheckedUpdateWithoutSentenceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SentenceInfonUncheckedUpdateManyWithoutSentenceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SentenceInfonSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sentenceId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  sentence?: boolean | Prisma.SentenceDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sentenceInfon"]>
+
+export type SentenceInfonSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sentenceId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  sentence?: boolean | Prisma.SentenceDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sentenceInfon"]>
+
+export type SentenceInfonSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sentenceId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+  sentence?: boolean | Prisma.SentenceDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sentenceInfon"]>
+
+export type SentenceInfonSelectScalar = {
+  id?: boolean
+  sentenceId?: boolean
+  key?: boolean
+  value?: boolean
+  createdAt?: boolean
+}
+
+export type SentenceInfonOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "sentenceId" | "key" | "value" | "createdAt", ExtArgs["result"]["sentenceInfon"]>
+export type SentenceInfonInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  sentence?: boolean | Prisma.SentenceDefaultArgs<ExtArgs>
+}
+export type SentenceInfonIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  sentence?: boolean | Prisma.SentenceDefaultArgs<ExtArgs>
+}
+export type SentenceInfonIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  sentence?: boolean | Prisma.SentenceDefaultArgs<ExtArgs>
+}
+
+export type $SentenceInfonPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SentenceInfon"
+  objects: {
+    sentence: Prisma.$SentencePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    sentenceId: string
+    key: string
+    value: string
+    createdAt: Date
+  }, ExtArgs["result"]["sentenceInfon"]>
+  composites: {}
+}
+
+export type SentenceInfonGetPayload<S extends boolean | null | undefined | SentenceInfonDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload, S>
+
+export type SentenceInfonCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SentenceInfonFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SentenceInfonCountAggregateInputType | true
+  }
+
+export interface SentenceInfonDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SentenceInfon'], meta: { name: 'SentenceInfon' } }
+  /**
+   * Find zero or one SentenceInfon that matches the filter.
+   * @param {SentenceInfonFindUniqueArgs} args - Arguments to find a SentenceInfon
+   * @example
+   * // Get one SentenceInfon
+   * const sentenceInfon = await prisma.sentenceInfon.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SentenceInfonFindUniqueArgs>(args: Prisma.SelectSubset<T, SentenceInfonFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SentenceInfonClient<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SentenceInfon that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SentenceInfonFindUniqueOrThrowArgs} args - Arguments to find a SentenceInfon
+   * @example
+   * // Get one SentenceInfon
+   * const sentenceInfon = await prisma.sentenceInfon.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SentenceInfonFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SentenceInfonFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SentenceInfonClient<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SentenceInfon that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceInfonFindFirstArgs} args - Arguments to find a SentenceInfon
+   * @example
+   * // Get one SentenceInfon
+   * const sentenceInfon = await prisma.sentenceInfon.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SentenceInfonFindFirstArgs>(args?: Prisma.SelectSubset<T, SentenceInfonFindFirstArgs<ExtArgs>>): Prisma.Prisma__SentenceInfonClient<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SentenceInfon that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceInfonFindFirstOrThrowArgs} args - Arguments to find a SentenceInfon
+   * @example
+   * // Get one SentenceInfon
+   * const sentenceInfon = await prisma.sentenceInfon.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SentenceInfonFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SentenceInfonFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SentenceInfonClient<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SentenceInfons that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceInfonFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SentenceInfons
+   * const sentenceInfons = await prisma.sentenceInfon.findMany()
+   * 
+   * // Get first 10 SentenceInfons
+   * const sentenceInfons = await prisma.sentenceInfon.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const sentenceInfonWithIdOnly = await prisma.sentenceInfon.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SentenceInfonFindManyArgs>(args?: Prisma.SelectSubset<T, SentenceInfonFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SentenceInfon.
+   * @param {SentenceInfonCreateArgs} args - Arguments to create a SentenceInfon.
+   * @example
+   * // Create one SentenceInfon
+   * const SentenceInfon = await prisma.sentenceInfon.create({
+   *   data: {
+   *     // ... data to create a SentenceInfon
+   *   }
+   * })
+   * 
+   */
+  create<T extends SentenceInfonCreateArgs>(args: Prisma.SelectSubset<T, SentenceInfonCreateArgs<ExtArgs>>): Prisma.Prisma__SentenceInfonClient<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SentenceInfons.
+   * @param {SentenceInfonCreateManyArgs} args - Arguments to create many SentenceInfons.
+   * @example
+   * // Create many SentenceInfons
+   * const sentenceInfon = await prisma.sentenceInfon.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SentenceInfonCreateManyArgs>(args?: Prisma.SelectSubset<T, SentenceInfonCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SentenceInfons and returns the data saved in the database.
+   * @param {SentenceInfonCreateManyAndReturnArgs} args - Arguments to create many SentenceInfons.
+   * @example
+   * // Create many SentenceInfons
+   * const sentenceInfon = await prisma.sentenceInfon.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SentenceInfons and only return the `id`
+   * const sentenceInfonWithIdOnly = await prisma.sentenceInfon.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SentenceInfonCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SentenceInfonCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SentenceInfon.
+   * @param {SentenceInfonDeleteArgs} args - Arguments to delete one SentenceInfon.
+   * @example
+   * // Delete one SentenceInfon
+   * const SentenceInfon = await prisma.sentenceInfon.delete({
+   *   where: {
+   *     // ... filter to delete one SentenceInfon
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SentenceInfonDeleteArgs>(args: Prisma.SelectSubset<T, SentenceInfonDeleteArgs<ExtArgs>>): Prisma.Prisma__SentenceInfonClient<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SentenceInfon.
+   * @param {SentenceInfonUpdateArgs} args - Arguments to update one SentenceInfon.
+   * @example
+   * // Update one SentenceInfon
+   * const sentenceInfon = await prisma.sentenceInfon.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SentenceInfonUpdateArgs>(args: Prisma.SelectSubset<T, SentenceInfonUpdateArgs<ExtArgs>>): Prisma.Prisma__SentenceInfonClient<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SentenceInfons.
+   * @param {SentenceInfonDeleteManyArgs} args - Arguments to filter SentenceInfons to delete.
+   * @example
+   * // Delete a few SentenceInfons
+   * const { count } = await prisma.sentenceInfon.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SentenceInfonDeleteManyArgs>(args?: Prisma.SelectSubset<T, SentenceInfonDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SentenceInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceInfonUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SentenceInfons
+   * const sentenceInfon = await prisma.sentenceInfon.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SentenceInfonUpdateManyArgs>(args: Prisma.SelectSubset<T, SentenceInfonUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SentenceInfons and returns the data updated in the database.
+   * @param {SentenceInfonUpdateManyAndReturnArgs} args - Arguments to update many SentenceInfons.
+   * @example
+   * // Update many SentenceInfons
+   * const sentenceInfon = await prisma.sentenceInfon.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SentenceInfons and only return the `id`
+   * const sentenceInfonWithIdOnly = await prisma.sentenceInfon.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SentenceInfonUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SentenceInfonUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SentenceInfon.
+   * @param {SentenceInfonUpsertArgs} args - Arguments to update or create a SentenceInfon.
+   * @example
+   * // Update or create a SentenceInfon
+   * const sentenceInfon = await prisma.sentenceInfon.upsert({
+   *   create: {
+   *     // ... data to create a SentenceInfon
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SentenceInfon we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SentenceInfonUpsertArgs>(args: Prisma.SelectSubset<T, SentenceInfonUpsertArgs<ExtArgs>>): Prisma.Prisma__SentenceInfonClient<runtime.Types.Result.GetResult<Prisma.$SentenceInfonPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SentenceInfons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceInfonCountArgs} args - Arguments to filter SentenceInfons to count.
+   * @example
+   * // Count the number of SentenceInfons
+   * const count = await prisma.sentenceInfon.count({
+   *   where: {
+   *     // ... the filter for the SentenceInfons we want to count
+   *   }
+   * })
+  **/
+  count<T extends SentenceInfonCountArgs>(
+    args?: Prisma.Subset<T, SentenceInfonCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SentenceInfonCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SentenceInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceInfonAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SentenceInfonAggregateArgs>(args: Prisma.Subset<T, SentenceInfonAggregateArgs>): Prisma.PrismaPromise<GetSentenceInfonAggregateType<T>>
+
+  /**
+   * Group by SentenceInfon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SentenceInfonGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SentenceInfonGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SentenceInfonGroupByArgs['orderBy'] }
+      : { orderBy?: SentenceInfonGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SentenceInfonGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSentenceInfonGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SentenceInfon model
+ */
+readonly fields: SentenceInfonFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SentenceInfon.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SentenceInfonClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  sentence<T extends Prisma.SentenceDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SentenceDefaultArgs<ExtArgs>>): Prisma.Prisma__SentenceClient<runtime.Types.Result.GetResult<Prisma.$SentencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SentenceInfon model
+ */
+export interface SentenceInfonFieldRefs {
+  readonly id: Prisma.FieldRef<"SentenceInfon", 'String'>
+  readonly sentenceId: Prisma.FieldRef<"SentenceInfon", 'String'>
+  readonly key: Prisma.FieldRef<"SentenceInfon", 'String'>
+  readonly value: Prisma.FieldRef<"SentenceInfon", 'String'>
+  readonly createdAt: Prisma.FieldRef<"SentenceInfon", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SentenceInfon findUnique
+ */
+export type SentenceInfonFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which SentenceInfon to fetch.
+   */
+  where: Prisma.SentenceInfonWhereUniqueInput
+}
+
+/**
+ * SentenceInfon findUniqueOrThrow
+ */
+export type SentenceInfonFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which SentenceInfon to fetch.
+   */
+  where: Prisma.SentenceInfonWhereUniqueInput
+}
+
+/**
+ * SentenceInfon findFirst
+ */
+export type SentenceInfonFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which SentenceInfon to fetch.
+   */
+  where?: Prisma.SentenceInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SentenceInfons to fetch.
+   */
+  orderBy?: Prisma.SentenceInfonOrderByWithRelationInput | Prisma.SentenceInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SentenceInfons.
+   */
+  cursor?: Prisma.SentenceInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SentenceInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SentenceInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SentenceInfons.
+   */
+  distinct?: Prisma.SentenceInfonScalarFieldEnum | Prisma.SentenceInfonScalarFieldEnum[]
+}
+
+/**
+ * SentenceInfon findFirstOrThrow
+ */
+export type SentenceInfonFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which SentenceInfon to fetch.
+   */
+  where?: Prisma.SentenceInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SentenceInfons to fetch.
+   */
+  orderBy?: Prisma.SentenceInfonOrderByWithRelationInput | Prisma.SentenceInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SentenceInfons.
+   */
+  cursor?: Prisma.SentenceInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SentenceInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SentenceInfons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SentenceInfons.
+   */
+  distinct?: Prisma.SentenceInfonScalarFieldEnum | Prisma.SentenceInfonScalarFieldEnum[]
+}
+
+/**
+ * SentenceInfon findMany
+ */
+export type SentenceInfonFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * Filter, which SentenceInfons to fetch.
+   */
+  where?: Prisma.SentenceInfonWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SentenceInfons to fetch.
+   */
+  orderBy?: Prisma.SentenceInfonOrderByWithRelationInput | Prisma.SentenceInfonOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SentenceInfons.
+   */
+  cursor?: Prisma.SentenceInfonWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SentenceInfons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SentenceInfons.
+   */
+  skip?: number
+  distinct?: Prisma.SentenceInfonScalarFieldEnum | Prisma.SentenceInfonScalarFieldEnum[]
+}
+
+/**
+ * SentenceInfon create
+ */
+export type SentenceInfonCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SentenceInfon.
+   */
+  data: Prisma.XOR<Prisma.SentenceInfonCreateInput, Prisma.SentenceInfonUncheckedCreateInput>
+}
+
+/**
+ * SentenceInfon createMany
+ */
+export type SentenceInfonCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SentenceInfons.
+   */
+  data: Prisma.SentenceInfonCreateManyInput | Prisma.SentenceInfonCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SentenceInfon createManyAndReturn
+ */
+export type SentenceInfonCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * The data used to create many SentenceInfons.
+   */
+  data: Prisma.SentenceInfonCreateManyInput | Prisma.SentenceInfonCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SentenceInfon update
+ */
+export type SentenceInfonUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SentenceInfon.
+   */
+  data: Prisma.XOR<Prisma.SentenceInfonUpdateInput, Prisma.SentenceInfonUncheckedUpdateInput>
+  /**
+   * Choose, which SentenceInfon to update.
+   */
+  where: Prisma.SentenceInfonWhereUniqueInput
+}
+
+/**
+ * SentenceInfon updateMany
+ */
+export type SentenceInfonUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SentenceInfons.
+   */
+  data: Prisma.XOR<Prisma.SentenceInfonUpdateManyMutationInput, Prisma.SentenceInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which SentenceInfons to update
+   */
+  where?: Prisma.SentenceInfonWhereInput
+  /**
+   * Limit how many SentenceInfons to update.
+   */
+  limit?: number
+}
+
+/**
+ * SentenceInfon updateManyAndReturn
+ */
+export type SentenceInfonUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * The data used to update SentenceInfons.
+   */
+  data: Prisma.XOR<Prisma.SentenceInfonUpdateManyMutationInput, Prisma.SentenceInfonUncheckedUpdateManyInput>
+  /**
+   * Filter which SentenceInfons to update
+   */
+  where?: Prisma.SentenceInfonWhereInput
+  /**
+   * Limit how many SentenceInfons to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SentenceInfon upsert
+ */
+export type SentenceInfonUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SentenceInfon to update in case it exists.
+   */
+  where: Prisma.SentenceInfonWhereUniqueInput
+  /**
+   * In case the SentenceInfon found by the `where` argument doesn't exist, create a new SentenceInfon with this data.
+   */
+  create: Prisma.XOR<Prisma.SentenceInfonCreateInput, Prisma.SentenceInfonUncheckedCreateInput>
+  /**
+   * In case the SentenceInfon was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SentenceInfonUpdateInput, Prisma.SentenceInfonUncheckedUpdateInput>
+}
+
+/**
+ * SentenceInfon delete
+ */
+export type SentenceInfonDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+  /**
+   * Filter which SentenceInfon to delete.
+   */
+  where: Prisma.SentenceInfonWhereUniqueInput
+}
+
+/**
+ * SentenceInfon deleteMany
+ */
+export type SentenceInfonDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SentenceInfons to delete
+   */
+  where?: Prisma.SentenceInfonWhereInput
+  /**
+   * Limit how many SentenceInfons to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SentenceInfon without action
+ */
+export type SentenceInfonDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SentenceInfon
+   */
+  select?: Prisma.SentenceInfonSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SentenceInfon
+   */
+  omit?: Prisma.SentenceInfonOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SentenceInfonInclude<ExtArgs> | null
+}
@@ -0,0 +1,77 @@
+/**
+ * Glob patterns for selecting files below a directory:
+ *
+ *   *.xml.gz             `*` matches within one path segment
+ *   output/**\/*.xml     `**` matches any number of directories
+ *   file-?.json          `?` matches one character
+ *   *.{xml,json}         alternatives
+ *   [0-4]/*              character classes, `[!...]` negates
+ *
+ * Paths are relative to the directory being searched and use `/`. Patterns
+ * without a `/` are matched against the file name alone, so `*.tmp` skips
+ * temporary files at any depth. Matching is case-insensitive.
+ */
+export class GlobPattern {
+  private regex: RegExp;
+
+  constructor(readonly pattern: string) {
+    const normalized = pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+    if (normalized === '') {
+      throw new Error('Glob pattern is empty');
+    }
+    const source = this.translate(normalized);
+    this.regex = new RegExp(normalized.includes('/') ? `^${source}$` : `(?:^|/)${source}$`, 'i');
+  }
+
+  matches(relativePath: string): boolean {
+    return this.regex.test(relativePath);
+  }
+
+  private translate(pattern: string): string {
+    let source = '';
+    let braces = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '/' && pattern.slice(i) === '/**') {
+        // A trailing `/**` matches the directory itself as well
+        source += '(?:/.*)?';
+        break;
+      } else if (char === '*' && pattern[i + 1] === '*') {
+        // `**/` also matches no directory at all
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[') {
+        const end = pattern.indexOf(']', i + 2);
+        if (end === -1) {
+          source += '\\[';
+          continue;
+        }
+        const negated = pattern[i + 1] === '!' || pattern[i + 1] === '^';
+        const members = pattern.slice(negated ? i + 2 : i + 1, end).replace(/[\\\]]/g, '\\$&');
+        source += negated ? `[^/${members}]` : `[${members}]`;
+        i = end;
+      } else if (char === '{') {
+        braces++;
+        source += '(?:';
+      } else if (char === '}' && braces > 0) {
+        braces--;
+        source += ')';
+      } else if (char === ',' && braces > 0) {
+        source += '|';
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    if (braces > 0) {
+      throw new Error(`Unclosed "{" in glob pattern: ${this.pattern}`);
+    }
+    return source;
+  }
+}
@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { logger } from './logger.js';
+
+/** Requested IDs seen since the last `takeMarks`, as keys, passed from workers to the main thread */
+export interface IdMarks {
+  found: string[];
+  excluded: string[];
+}
+
+/**
+ * A list of requested PMIDs and PMCIDs. A PMCID keeps its prefix, so `PMC123`
+ * and `pmc123` are the same ID, as are `PMID:123` and `123`, but `PMC123` and
+ * `123` are different articles.
+ */
+export class IdList {
+  /** The valid IDs as written, keyed by their normalized form */
+  private requested = new Map<string, string>();
+  private found = new Set<string>();
+  /** Seen in a document that did not pass the filter */
+  private rejected = new Set<string>();
+  /** Stored by an earlier run whose entries were not read again */
+  private stored = new Set<string>();
+
+  constructor(ids: string[]) {
+    for (const id of ids) {
+      const key = IdList.normalize(id);
+      if (key && !this.requested.has(key)) {
+        this.requested.set(key, id.trim());
+      }
+    }
+  }
+
+  /** Reads IDs separated by newlines, commas, semicolons or whitespace; lines starting with `#` are ignored */
+  static fromFile(path: string): IdList {
+    const tokens = readFileSync(path, 'utf-8')
+      .split(/\r?\n/)
+      .filter(line => !line.trimStart().startsWith('#'))
+      .flatMap(line => line.split(/[\s,;]+/))
+      .filter(token => token !== '');
+
+    const invalid = tokens.filter(token => !IdList.normalize(token));
+    if (invalid.length > 0) {
+      logger.warn(`Ignoring ${invalid.length} entries of ${path} that are not PMIDs or PMCIDs, e.g. "${invalid[0]}"`);
+    }
+
+    const list = new IdList(tokens);
+    if (list.size === 0) {
+      throw new Error(`No PMIDs or PMCIDs found in ${path}`);
+    }
+    return list;
+  }
+
+  /** `PMC` and the number for PMCIDs, the number alone for PMIDs; null when the ID is neither */
+  static normalize(id: string): string | null {
+    const match = /^(?:(PMC)|PMID:?)?0*(\d+)$/i.exec(id.trim());
+    return match ? `${match[1] ? 'PMC' : ''}${match[2]}` : null;
+  }
+
+  get size(): number {
+    return this.requested.size;
+  }
+
+  /** The requested IDs as written */
+  get ids(): string[] {
+    return [...this.requested.values()];
+  }
+
+  /** The requested IDs in the form documents are stored under, `PMC123` for a PMCID and `123` for a PMID, sorted */
+  storedForms(): string[] {
+    return [...this.requested.keys()].sort();
+  }
+
+  /** SHA-256 of the requested IDs, the same for lists holding the same IDs in any order or form */
+  digest(): string {
+    return createHash('sha256').update(this.storedForms().join('\n')).digest('hex');
+  }
+
+  includes(id: string | number | undefined): boolean {
+    const key = id !== undefined ? IdList.normalize(id.toString()) : null;
+    return key !== null && this.requested.has(key);
+  }
+
+  markFound(id: string | number): void {
+    this.mark(this.found, id);
+  }
+
+  markExcluded(id: string | number): void {
+    this.mark(this.rejected, id);
+  }
+
+  markLoaded(id: string | number): void {
+    this.mark(this.stored, id);
+  }
+
+  /** Returns the IDs found or excluded since the last call, as keys for `addMarks` */
+  takeMarks(): IdMarks {
+    const marks = { found: [...this.found], excluded: [...this.rejected] };
+    this.found.clear();
+    this.rejected.clear();
+    return marks;
+  }
+
+  addMarks(marks: IdMarks): void {
+    marks.found.forEach(key => this.found.add(key));
+    marks.excluded.forEach(key => this.rejected.add(key));
+  }
+
+  /** Requested IDs that were never found, excluded or loaded earlier, as written */
+  missing(): string[] {
+    return this.select(key => !this.found.has(key) && !this.rejected.has(key) && !this.stored.has(key));
+  }
+
+  /** Requested IDs only seen in documents that did not pass the filter, as written */
+  excluded(): string[] {
+    return this.select(key => !this.found.has(key) && this.rejected.has(key));
+  }
+
+  /** Requested IDs not read by this run but stored by an earlier one, as written */
+  loaded(): string[] {
+    return this.select(key => !this.found.has(key) && !this.rejected.has(key) && this.stored.has(key));
+  }
+
+  private mark(keys: Set<string>, id: string | number): void {
+    const key = IdList.normalize(id.toString());
+    if (key !== null && this.requested.has(key)) {
+      keys.add(key);
+    }
+  }
+
+  private select(predicate: (key: string) => boolean): string[] {
+    return [...this.requested].filter(([key]) => predicate(key)).map(([, id]) => id);
+  }
+}
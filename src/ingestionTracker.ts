@@ -0,0 +1,184 @@
+import { PrismaClient } from './generated/prisma/client.js';
+import { FileProcessor } from './fileProcessor.js';
+import { logger } from './logger.js';
+import { ManifestInfo } from './manifest.js';
+import { EntryInfo } from './pipeline.js';
+import { WriteCounts } from './types.js';
+
+export type IngestionStatus = 'running' | 'completed' | 'failed';
+
+/** Where a file has to be continued from */
+export interface FileCheckpoint {
+  /** Documents already read from the file; they are skipped on resume */
+  position: number;
+  /** Documents already inserted by earlier runs */
+  inserted: number;
+}
+
+/**
+ * Records every load in the `ingestion_runs` and `ingested_files` tables.
+ *
+ * Each file carries a checkpoint that is moved forward after every committed
+ * batch, so a rerun skips files that were loaded completely and continues
+ * partially loaded ones after their last committed document. A file is only
+ * considered the same input when its size and SHA-256 are unchanged; for
+ * tarball members the SHA-256 of the tarball is compared. With resume on,
+ * every file is hashed before it is loaded so that it can be compared;
+ * without it, files are hashed as they are read and only tarballs up front.
+ * The selection a file was loaded with is recorded as well, a file loaded
+ * with another selection is loaded again from the start.
+ */
+export class IngestionTracker {
+  private runId: string | null = null;
+  private documentsFound = 0;
+  private counts: WriteCounts = { added: 0, changed: 0, unchanged: 0 };
+  // Documents inserted by earlier runs, per file being resumed
+  private previouslyInserted = new Map<string, number>();
+  // SHA-256 of the tarballs whose members are being loaded
+  private archiveHashes = new Map<string, Promise<string | null>>();
+
+  constructor(private prisma: PrismaClient, private resume = true, private selection: string | null = null) {}
+
+  async startRun(manifest?: ManifestInfo): Promise<void> {
+    const run = await this.prisma.ingestionRun.create({
+      data: { status: 'running', manifestPath: manifest?.source, manifestHash: manifest?.sha256 },
+    });
+    this.runId = run.id;
+    this.documentsFound = 0;
+    this.counts = { added: 0, changed: 0, unchanged: 0 };
+    logger.info(`Started ingestion run: ${run.id}`);
+  }
+
+  async finishRun(status: IngestionStatus): Promise<void> {
+    await this.prisma.ingestionRun.update({
+      where: { id: this.currentRun() },
+      data: {
+        status,
+        documentsFound: this.documentsFound,
+        documentsInserted: this.counts.added + this.counts.changed,
+        documentsAdded: this.counts.added,
+        documentsChanged: this.counts.changed,
+        documentsUnchanged: this.counts.unchanged,
+        finishedAt: new Date(),
+      },
+    });
+    this.runId = null;
+    this.previouslyInserted.clear();
+    this.archiveHashes.clear();
+  }
+
+  /**
+   * Registers the file with the current run. Returns null when an earlier run
+   * already loaded the same file completely, otherwise the checkpoint to
+   * continue from.
+   */
+  async startFile(entry: EntryInfo): Promise<FileCheckpoint | null> {
+    const size = entry.size !== undefined ? BigInt(entry.size) : null;
+    const previous = this.resume
+      ? await this.prisma.ingestedFile.findFirst({
+        where: { path: entry.path, runId: { not: this.currentRun() } },
+        orderBy: { updatedAt: 'desc' },
+      })
+      : null;
+    // The checksum of a tarball cannot be taken from its members, and `verify` needs it
+    const checksum = this.resume || entry.archive ? await this.checksum(entry) : null;
+    const recorded = previous ? (entry.archive ? previous.archiveHash : previous.hash) : null;
+    const sameContent = previous !== null && previous.size === size && checksum !== null && recorded === checksum;
+    const sameInput = sameContent && previous.selection === this.selection;
+
+    if (sameInput && previous.status === 'completed') {
+      return null;
+    }
+    if (previous && !sameInput) {
+      const change = previous.size !== size ? 'Size changed' : recorded === null ? 'No checksum recorded' : sameContent ? 'Selection changed' : 'Content changed';
+      logger.info(`${entry.name}: ${change} since the last run, loading from the start`);
+    }
+
+    const checkpoint: FileCheckpoint = sameInput
+      ? { position: previous.lastPosition, inserted: previous.documentsInserted }
+      : { position: 0, inserted: 0 };
+
+    this.previouslyInserted.set(entry.path, checkpoint.inserted);
+
+    const data = {
+      size,
+      hash: entry.archive ? null : checksum,
+      archiveHash: entry.archive ? checksum : null,
+      selection: this.selection,
+      status: 'running',
+      documentsFound: 0,
+      documentsInserted: checkpoint.inserted,
+      lastDocumentId: sameInput ? previous.lastDocumentId : null,
+      lastPosition: checkpoint.position,
+      error: null,
+      finishedAt: null,
+    };
+    await this.prisma.ingestedFile.upsert({
+      where: { runId_path: { runId: this.currentRun(), path: entry.path } },
+      create: { runId: this.currentRun(), path: entry.path, ...data },
+      update: data,
+    });
+
+    return checkpoint;
+  }
+
+  /** Moves the checkpoint past a committed batch, `inserted` counts this run only */
+  async checkpoint(path: string, position: number, lastDocumentId: string, inserted: number): Promise<void> {
+    await this.prisma.ingestedFile.update({
+      where: { runId_path: { runId: this.currentRun(), path } },
+      data: {
+        lastPosition: position,
+        lastDocumentId,
+        documentsInserted: (this.previouslyInserted.get(path) ?? 0) + inserted,
+      },
+    });
+  }
+
+  async completeFile(path: string, hash: string | undefined, found: number, counts: WriteCounts): Promise<void> {
+    const inserted = counts.added + counts.changed;
+    await this.prisma.ingestedFile.update({
+      where: { runId_path: { runId: this.currentRun(), path } },
+      data: {
+        status: 'completed',
+        hash,
+        documentsFound: found,
+        documentsInserted: (this.previouslyInserted.get(path) ?? 0) + inserted,
+        lastPosition: found,
+        finishedAt: new Date(),
+      },
+    });
+    this.documentsFound += found;
+    this.counts.added += counts.added;
+    this.counts.changed += counts.changed;
+    this.counts.unchanged += counts.unchanged;
+  }
+
+  async failFile(path: string, error: Error): Promise<void> {
+    await this.prisma.ingestedFile.updateMany({
+      where: { runId: this.currentRun(), path },
+      data: { status: 'failed', error: error.message, finishedAt: new Date() },
+    });
+  }
+
+  /** SHA-256 of the file, or of the tarball holding it; null when the entry is not a file on disk */
+  private checksum(entry: EntryInfo): Promise<string | null> {
+    if (!entry.archive) {
+      return FileProcessor.isFile(entry.path) ? FileProcessor.sha256(entry.path) : Promise.resolve(null);
+    }
+
+    // Members of the same tarball share one hash
+    let checksum = this.archiveHashes.get(entry.archive);
+    if (!checksum) {
+      checksum = FileProcessor.isFile(entry.archive) ? FileProcessor.sha256(entry.archive) : Promise.resolve(null);
+      this.archiveHashes.set(entry.archive, checksum);
+    }
+    return checksum;
+  }
+
+  private currentRun(): string {
+    if (!this.runId) {
+      throw new Error('No ingestion run has been started');
+    }
+    return this.runId;
+  }
+}
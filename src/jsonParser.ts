@@ -0,0 +1,228 @@
+import { createReadStream } from 'fs';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { AnnotationData, BiocStream, CollectionHeader, DocumentData, DocumentParser, InfonData, PassageData, RelationData, SentenceData } from './types.js';
+
+export interface BiocJsonAnnotation {
+  id?: string | number;
+  infons?: Record<string, unknown>;
+  text?: string;
+  locations?: { offset?: number | string; length?: number | string }[];
+}
+
+export interface BiocJsonRelation {
+  id?: string | number;
+  infons?: Record<string, unknown>;
+  nodes?: { refid?: string | number; role?: string }[];
+}
+
+export interface BiocJsonSentence {
+  offset?: number | string;
+  infons?: Record<string, unknown>;
+  text?: string;
+  annotations?: BiocJsonAnnotation[];
+}
+
+export interface BiocJsonPassage {
+  offset?: number | string;
+  infons?: Record<string, unknown>;
+  text?: string;
+  sentences?: BiocJsonSentence[];
+  annotations?: BiocJsonAnnotation[];
+  relations?: BiocJsonRelation[];
+}
+
+export interface BiocJsonDocument {
+  id?: string | number;
+  infons?: Record<string, unknown>;
+  passages?: BiocJsonPassage[];
+  annotations?: BiocJsonAnnotation[];
+  relations?: BiocJsonRelation[];
+}
+
+export interface BiocJsonCollection {
+  source?: string;
+  date?: string;
+  key?: string;
+  infons?: Record<string, unknown>;
+  documents?: BiocJsonDocument[];
+}
+
+/**
+ * BioC JSON parser producing the same structures as the XML parser.
+ *
+ * Accepts a collection object, an array of documents or collections, the
+ * PubTator3 API wrapper (`{ "PubTator3": [...] }`) and JSON lines with one
+ * document per line. JSON lines are streamed; any other layout is read whole.
+ */
+export class JsonParser implements DocumentParser {
+  parseFile(filePath: string): Promise<BiocStream> {
+    return this.parseStream(createReadStream(filePath, { encoding: 'utf-8' }));
+  }
+
+  async parseStream(input: Readable): Promise<BiocStream> {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity })[Symbol.asyncIterator]();
+
+    let first = await lines.next();
+    while (!first.done && first.value.trim() === '') {
+      first = await lines.next();
+    }
+    if (first.done) {
+      return { collection: {}, documents: this.fromArray([]) };
+    }
+
+    let firstValue: unknown;
+    try {
+      firstValue = JSON.parse(first.value);
+    } catch {
+      // Pretty-printed JSON spans several lines, parse the whole content at once
+      let content = first.value;
+      for (let line = await lines.next(); !line.done; line = await lines.next()) {
+        content += '\n' + line.value;
+      }
+      return this.fromValue(this.parseJson(content));
+    }
+
+    // Any other object on a line of its own is a document, even one without passages
+    if (!this.isCollection(firstValue)) {
+      return { collection: {}, documents: this.fromLines(firstValue as BiocJsonDocument, lines) };
+    }
+
+    // A collection serialized on a single line has to be the whole content
+    for (let line = await lines.next(); !line.done; line = await lines.next()) {
+      if (line.value.trim() !== '') {
+        throw new Error('Invalid BioC JSON: content follows the collection on the first line');
+      }
+    }
+    return this.fromValue(firstValue);
+  }
+
+  private fromValue(value: unknown): BiocStream {
+    if (Array.isArray(value)) {
+      const documents = value.flatMap((item: BiocJsonCollection | BiocJsonDocument) =>
+        this.isDocument(item) ? [item] : (item as BiocJsonCollection).documents ?? []
+      );
+      const first = value.find(item => !this.isDocument(item)) as BiocJsonCollection | undefined;
+      return { collection: this.toHeader(first ?? {}), documents: this.fromArray(documents) };
+    }
+
+    if (value && typeof value === 'object' && Array.isArray((value as Record<string, unknown>).PubTator3)) {
+      return this.fromValue((value as Record<string, unknown>).PubTator3);
+    }
+
+    if (this.isDocument(value)) {
+      return { collection: {}, documents: this.fromArray([value]) };
+    }
+
+    const collection = value as BiocJsonCollection;
+    return { collection: this.toHeader(collection), documents: this.fromArray(collection.documents ?? []) };
+  }
+
+  private async *fromArray(documents: BiocJsonDocument[]): AsyncGenerator<DocumentData> {
+    for (const document of documents) {
+      yield this.toDocument(document);
+    }
+  }
+
+  private async *fromLines(first: BiocJsonDocument, lines: AsyncIterator<string>): AsyncGenerator<DocumentData> {
+    yield this.toDocument(first);
+
+    for (let line = await lines.next(); !line.done; line = await lines.next()) {
+      if (line.value.trim() !== '') {
+        yield this.toDocument(this.parseJson(line.value) as BiocJsonDocument);
+      }
+    }
+  }
+
+  private parseJson(content: string): unknown {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid BioC JSON: ${(error as Error).message}`);
+    }
+  }
+
+  private isDocument(value: unknown): value is BiocJsonDocument {
+    return !!value && typeof value === 'object' && !Array.isArray(value) && 'passages' in value;
+  }
+
+  /** An array, a collection, the PubTator3 wrapper or a value that is no object at all */
+  private isCollection(value: unknown): boolean {
+    return !value || typeof value !== 'object' || Array.isArray(value) || 'documents' in value || 'PubTator3' in value;
+  }
+
+  private toHeader(collection: BiocJsonCollection): CollectionHeader {
+    return {
+      source: collection.source,
+      date: collection.date,
+      key: collection.key,
+      infon: this.toInfons(collection.infons),
+    };
+  }
+
+  private toDocument(document: BiocJsonDocument): DocumentData {
+    return {
+      id: document.id !== undefined ? String(document.id) : undefined,
+      infon: this.toInfons(document.infons),
+      passage: (document.passages ?? []).map(passage => this.toPassage(passage)),
+      annotation: (document.annotations ?? []).map(annotation => this.toAnnotation(annotation)),
+      relation: (document.relations ?? []).map(relation => this.toRelation(relation)),
+    };
+  }
+
+  private toPassage(passage: BiocJsonPassage): PassageData {
+    return {
+      infon: this.toInfons(passage.infons),
+      offset: passage.offset !== undefined ? Number(passage.offset) : undefined,
+      text: passage.text,
+      sentence: (passage.sentences ?? []).map(sentence => this.toSentence(sentence)),
+      annotation: (passage.annotations ?? []).map(annotation => this.toAnnotation(annotation)),
+      relation: (passage.relations ?? []).map(relation => this.toRelation(relation)),
+    };
+  }
+
+  private toSentence(sentence: BiocJsonSentence): SentenceData {
+    return {
+      infon: this.toInfons(sentence.infons),
+      offset: sentence.offset !== undefined ? Number(sentence.offset) : undefined,
+      text: sentence.text,
+      annotation: (sentence.annotations ?? []).map(annotation => this.toAnnotation(annotation)),
+    };
+  }
+
+  private toAnnotation(annotation: BiocJsonAnnotation): AnnotationData {
+    return {
+      attributes: { id: annotation.id !== undefined ? String(annotation.id) : '' },
+      infon: this.toInfons(annotation.infons),
+      location: (annotation.locations ?? []).map(location => ({
+        attributes: {
+          offset: Number(location.offset ?? 0),
+          length: Number(location.length ?? 0),
+        },
+      })),
+      text: annotation.text,
+    };
+  }
+
+  private toRelation(relation: BiocJsonRelation): RelationData {
+    return {
+      attributes: { id: relation.id !== undefined ? String(relation.id) : '' },
+      infon: this.toInfons(relation.infons),
+      node: (relation.nodes ?? []).map(node => ({
+        attributes: {
+          refid: node.refid !== undefined ? String(node.refid) : '',
+          role: node.role ?? '',
+        },
+      })),
+    };
+  }
+
+  private toInfons(infons: Record<string, unknown> | undefined): InfonData[] {
+    return Object.entries(infons ?? {})
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => ({
+        attributes: { key },
+        _text: String(value),
+      }));
+  }
+}
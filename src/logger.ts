@@ -1,4 +1,5 @@
 import winston from 'winston';
+import { LogConfig } from './config.js';
 
 export const logger = winston.createLogger({
   level: 'info',
@@ -14,7 +15,9 @@ export const logger = winston.createLogger({
     })
   ),
   transports: [
+    // Everything goes to stderr, stdout is left to command output like exports and stats
     new winston.transports.Console({
+      stderrLevels: ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'],
       format: winston.format.combine(
         winston.format.colorize(),
         winston.format.printf(({ level, message, timestamp }) => {
@@ -24,3 +27,11 @@ export const logger = winston.createLogger({
     }),
   ],
 });
+
+/** Applies the log settings of the configuration; a log file is added once */
+export function configureLogger(log: LogConfig): void {
+  logger.level = log.level;
+  if (log.file && !logger.transports.some(transport => transport instanceof winston.transports.File)) {
+    logger.add(new winston.transports.File({ filename: log.file }));
+  }
+}
@@ -0,0 +1,154 @@
+import { createHash } from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { DiscoveryOptions, FileProcessor } from './fileProcessor.js';
+import { logger } from './logger.js';
+
+export interface ManifestEntry {
+  path: string;
+  /** Expected SHA-256 of the file as stored, lowercase hex */
+  sha256?: string;
+  /** Expected size in bytes */
+  size?: number;
+  /** Line of the manifest the entry was read from */
+  line: number;
+}
+
+/** Identifies the manifest an ingestion run was loaded from */
+export interface ManifestInfo {
+  /** Path of the manifest, `-` when it was read from stdin */
+  source: string;
+  /** SHA-256 of the manifest content */
+  sha256: string;
+}
+
+export interface RefusedFile {
+  path: string;
+  reason: string;
+}
+
+export interface ManifestFiles {
+  /** Files to load, in manifest order */
+  files: string[];
+  /** Files that are missing or do not match their expected size or checksum */
+  refused: RefusedFile[];
+}
+
+const SHA256 = /^[0-9a-f]{64}$/i;
+
+/**
+ * An explicit list of input files. Each line holds a path, optionally
+ * followed by the expected SHA-256 and size separated by tabs or spaces;
+ * the output of `sha256sum` is accepted as well. Blank lines and lines
+ * starting with `#` are ignored, relative paths are resolved against the
+ * directory of the manifest.
+ */
+export class Manifest {
+  private constructor(readonly info: ManifestInfo, readonly entries: ManifestEntry[]) {}
+
+  /** Reads the manifest from a file, or from stdin when the path is `-` */
+  static async read(path: string): Promise<Manifest> {
+    if (path === '-') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer);
+      }
+      return Manifest.parse(Buffer.concat(chunks).toString('utf-8'), '-', process.cwd());
+    }
+    return Manifest.parse(readFileSync(path, 'utf-8'), resolve(path), dirname(resolve(path)));
+  }
+
+  static parse(text: string, source: string, baseDir: string): Manifest {
+    const entries = text.split(/\r?\n/).flatMap((raw, index): ManifestEntry[] => {
+      const line = raw.trim();
+      if (line === '' || line.startsWith('#')) {
+        return [];
+      }
+      return [{ ...Manifest.parseLine(line, index + 1, source), line: index + 1 }];
+    });
+
+    if (entries.length === 0) {
+      throw new Error(`No files listed in manifest ${source}`);
+    }
+
+    const sha256 = createHash('sha256').update(text).digest('hex');
+    return new Manifest({ source, sha256 }, entries.map(entry => ({ ...entry, path: resolve(baseDir, entry.path) })));
+  }
+
+  /**
+   * Checks every entry against its expected size and checksum before
+   * anything is loaded. Entries without either may also name a directory,
+   * which is searched like a directory given on the command line.
+   */
+  async verify(discovery: DiscoveryOptions = {}): Promise<ManifestFiles> {
+    const files: string[] = [];
+    const refused: RefusedFile[] = [];
+    const checksums = this.entries.filter(entry => entry.sha256).length;
+    if (checksums > 0) {
+      logger.info(`Verifying ${checksums} checksum(s) from ${this.info.source}`);
+    }
+
+    for (const entry of this.entries) {
+      const reason = await this.check(entry);
+      if (reason) {
+        logger.error(`Refusing ${entry.path}: ${reason}`);
+        refused.push({ path: entry.path, reason });
+      } else if (FileProcessor.isDirectory(entry.path)) {
+        files.push(...FileProcessor.getInputFilesFromDirectory(entry.path, discovery));
+      } else {
+        files.push(entry.path);
+      }
+    }
+
+    // A refused file stays refused when a listed directory contains it
+    const refusedPaths = new Set(refused.map(file => file.path));
+    return { files: [...new Set(files)].filter(file => !refusedPaths.has(file)), refused };
+  }
+
+  /** Why the entry cannot be loaded, null when it matches */
+  private async check(entry: ManifestEntry): Promise<string | null> {
+    let size: number;
+    try {
+      const stats = statSync(entry.path);
+      if (stats.isDirectory()) {
+        return entry.sha256 || entry.size !== undefined ? 'is a directory but has a checksum or size' : null;
+      }
+      size = stats.size;
+    } catch (error) {
+      return `cannot be read (${(error as Error).message})`;
+    }
+
+    if (entry.size !== undefined && entry.size !== size) {
+      return `size is ${size} bytes, expected ${entry.size}`;
+    }
+    if (entry.sha256) {
+      const actual = await FileProcessor.sha256(entry.path);
+      if (actual !== entry.sha256) {
+        return `SHA-256 is ${actual}, expected ${entry.sha256}`;
+      }
+    }
+    return null;
+  }
+
+  private static parseLine(line: string, lineNumber: number, source: string): Omit<ManifestEntry, 'line'> {
+    // sha256sum output: <hash>, two spaces (or a space and `*` in binary mode), the path
+    const checksumLine = /^([0-9a-f]{64}) [ *](.+)$/i.exec(line);
+    if (checksumLine) {
+      return { path: checksumLine[2], sha256: checksumLine[1].toLowerCase() };
+    }
+
+    // Tab separated fields keep spaces in paths
+    const [path, ...fields] = line.includes('\t') ? line.split('\t').map(field => field.trim()) : line.split(/\s+/);
+    const entry: Omit<ManifestEntry, 'line'> = { path };
+    for (const field of fields.filter(field => field !== '')) {
+      if (SHA256.test(field)) {
+        entry.sha256 = field.toLowerCase();
+      } else if (/^\d+$/.test(field)) {
+        entry.size = Number(field);
+      } else {
+        throw new Error(`Line ${lineNumber} of manifest ${source}: "${field}" is neither a SHA-256 nor a size`);
+      }
+    }
+    return entry;
+  }
+}
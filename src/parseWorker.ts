@@ -0,0 +1,94 @@
+/*
+ * Worker thread entry point. Reads the files it is handed, runs the
+ * annotation filter and posts the documents in batches to the main thread,
+ * which writes them to the database.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { AnnotationFilter } from './annotationFilter.js';
+import { DocumentReader } from './documentReader.js';
+import { FileSource } from './fileSource.js';
+import { IdList } from './idList.js';
+import { PassagePruner } from './passagePruner.js';
+import { SourceEntry } from './pipeline.js';
+import { MainMessage, MessageQueue, ParseWorkerData, WorkerMessage } from './parseWorkerProtocol.js';
+
+// Batches that may be posted before the main thread has written the earlier ones
+const MAX_PENDING_BATCHES = 2;
+
+const { filter: expression, ids, passages, batchSize } = workerData as ParseWorkerData;
+const port = parentPort!;
+const inbox = new MessageQueue<MainMessage>(port);
+const filter = new AnnotationFilter(expression, ids ? new IdList(ids) : null);
+const pruner = passages ? new PassagePruner(passages) : null;
+const source = new FileSource([]);
+
+const post = (message: WorkerMessage) => port.postMessage(message);
+// Requested IDs seen since the last message, the main thread keeps the complete list
+const foundIds = () => filter.ids?.takeMarks() ?? { found: [], excluded: [] };
+
+async function loadEntry(entry: SourceEntry): Promise<void> {
+  post({ type: 'entry', path: entry.path, name: entry.name, size: entry.size, archive: entry.archive });
+
+  const start = await inbox.next();
+  if (start.type !== 'start' || start.position === null) {
+    return;
+  }
+
+  // Every batch is acknowledged once written, so parsing never runs far ahead of the database
+  let pending = 0;
+  try {
+    if (!await filter.matchesEntry(entry)) {
+      post({ type: 'skipped' });
+      return;
+    }
+
+    const { collection, documents } = await entry.read();
+    post({ type: 'header', collection });
+
+    const stats = { found: 0, valid: 0 };
+    const batches = DocumentReader.batches(documents, {
+      skip: start.position,
+      batchSize,
+      transform: pruner ? doc => pruner.prune(doc) : undefined,
+      filter: doc => filter.matches(doc),
+    }, stats);
+
+    for await (const batch of batches) {
+      if (pending >= MAX_PENDING_BATCHES) {
+        await inbox.next();
+        pending--;
+      }
+      post({ type: 'documents', ...batch });
+      pending++;
+    }
+
+    for (; pending > 0; pending--) {
+      await inbox.next();
+    }
+    post({ type: 'end', digest: entry.digest(), found: stats.found, valid: stats.valid, ids: foundIds() });
+  } catch (error) {
+    for (; pending > 0; pending--) {
+      await inbox.next();
+    }
+    post({ type: 'failed', message: (error as Error).message, ids: foundIds() });
+  }
+}
+
+for (let message = await inbox.next(); message.type !== 'close'; message = await inbox.next()) {
+  if (message.type !== 'file') {
+    continue;
+  }
+
+  try {
+    // Tarballs expand to one entry per XML member, other files to a single entry
+    for await (const entry of source.input(message.path).entries()) {
+      await loadEntry(entry);
+    }
+  } catch (error) {
+    post({ type: 'failed', message: (error as Error).message, ids: foundIds() });
+  }
+  post({ type: 'done' });
+}
+
+port.close();
@@ -0,0 +1,116 @@
+import { MessagePort, Worker } from 'worker_threads';
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
+import { IdMarks } from './idList.js';
+import { PassageSelection } from './passagePruner.js';
+import { CollectionHeader, DocumentData } from './types.js';
+
+export interface ParseWorkerData {
+  /** Annotation filter expression, empty to keep every document */
+  filter: string;
+  /** Requested document IDs, null to keep every ID */
+  ids: string[] | null;
+  /** Passages to keep, null to keep all of them */
+  passages: PassageSelection | null;
+  batchSize: number;
+}
+
+/** Messages from the main thread to a parse worker */
+export type MainMessage =
+  | { type: 'file'; path: string }
+  // Reply to `entry`, the number of documents to pass over or null when the entry was already loaded
+  | { type: 'start'; position: number | null }
+  // A `documents` message has been written to the database
+  | { type: 'ack' }
+  | { type: 'close' };
+
+/**
+ * Messages from a parse worker. A file produces, for each of its entries,
+ * `entry` followed by either nothing (already loaded), `skipped`, `failed`
+ * or `header`, any number of `documents` and `end`; then `done`.
+ */
+export type WorkerMessage =
+  | { type: 'entry'; path: string; name: string; size?: number; archive?: string }
+  // The pre-check found that no document can match the filter
+  | { type: 'skipped' }
+  | { type: 'header'; collection: CollectionHeader }
+  | { type: 'documents'; documents: DocumentData[]; position: number }
+  // `ids` are the keys of the requested IDs seen (see IdList.takeMarks)
+  | { type: 'end'; digest?: string; found: number; valid: number; ids: IdMarks }
+  // The current entry, or the file when no entry is open, could not be read
+  | { type: 'failed'; message: string; ids: IdMarks }
+  | { type: 'done' };
+
+/** Turns `message` events into awaitable values, in order */
+export class MessageQueue<T> {
+  private messages: T[] = [];
+  private waiting: { resolve: (message: T) => void; reject: (error: Error) => void } | null = null;
+  private error: Error | null = null;
+
+  constructor(source: MessagePort | Worker) {
+    source.on('message', (message: T) => {
+      if (this.waiting) {
+        this.waiting.resolve(message);
+        this.waiting = null;
+      } else {
+        this.messages.push(message);
+      }
+    });
+  }
+
+  next(): Promise<T> {
+    if (this.messages.length > 0) {
+      return Promise.resolve(this.messages.shift()!);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve, reject) => this.waiting = { resolve, reject });
+  }
+
+  fail(error: Error): void {
+    this.error = error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  }
+}
+
+/** The main thread side of a parse worker */
+export class ParseWorkerHandle {
+  private worker: Worker;
+  private messages: MessageQueue<WorkerMessage>;
+
+  constructor(data: ParseWorkerData) {
+    this.worker = ParseWorkerHandle.spawn(data);
+    this.messages = new MessageQueue(this.worker);
+    this.worker.on('error', error => this.messages.fail(error));
+    this.worker.on('exit', code => this.messages.fail(new Error(`Parse worker exited with code ${code}`)));
+  }
+
+  post(message: MainMessage): void {
+    this.worker.postMessage(message);
+  }
+
+  next(): Promise<WorkerMessage> {
+    return this.messages.next();
+  }
+
+  async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+
+  private static spawn(workerData: ParseWorkerData): Worker {
+    // The worker is a sibling module, .ts when running through tsx and .js once built
+    const extension = extname(fileURLToPath(import.meta.url));
+    const workerUrl = new URL(`./parseWorker${extension}`, import.meta.url);
+    if (extension === '.js') {
+      return new Worker(workerUrl, { workerData });
+    }
+
+    // Worker threads do not inherit the tsx loader, so it is registered before importing the worker
+    const bootstrap = `import { register } from ${JSON.stringify(import.meta.resolve('tsx/esm/api'))};
+register();
+await import(${JSON.stringify(workerUrl.href)});`;
+    return new Worker(new URL(`data:text/javascript,${encodeURIComponent(bootstrap)}`), { workerData });
+  }
+}
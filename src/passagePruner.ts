@@ -0,0 +1,85 @@
+import { DocumentData, InfonData, PassageData, RelationData } from './types.js';
+
+/** Passages to keep, by their `section_type` and `type` infons; values are compared case-insensitively */
+export interface PassageSelection {
+  /** Keep only these section types, e.g. TITLE, ABSTRACT */
+  sections?: string[];
+  excludeSections?: string[];
+  /** Keep only these passage types, e.g. title, abstract, paragraph */
+  types?: string[];
+  excludeTypes?: string[];
+}
+
+/**
+ * Drops the passages a selection does not keep, together with their
+ * sentences, annotations and relations. Relations elsewhere in the document
+ * that refer to a dropped annotation are dropped as well.
+ */
+export class PassagePruner {
+  private sections: Set<string> | null;
+  private excludeSections: Set<string>;
+  private types: Set<string> | null;
+  private excludeTypes: Set<string>;
+
+  constructor(readonly selection: PassageSelection) {
+    this.sections = selection.sections?.length ? this.valueSet(selection.sections) : null;
+    this.excludeSections = this.valueSet(selection.excludeSections ?? []);
+    this.types = selection.types?.length ? this.valueSet(selection.types) : null;
+    this.excludeTypes = this.valueSet(selection.excludeTypes ?? []);
+  }
+
+  /** Whether the selection keeps every passage */
+  static isEmpty(selection: PassageSelection): boolean {
+    return [selection.sections, selection.excludeSections, selection.types, selection.excludeTypes]
+      .every(values => !values || values.length === 0);
+  }
+
+  prune(doc: DocumentData): DocumentData {
+    const passages = doc.passage ?? [];
+    const kept = passages.filter(passage => this.keeps(passage));
+    if (kept.length === passages.length) {
+      return doc;
+    }
+
+    // BioC relations refer to annotations by their id
+    const dropped = new Set(passages
+      .filter(passage => !kept.includes(passage))
+      .flatMap(passage => [
+        ...(passage.annotation ?? []),
+        ...(passage.sentence ?? []).flatMap(sentence => sentence.annotation ?? []),
+      ])
+      .map(annotation => (annotation.attributes?.id ?? '').toString()));
+    const keepRelation = (relation: RelationData) =>
+      !(relation.node ?? []).some(node => dropped.has((node.attributes.refid || '').toString()));
+
+    return {
+      ...doc,
+      passage: kept.map(passage => ({ ...passage, relation: (passage.relation ?? []).filter(keepRelation) })),
+      relation: (doc.relation ?? []).filter(keepRelation),
+    };
+  }
+
+  private keeps(passage: PassageData): boolean {
+    const infons = passage.infon ?? [];
+    const section = this.infonValue(infons, 'section_type');
+    const type = this.infonValue(infons, 'type');
+
+    // Include lists only apply to passages that have the infon
+    if (section !== null && (this.excludeSections.has(section) || (this.sections && !this.sections.has(section)))) {
+      return false;
+    }
+    if (type !== null && (this.excludeTypes.has(type) || (this.types && !this.types.has(type)))) {
+      return false;
+    }
+    return true;
+  }
+
+  private valueSet(values: string[]): Set<string> {
+    return new Set(values.map(value => value.trim().toLowerCase()).filter(value => value !== ''));
+  }
+
+  private infonValue(infons: InfonData[], key: string): string | null {
+    const value = infons.find(infon => infon.attributes.key === key)?._text;
+    return value !== undefined && value !== null ? value.toString().trim().toLowerCase() : null;
+  }
+}
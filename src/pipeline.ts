@@ -0,0 +1,479 @@
+import { Readable } from 'stream';
+import { AnnotationFilter } from './annotationFilter.js';
+import { DocumentBatch, DocumentReader } from './documentReader.js';
+import { FatalLoadError } from './errors.js';
+import { FileSource } from './fileSource.js';
+import { logger } from './logger.js';
+import { ParseWorkerHandle } from './parseWorkerProtocol.js';
+import { PassagePruner, PassageSelection } from './passagePruner.js';
+import { BiocStream, CollectionHeader, DocumentData, WriteCounts } from './types.js';
+
+/** A single document container of an input, such as a file or a tarball member */
+export interface SourceEntry {
+  /** Identifies the entry to the sink across runs */
+  path: string;
+  name: string;
+  size?: number;
+  /** The archive file holding the entry, when the entry is not a file of its own */
+  archive?: string;
+  /** Opens the raw content for a cheap pre-check, only for entries that can be read more than once */
+  openRaw?(): Readable;
+  /** Parses the entry, its documents are read as they are consumed */
+  read(): Promise<BiocStream>;
+  /** Hash of the content, available once every document has been read */
+  digest(): string | undefined;
+}
+
+export type EntryInfo = Pick<SourceEntry, 'path' | 'name' | 'size' | 'archive'>;
+
+/** A unit of input, like a file, holding one or more entries */
+export interface SourceInput {
+  path: string;
+  name: string;
+  entries(): AsyncIterable<SourceEntry>;
+}
+
+/** Where documents come from */
+export interface DocumentSource {
+  /** Number of inputs, when known up front */
+  readonly size?: number;
+  inputs(): Iterable<SourceInput> | AsyncIterable<SourceInput>;
+}
+
+/** Which documents are passed on to the sink */
+export interface DocumentFilter {
+  /** Checked before an entry is parsed, entries that fail it are skipped without parsing */
+  matchesEntry?(entry: SourceEntry): Promise<boolean>;
+  matches(doc: DocumentData): boolean;
+  /**
+   * Called once every input has been loaded, to report on what the filter
+   * saw. `stored` looks up which documents the sink already holds, given when
+   * entries or their first documents were passed over as loaded earlier.
+   */
+  finish?(stored?: (documentIds: string[]) => Promise<string[]>): void | Promise<void>;
+}
+
+/** Where documents go */
+export interface DocumentSink {
+  /** Documents the sink prefers to receive per write, used when the pipeline has no batch size */
+  readonly batchSize?: number;
+  startRun(): Promise<void>;
+  /** Prepares an entry for writing, returns null when an earlier run already wrote it completely */
+  startEntry(entry: EntryInfo): Promise<EntryWriter | null>;
+  finishRun(status: 'completed' | 'failed'): Promise<void>;
+  /** The given document IDs the sink already holds */
+  storedIds?(documentIds: string[]): Promise<string[]>;
+}
+
+/** Writes the documents of one entry */
+export interface EntryWriter {
+  /** Documents at the start of the entry written by an earlier run, they are passed over */
+  readonly position: number;
+  /** Called once the entry is parsed, before the first write */
+  setCollection(collection: CollectionHeader): void;
+  write(batch: DocumentBatch): Promise<WriteCounts>;
+  /** Called once every document has been read, or with no documents when the pre-check skipped the entry */
+  finish(summary: EntrySummary): Promise<void>;
+  fail(error: Error): Promise<void>;
+}
+
+export interface EntrySummary {
+  digest?: string;
+  /** Documents read from the entry */
+  found: number;
+  /** Documents that passed the filter */
+  valid: number;
+}
+
+export interface PipelineOptions {
+  /** Documents per write, defaults to the batch size of the sink */
+  batchSize?: number;
+  /** Worker threads parsing inputs in parallel, 0 or 1 parses on the main thread */
+  workers?: number;
+  /** Batches written at the same time with workers, defaults to the number of workers */
+  writers?: number;
+  /** Passages to keep, the others are dropped before documents are filtered and written */
+  passages?: PassageSelection;
+  /** Called when an input is started or finished and when documents are written */
+  onProgress?: (progress: PipelineProgress) => void;
+}
+
+export interface PipelineProgress {
+  /** Inputs finished so far */
+  inputs: number;
+  /** Input last started or finished */
+  input: string;
+  /** Documents added or changed so far */
+  documents: number;
+}
+
+export interface PipelineResult {
+  /** Documents that passed the filter */
+  documents: number;
+  counts: WriteCounts;
+  /** Inputs and entries that could not be loaded completely */
+  failed: string[];
+}
+
+type EntryResult = Pick<PipelineResult, 'documents' | 'counts'>;
+
+/** Where the result lines of an entry go, straight to the logger or to the ordered report of its input */
+type EntryLog = (message: string, level?: LogLevel) => void;
+type LogLevel = 'info' | 'warn' | 'error';
+
+/**
+ * Streams the documents of a source through a filter into a sink, in
+ * batches. Every entry is registered with the sink before it is read, so
+ * the sink decides what an earlier run already covered.
+ */
+export class Pipeline {
+  private batchSize: number;
+  private workers: number;
+  private writers: number;
+  private pruner: PassagePruner | null;
+  private progress: PipelineProgress = { inputs: 0, input: '', documents: 0 };
+  private failed: string[] = [];
+  /** Whether an entry or some of its documents were passed over as written by an earlier run */
+  private passedOver = false;
+
+  constructor(
+    private source: DocumentSource,
+    private filter: DocumentFilter,
+    private sink: DocumentSink,
+    private options: PipelineOptions = {}) {
+    this.batchSize = Math.max(1, options.batchSize ?? sink.batchSize ?? 1);
+    this.workers = Math.max(1, options.workers ?? 1);
+    this.writers = Math.max(1, options.writers ?? this.workers);
+    this.pruner = options.passages && !PassagePruner.isEmpty(options.passages) ? new PassagePruner(options.passages) : null;
+
+    // Workers rebuild the source and filter from plain data
+    if (this.workers > 1 && !(source instanceof FileSource && filter instanceof AnnotationFilter)) {
+      throw new Error('Worker threads can only read files filtered by an annotation filter');
+    }
+  }
+
+  async run(): Promise<PipelineResult> {
+    const result: PipelineResult = { documents: 0, counts: this.emptyCounts(), failed: [] };
+    const addResult = (entryResult: EntryResult) => {
+      result.documents += entryResult.documents;
+      this.addCounts(result.counts, entryResult.counts);
+    };
+    this.progress = { inputs: 0, input: '', documents: 0 };
+    this.failed = result.failed;
+    this.passedOver = false;
+
+    await this.sink.startRun();
+
+    try {
+      if (this.workers > 1) {
+        await this.runInWorkers(addResult);
+      } else {
+        await this.runSequentially(addResult);
+      }
+    } catch (error) {
+      await this.sink.finishRun('failed');
+      throw error;
+    }
+
+    await this.sink.finishRun('completed');
+    const sink = this.sink;
+    await this.filter.finish?.(this.passedOver && sink.storedIds ? ids => sink.storedIds!(ids) : undefined);
+    return result;
+  }
+
+  private async runSequentially(addResult: (result: EntryResult) => void): Promise<void> {
+    const log: EntryLog = (message, level = 'info') => logger.log(level, message);
+
+    for await (const input of this.source.inputs()) {
+      this.reportProgress({ input: input.name });
+
+      try {
+        for await (const entry of input.entries()) {
+          addResult(await this.loadEntry(entry, log));
+        }
+      } catch (error) {
+        if (error instanceof FatalLoadError) {
+          throw error;
+        }
+        logger.error(`Error processing ${input.path}: ${(error as Error).message}`);
+        this.failed.push(input.path);
+      }
+
+      this.reportProgress({ inputs: this.progress.inputs + 1, input: input.name });
+    }
+  }
+
+  private async loadEntry(entry: SourceEntry, log: EntryLog): Promise<EntryResult> {
+    const counts = this.emptyCounts();
+    let writer: EntryWriter | null = null;
+
+    try {
+      writer = await this.startEntry(entry, log);
+      if (!writer) {
+        return { documents: 0, counts };
+      }
+
+      if (this.filter.matchesEntry && !await this.filter.matchesEntry(entry)) {
+        await this.skipEntry(entry, writer, log);
+        return { documents: 0, counts };
+      }
+
+      const { collection, documents } = await entry.read();
+      writer.setCollection(collection);
+
+      // Documents are written as they are parsed, the entry is never held in memory
+      const stats = { found: 0, valid: 0 };
+      const batches = DocumentReader.batches(documents, {
+        skip: writer.position,
+        batchSize: this.batchSize,
+        transform: this.pruner ? doc => this.pruner!.prune(doc) : undefined,
+        filter: doc => this.filter.matches(doc),
+      }, stats);
+      for await (const batch of batches) {
+        this.addWritten(counts, await writer.write(batch));
+      }
+
+      const summary = { digest: entry.digest(), ...stats };
+      await writer.finish(summary);
+      return this.report(entry, summary, counts, log);
+    } catch (error) {
+      await this.failEntry(entry, writer, error as Error, log);
+      if (error instanceof FatalLoadError) {
+        throw error;
+      }
+      return { documents: 0, counts: this.emptyCounts() };
+    }
+  }
+
+  /**
+   * Parses inputs in worker threads while the main thread writes their
+   * documents. Each worker takes the next input once it has finished the
+   * previous one, and at most `writers` batches are written at a time; a
+   * worker waits for its batches to be written before parsing further, so
+   * memory stays bounded however slow the sink is. The result lines of each
+   * input are logged in input order, whichever worker finishes first.
+   */
+  private async runInWorkers(addResult: (result: EntryResult) => void): Promise<void> {
+    const inputs: SourceInput[] = [];
+    for await (const input of this.source.inputs()) {
+      inputs.push(input);
+    }
+
+    const writeSlots = new WriteSlots(this.writers);
+    const queue = inputs.map((input, index) => ({ input, index }));
+
+    // Result lines are held back until every earlier input has been reported
+    const reports: { message: string; level: LogLevel }[][] = inputs.map(() => []);
+    const finished = inputs.map(() => false);
+    let nextReport = 0;
+    const inputFinished = (index: number) => {
+      finished[index] = true;
+      for (; nextReport < inputs.length && finished[nextReport]; nextReport++) {
+        reports[nextReport].forEach(({ message, level }) => logger.log(level, message));
+      }
+      this.reportProgress({ inputs: this.progress.inputs + 1, input: inputs[index].name });
+    };
+
+    const { expression, ids } = this.filter as AnnotationFilter;
+    const workers = Array.from({ length: Math.min(this.workers, inputs.length) }, () =>
+      new ParseWorkerHandle({
+        filter: expression,
+        ids: ids?.ids ?? null,
+        passages: this.pruner?.selection ?? null,
+        batchSize: this.batchSize,
+      })
+    );
+    logger.info(`Parsing with ${workers.length} worker threads, ${this.writers} concurrent writers`);
+
+    const runWorker = async (worker: ParseWorkerHandle) => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        const { input, index } = next;
+        const log: EntryLog = (message, level = 'info') => reports[index].push({ message, level });
+
+        worker.post({ type: 'file', path: input.path });
+        try {
+          await this.loadWorkerInput(worker, input, log, writeSlots, addResult);
+        } catch (error) {
+          // The other workers finish their current input and stop
+          queue.length = 0;
+          throw error;
+        } finally {
+          inputFinished(index);
+        }
+      }
+      worker.post({ type: 'close' });
+    };
+
+    const results = await Promise.allSettled(workers.map(runWorker));
+    await Promise.all(workers.map(worker => worker.close()));
+
+    const failure = results.find(result => result.status === 'rejected');
+    if (failure) {
+      throw (failure as PromiseRejectedResult).reason;
+    }
+  }
+
+  /** Handles the messages of a worker for one input, until the worker reports it is done */
+  private async loadWorkerInput(
+    worker: ParseWorkerHandle,
+    input: SourceInput,
+    log: EntryLog,
+    writeSlots: WriteSlots,
+    addResult: (result: EntryResult) => void): Promise<void> {
+    const { ids } = this.filter as AnnotationFilter;
+    let entry: EntryInfo | null = null;
+    let writer: EntryWriter | null = null;
+    let counts = this.emptyCounts();
+    // Set once writing the current entry failed, its remaining batches are only acknowledged
+    let failed = false;
+
+    for (let message = await worker.next(); message.type !== 'done'; message = await worker.next()) {
+      try {
+        switch (message.type) {
+          case 'entry':
+            entry = { path: message.path, name: message.name, size: message.size, archive: message.archive };
+            counts = this.emptyCounts();
+            failed = false;
+            writer = await this.startEntry(entry, log);
+            worker.post({ type: 'start', position: writer ? writer.position : null });
+            break;
+          case 'skipped':
+            await this.skipEntry(entry!, writer!, log);
+            writer = null;
+            break;
+          case 'header':
+            writer!.setCollection(message.collection);
+            break;
+          case 'documents':
+            if (!failed) {
+              const batch = { documents: message.documents, position: message.position };
+              this.addWritten(counts, await writeSlots.run(() => writer!.write(batch)));
+            }
+            worker.post({ type: 'ack' });
+            break;
+          case 'end':
+            ids?.addMarks(message.ids);
+            if (!failed) {
+              const summary = { digest: message.digest, found: message.found, valid: message.valid };
+              await writer!.finish(summary);
+              addResult(this.report(entry!, summary, counts, log));
+            }
+            writer = null;
+            break;
+          case 'failed':
+            ids?.addMarks(message.ids);
+            if (!writer) {
+              log(`Error processing ${input.path}: ${message.message}`, 'error');
+              this.failed.push(input.path);
+            } else if (!failed) {
+              await this.failEntry(entry!, writer, new Error(message.message), log);
+            }
+            writer = null;
+            break;
+        }
+      } catch (error) {
+        if (entry && !failed) {
+          await this.failEntry(entry, writer, error as Error, log);
+        }
+        if (error instanceof FatalLoadError) {
+          throw error;
+        }
+
+        // Keep the worker going, it waits for a reply to these
+        if (message.type === 'entry') {
+          worker.post({ type: 'start', position: null });
+        } else if (message.type === 'documents') {
+          worker.post({ type: 'ack' });
+        }
+        failed = true;
+      }
+    }
+  }
+
+  /** Registers the entry with the sink, returns null when an earlier run wrote it completely */
+  private async startEntry(entry: EntryInfo, log: EntryLog): Promise<EntryWriter | null> {
+    const writer = await this.sink.startEntry(entry);
+    if (!writer) {
+      log(`${entry.name}: Skipped (already loaded)`);
+      this.passedOver = true;
+      return null;
+    }
+    if (writer.position > 0) {
+      this.passedOver = true;
+      log(`${entry.name}: Resuming after ${writer.position} documents`);
+    }
+    return writer;
+  }
+
+  private async skipEntry(entry: EntryInfo, writer: EntryWriter, log: EntryLog): Promise<void> {
+    log(`${entry.name}: Skipped (no annotations matching the filter)`);
+    await writer.finish({ found: 0, valid: 0 });
+  }
+
+  private async failEntry(entry: EntryInfo, writer: EntryWriter | null, error: Error, log: EntryLog): Promise<void> {
+    log(`Error processing ${entry.path}: ${error.message}`, 'error');
+    this.failed.push(entry.path);
+    await writer?.fail(error);
+  }
+
+  private report(entry: EntryInfo, summary: EntrySummary, counts: WriteCounts, log: EntryLog): EntryResult {
+    if (summary.found === 0) {
+      log(`No documents found in file: ${entry.name}`, 'warn');
+      return { documents: 0, counts };
+    }
+
+    log(`${entry.name}: ${counts.added + counts.changed}/${summary.valid} docs inserted ` +
+      `(${counts.added} added, ${counts.changed} changed, ${counts.unchanged} unchanged; ${summary.valid}/${summary.found} valid)`);
+    return { documents: summary.valid, counts };
+  }
+
+  private addWritten(counts: WriteCounts, written: WriteCounts): void {
+    this.addCounts(counts, written);
+    this.reportProgress({ documents: this.progress.documents + written.added + written.changed });
+  }
+
+  private reportProgress(update: Partial<PipelineProgress>): void {
+    this.progress = { ...this.progress, ...update };
+    this.options.onProgress?.(this.progress);
+  }
+
+  private emptyCounts(): WriteCounts {
+    return { added: 0, changed: 0, unchanged: 0 };
+  }
+
+  private addCounts(total: WriteCounts, counts: WriteCounts): void {
+    total.added += counts.added;
+    total.changed += counts.changed;
+    total.unchanged += counts.unchanged;
+  }
+}
+
+/** Limits how many batches are written at the same time */
+class WriteSlots {
+  private free: number;
+  private waiting: (() => void)[] = [];
+
+  constructor(slots: number) {
+    this.free = slots;
+  }
+
+  async run<T>(write: () => Promise<T>): Promise<T> {
+    if (this.free > 0) {
+      this.free--;
+    } else {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await write();
+    } finally {
+      // The slot passes straight to the next waiting write
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.free++;
+      }
+    }
+  }
+}
@@ -1,18 +1,39 @@
 import "dotenv/config";
 import { PrismaPg } from '@prisma/adapter-pg'
 import { PrismaClient } from './generated/prisma/client'
+import pg from 'pg';
 import fs from 'fs';
+import { DatabaseConfig } from './config';
 
-const connectionString = `${process.env.DATABASE_URL}`
+let connectionString = `${process.env.DATABASE_URL}`
 
-const adapter = new PrismaPg({ connectionString,
-ssl: {
-    // ca: fs.readFileSync("./global-bundle.pem", "utf8"),
+let ssl: pg.ConnectionConfig['ssl'] = {
     rejectUnauthorized: false,
-  },
- })
-const prisma = new PrismaClient({ adapter,
-    
- })
+  }
 
-export { prisma, PrismaClient }
\ No newline at end of file
+const createClient = () => {
+    const adapter = new PrismaPg({ connectionString, ssl })
+    return new PrismaClient({ adapter })
+}
+let prisma = createClient()
+
+// Points the client and the pools created afterwards at another database, before anything has connected
+const configureDatabase = (database: Partial<DatabaseConfig>) => {
+    if (database.url) {
+        connectionString = database.url
+    }
+    if (database.ssl) {
+        ssl = database.ssl.enabled
+            ? {
+                rejectUnauthorized: database.ssl.rejectUnauthorized,
+                ca: database.ssl.ca ? fs.readFileSync(database.ssl.ca, 'utf8') : undefined,
+            }
+            : false
+    }
+    prisma = createClient()
+}
+
+// Raw pg connections for the bulk loader, which streams rows with COPY
+const createPool = () => new pg.Pool({ connectionString, ssl })
+
+export { prisma, createPool, configureDatabase, PrismaClient }
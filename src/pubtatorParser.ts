@@ -0,0 +1,170 @@
+import { createReadStream } from 'fs';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { AnnotationData, BiocStream, DocumentData, DocumentParser, PassageData } from './types.js';
+
+/** Matches the `PMID|t|title` and `PMID|a|abstract` lines */
+const TEXT_LINE = /^([^|\t]+)\|([ta])\|(.*)$/;
+
+/**
+ * Parser for the classic PubTator format:
+ *
+ *   PMID|t|title
+ *   PMID|a|abstract
+ *   PMID<TAB>start<TAB>end<TAB>mention<TAB>type<TAB>identifier
+ *   PMID<TAB>CID<TAB>chemical<TAB>disease
+ *
+ * Documents are separated by blank lines. The title and abstract become
+ * `front` and `abstract` passages, mentions become annotations of the
+ * passage containing their start offset, and CID lines become
+ * document-level relations.
+ */
+export class PubtatorParser implements DocumentParser {
+  static looksLikePubtator(head: string): boolean {
+    return TEXT_LINE.test(head.trimStart().split('\n')[0]);
+  }
+
+  parseFile(filePath: string): Promise<BiocStream> {
+    return this.parseStream(createReadStream(filePath, { encoding: 'utf-8' }));
+  }
+
+  async parseStream(input: Readable): Promise<BiocStream> {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    return { collection: { source: 'PubTator' }, documents: this.readDocuments(lines) };
+  }
+
+  private async *readDocuments(lines: AsyncIterable<string>): AsyncGenerator<DocumentData> {
+    let current: DocumentData | null = null;
+
+    for await (const line of lines) {
+      if (line.trim() === '') {
+        if (current) {
+          yield this.linkRelations(current);
+          current = null;
+        }
+        continue;
+      }
+
+      const pmid = this.lineDocumentId(line);
+      if (current && current.id !== pmid) {
+        yield this.linkRelations(current);
+        current = null;
+      }
+      if (!current) {
+        current = { id: pmid, passage: [], relation: [] };
+      }
+
+      this.applyLine(current, line);
+    }
+
+    if (current) {
+      yield this.linkRelations(current);
+    }
+  }
+
+  private lineDocumentId(line: string): string {
+    const textLine = TEXT_LINE.exec(line);
+    return (textLine ? textLine[1] : line.split('\t')[0]).trim();
+  }
+
+  private applyLine(doc: DocumentData, line: string): void {
+    const passages = doc.passage!;
+    const textLine = TEXT_LINE.exec(line);
+
+    if (textLine) {
+      const isTitle = textLine[2] === 't';
+      const previous = passages[passages.length - 1];
+      // Passages are separated by a single space in PubTator offsets
+      const offset = previous ? (previous.offset || 0) + (previous.text || '').length + 1 : 0;
+
+      passages.push({
+        infon: [
+          { attributes: { key: 'type' }, _text: isTitle ? 'front' : 'abstract' },
+          { attributes: { key: 'section_type' }, _text: isTitle ? 'TITLE' : 'ABSTRACT' },
+        ],
+        offset,
+        text: textLine[3],
+        annotation: [],
+      });
+      return;
+    }
+
+    const columns = line.split('\t');
+
+    if (columns[1] === 'CID' && columns.length >= 4) {
+      doc.relation!.push({
+        attributes: { id: `R${doc.relation!.length}` },
+        infon: [
+          { attributes: { key: 'type' }, _text: 'CID' },
+          { attributes: { key: 'Chemical' }, _text: columns[2].trim() },
+          { attributes: { key: 'Disease' }, _text: columns[3].trim() },
+        ],
+        node: [],
+      });
+      return;
+    }
+
+    if (columns.length < 5) {
+      return;
+    }
+
+    const [, start, end, mention, type, identifier] = columns;
+    const offset = Number(start);
+    const length = Number(end) - offset;
+    if (Number.isNaN(offset) || Number.isNaN(length)) {
+      return;
+    }
+
+    const passage = this.passageAt(passages, offset);
+    if (!passage) {
+      return;
+    }
+
+    const annotationCount = passages.reduce((count, p) => count + (p.annotation?.length || 0), 0);
+    const annotation: AnnotationData = {
+      attributes: { id: annotationCount.toString() },
+      infon: [{ attributes: { key: 'type' }, _text: type }],
+      location: [{ attributes: { offset, length } }],
+      text: mention,
+    };
+    if (identifier && identifier !== '-') {
+      annotation.infon!.push({ attributes: { key: 'identifier' }, _text: identifier });
+    }
+
+    passage.annotation!.push(annotation);
+  }
+
+  /**
+   * CID lines reference concepts rather than mentions, so each role is
+   * linked to the first annotation carrying that concept's identifier.
+   */
+  private linkRelations(doc: DocumentData): DocumentData {
+    const annotations = doc.passage!.flatMap(passage => passage.annotation || []);
+    const normalize = (id: string) => id.replace(/^MESH:/i, '');
+
+    for (const relation of doc.relation!) {
+      for (const infon of relation.infon!) {
+        if (infon.attributes.key !== 'Chemical' && infon.attributes.key !== 'Disease') {
+          continue;
+        }
+        const match = annotations.find(annotation => annotation.infon!.some(annotationInfon =>
+          annotationInfon.attributes.key === 'identifier' && normalize(annotationInfon._text) === normalize(infon._text)
+        ));
+        if (match) {
+          relation.node!.push({ attributes: { refid: match.attributes.id, role: infon.attributes.key } });
+        }
+      }
+    }
+
+    return doc;
+  }
+
+  private passageAt(passages: PassageData[], offset: number): PassageData | undefined {
+    for (let i = passages.length - 1; i >= 0; i--) {
+      if ((passages[i].offset || 0) <= offset) {
+        return passages[i];
+      }
+    }
+    return passages[0];
+  }
+}
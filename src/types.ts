@@ -1,3 +1,5 @@
+import { Readable } from 'stream';
+
 export interface InfonData {
     attributes: {
         key: string;
@@ -21,25 +23,78 @@ export interface AnnotationData {
   text?: string;
 }
 
+export interface NodeData {
+    attributes: {
+        refid: string;
+        role: string;
+    }
+}
+
+export interface RelationData {
+    attributes: {
+        id: string;
+    }
+  infon?: InfonData[];
+  node?: NodeData[];
+}
+
+export interface SentenceData {
+  infon?: InfonData[];
+  offset?: number;
+  text?: string;
+  annotation?: AnnotationData[];
+}
+
 export interface PassageData {
   infon?: InfonData[];
   offset?: number;
   text?: string;
+  sentence?: SentenceData[];
   annotation?: AnnotationData[];
+  relation?: RelationData[];
 }
 
 export interface DocumentData {
   id?: string;
+  infon?: InfonData[];
   passage?: PassageData[];
+  annotation?: AnnotationData[];
+  relation?: RelationData[];
 }
 
 export interface CollectionData {
   source?: string;
   date?: string;
   key?: string;
+  infon?: InfonData[];
   document?: DocumentData[];
 }
 
-export interface BiocXmlData {
-  collection?: CollectionData;
+export type CollectionHeader = Omit<CollectionData, 'document'>;
+
+export interface BiocStream {
+  collection: CollectionHeader;
+  documents: AsyncIterable<DocumentData>;
+}
+
+export interface DocumentParser {
+  parseStream(input: Readable): Promise<BiocStream>;
+}
+
+/**
+ * What to do with a document whose ID is already in the database:
+ * keep the stored one, swap it for the new one, swap it only when its
+ * content hash differs, add the annotations the stored one is missing,
+ * or stop the load.
+ */
+export type ConflictStrategy = 'skip' | 'replace' | 'update' | 'merge-annotations' | 'fail';
+
+/** What happened to the documents written to the database */
+export interface WriteCounts {
+  /** Documents that were not stored yet */
+  added: number;
+  /** Stored documents that were rewritten or received new annotations */
+  changed: number;
+  /** Stored documents that were left as they are */
+  unchanged: number;
 }
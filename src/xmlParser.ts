@@ -1,29 +1,195 @@
-import { XMLParser } from 'fast-xml-parser';
-import { readFileSync } from 'fs';
-import { BiocXmlData } from './types.js';
-
-export class XmlParser {
-  private parser: XMLParser;
-
-  constructor() {
-    this.parser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: "", // 🔥 removes "@_",
-      textNodeName: '_text',
-      attributesGroupName: "attributes",
-      parseAttributeValue: true,
-      parseTagValue: true,
-      trimValues: true,
-      isArray: (tagName) => {
-        // These tags should always be treated as arrays
-        return ['document', 'passage', 'annotation', 'infon', 'location'].includes(tagName);
-      },
-    });
-  }
-
-  parseFile(filePath: string): BiocXmlData {
-    const xmlContent = readFileSync(filePath, 'utf-8');
-    const result = this.parser.parse(xmlContent);
-    return result as BiocXmlData;
+import sax from 'sax';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { AnnotationData, BiocStream, CollectionHeader, DocumentData, DocumentParser, InfonData, LocationData, PassageData, RelationData, SentenceData } from './types.js';
+
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+/**
+ * Streaming BioC.XML parser. Documents are emitted one at a time while the
+ * file is being read, so memory stays bounded regardless of the file size.
+ */
+export class XmlParser implements DocumentParser {
+  parseFile(filePath: string): Promise<BiocStream> {
+    return this.parseStream(createReadStream(filePath, { encoding: 'utf-8' }));
+  }
+
+  /**
+   * Reads the stream up to the first <document> (or the end of the collection)
+   * so that the collection-level source/date/key/infons are available up front.
+   */
+  async parseStream(input: Readable): Promise<BiocStream> {
+    const parser = sax.parser(true, { trim: false, normalize: false });
+    const chunks = input[Symbol.asyncIterator]();
+    // Decompressed and archived inputs arrive as buffers that may split multi-byte characters
+    const decoder = new StringDecoder('utf-8');
+    const pending: DocumentData[] = [];
+    const collection: CollectionHeader = {};
+    const stack: XmlNode[] = [];
+    let headerComplete = false;
+    let ended = false;
+
+    parser.onerror = (error) => {
+      throw new Error(`Invalid BioC XML: ${error.message}`);
+    };
+
+    parser.onopentag = (tag) => {
+      if (tag.name === 'document') {
+        headerComplete = true;
+      }
+      stack.push({
+        name: tag.name,
+        attributes: tag.attributes as Record<string, string>,
+        children: [],
+        text: '',
+      });
+    };
+
+    parser.ontext = parser.oncdata = (text) => {
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += text;
+      }
+    };
+
+    parser.onclosetag = () => {
+      const node = stack.pop()!;
+      const parent = stack[stack.length - 1];
+
+      if (node.name === 'document') {
+        // Documents are handed out immediately and never kept in the tree
+        pending.push(this.toDocument(node));
+      } else if (node.name === 'collection') {
+        headerComplete = true;
+      } else if (parent?.name === 'collection') {
+        if (node.name === 'source' || node.name === 'date' || node.name === 'key') {
+          collection[node.name] = node.text.trim();
+        } else if (node.name === 'infon') {
+          collection.infon = [...(collection.infon || []), this.toInfon(node)];
+        }
+      } else if (parent) {
+        parent.children.push(node);
+      }
+    };
+
+    const pump = async (): Promise<void> => {
+      const { value, done } = await chunks.next();
+      if (done) {
+        parser.write(decoder.end());
+        parser.close();
+        ended = true;
+        headerComplete = true;
+        return;
+      }
+      parser.write(typeof value === 'string' ? value : decoder.write(value));
+    };
+
+    while (!headerComplete) {
+      await pump();
+    }
+
+    async function* documents(): AsyncGenerator<DocumentData> {
+      try {
+        while (true) {
+          while (pending.length > 0) {
+            yield pending.shift()!;
+          }
+          if (ended) {
+            return;
+          }
+          await pump();
+        }
+      } finally {
+        if (!ended) {
+          input.destroy();
+        }
+      }
+    }
+
+    return { collection, documents: documents() };
+  }
+
+  private toDocument(node: XmlNode): DocumentData {
+    return {
+      id: this.childText(node, 'id'),
+      infon: this.toInfons(node),
+      passage: this.children(node, 'passage').map(passage => this.toPassage(passage)),
+      annotation: this.children(node, 'annotation').map(annotation => this.toAnnotation(annotation)),
+      relation: this.children(node, 'relation').map(relation => this.toRelation(relation)),
+    };
+  }
+
+  private toPassage(node: XmlNode): PassageData {
+    const offset = this.childText(node, 'offset');
+    return {
+      infon: this.toInfons(node),
+      offset: offset !== undefined ? Number(offset) : undefined,
+      text: this.childText(node, 'text'),
+      sentence: this.children(node, 'sentence').map(sentence => this.toSentence(sentence)),
+      annotation: this.children(node, 'annotation').map(annotation => this.toAnnotation(annotation)),
+      relation: this.children(node, 'relation').map(relation => this.toRelation(relation)),
+    };
+  }
+
+  private toSentence(node: XmlNode): SentenceData {
+    const offset = this.childText(node, 'offset');
+    return {
+      infon: this.toInfons(node),
+      offset: offset !== undefined ? Number(offset) : undefined,
+      text: this.childText(node, 'text'),
+      annotation: this.children(node, 'annotation').map(annotation => this.toAnnotation(annotation)),
+    };
+  }
+
+  private toAnnotation(node: XmlNode): AnnotationData {
+    return {
+      attributes: { id: node.attributes.id ?? '' },
+      infon: this.toInfons(node),
+      location: this.children(node, 'location').map((location): LocationData => ({
+        attributes: {
+          offset: Number(location.attributes.offset ?? 0),
+          length: Number(location.attributes.length ?? 0),
+        },
+      })),
+      text: this.childText(node, 'text'),
+    };
+  }
+
+  private toRelation(node: XmlNode): RelationData {
+    return {
+      attributes: { id: node.attributes.id ?? '' },
+      infon: this.toInfons(node),
+      node: this.children(node, 'node').map(child => ({
+        attributes: {
+          refid: child.attributes.refid ?? '',
+          role: child.attributes.role ?? '',
+        },
+      })),
+    };
+  }
+
+  private toInfons(node: XmlNode): InfonData[] {
+    return this.children(node, 'infon').map(infon => this.toInfon(infon));
+  }
+
+  private toInfon(node: XmlNode): InfonData {
+    return {
+      attributes: { key: node.attributes.key ?? '' },
+      _text: node.text.trim(),
+    };
+  }
+
+  private children(node: XmlNode, name: string): XmlNode[] {
+    return node.children.filter(child => child.name === name);
+  }
+
+  private childText(node: XmlNode, name: string): string | undefined {
+    const child = node.children.find(c => c.name === name);
+    return child ? child.text.trim() : undefined;
   }
 }
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { DatabaseLoader } from '../src/databaseLoader.js';
+import { DocumentRowBuilder } from '../src/documentRows.js';
+import { DocumentConflictError } from '../src/errors.js';
+import { prisma } from '../src/prisma.js';
+import { AnnotationData, ConflictStrategy, DocumentData, WriteCounts } from '../src/types.js';
+
+// Documents written by these tests, removed before and after them
+const PREFIX = 'TEST-CONFLICT-';
+
+function annotation(id: string, type: string, offset: number, text: string): AnnotationData {
+  return { attributes: { id }, infon: [{ attributes: { key: 'type' }, _text: type }], location: [{ attributes: { offset, length: text.length } }], text };
+}
+
+function document(name: string, text: string, annotations: AnnotationData[] = []): DocumentData {
+  return { id: PREFIX + name, passage: [{ offset: 0, infon: [], text, annotation: annotations }] };
+}
+
+/** Loads the documents as one entry of a run of their own, returns what the write reported */
+async function load(onConflict: ConflictStrategy, ...documents: DocumentData[]): Promise<WriteCounts> {
+  const loader = new DatabaseLoader({ onConflict, resume: false });
+  await loader.startRun();
+  try {
+    const writer = await loader.startEntry({ path: `${PREFIX}${onConflict}.json`, name: `${onConflict}.json` });
+    assert.ok(writer);
+    writer.setCollection({ source: 'test' });
+    const counts = await writer.write({ documents, position: documents.length });
+    await writer.finish({ found: documents.length, valid: documents.length });
+    await loader.finishRun('completed');
+    return counts;
+  } catch (error) {
+    await loader.finishRun('failed');
+    throw error;
+  }
+}
+
+function stored(name: string) {
+  return prisma.document.findUniqueOrThrow({
+    where: { documentId: PREFIX + name },
+    include: { passages: true, annotations: { orderBy: { annotationId: 'asc' } } },
+  });
+}
+
+const counts = (added: number, changed: number, unchanged: number): WriteCounts => ({ added, changed, unchanged });
+
+describe('DatabaseLoader', () => {
+  it('rejects merging annotations in bulk mode', () => {
+    assert.throws(() => new DatabaseLoader({ bulk: true, onConflict: 'merge-annotations' }), /not supported in bulk mode/);
+  });
+});
+
+describe('DatabaseLoader conflict strategies', { skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' }, () => {
+  const cleanUp = () => prisma.document.deleteMany({ where: { documentId: { startsWith: PREFIX } } });
+
+  before(cleanUp);
+  after(async () => {
+    await cleanUp();
+    await prisma.$disconnect();
+  });
+
+  it('skip leaves the stored document as it is', async () => {
+    assert.deepEqual(await load('skip', document('skip', 'first')), counts(1, 0, 0));
+    assert.deepEqual(await load('skip', document('skip', 'second')), counts(0, 0, 1));
+    assert.equal((await stored('skip')).passages[0].text, 'first');
+  });
+
+  it('fail stops at a stored document', async () => {
+    await load('fail', document('fail', 'first'));
+    await assert.rejects(load('fail', document('fail', 'second')), DocumentConflictError);
+    assert.equal((await stored('fail')).passages[0].text, 'first');
+  });
+
+  it('replace rewrites the stored document even when it is unchanged', async () => {
+    await load('replace', document('replace', 'first'));
+    assert.deepEqual(await load('replace', document('replace', 'first')), counts(0, 1, 0));
+    assert.deepEqual(await load('replace', document('replace', 'second')), counts(0, 1, 0));
+    assert.equal((await stored('replace')).passages[0].text, 'second');
+  });
+
+  it('update rewrites the stored document only when its content changed', async () => {
+    await load('update', document('update', 'first'));
+    assert.deepEqual(await load('update', document('update', 'first')), counts(0, 0, 1));
+    assert.deepEqual(await load('update', document('update', 'second')), counts(0, 1, 0));
+    assert.equal((await stored('update')).passages[0].text, 'second');
+  });
+
+  it('merge-annotations adds the annotations the stored document is missing', async () => {
+    const gene = annotation('1', 'Gene', 0, 'BRCA1');
+    const disease = annotation('2', 'Disease', 10, 'cancer');
+    await load('merge-annotations', document('merge', 'BRCA1 and cancer', [gene]));
+
+    const merged = document('merge', 'BRCA1 and cancer', [gene, disease]);
+    assert.deepEqual(await load('merge-annotations', merged), counts(0, 1, 0));
+    assert.deepEqual(await load('merge-annotations', merged), counts(0, 0, 1));
+
+    const doc = await stored('merge');
+    assert.deepEqual(doc.annotations.map(stored => stored.annotationId), ['1', '2']);
+    // The merged document hashes like the same document loaded in one go
+    assert.equal(doc.contentHash, DocumentRowBuilder.build(merged, doc.collectionId).document.contentHash);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DocumentRowBuilder, DocumentRows } from '../src/documentRows.js';
+import { AnnotationData, DocumentData, InfonData, RelationData } from '../src/types.js';
+
+const infon = (key: string, value: string): InfonData => ({ attributes: { key }, _text: value });
+
+function annotation(id: string, type: string, offset: number, text: string): AnnotationData {
+  return { attributes: { id }, infon: [infon('type', type), infon('identifier', `ID:${id}`)], location: [{ attributes: { offset, length: text.length } }], text };
+}
+
+function relation(id: string, ...refids: string[]): RelationData {
+  return { attributes: { id }, infon: [infon('type', 'Association')], node: refids.map((refid, index) => ({ attributes: { refid, role: `role${index}` } })) };
+}
+
+function document(): DocumentData {
+  return {
+    id: 'PMC1',
+    infon: [infon('license', 'CC0'), infon('keyword', 'a'), infon('keyword', 'b')],
+    passage: [
+      {
+        offset: 0,
+        infon: [infon('type', 'front'), infon('section_type', 'TITLE')],
+        text: 'BRCA1 and cancer',
+        annotation: [annotation('1', 'Gene', 0, 'BRCA1'), annotation('2', 'Disease', 10, 'cancer')],
+        sentence: [{ offset: 0, text: 'BRCA1 and cancer', annotation: [annotation('3', 'Gene', 0, 'BRCA1')] }],
+        relation: [relation('R2', '1', '2'), relation('R10', '2', '3')],
+      },
+      { offset: 17, infon: [infon('type', 'abstract')], text: 'More text.' },
+    ],
+  };
+}
+
+const hash = (doc: DocumentData) => DocumentRowBuilder.build(doc, 'collection').document.contentHash;
+
+/** The rows in reverse order, as a database may return them in any order */
+function reversed(rows: DocumentRows): DocumentRows {
+  const reversedRows = Object.entries(rows).map(([table, items]) => [table, Array.isArray(items) ? [...items].reverse() : items]);
+  return Object.fromEntries(reversedRows) as DocumentRows;
+}
+
+describe('DocumentRowBuilder.contentHash', () => {
+  // Every build generates new row ids
+  it('is the same for the same content', () => {
+    assert.equal(hash(document()), hash(document()));
+    assert.match(hash(document()), /^[0-9a-f]{64}$/);
+  });
+
+  it('does not depend on the order of infons, annotations, relations or nodes', () => {
+    const doc = document();
+    const passage = doc.passage![0];
+    doc.infon!.reverse();
+    passage.infon!.reverse();
+    passage.annotation!.reverse();
+    passage.relation!.reverse();
+    passage.relation![0].node!.reverse();
+    assert.equal(hash(doc), hash(document()));
+  });
+
+  it('is the same for the rows read back in any order', () => {
+    const rows = DocumentRowBuilder.build(document(), 'collection');
+    assert.equal(DocumentRowBuilder.contentHash(reversed(rows)), rows.document.contentHash);
+  });
+
+  it('keeps repeated infon keys apart', () => {
+    const doc = document();
+    doc.infon = doc.infon!.filter(item => item._text !== 'b');
+    assert.notEqual(hash(doc), hash(document()));
+  });
+
+  it('changes with text, annotations, locations, relations and passages', () => {
+    const changes: ((doc: DocumentData) => void)[] = [
+      doc => doc.passage![1].text = 'Other text.',
+      doc => doc.passage![0].annotation!.pop(),
+      doc => doc.passage![0].sentence![0].annotation![0].location![0].attributes.offset = 1,
+      doc => doc.passage![0].annotation![0].infon!.push(infon('note', 'x')),
+      doc => doc.passage![0].relation![0].node![0].attributes.role = 'other',
+      doc => doc.passage!.pop(),
+    ];
+    for (const change of changes) {
+      const doc = document();
+      change(doc);
+      assert.notEqual(hash(doc), hash(document()));
+    }
+  });
+
+  it('tells an annotation of a sentence from one of its passage', () => {
+    const doc = document();
+    const passage = doc.passage![0];
+    passage.annotation!.push(...passage.sentence![0].annotation!);
+    passage.sentence![0].annotation = [];
+    assert.notEqual(hash(doc), hash(document()));
+  });
+});
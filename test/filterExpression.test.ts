@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FilterSyntaxError } from '../src/errors.js';
+import { FilterExpression } from '../src/filterExpression.js';
+import { AnnotationData, DocumentData, PassageData } from '../src/types.js';
+
+function annotation(type: string, identifier = ''): AnnotationData {
+  return {
+    attributes: { id: '' },
+    infon: [{ attributes: { key: 'type' }, _text: type }, { attributes: { key: 'identifier' }, _text: identifier }],
+  };
+}
+
+function passage(section: string, annotations: AnnotationData[]): PassageData {
+  return { infon: [{ attributes: { key: 'section_type' }, _text: section }], annotation: annotations };
+}
+
+// A title with a gene, an abstract with a disease and a chemical, and methods with two diseases
+const doc: DocumentData = {
+  id: 'PMC1',
+  passage: [
+    passage('TITLE', [annotation('Gene', '672')]),
+    passage('ABSTRACT', [annotation('Disease', 'MESH:D001943'), annotation('Chemical', 'MESH:C000;MESH:D002')]),
+    passage('METHODS', [annotation('Disease', 'MESH:D009369'), annotation('Disease', 'MESH:D001943')]),
+  ],
+};
+
+const matches = (expression: string) => FilterExpression.parse(expression).matches(doc);
+
+describe('FilterExpression', () => {
+  it('matches types and identifiers case-insensitively', () => {
+    assert.equal(matches('gene'), true);
+    assert.equal(matches('672'), true);
+    assert.equal(matches('Species'), false);
+  });
+
+  it('combines terms with AND, OR, NOT and parentheses', () => {
+    assert.equal(matches('Gene AND Disease'), true);
+    assert.equal(matches('Gene AND Species'), false);
+    assert.equal(matches('Species OR Chemical'), true);
+    assert.equal(matches('NOT Species'), true);
+    assert.equal(matches('Gene AND NOT (Disease OR Species)'), false);
+    // NOT binds tighter than AND, which binds tighter than OR
+    assert.equal(matches('Species AND Gene OR Chemical'), true);
+    assert.equal(matches('NOT Gene OR Species'), false);
+  });
+
+  it('restricts terms to a field and expands wildcards', () => {
+    assert.equal(matches('type:Gene'), true);
+    assert.equal(matches('id:Gene'), false);
+    assert.equal(matches('id:MESH:D0*'), true);
+    assert.equal(matches('id:MESH:D1*'), false);
+  });
+
+  it('matches each part of a separated identifier', () => {
+    assert.equal(matches('id:MESH:D002'), true);
+  });
+
+  it('counts annotations', () => {
+    assert.equal(matches('Disease>=3'), true);
+    assert.equal(matches('Disease>=4'), false);
+  });
+
+  it('evaluates passage() within a single passage', () => {
+    assert.equal(matches('passage(Disease AND Chemical)'), true);
+    assert.equal(matches('passage(Gene AND Disease)'), false);
+  });
+
+  it('evaluates section() on the passages of the given sections', () => {
+    assert.equal(matches('section(abstract, Chemical)'), true);
+    assert.equal(matches('section(title|methods, Chemical)'), false);
+    assert.equal(matches('section(methods, Disease>=2)'), true);
+  });
+
+  it('accepts quoted values', () => {
+    const withSpace = { passage: [passage('TITLE', [annotation('Cell Line')])] };
+    assert.equal(FilterExpression.parse('"cell line"').matches(withSpace), true);
+  });
+
+  it('reports the position of syntax errors', () => {
+    assert.throws(() => FilterExpression.parse(''), FilterSyntaxError);
+    assert.throws(() => FilterExpression.parse('Gene AND ('), /at position 11/);
+    assert.throws(() => FilterExpression.parse('Gene)'), FilterSyntaxError);
+    assert.throws(() => FilterExpression.parse('unknown(Gene)'), /Unknown function "unknown"/);
+    assert.throws(() => FilterExpression.parse('"Gene'), /Unterminated quote/);
+  });
+
+  it('builds expressions from lists of values', () => {
+    const anyOf = FilterExpression.anyOf(['Gene', 'Disease']);
+    assert.equal(anyOf, '"Gene" OR "Disease"');
+    assert.equal(FilterExpression.allOf([anyOf, '']), anyOf);
+    assert.equal(FilterExpression.parse(FilterExpression.allOf([anyOf, 'NOT Chemical'])).matches(doc), false);
+  });
+
+  it('requires in the raw text only what every match needs', () => {
+    assert.equal(FilterExpression.parse('NOT Gene').textRequirement(), null);
+    assert.equal(FilterExpression.parse('Gene OR NOT Disease').textRequirement(), null);
+    const requirement = FilterExpression.parse('Gene AND (Disease OR Chemical)').textRequirement();
+    assert.equal(requirement?.kind, 'all');
+  });
+});
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GlobPattern } from '../src/globPattern.js';
+
+const matches = (pattern: string, path: string) => new GlobPattern(pattern).matches(path);
+
+describe('GlobPattern', () => {
+  it('matches patterns without a slash against the file name at any depth', () => {
+    assert.equal(matches('*.tmp', 'a.tmp'), true);
+    assert.equal(matches('*.tmp', 'x/y/a.tmp'), true);
+    assert.equal(matches('*.tmp', 'a.tmp.xml'), false);
+  });
+
+  it('keeps * within one path segment', () => {
+    assert.equal(matches('out/*.xml', 'out/a.xml'), true);
+    assert.equal(matches('out/*.xml', 'out/sub/a.xml'), false);
+  });
+
+  it('matches any number of directories with **', () => {
+    assert.equal(matches('out/**/*.xml', 'out/a.xml'), true);
+    assert.equal(matches('out/**/*.xml', 'out/1/2/a.xml'), true);
+    assert.equal(matches('9/**', '9'), true);
+    assert.equal(matches('9/**', '9/a/b.xml'), true);
+    assert.equal(matches('9/**', '19/a.xml'), false);
+  });
+
+  it('supports ?, alternatives and character classes', () => {
+    assert.equal(matches('file-?.json', 'file-1.json'), true);
+    assert.equal(matches('file-?.json', 'file-10.json'), false);
+    assert.equal(matches('*.{xml,json}', 'a.json'), true);
+    assert.equal(matches('*.{xml,json}', 'a.txt'), false);
+    assert.equal(matches('[0-4]/*', '3/a.xml'), true);
+    assert.equal(matches('[!0-4]/*', '3/a.xml'), false);
+  });
+
+  it('ignores case, a leading ./ and a trailing slash', () => {
+    assert.equal(matches('*.XML.GZ', 'a.BioC.xml.gz'), true);
+    assert.equal(matches('./old/', 'old'), true);
+  });
+
+  it('rejects empty patterns', () => {
+    assert.throws(() => new GlobPattern('  '), /empty/);
+  });
+});
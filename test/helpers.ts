@@ -0,0 +1,23 @@
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { BiocStream, DocumentData, InfonData } from '../src/types.js';
+
+/** Path of a file in test/fixtures */
+export function fixture(name: string): string {
+  return join(fileURLToPath(new URL('.', import.meta.url)), 'fixtures', name);
+}
+
+/** Reads every document of a parsed input */
+export async function collect(stream: BiocStream | Promise<BiocStream>): Promise<{ collection: BiocStream['collection']; documents: DocumentData[] }> {
+  const { collection, documents } = await stream;
+  const all: DocumentData[] = [];
+  for await (const doc of documents) {
+    all.push(doc);
+  }
+  return { collection, documents: all };
+}
+
+/** Infons as a key-value object, for comparing them in assertions */
+export function infons(items: InfonData[] | undefined): Record<string, string> {
+  return Object.fromEntries((items ?? []).map(infon => [infon.attributes.key, infon._text]));
+}
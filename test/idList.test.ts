@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { IdList } from '../src/idList.js';
+
+describe('IdList', () => {
+  it('keeps PMIDs and PMCIDs apart', () => {
+    assert.equal(IdList.normalize('pmc0123'), 'PMC123');
+    assert.equal(IdList.normalize('pmid:123'), '123');
+    assert.equal(IdList.normalize('PMID123'), '123');
+    assert.equal(IdList.normalize('doi:10.1/x'), null);
+
+    const ids = new IdList(['PMC123', 'PMID:456', '456']);
+    assert.equal(ids.size, 2);
+    assert.deepEqual(ids.ids, ['PMC123', 'PMID:456']);
+    assert.equal(ids.includes('pmc123'), true);
+    assert.equal(ids.includes('123'), false);
+    assert.equal(ids.includes(456), true);
+    assert.equal(ids.includes('PMC456'), false);
+  });
+
+  it('digests the same IDs alike in any order or form', () => {
+    assert.equal(new IdList(['PMC1', '2']).digest(), new IdList(['PMID:2', 'pmc001']).digest());
+    assert.notEqual(new IdList(['PMC1', '2']).digest(), new IdList(['1', '2']).digest());
+  });
+
+  it('looks up stored documents by the exact IDs requested', () => {
+    assert.deepEqual(new IdList(['pmc0123', 'PMID:456', '456', 'PMC456']).storedForms(), ['456', 'PMC123', 'PMC456']);
+  });
+
+  it('reads files, skipping comments and entries that are not IDs', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'idlist-'));
+    const path = join(dir, 'ids.txt');
+    writeFileSync(path, '# cohort\nPMC1, PMC2;3\n\n4 not-an-id\n');
+    assert.deepEqual(IdList.fromFile(path).ids, ['PMC1', 'PMC2', '3', '4']);
+
+    writeFileSync(path, '# nothing\n');
+    assert.throws(() => IdList.fromFile(path), /No PMIDs or PMCIDs/);
+  });
+
+  it('tells found, excluded, loaded and missing IDs apart', () => {
+    const ids = new IdList(['1', '2', '3', '4']);
+    ids.markFound('1');
+    ids.markExcluded('2');
+    ids.markExcluded('1');
+    ids.markLoaded('PMC3');
+    ids.markLoaded('3');
+    ids.markFound('999');
+
+    assert.deepEqual(ids.excluded(), ['2']);
+    assert.deepEqual(ids.loaded(), ['3']);
+    assert.deepEqual(ids.missing(), ['4']);
+  });
+
+  it('passes marks on from another list', () => {
+    const worker = new IdList(['1', '2']);
+    worker.markFound('1');
+    worker.markExcluded('2');
+    const marks = worker.takeMarks();
+    assert.deepEqual(worker.takeMarks(), { found: [], excluded: [] });
+
+    const main = new IdList(['1', '2']);
+    main.addMarks(marks);
+    assert.deepEqual(main.missing(), []);
+    assert.deepEqual(main.excluded(), ['2']);
+  });
+});
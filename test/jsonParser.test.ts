@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { describe, it } from 'node:test';
+import { DocumentReader } from '../src/documentReader.js';
+import { JsonParser } from '../src/jsonParser.js';
+import { collect, fixture, infons } from './helpers.js';
+
+describe('JsonParser', () => {
+  it('reads a pretty-printed BioC JSON collection', async () => {
+    const { collection, documents } = await collect(new JsonParser().parseFile(fixture('sample.json')));
+
+    assert.equal(collection.key, 'BioC.key');
+    assert.equal(documents.length, 1);
+    const passage = documents[0].passage![0];
+    assert.deepEqual(infons(passage.infon), { type: 'front', section_type: 'TITLE' });
+    // Numbers are read as text, like XML infons
+    assert.deepEqual(infons(passage.annotation![0].infon), { type: 'Gene', identifier: '672' });
+    assert.equal(passage.annotation![1].text, 'breast cancer');
+    assert.deepEqual(passage.relation![0].node!.map(node => node.attributes), [{ refid: '1', role: 'Gene' }, { refid: '2', role: 'Disease' }]);
+  });
+
+  it('reads one document per line', async () => {
+    const lines = [
+      JSON.stringify({ id: '1', infons: {}, passages: [{ offset: 0, infons: {}, text: 'a', annotations: [] }] }),
+      JSON.stringify({ id: '2', infons: {}, passages: [] }),
+    ].join('\n');
+    const { documents } = await collect(new JsonParser().parseStream(Readable.from([lines])));
+    assert.deepEqual(documents.map(doc => doc.id), ['1', '2']);
+  });
+
+  it('reads documents without passages line by line', async () => {
+    const lines = [JSON.stringify({ id: '1', infons: {} }), JSON.stringify({ id: '2', passages: [] })].join('\n');
+    const { documents } = await collect(new JsonParser().parseStream(Readable.from([lines])));
+    assert.deepEqual(documents.map(doc => doc.id), ['1', '2']);
+  });
+
+  it('rejects content after a collection on the first line', async () => {
+    const lines = [JSON.stringify({ source: 'PubTator', documents: [{ id: '1', passages: [] }] }), '', JSON.stringify({ id: '2', passages: [] })].join('\n');
+    await assert.rejects(new JsonParser().parseStream(Readable.from([lines])), /content follows the collection/);
+    const { documents } = await collect(new JsonParser().parseStream(Readable.from([lines.split('\n')[0] + '\n\n'])));
+    assert.deepEqual(documents.map(doc => doc.id), ['1']);
+  });
+});
+
+describe('DocumentReader', () => {
+  it('detects the format from the file name', () => {
+    assert.equal(DocumentReader.formatFromName('a.BioC.XML.gz'), 'xml');
+    assert.equal(DocumentReader.formatFromName('a.jsonl'), 'json');
+    assert.equal(DocumentReader.formatFromName('a.biocjson'), 'json');
+    assert.equal(DocumentReader.formatFromName('a.txt'), null);
+  });
+
+  it('detects the format from the content', () => {
+    assert.equal(DocumentReader.formatFromContent('﻿  <?xml'), 'xml');
+    assert.equal(DocumentReader.formatFromContent('[{"id": 1}]'), 'json');
+    assert.equal(DocumentReader.formatFromContent('hello'), null);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { Manifest } from '../src/manifest.js';
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+describe('Manifest', () => {
+  it('reads paths with optional checksums and sizes', () => {
+    const hash = sha256('x');
+    const manifest = Manifest.parse([
+      '# release 1',
+      'a.xml',
+      `${hash}  b.xml`,
+      `c.xml ${hash.toUpperCase()} 12`,
+      'd e.xml\t12\t',
+      '',
+    ].join('\n'), 'release.sha256', '/data');
+
+    assert.deepEqual(manifest.entries, [
+      { path: '/data/a.xml', line: 2 },
+      { path: '/data/b.xml', sha256: hash, line: 3 },
+      { path: '/data/c.xml', sha256: hash, size: 12, line: 4 },
+      { path: '/data/d e.xml', size: 12, line: 5 },
+    ]);
+    assert.equal(manifest.info.source, 'release.sha256');
+  });
+
+  it('rejects fields that are neither a checksum nor a size, and empty manifests', () => {
+    assert.throws(() => Manifest.parse('a.xml abc', 'm', '/data'), /Line 1 of manifest m: "abc"/);
+    assert.throws(() => Manifest.parse('# only a comment\n', 'm', '/data'), /No files listed/);
+  });
+
+  it('refuses files that are missing or do not match', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'manifest-'));
+    writeFileSync(join(dir, 'good.xml'), 'good');
+    writeFileSync(join(dir, 'changed.xml'), 'changed');
+    writeFileSync(join(dir, 'short.xml'), 'short');
+    mkdirSync(join(dir, 'more'));
+    writeFileSync(join(dir, 'more', 'c.json'), '{}');
+    writeFileSync(join(dir, 'more', 'notes.txt'), '');
+
+    const manifest = Manifest.parse([
+      `good.xml ${sha256('good')} 4`,
+      `changed.xml ${sha256('before')}`,
+      'short.xml 100',
+      'missing.xml',
+      'more',
+    ].join('\n'), 'm', dir);
+    const { files, refused } = await manifest.verify();
+
+    assert.deepEqual(files, [join(dir, 'good.xml'), join(dir, 'more', 'c.json')]);
+    assert.deepEqual(refused.map(file => file.path), ['changed.xml', 'short.xml', 'missing.xml'].map(name => join(dir, name)));
+    assert.match(refused[0].reason, /^SHA-256 is /);
+    assert.equal(refused[1].reason, 'size is 5 bytes, expected 100');
+    assert.match(refused[2].reason, /^cannot be read/);
+  });
+});
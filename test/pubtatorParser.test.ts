@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DocumentReader } from '../src/documentReader.js';
+import { PubtatorParser } from '../src/pubtatorParser.js';
+import { collect, fixture, infons } from './helpers.js';
+
+describe('PubtatorParser', () => {
+  it('turns titles, abstracts, mentions and CID lines into BioC structures', async () => {
+    const { documents } = await collect(new PubtatorParser().parseFile(fixture('sample.pubtator')));
+    assert.deepEqual(documents.map(doc => doc.id), ['12345', '678']);
+
+    const [title, abstract] = documents[0].passage!;
+    assert.equal(title.text, 'BRCA1 in breast cancer');
+    assert.deepEqual(infons(title.infon), { type: 'front', section_type: 'TITLE' });
+    assert.deepEqual(title.annotation!.map(annotation => annotation.text), ['BRCA1', 'breast cancer']);
+    // Mentions go to the passage holding their start offset
+    assert.equal(abstract.offset, 23);
+    assert.deepEqual(abstract.annotation![0].location![0].attributes, { offset: 35, length: 5 });
+    assert.deepEqual(infons(documents[0].relation![0].infon), { type: 'CID', Chemical: 'D1', Disease: 'D2' });
+  });
+
+  it('is detected by name and content', () => {
+    assert.equal(DocumentReader.formatFromName('a.pubtator'), 'pubtator');
+    assert.equal(DocumentReader.formatFromName('a.PubTator.txt'), 'pubtator');
+    assert.equal(DocumentReader.formatFromContent('123|t|Title\n'), 'pubtator');
+  });
+});
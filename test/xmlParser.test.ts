@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { XmlParser } from '../src/xmlParser.js';
+import { collect, fixture, infons } from './helpers.js';
+
+describe('XmlParser', () => {
+  it('reads the collection header and every document', async () => {
+    const { collection, documents } = await collect(new XmlParser().parseFile(fixture('sample.xml')));
+
+    assert.equal(collection.source, 'PubTator');
+    assert.equal(collection.date, '20240101');
+    assert.deepEqual(infons(collection.infon), { license: 'CC0' });
+    assert.deepEqual(documents.map(doc => doc.id), ['PMC111', '222']);
+  });
+
+  it('reads passages, entities and annotations with several locations', async () => {
+    const { documents } = await collect(new XmlParser().parseFile(fixture('sample.xml')));
+
+    const [title, abstract] = documents[0].passage!;
+    assert.equal(title.offset, 0);
+    assert.equal(title.text, 'Breast & ovarian cancer');
+    assert.deepEqual(infons(title.infon), { section_type: 'TITLE', type: 'front' });
+    assert.deepEqual(title.annotation![0].location!.map(location => location.attributes), [{ offset: 0, length: 6 }, { offset: 16, length: 13 }]);
+    assert.equal(abstract.offset, 30);
+    assert.deepEqual(infons(abstract.annotation![0].infon), { identifier: '672', type: 'Gene' });
+  });
+});